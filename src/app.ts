@@ -9,6 +9,7 @@ import mongoSanitize from 'express-mongo-sanitize';
 import { env } from './config/env';
 import { requestLogger } from './middleware/requestLogger.middleware';
 import { connectionMonitorMiddleware, getConnectionMetrics, getDetailedConnectionStatus } from './middleware/connectionMonitor.middleware';
+import { keepUnsanitizedBody } from './middleware/enhancedSecurity.middleware';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
@@ -23,6 +24,9 @@ import sectionsItemsRoutes from './routes/sectionItem.routes';
 import webSiteRoutes from './routes/webSite.routes'
 import webSiteThem from './routes/webSiteTheme.route'
 import contactForm from './routes/contact.routes'
+import sharedBlockRoutes from './routes/sharedBlock.routes';
+import sectionBlueprintRoutes from './routes/sectionBlueprint.routes';
+import graphqlRoutes from './routes/graphql.routes';
 
 import { errorHandler, notFoundHandler } from './middleware/errorHandler.middleware';
 import logger from './config/logger';
@@ -67,6 +71,7 @@ app.use(express.urlencoded({
 }));
 
 // Sanitize request data (prevent NoSQL injection & XSS)
+app.use(keepUnsanitizedBody);
 app.use(xss());
 app.use(mongoSanitize());
 
@@ -149,6 +154,9 @@ app.use(`/api/${apiVersion}/section-items`, sectionsItemsRoutes);
 app.use(`/api/${apiVersion}/websites`, webSiteRoutes);
 app.use(`/api/${apiVersion}/themes`, webSiteThem);
 app.use(`/api/${apiVersion}/contactForm`, contactForm);
+app.use(`/api/${apiVersion}/shared-blocks`, sharedBlockRoutes);
+app.use(`/api/${apiVersion}/blueprints`, sectionBlueprintRoutes);
+app.use(`/api/${apiVersion}/graphql`, graphqlRoutes);
 
 // Enhanced health check route with simple connection status
 app.get('/health', async (req, res) => {
@@ -44,5 +44,53 @@ export const env = {
 
   // Cloudinary settings
   cloudinaryUrl: process.env.CLOUDINARY_URL,
+
+  // Background scheduler for publishAt / unpublishAt windows
+  publishScheduler: {
+    enabled: process.env.PUBLISH_SCHEDULER_ENABLED !== 'false',
+    intervalMs: parseInt(process.env.PUBLISH_SCHEDULER_INTERVAL_MS || '60000', 10), // 1 minute
+  },
+
+  // Trash bin: trashed content is purged for good once the retention period is over
+  trash: {
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10), // 0 keeps it until purged by hand
+    purgeIntervalMs: parseInt(process.env.TRASH_PURGE_INTERVAL_MS || '3600000', 10), // 1 hour
+  },
+
+  // Machine translation used to pre-fill missing translations ('stub' is deterministic and offline)
+  machineTranslation: {
+    provider: process.env.MT_PROVIDER || 'stub',
+    endpoint: process.env.MT_ENDPOINT,
+    apiKey: process.env.MT_API_KEY,
+    timeoutMs: parseInt(process.env.MT_TIMEOUT_MS || '30000', 10),
+    batchSize: parseInt(process.env.MT_BATCH_SIZE || '50', 10), // texts per provider call
+  },
+
+  // Read-only GraphQL API; queries deeper or costlier than the limits are rejected before they run
+  graphql: {
+    maxDepth: parseInt(process.env.GRAPHQL_MAX_DEPTH || '10', 10),
+    maxComplexity: parseInt(process.env.GRAPHQL_MAX_COMPLEXITY || '5000', 10),
+    introspection: process.env.GRAPHQL_INTROSPECTION
+      ? process.env.GRAPHQL_INTROSPECTION === 'true'
+      : process.env.NODE_ENV !== 'production',
+  },
+
+  // Conditional GETs and cache headers on public reads, so a CDN can sit in front of the API
+  httpCache: {
+    enabled: process.env.HTTP_CACHE_ENABLED !== 'false',
+    maxAge: parseInt(process.env.HTTP_CACHE_MAX_AGE || '0', 10), // seconds browsers reuse a response before revalidating
+    sMaxAge: parseInt(process.env.HTTP_CACHE_S_MAXAGE || '60', 10), // seconds shared caches (CDNs) reuse it
+    staleWhileRevalidate: parseInt(process.env.HTTP_CACHE_STALE_WHILE_REVALIDATE || '30', 10),
+  },
+
+  // Cache of the heavy content reads; 'memory' is per process, for local use and tests
+  responseCache: {
+    driver: process.env.RESPONSE_CACHE_DRIVER
+      || (process.env.REDIS_URL ? 'redis' : process.env.NODE_ENV === 'production' ? 'none' : 'memory'),
+    redisUrl: process.env.REDIS_URL,
+    keyPrefix: process.env.RESPONSE_CACHE_PREFIX || 'cms:',
+    ttlSeconds: parseInt(process.env.RESPONSE_CACHE_TTL_SECONDS || '300', 10),
+    memoryMaxEntries: parseInt(process.env.RESPONSE_CACHE_MEMORY_MAX_ENTRIES || '1000', 10),
+  },
 };
 
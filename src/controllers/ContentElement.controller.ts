@@ -3,12 +3,14 @@ import { sendSuccess } from '../utils/responseHandler';
 import { AppError, asyncHandler } from '../middleware/errorHandler.middleware';
 import mongoose from 'mongoose';
 import ContentElementService from '../services/ContentElement.service';
+import contentRevisionService from '../services/contentRevision.service';
+import { wantsDrafts } from '../utils/contentDraft';
 import fs from 'fs-extra';
 import { File } from 'multer';
 
 class ContentElementController {
   createContentElement = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const contentElement = await ContentElementService.createContentElement(req.body);
+    const contentElement = await ContentElementService.createContentElement(req.body, { authorId: req.user?.id });
     sendSuccess(res, contentElement, 'Content element created successfully', 201);
   });
 
@@ -26,7 +28,8 @@ class ContentElementController {
 
       const updatedElement = await ContentElementService.uploadElementImage(
         req.params.id,
-        file
+        file,
+        { authorId: req.user?.id }
       );
 
       sendSuccess(res, updatedElement, 'Content element image uploaded successfully');
@@ -53,7 +56,8 @@ class ContentElementController {
 
       const updatedElement = await ContentElementService.uploadElementFile(
         req.params.id,
-        file
+        file,
+        { authorId: req.user?.id }
       );
 
       sendSuccess(res, updatedElement, 'Content element file uploaded successfully');
@@ -70,7 +74,8 @@ class ContentElementController {
     const populateTranslations = req.query.translations === 'true';
     const contentElement = await ContentElementService.getContentElementById(
       req.params.id,
-      populateTranslations
+      populateTranslations,
+      wantsDrafts(req)
     );
 
     sendSuccess(res, contentElement, 'Content element retrieved successfully');
@@ -83,7 +88,8 @@ class ContentElementController {
     const contentElements = await ContentElementService.getContentElementsBySubsection(
       req.params.subsectionId,
       activeOnly,
-      populateTranslations
+      populateTranslations,
+      wantsDrafts(req)
     );
 
     sendSuccess(res, contentElements, 'Content elements retrieved successfully');
@@ -92,7 +98,8 @@ class ContentElementController {
   updateContentElement = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const contentElement = await ContentElementService.updateContentElement(
       req.params.id,
-      req.body
+      req.body,
+      { authorId: req.user?.id }
     );
 
     sendSuccess(res, contentElement, 'Content element updated successfully');
@@ -103,7 +110,8 @@ class ContentElementController {
 
     const result = await ContentElementService.deleteContentElement(
       req.params.id,
-      hardDelete
+      hardDelete,
+      { authorId: req.user?.id }
     );
 
     sendSuccess(res, result, result.message);
@@ -125,10 +133,69 @@ class ContentElementController {
       }
     });
 
-    const result = await ContentElementService.updateElementsOrder(elements);
+    const result = await ContentElementService.updateElementsOrder(elements, { authorId: req.user?.id });
 
     sendSuccess(res, result, result.message);
   });
+
+  /**
+   * List revisions of a content element and its translations
+   * @route GET /api/content-elements/:id/revisions
+   */
+  getElementRevisions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const includeTranslations = req.query.translations !== 'false';
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = parseInt(req.query.skip as string) || 0;
+
+    const result = await contentRevisionService.getElementRevisions(
+      req.params.id,
+      includeTranslations,
+      req.query.languageId as string | undefined,
+      limit,
+      skip
+    );
+
+    sendSuccess(res, result, 'Revisions retrieved successfully');
+  });
+
+  /**
+   * Compare two revisions of the same element or translation
+   * @route GET /api/content-elements/:id/revisions/diff?from=:revisionId&to=:revisionId
+   */
+  diffElementRevisions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { from, to } = req.query;
+
+    if (!from || !to) {
+      throw AppError.badRequest('Both "from" and "to" revision IDs are required');
+    }
+
+    const diff = await contentRevisionService.diffRevisions(from as string, to as string, req.params.id);
+
+    sendSuccess(res, diff, 'Revision diff generated successfully');
+  });
+
+  /**
+   * Get a single revision with its snapshot
+   * @route GET /api/content-elements/:id/revisions/:revisionId
+   */
+  getElementRevision = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const revision = await contentRevisionService.getRevisionById(req.params.revisionId, req.params.id);
+    sendSuccess(res, revision, 'Revision retrieved successfully');
+  });
+
+  /**
+   * Restore an element or translation to an earlier revision
+   * @route POST /api/content-elements/:id/revisions/:revisionId/restore
+   */
+  restoreElementRevision = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const restored = await contentRevisionService.restoreRevision(
+      req.params.revisionId,
+      req.params.id,
+      req.user?.id
+    );
+
+    sendSuccess(res, restored, 'Revision restored successfully');
+  });
 }
 
 export default new ContentElementController();
\ No newline at end of file
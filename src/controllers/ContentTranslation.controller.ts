@@ -3,6 +3,8 @@ import { sendSuccess } from '../utils/responseHandler';
 import mongoose from 'mongoose';
 import ContentTranslationService from '../services/ContentTranslation.service';
 import { AppError, asyncHandler } from '../middleware/errorHandler.middleware';
+import { wantsDrafts } from '../utils/contentDraft';
+import { withRichTextOutput } from '../utils/richText';
 
 class ContentTranslationController {
   /**
@@ -10,7 +12,10 @@ class ContentTranslationController {
    * @route POST /api/translations
    */
   createTranslation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const translation = await ContentTranslationService.createTranslation(req.body);
+    const translation = await ContentTranslationService.createTranslation(
+      { ...req.body, rawContent: req.unsanitizedBody?.content },
+      { authorId: req.user?.id }
+    );
     sendSuccess(res, translation, 'Translation created successfully', 201);
   });
 
@@ -19,8 +24,8 @@ class ContentTranslationController {
    * @route GET /api/translations/:id
    */
   getTranslationById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const translation = await ContentTranslationService.getTranslationById(req.params.id);
-    sendSuccess(res, translation, 'Translation retrieved successfully');
+    const translation = await ContentTranslationService.getTranslationById(req.params.id, wantsDrafts(req));
+    sendSuccess(res, withRichTextOutput(req, translation), 'Translation retrieved successfully');
   });
 
   /**
@@ -32,10 +37,11 @@ class ContentTranslationController {
     
     const translations = await ContentTranslationService.getTranslationsByContentElement(
       req.params.elementId,
-      activeOnly
+      activeOnly,
+      wantsDrafts(req)
     );
     
-    sendSuccess(res, translations, 'Translations retrieved successfully');
+    sendSuccess(res, withRichTextOutput(req, translations), 'Translations retrieved successfully');
   });
 
   /**
@@ -47,10 +53,11 @@ class ContentTranslationController {
     
     const translations = await ContentTranslationService.getTranslationsByLanguage(
       req.params.languageId,
-      activeOnly
+      activeOnly,
+      wantsDrafts(req)
     );
     
-    sendSuccess(res, translations, 'Translations retrieved successfully');
+    sendSuccess(res, withRichTextOutput(req, translations), 'Translations retrieved successfully');
   });
 
   /**
@@ -60,14 +67,15 @@ class ContentTranslationController {
   getTranslation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const translation = await ContentTranslationService.getTranslation(
       req.params.elementId,
-      req.params.languageId
+      req.params.languageId,
+      wantsDrafts(req)
     );
     
     if (!translation) {
       throw AppError.notFound('Translation not found');
     }
     
-    sendSuccess(res, translation, 'Translation retrieved successfully');
+    sendSuccess(res, withRichTextOutput(req, translation), 'Translation retrieved successfully');
   });
 
   /**
@@ -77,7 +85,8 @@ class ContentTranslationController {
   updateTranslation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const translation = await ContentTranslationService.updateTranslation(
       req.params.id,
-      req.body
+      { ...req.body, rawContent: req.unsanitizedBody?.content },
+      { authorId: req.user?.id }
     );
     
     sendSuccess(res, translation, 'Translation updated successfully');
@@ -92,7 +101,8 @@ class ContentTranslationController {
     
     const result = await ContentTranslationService.deleteTranslation(
       req.params.id,
-      hardDelete
+      hardDelete,
+      { authorId: req.user?.id }
     );
     
     sendSuccess(res, result, result.message);
@@ -111,7 +121,7 @@ class ContentTranslationController {
     
     // Validate each translation in the array
     translations.forEach((translation, index) => {
-      if (!translation.content) {
+      if (!translation.content && translation.items === undefined) {
         throw AppError.validation(`Content is required for translation at index ${index}`);
       }
       
@@ -127,7 +137,13 @@ class ContentTranslationController {
       }
     });
     
-    const result = await ContentTranslationService.bulkUpsertTranslations(translations);
+    const result = await ContentTranslationService.bulkUpsertTranslations(
+      translations.map((translation, index) => ({
+        ...translation,
+        rawContent: req.unsanitizedBody?.translations?.[index]?.content,
+      })),
+      { authorId: req.user?.id }
+    );
     
     sendSuccess(res, result, `Processed ${translations.length} translations successfully`);
   });
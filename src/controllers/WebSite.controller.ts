@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 
 import { WebSiteProps } from '../types/WebSite.type';
 import { WebSiteService } from '../services/WebSite.service';
+import webSiteBundleService from '../services/webSiteBundle.service';
 import { AppError } from '../middleware/errorHandler.middleware';
 import mongoose from 'mongoose';
 import { File } from 'multer';
@@ -185,6 +186,73 @@ export class WebSiteController {
     }
   }
   
+  /**
+   * Deep clone a website with its languages, themes and content
+   * @route POST /api/websites/:id/clone
+   */
+  async cloneWebSite(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user.id; // Assuming req.user is set by auth middleware
+
+      const result = await webSiteService.cloneWebSite(id, userId, { name: req.body?.name });
+
+      res.status(201).json({
+        status: 'success',
+        data: result,
+        message: result.message
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download a website's full content graph as a versioned JSON bundle
+   * @route GET /api/websites/:id/export
+   */
+  async exportWebSite(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const bundle = await webSiteBundleService.exportBundle(req.params.id, req.user.id);
+      const fileName = `${bundle.website.name || 'website'}`.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase();
+
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.bundle.json"`);
+      res.status(200).json(bundle);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Import a website bundle as a new website, or into an existing one when an ID is given.
+   * With `?dryRun=true` only the validation and conflict report is returned.
+   * @route POST /api/websites/import
+   * @route POST /api/websites/:id/import
+   */
+  async importWebSite(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const dryRun = req.query.dryRun === 'true';
+      const rawTranslations = req.unsanitizedBody?.contentTranslations;
+
+      const report = await webSiteBundleService.importBundle(req.body, req.user.id, {
+        targetWebSiteId: req.params.id,
+        name: typeof req.query.name === 'string' ? req.query.name : undefined,
+        dryRun,
+        rawTranslationContents: Array.isArray(rawTranslations)
+          ? rawTranslations.map((translation: any) => translation?.content)
+          : undefined,
+      });
+
+      res.status(dryRun ? 200 : 201).json({
+        status: 'success',
+        data: report,
+        message: dryRun ? 'Website bundle checked' : 'Website bundle imported successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Add a user to a website
    * @route POST /api/websites/:id/users
@@ -0,0 +1,55 @@
+import { Request, Response } from 'express';
+import { AppError, asyncHandler } from '../middleware/errorHandler.middleware';
+import graphqlService from '../services/graphql.service';
+import { IGraphQLRequest } from '../types/GraphQL.type';
+import { languageRequestFrom } from '../utils/languageNegotiation';
+import { memberWebSiteIds } from '../utils/webSiteAccess';
+
+class GraphQLController {
+  /**
+   * Read-only GraphQL API over websites and their content; responds in the GraphQL format
+   * (`{ data, errors }`) rather than the usual envelope
+   * @route POST /api/graphql { query, variables, operationName }
+   * @route GET /api/graphql?query=...&variables={...}&lang=ar&draft=true
+   */
+  query = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    // Queries are read as sent: escaping would alter string literals
+    const params = req.method === 'GET' ? req.query : (req.unsanitizedBody ?? req.body ?? {});
+
+    const { status, body } = await graphqlService.execute(
+      {
+        query: params.query as string,
+        variables: this.parseVariables(params.variables),
+        operationName: (params.operationName as string) || null,
+      },
+      languageRequestFrom(req),
+      await this.draftWebSiteIds(req)
+    );
+
+    res.status(status).json(body);
+  });
+
+  // A query may reach any website, so drafts are served for the websites the reader is a member of
+  private async draftWebSiteIds(req: Request): Promise<string[]> {
+    if (req.query.draft !== 'true') return [];
+
+    if (!req.user) {
+      throw AppError.authentication('Authentication required to preview drafts');
+    }
+    return memberWebSiteIds(req.user.id);
+  }
+
+  // GET requests send variables as a JSON string
+  private parseVariables(variables: unknown): IGraphQLRequest['variables'] {
+    if (typeof variables !== 'string') return (variables as IGraphQLRequest['variables']) ?? null;
+    if (variables.trim() === '') return null;
+
+    try {
+      return JSON.parse(variables);
+    } catch {
+      throw AppError.badRequest('GraphQL variables must be valid JSON');
+    }
+  }
+}
+
+export default new GraphQLController();
@@ -8,7 +8,10 @@ const languageService = new LanguageService();
 export class LanguageController {
   // Create a new language
   createLanguage = asyncHandler(async (req: Request, res: Response) => {
-    const { language, languageID, isActive, websiteId, subSections } = req.body;
+    const {
+      language, languageID, isActive, websiteId, subSections, fallbacks,
+      locale, direction, nativeName, pluralCategories, formats, order
+    } = req.body;
     
     if (!language || !languageID) {
       throw AppError.badRequest('Language name and language ID are required');
@@ -23,7 +26,14 @@ export class LanguageController {
       languageID,
       isActive,
       websiteId,
-      subSections
+      subSections,
+      fallbacks,
+      locale,
+      direction,
+      nativeName,
+      pluralCategories,
+      formats,
+      order
     });
     
     sendSuccess(res, newLanguage, 'Language created successfully', 201);
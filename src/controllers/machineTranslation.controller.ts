@@ -0,0 +1,48 @@
+import { Request, Response } from 'express';
+import { sendSuccess } from '../utils/responseHandler';
+import { AppError, asyncHandler } from '../middleware/errorHandler.middleware';
+import machineTranslationService from '../services/machineTranslation.service';
+
+class MachineTranslationController {
+  /**
+   * Machine-translate the missing translations of a language; results are marked for review
+   * @route POST /api/websites/:id/translations/machine-fill?target=ar&source=en&provider=stub
+   */
+  fillMissingTranslations = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { target, source, provider } = req.query as Record<string, string>;
+
+    if (!target) {
+      throw AppError.badRequest('The target language code is required');
+    }
+
+    const report = await machineTranslationService.fillMissingTranslations(
+      req.params.id,
+      { target, source, provider },
+      { authorId: req.user?.id }
+    );
+
+    sendSuccess(
+      res,
+      report,
+      `Machine translation: ${report.created.length} created, ${report.skipped.length} skipped, ${report.failed.length} failed`
+    );
+  });
+
+  /**
+   * Machine translations of a language that still need review
+   * @route GET /api/websites/:id/translations/review?language=ar
+   */
+  getTranslationsToReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { language } = req.query as Record<string, string>;
+
+    if (!language) {
+      throw AppError.badRequest('The language code is required');
+    }
+
+    const translations = await machineTranslationService.getTranslationsToReview(req.params.id, req.user.id, language);
+
+    sendSuccess(res, translations, 'Translations to review retrieved successfully');
+  });
+}
+
+export default new MachineTranslationController();
@@ -3,6 +3,10 @@ import { Request, Response } from 'express';
 import { sendSuccess } from '../utils/responseHandler';
 import { SectionService } from '../services/section.service';
 import { AppError, asyncHandler } from '../middleware/errorHandler.middleware';
+import contentPublishService from '../services/contentPublish.service';
+import { wantsDrafts } from '../utils/contentDraft';
+import { withRichTextOutput } from '../utils/richText';
+import { languageRequestFrom, setContentLanguage } from '../utils/languageNegotiation';
 
 /**
  * Section Controller
@@ -44,17 +48,13 @@ export class SectionController {
    * 🎯 UPDATED: Create a new section with multilingual support
    */
   createSection = asyncHandler(async (req: Request, res: Response) => {
-    const { name, description, image, isActive, order, WebSiteId, subName } = req.body;
+    const { name, description, image, isActive, order, WebSiteId, subName, publishAt, unpublishAt } = req.body;
     
     // 🎯 NEW: Validate multilingual name structure
     if (!name || typeof name !== 'object') {
       throw AppError.badRequest('Multilingual name object is required');
     }
     
-    if (!name.en || !name.ar || !name.tr) {
-      throw AppError.badRequest('Section name is required in all languages (en, ar, tr)');
-    }
-    
     if (!subName) {
       throw AppError.badRequest('subName is required');
     }
@@ -63,24 +63,16 @@ export class SectionController {
       throw AppError.badRequest('WebSiteId is required');
     }
     
-    // 🎯 NEW: Prepare multilingual description
-    const multilingualDescription = {
-      en: description?.en || '',
-      ar: description?.ar || '',
-      tr: description?.tr || ''
-    };
-    
+    // Names and descriptions are checked against the website's languages by the service
     const section = await this.sectionService.createSection({
-      name: {
-        en: name.en.trim(),
-        ar: name.ar.trim(),
-        tr: name.tr.trim()
-      },
+      name,
       subName,
-      description: multilingualDescription,
+      description,
       image,
       isActive,
       order,
+      publishAt,
+      unpublishAt,
       WebSiteId
     });
     
@@ -102,11 +94,11 @@ export class SectionController {
     
     // 🎯 FIXED: Use proper typing for transformed data
     let responseData: any[];
-    if (language && ['en', 'ar', 'tr'].includes(language as string)) {
+    if (typeof language === 'string' && language) {
       responseData = sections.map(section => ({
         ...section.toObject(),
-        displayName: this.sectionService.getSectionNameByLanguage(section, language as 'en' | 'ar' | 'tr'),
-        displayDescription: this.sectionService.getSectionDescriptionByLanguage(section, language as 'en' | 'ar' | 'tr')
+        displayName: this.sectionService.getSectionNameByLanguage(section, language),
+        displayDescription: this.sectionService.getSectionDescriptionByLanguage(section, language)
       }));
     } else {
       responseData = sections.map(section => section.toObject());
@@ -137,12 +129,12 @@ export class SectionController {
     }
     
     let responseData = section.toObject();
-    if (language && ['en', 'ar', 'tr'].includes(language as string)) {
+    if (typeof language === 'string' && language) {
       responseData = {
         ...responseData,
-        displayName: this.sectionService.getSectionNameByLanguage(section, language as 'en' | 'ar' | 'tr'),
+        displayName: this.sectionService.getSectionNameByLanguage(section, language),
         
-        displayDescription: this.sectionService.getSectionDescriptionByLanguage(section, language as 'en' | 'ar' | 'tr')
+        displayDescription: this.sectionService.getSectionDescriptionByLanguage(section, language)
       };
     }
     
@@ -165,25 +157,6 @@ export class SectionController {
         throw AppError.badRequest('Name must be a multilingual object');
       }
       
-      if (!req.body.name.en || !req.body.name.ar || !req.body.name.tr) {
-        throw AppError.badRequest('Section name is required in all languages (en, ar, tr)');
-      }
-      
-      // Trim all names
-      req.body.name = {
-        en: req.body.name.en.trim(),
-        ar: req.body.name.ar.trim(),
-        tr: req.body.name.tr.trim()
-      };
-    }
-    
-    // 🎯 NEW: Handle multilingual description if provided
-    if (req.body.description && typeof req.body.description === 'object') {
-      req.body.description = {
-        en: req.body.description.en || '',
-        ar: req.body.description.ar || '',
-        tr: req.body.description.tr || ''
-      };
     }
     
     const section = await this.sectionService.updateSection(id, req.body);
@@ -224,7 +197,7 @@ export class SectionController {
   });
 
   /**
-   * Delete section (unchanged)
+   * Move a section and its content to the trash
    */
     deleteSection = asyncHandler(async (req: Request, res: Response) => {
       const { id } = req.params;
@@ -233,35 +206,49 @@ export class SectionController {
         throw AppError.badRequest('Section ID is required');
       }
       
-      const result = await this.sectionService.deleteSection(id);
+      const result = await this.sectionService.deleteSection(id, req.user?.id);
       
-      return sendSuccess(res, result, 'Section deleted successfully');
+      return sendSuccess(res, result, 'Section moved to trash');
     });
 
   /**
-   * Get section with content by ID and language (unchanged)
+   * Get section with content in one language, falling back along the language's chain.
+   * The language comes from `languageId` or `lang`, else the Accept-Language header, else the website default.
+   * @route GET /api/sections/:id/content
    */
   getSectionWithContent = asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
-    const { languageId } = req.query;
     
     if (!id) {
       throw AppError.badRequest('Section ID is required');
     }
     
-    if (!languageId) {
-      throw AppError.badRequest('Language ID is required');
-    }
-    
-    const section = await this.sectionService.getSectionWithContent(id, languageId as string);
+    const section = await this.sectionService.getSectionWithContent(id, languageRequestFrom(req), wantsDrafts(req));
     
     if (!section) {
       throw AppError.notFound('Section not found');
     }
     
-    return sendSuccess(res, section, 'Section with content retrieved successfully');
+    setContentLanguage(res, section.contentLanguage);
+    return sendSuccess(res, withRichTextOutput(req, section), 'Section with content retrieved successfully');
   });
   
+  /**
+   * Publish all pending drafts of a section's elements and translations
+   * @route POST /api/sections/:id/publish
+   */
+  publishSection = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!id) {
+      throw AppError.badRequest('Section ID is required');
+    }
+
+    const result = await contentPublishService.publishSection(id);
+
+    return sendSuccess(res, result, result.message);
+  });
+
   /**
    * Get section with all related data (section items and subsections) (unchanged)
    */
@@ -309,11 +296,11 @@ export class SectionController {
     
     // 🎯 FIXED: Use proper typing for transformed data
     let responseData: any[];
-    if (language && ['en', 'ar', 'tr'].includes(language as string)) {
+    if (typeof language === 'string' && language) {
       responseData = sections.map(section => ({
         ...section,
-        displayName: this.sectionService.getSectionNameByLanguage(section, language as 'en' | 'ar' | 'tr'),
-        displayDescription: this.sectionService.getSectionDescriptionByLanguage(section, language as 'en' | 'ar' | 'tr')
+        displayName: this.sectionService.getSectionNameByLanguage(section, language),
+        displayDescription: this.sectionService.getSectionDescriptionByLanguage(section, language)
       }));
     } else {
       responseData = sections;
@@ -342,11 +329,11 @@ export class SectionController {
     
     // 🎯 FIXED: Use proper typing for transformed data
     let responseData: any[];
-    if (language && ['en', 'ar', 'tr'].includes(language as string)) {
+    if (typeof language === 'string' && language) {
       responseData = sections.map(section => ({
         ...section.toObject(),
-        displayName: this.sectionService.getSectionNameByLanguage(section, language as 'en' | 'ar' | 'tr'),
-        displayDescription: this.sectionService.getSectionDescriptionByLanguage(section, language as 'en' | 'ar' | 'tr')
+        displayName: this.sectionService.getSectionNameByLanguage(section, language),
+        displayDescription: this.sectionService.getSectionDescriptionByLanguage(section, language)
       }));
     } else {
       responseData = sections.map(section => section.toObject());
@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import { sendSuccess } from '../utils/responseHandler';
+import { AppError, asyncHandler } from '../middleware/errorHandler.middleware';
+import sectionBlueprintService from '../services/sectionBlueprint.service';
+
+class SectionBlueprintController {
+  /**
+   * Create a blueprint from a structure description
+   * @route POST /api/blueprints
+   */
+  createBlueprint = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const blueprint = await sectionBlueprintService.createBlueprint(req.body, req.user?.id);
+    sendSuccess(res, blueprint, 'Blueprint created successfully', 201);
+  });
+
+  /**
+   * Capture an existing section as a blueprint
+   * @route POST /api/blueprints/from-section/:sectionId
+   */
+  createBlueprintFromSection = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { name, description, withTranslations } = req.body;
+
+    if (!name) {
+      throw AppError.badRequest('Blueprint name is required');
+    }
+
+    const blueprint = await sectionBlueprintService.createBlueprintFromSection(
+      req.params.sectionId,
+      { name, description, withTranslations: withTranslations === true },
+      req.user?.id
+    );
+
+    sendSuccess(res, blueprint, 'Blueprint created from section successfully', 201);
+  });
+
+  /**
+   * List blueprints
+   * @route GET /api/blueprints
+   */
+  getBlueprints = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = parseInt(req.query.skip as string) || 0;
+
+    const result = await sectionBlueprintService.getBlueprints(limit, skip);
+    sendSuccess(res, result, 'Blueprints retrieved successfully');
+  });
+
+  /**
+   * Get a blueprint with its full structure
+   * @route GET /api/blueprints/:id
+   */
+  getBlueprintById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const blueprint = await sectionBlueprintService.getBlueprintById(req.params.id);
+    sendSuccess(res, blueprint, 'Blueprint retrieved successfully');
+  });
+
+  /**
+   * Update a blueprint
+   * @route PUT /api/blueprints/:id
+   */
+  updateBlueprint = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const blueprint = await sectionBlueprintService.updateBlueprint(req.params.id, req.body);
+    sendSuccess(res, blueprint, 'Blueprint updated successfully');
+  });
+
+  /**
+   * Delete a blueprint
+   * @route DELETE /api/blueprints/:id
+   */
+  deleteBlueprint = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const result = await sectionBlueprintService.deleteBlueprint(req.params.id);
+    sendSuccess(res, result, result.message);
+  });
+
+  /**
+   * Create a section in a website from a blueprint
+   * @route POST /api/blueprints/:id/materialize
+   */
+  materializeBlueprint = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { webSiteId, name, subName, isActive, withTranslations } = req.body;
+
+    if (!webSiteId) {
+      throw AppError.badRequest('Website ID is required');
+    }
+
+    const result = await sectionBlueprintService.materializeBlueprint(
+      req.params.id,
+      { webSiteId, name, subName, isActive, withTranslations: withTranslations === true },
+      req.user.id
+    );
+
+    sendSuccess(res, result, result.message, 201);
+  });
+}
+
+export default new SectionBlueprintController();
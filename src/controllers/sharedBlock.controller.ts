@@ -0,0 +1,78 @@
+import { Request, Response } from 'express';
+import { sendSuccess } from '../utils/responseHandler';
+import { asyncHandler } from '../middleware/errorHandler.middleware';
+import sharedBlockService from '../services/sharedBlock.service';
+import contentPublishService from '../services/contentPublish.service';
+import { wantsDrafts } from '../utils/contentDraft';
+import { withRichTextOutput } from '../utils/richText';
+
+class SharedBlockController {
+  /**
+   * Create a shared block for a website
+   * @route POST /api/shared-blocks
+   */
+  createSharedBlock = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const block = await sharedBlockService.createSharedBlock(req.body);
+    sendSuccess(res, block, 'Shared block created successfully', 201);
+  });
+
+  /**
+   * List the shared blocks of a website
+   * @route GET /api/shared-blocks/website/:websiteId
+   */
+  getSharedBlocksByWebSite = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const activeOnly = req.query.activeOnly === 'true';
+
+    const blocks = await sharedBlockService.getSharedBlocksByWebSite(req.params.websiteId, activeOnly);
+    sendSuccess(res, blocks, 'Shared blocks retrieved successfully');
+  });
+
+  /**
+   * Get a shared block with its elements and translations
+   * @route GET /api/shared-blocks/:id
+   */
+  getSharedBlockById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const activeOnly = req.query.activeOnly !== 'false'; // Default true
+
+    const block = await sharedBlockService.getSharedBlockById(req.params.id, activeOnly, wantsDrafts(req));
+    sendSuccess(res, withRichTextOutput(req, block), 'Shared block retrieved successfully');
+  });
+
+  /**
+   * List the subsections embedding a shared block
+   * @route GET /api/shared-blocks/:id/references
+   */
+  getBlockReferences = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const references = await sharedBlockService.getBlockReferences(req.params.id);
+    sendSuccess(res, references, 'Shared block references retrieved successfully');
+  });
+
+  /**
+   * Update the name, description or status of a shared block
+   * @route PUT /api/shared-blocks/:id
+   */
+  updateSharedBlock = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const block = await sharedBlockService.updateSharedBlock(req.params.id, req.body);
+    sendSuccess(res, block, 'Shared block updated successfully');
+  });
+
+  /**
+   * Publish all pending drafts of a shared block's elements and translations
+   * @route POST /api/shared-blocks/:id/publish
+   */
+  publishSharedBlock = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const result = await contentPublishService.publishSharedBlock(req.params.id);
+    sendSuccess(res, result, result.message);
+  });
+
+  /**
+   * Move an unused shared block to the trash
+   * @route DELETE /api/shared-blocks/:id
+   */
+  deleteSharedBlock = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const result = await sharedBlockService.deleteSharedBlock(req.params.id, req.user?.id);
+    sendSuccess(res, result, result.message);
+  });
+}
+
+export default new SharedBlockController();
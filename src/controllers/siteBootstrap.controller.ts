@@ -0,0 +1,25 @@
+import { Request, Response } from 'express';
+import { sendSuccess } from '../utils/responseHandler';
+import { asyncHandler } from '../middleware/errorHandler.middleware';
+import siteBootstrapService from '../services/siteBootstrap.service';
+import { wantsDrafts } from '../utils/contentDraft';
+import { languageRequestFrom, setContentLanguage } from '../utils/languageNegotiation';
+import { wantsRenderedRichText } from '../utils/richText';
+
+class SiteBootstrapController {
+  /**
+   * Website, language, theme, navigation and content tree for a frontend's first render
+   * @route GET /api/websites/:id/bootstrap?lang=ar&richText=html&draft=true
+   */
+  getBootstrap = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const bootstrap = await siteBootstrapService.getBootstrap(req.params.id, languageRequestFrom(req), {
+      includeDrafts: wantsDrafts(req),
+      renderRichText: wantsRenderedRichText(req),
+    });
+
+    setContentLanguage(res, bootstrap.language.code);
+    sendSuccess(res, bootstrap, 'Site bootstrap retrieved successfully');
+  });
+}
+
+export default new SiteBootstrapController();
@@ -3,6 +3,11 @@ import { sendSuccess } from '../utils/responseHandler';
 import mongoose from 'mongoose';
 import subSectionService from '../services/subSection.service';
 import { AppError, asyncHandler } from '../middleware/errorHandler.middleware';
+import contentPublishService from '../services/contentPublish.service';
+import { wantsDrafts } from '../utils/contentDraft';
+import { withRichTextOutput } from '../utils/richText';
+import { languageRequestFrom, setContentLanguage } from '../utils/languageNegotiation';
+import languageResolutionService from '../services/languageResolution.service';
 
 class SubSectionController {
   /**
@@ -65,10 +70,13 @@ class SubSectionController {
       req.params.sectionId,
       activeOnly,
       limit,
-      skip
+      skip,
+      wantsDrafts(req)
     );
     
-    sendSuccess(res, subsections, 'Complete subsections retrieved successfully');
+    const contentLanguage = await languageResolutionService.localizeSubsections(subsections, languageRequestFrom(req));
+    setContentLanguage(res, contentLanguage);
+    sendSuccess(res, withRichTextOutput(req, subsections), 'Complete subsections retrieved successfully');
   });
 
   /**
@@ -91,7 +99,7 @@ class SubSectionController {
   
   /**
    * Get subsection by slug
-   * @route GET /api/subsections/slug/:slug
+   * @route GET /api/subsections/slug/:slug?websiteId=:websiteId
    */
   getSubSectionBySlug = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const populateSectionItem = req.query.populate !== 'false';
@@ -100,10 +108,14 @@ class SubSectionController {
     const subsection = await subSectionService.getSubSectionBySlug(
       req.params.slug, 
       populateSectionItem,
-      includeContentElements
+      includeContentElements,
+      languageRequestFrom(req),
+      req.query.websiteId as string
     );
     
-    sendSuccess(res, subsection, 'Subsection retrieved successfully');
+    sendSuccess(res, subsection, subsection.get('redirect')
+      ? 'Subsection has moved to a new slug'
+      : 'Subsection retrieved successfully');
   });
 
   
@@ -174,25 +186,41 @@ class SubSectionController {
     const populateSectionItem = req.query.populate !== 'false';
     const subsection = await subSectionService.getCompleteSubSectionById(
       req.params.id, 
-      populateSectionItem
+      populateSectionItem,
+      wantsDrafts(req)
     );
     
-    sendSuccess(res, subsection, 'Complete subsection data retrieved successfully');
+    const contentLanguage = await languageResolutionService.localizeSubsections([subsection], languageRequestFrom(req));
+    setContentLanguage(res, contentLanguage);
+    sendSuccess(res, withRichTextOutput(req, subsection), 'Complete subsection data retrieved successfully');
   });
     
   /**
    * Get complete subsection by slug with all content elements and translations
-   * @route GET /api/subsections/slug/:slug/complete
+   * @route GET /api/subsections/slug/:slug/complete?lang=tr&websiteId=:websiteId
    */
   getCompleteSubSectionBySlug = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const populateSectionItem = req.query.populate !== 'false';
+    const languageRequest = languageRequestFrom(req);
     
     const subsection = await subSectionService.getCompleteSubSectionBySlug(
       req.params.slug, 
-      populateSectionItem
+      populateSectionItem,
+      wantsDrafts(req),
+      languageRequest,
+      req.query.websiteId as string
     );
     
-    sendSuccess(res, subsection, 'Complete subsection data retrieved successfully');
+    // A localized slug serves its own language unless the request names one
+    const explicit = languageRequest.languageId || languageRequest.lang;
+    const contentLanguage = await languageResolutionService.localizeSubsections(
+      [subsection],
+      explicit || !subsection.slugLanguage ? languageRequest : { ...languageRequest, lang: subsection.slugLanguage }
+    );
+    setContentLanguage(res, contentLanguage);
+    sendSuccess(res, withRichTextOutput(req, subsection), subsection.redirect
+      ? 'Subsection has moved to a new slug'
+      : 'Complete subsection data retrieved successfully');
   });
 
   /**
@@ -210,7 +238,8 @@ class SubSectionController {
       activeOnly,
       limit,
       skip,
-      includeContentCount
+      includeContentCount,
+      wantsDrafts(req)
     );
     
     sendSuccess(res, subsections, 'Subsections retrieved successfully');
@@ -249,10 +278,13 @@ class SubSectionController {
       req.params.websiteId,
       activeOnly,
       limit,
-      skip
+      skip,
+      wantsDrafts(req)
     );
     
-    sendSuccess(res, subsections, 'Complete subsections retrieved successfully');
+    const contentLanguage = await languageResolutionService.localizeSubsections(subsections, languageRequestFrom(req));
+    setContentLanguage(res, contentLanguage);
+    sendSuccess(res, withRichTextOutput(req, subsections), 'Complete subsections retrieved successfully');
   });
   /**
  * Get main subsection for a WebSite
@@ -407,7 +439,8 @@ class SubSectionController {
             activeOnly,
             limit,
             skip,
-            includeContentCount
+            includeContentCount,
+            wantsDrafts(req)
         );
         
         sendSuccess(res, subsections, 'Subsections retrieved successfully');
@@ -426,7 +459,8 @@ class SubSectionController {
             req.params.websiteId,
             activeOnly,
             limit,
-            skip
+            skip,
+            wantsDrafts(req)
         );
         
         if (navigationSubsections.length === 0) {
@@ -434,7 +468,17 @@ class SubSectionController {
             return;
         }
         
-        sendSuccess(res, navigationSubsections, `Found ${navigationSubsections.length} navigation subsection(s)`);
+        sendSuccess(res, withRichTextOutput(req, navigationSubsections), `Found ${navigationSubsections.length} navigation subsection(s)`);
+    });
+
+    /**
+     * Publish all pending drafts of a subsection's elements and translations
+     * @route POST /api/subsections/:id/publish
+     */
+    publishSubSection = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const result = await contentPublishService.publishSubSection(req.params.id);
+
+        sendSuccess(res, result, result.message);
     });
 
 }
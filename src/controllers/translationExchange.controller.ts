@@ -0,0 +1,56 @@
+import { Request, Response } from 'express';
+import { sendSuccess } from '../utils/responseHandler';
+import { AppError, asyncHandler } from '../middleware/errorHandler.middleware';
+import translationExchangeService from '../services/translationExchange.service';
+
+class TranslationExchangeController {
+  /**
+   * Download a website's translations for a language pair (format: xliff, csv or po)
+   * @route GET /api/websites/:id/translations/export?source=en&target=ar&format=xliff&version=1.2
+   */
+  exportTranslations = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { source, target, format, version } = req.query as Record<string, string>;
+
+    if (!source || !target) {
+      throw AppError.badRequest('Both source and target language codes are required');
+    }
+
+    const file = await translationExchangeService.exportTranslations(req.params.id, req.user.id, {
+      source,
+      target,
+      format: format || 'xliff',
+      version,
+    });
+
+    res.setHeader('Content-Type', `${file.contentType}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.status(200).send(file.body);
+  });
+
+  /**
+   * Import a translated file (sent as the raw request body)
+   * @route POST /api/websites/:id/translations/import?format=xliff&target=ar
+   */
+  importTranslations = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { format, target } = req.query as Record<string, string>;
+
+    if (typeof req.body !== 'string' || req.body.trim() === '') {
+      throw AppError.badRequest('Send the translation file as the request body with its file content type');
+    }
+
+    const report = await translationExchangeService.importTranslations(
+      req.params.id,
+      req.body,
+      { format: format || 'xliff', target },
+      { authorId: req.user?.id }
+    );
+
+    sendSuccess(
+      res,
+      report,
+      `Imported translations: ${report.updated.length} updated, ${report.untouched.length} untouched, ${report.rejected.length} rejected`
+    );
+  });
+}
+
+export default new TranslationExchangeController();
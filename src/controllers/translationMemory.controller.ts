@@ -0,0 +1,31 @@
+import { Request, Response } from 'express';
+import { sendSuccess } from '../utils/responseHandler';
+import { AppError, asyncHandler } from '../middleware/errorHandler.middleware';
+import translationMemoryService from '../services/translationMemory.service';
+import { TranslationMemoryScope } from '../types/TranslationMemory.type';
+
+class TranslationMemoryController {
+  /**
+   * Translation memory suggestions for an element (scope: website or all)
+   * @route GET /api/websites/:id/translations/suggestions?element=:elementId&target=ar&source=en&scope=all&minScore=70&limit=10
+   */
+  getSuggestions = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { element, target, source, scope, minScore, limit } = req.query as Record<string, string>;
+
+    if (!element || !target) {
+      throw AppError.badRequest('Both the element ID and the target language code are required');
+    }
+
+    const suggestions = await translationMemoryService.getSuggestions(req.params.id, element, req.user.id, {
+      target,
+      source,
+      scope: scope as TranslationMemoryScope,
+      minScore: minScore !== undefined ? Number(minScore) : undefined,
+      limit: limit !== undefined ? Number(limit) : undefined,
+    });
+
+    sendSuccess(res, suggestions, 'Translation suggestions retrieved successfully');
+  });
+}
+
+export default new TranslationMemoryController();
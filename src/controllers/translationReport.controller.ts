@@ -0,0 +1,24 @@
+import { Request, Response } from 'express';
+import { sendSuccess } from '../utils/responseHandler';
+import { asyncHandler } from '../middleware/errorHandler.middleware';
+import translationReportService from '../services/translationReport.service';
+
+class TranslationReportController {
+  /**
+   * Translation completeness of a website per language
+   * @route GET /api/websites/:id/translations/completeness?language=ar&bySection=true&threshold=90
+   */
+  getCompletenessReport = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { language, bySection, threshold } = req.query as Record<string, string>;
+
+    const report = await translationReportService.getCompletenessReport(req.params.id, req.user.id, {
+      language,
+      bySection: bySection === 'true',
+      threshold: threshold !== undefined ? Number(threshold) : undefined,
+    });
+
+    sendSuccess(res, report, 'Translation completeness report generated successfully');
+  });
+}
+
+export default new TranslationReportController();
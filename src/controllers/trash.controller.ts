@@ -0,0 +1,38 @@
+import { Request, Response } from 'express';
+import { sendSuccess } from '../utils/responseHandler';
+import { asyncHandler } from '../middleware/errorHandler.middleware';
+import trashService from '../services/trash.service';
+
+class TrashController {
+  /**
+   * List trashed sections, shared blocks and websites of a website
+   * @route GET /api/websites/:id/trash
+   */
+  getTrash = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = parseInt(req.query.skip as string) || 0;
+
+    const result = await trashService.getTrash(req.params.id, req.user.id, limit, skip);
+    sendSuccess(res, result, 'Trash retrieved successfully');
+  });
+
+  /**
+   * Restore a trashed subtree
+   * @route POST /api/websites/:id/trash/:entryId/restore
+   */
+  restoreEntry = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const result = await trashService.restoreEntry(req.params.id, req.params.entryId, req.user.id);
+    sendSuccess(res, result, result.message);
+  });
+
+  /**
+   * Permanently delete a trashed subtree and its media
+   * @route DELETE /api/websites/:id/trash/:entryId
+   */
+  purgeEntry = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const result = await trashService.purgeEntry(req.params.id, req.params.entryId, req.user.id);
+    sendSuccess(res, result, result.message);
+  });
+}
+
+export default new TrashController();
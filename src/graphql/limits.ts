@@ -0,0 +1,99 @@
+import {
+  getNamedType,
+  getNullableType,
+  GraphQLError,
+  GraphQLNamedType,
+  isInterfaceType,
+  isListType,
+  isObjectType,
+  Kind,
+  SelectionSetNode,
+  ValidationContext,
+  ValidationRule,
+} from 'graphql';
+
+// Number of entries a list field is assumed to return when estimating cost
+export const LIST_SIZE_ESTIMATE = 5;
+
+/**
+ * Reject operations nesting fields deeper than `maxDepth` (`{ website { sections { name } } }` has depth 3).
+ * Introspection fields do not count.
+ */
+export const depthLimit = (maxDepth: number): ValidationRule => (context: ValidationContext) => {
+  const depthOf = (selectionSet: SelectionSetNode, depth: number, fragments: string[]): number =>
+    selectionSet.selections.reduce((deepest, selection) => {
+      if (selection.kind === Kind.FIELD) {
+        if (selection.name.value.startsWith('__')) return deepest;
+        return Math.max(deepest, selection.selectionSet ? depthOf(selection.selectionSet, depth + 1, fragments) : depth);
+      }
+      if (selection.kind === Kind.INLINE_FRAGMENT) {
+        return Math.max(deepest, depthOf(selection.selectionSet, depth, fragments));
+      }
+
+      // Fragment cycles are reported by the standard rules
+      const fragment = context.getFragment(selection.name.value);
+      if (!fragment || fragments.includes(selection.name.value)) return deepest;
+      return Math.max(deepest, depthOf(fragment.selectionSet, depth, [...fragments, selection.name.value]));
+    }, 0);
+
+  return {
+    OperationDefinition(node) {
+      const depth = depthOf(node.selectionSet, 1, []);
+      if (depth > maxDepth) {
+        context.reportError(new GraphQLError(
+          `Query depth ${depth} exceeds the maximum of ${maxDepth}`,
+          { nodes: [node], extensions: { code: 'QUERY_TOO_DEEP' } }
+        ));
+      }
+    },
+  };
+};
+
+/**
+ * Reject operations whose estimated cost exceeds `maxComplexity`: every field costs 1, and the fields
+ * selected under a list count once per expected entry (LIST_SIZE_ESTIMATE)
+ */
+export const complexityLimit = (maxComplexity: number): ValidationRule => (context: ValidationContext) => {
+  const schema = context.getSchema();
+
+  const costOf = (selectionSet: SelectionSetNode, type: GraphQLNamedType, fragments: string[]): number =>
+    selectionSet.selections.reduce((total, selection) => {
+      if (selection.kind === Kind.FIELD) {
+        if (selection.name.value.startsWith('__')) return total;
+
+        // Unknown fields are reported by the standard rules
+        const field = isObjectType(type) || isInterfaceType(type) ? type.getFields()[selection.name.value] : undefined;
+        if (!field || !selection.selectionSet) return total + 1;
+
+        const childCost = costOf(selection.selectionSet, getNamedType(field.type), fragments);
+        return total + 1 + (isListType(getNullableType(field.type)) ? LIST_SIZE_ESTIMATE : 1) * childCost;
+      }
+      if (selection.kind === Kind.INLINE_FRAGMENT) {
+        const fragmentType = selection.typeCondition && schema.getType(selection.typeCondition.name.value);
+        return total + costOf(selection.selectionSet, fragmentType || type, fragments);
+      }
+
+      const fragment = context.getFragment(selection.name.value);
+      if (!fragment || fragments.includes(selection.name.value)) return total;
+      return total + costOf(
+        fragment.selectionSet,
+        schema.getType(fragment.typeCondition.name.value) || type,
+        [...fragments, selection.name.value]
+      );
+    }, 0);
+
+  return {
+    OperationDefinition(node) {
+      const rootType = schema.getRootType(node.operation);
+      if (!rootType) return;
+
+      const complexity = costOf(node.selectionSet, rootType, []);
+      if (complexity > maxComplexity) {
+        context.reportError(new GraphQLError(
+          `Query complexity ${complexity} exceeds the maximum of ${maxComplexity}`,
+          { nodes: [node], extensions: { code: 'QUERY_TOO_COMPLEX' } }
+        ));
+      }
+    },
+  };
+};
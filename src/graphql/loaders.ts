@@ -0,0 +1,119 @@
+import DataLoader from 'dataloader';
+import WebSiteModel from '../models/WebSite.model';
+import WebSiteThemeModel from '../models/WebSiteTheme.model';
+import LanguagesModel from '../models/languages.model';
+import SectionModel from '../models/sections.model';
+import SectionItemModel from '../models/sectionItems.model';
+import SubSectionModel from '../models/subSections.model';
+import ContentElementModel from '../models/ContentElement.model';
+import ContentTranslationModel from '../models/ContentTranslation.model';
+import { ILanguageResolution } from '../types/languages.types';
+import { draftProjection, publishedOnlyFilter, readableContent } from '../utils/contentDraft';
+import { ILanguageRequest } from '../utils/languageNegotiation';
+import { withLanguageMetadata } from '../utils/languageMetadata';
+import { withScheduledActive } from '../utils/publishSchedule';
+import languageResolutionService from '../services/languageResolution.service';
+import sharedBlockService from '../services/sharedBlock.service';
+
+/**
+ * Loader of documents by ID; missing (or not live) documents load as null
+ */
+const byId = (find: (ids: readonly string[]) => Promise<any[]>) =>
+  new DataLoader<string, any>(async (ids) => {
+    const docs = new Map((await find(ids)).map(doc => [doc._id.toString(), doc]));
+    return ids.map(id => docs.get(id) || null);
+  });
+
+/**
+ * Loader of the documents referencing each key through `field`, in query order
+ */
+const groupedBy = (field: string, find: (ids: readonly string[]) => Promise<any[]>) =>
+  new DataLoader<string, any[]>(async (ids) => {
+    const groups = new Map<string, any[]>();
+    (await find(ids)).forEach((doc) => {
+      const key = doc[field]?.toString();
+      groups.set(key, [...(groups.get(key) || []), doc]);
+    });
+    return ids.map(id => groups.get(id) || []);
+  });
+
+/**
+ * Loaders of elements and translations: active published ones, or with drafts applied
+ */
+const contentLoaders = (includeDrafts: boolean) => {
+  // With drafts the active flag may be overridden, so it is checked after applying them
+  const activeFilter = includeDrafts ? {} : { isActive: true };
+  const live = (docs: any[]) => docs
+    .map(doc => readableContent(doc, includeDrafts))
+    .filter(doc => doc.isActive !== false);
+
+  return {
+    // Reference elements come with their shared block's elements and translations as `block`
+    elementsByParent: groupedBy('parent', async (ids) => {
+      const elements = live(await ContentElementModel.find({
+        parent: { $in: ids },
+        ...activeFilter,
+        ...publishedOnlyFilter(includeDrafts),
+      }).select(draftProjection(includeDrafts)).sort({ order: 1 }).lean<any[]>());
+      if (includeDrafts) {
+        elements.sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+      }
+
+      await sharedBlockService.expandReferences(elements, true, includeDrafts);
+      return elements;
+    }),
+    translationsByElement: groupedBy('contentElement', async ids => live(await ContentTranslationModel.find({
+      contentElement: { $in: ids },
+      ...activeFilter,
+      ...publishedOnlyFilter(includeDrafts),
+    }).select(draftProjection(includeDrafts)).lean<any[]>())),
+  };
+};
+
+/**
+ * Per-request loaders: the lookups of one GraphQL query are batched into a query per collection
+ * and level, and repeated lookups are served from the loader's cache. Content follows the delivery
+ * rules: scheduled-active sections, items and subsections, and active published elements and
+ * translations (with pending drafts applied for the websites in `draftWebSiteIds`).
+ * @param languageRequest The request's language preferences
+ * @param draftWebSiteIds The websites whose unpublished content and pending drafts are served
+ */
+export const createLoaders = (languageRequest: ILanguageRequest, draftWebSiteIds: string[]) => {
+  const published = contentLoaders(false);
+  const drafts = draftWebSiteIds.length ? contentLoaders(true) : published;
+  const previewable = new Set(draftWebSiteIds.map(String));
+
+  return {
+    // Elements and translations of a website's content
+    contentOf: (webSiteId: any) => (webSiteId && previewable.has(webSiteId.toString()) ? drafts : published),
+
+    website: byId(ids => WebSiteModel.find({ _id: { $in: ids } }).lean<any[]>()),
+    section: byId(ids => SectionModel.find(withScheduledActive({ _id: { $in: ids } })).lean<any[]>()),
+    sectionItem: byId(ids => SectionItemModel.find(withScheduledActive({ _id: { $in: ids } })).lean<any[]>()),
+    subsection: byId(ids => SubSectionModel.find(withScheduledActive({ _id: { $in: ids } })).lean<any[]>()),
+    language: byId(async ids => (await LanguagesModel.find({ _id: { $in: ids } }).lean<any[]>()).map(withLanguageMetadata)),
+
+    languagesByWebsite: groupedBy('websiteId', async ids =>
+      (await LanguagesModel.find({ websiteId: { $in: ids } }).sort({ order: 1, createdAt: 1 }).lean<any[]>())
+        .map(withLanguageMetadata)),
+    themesByWebsite: groupedBy('websiteId', ids =>
+      WebSiteThemeModel.find({ websiteId: { $in: ids } }).sort({ createdAt: 1 }).lean<any[]>()),
+    sectionsByWebsite: groupedBy('WebSiteId', ids =>
+      SectionModel.find(withScheduledActive({ WebSiteId: { $in: ids } })).sort({ order: 1 }).lean<any[]>()),
+    itemsBySection: groupedBy('section', ids =>
+      SectionItemModel.find(withScheduledActive({ section: { $in: ids } })).sort({ order: 1 }).lean<any[]>()),
+    subsectionsByItem: groupedBy('sectionItem', ids =>
+      SubSectionModel.find(withScheduledActive({ sectionItem: { $in: ids } })).sort({ order: 1 }).lean<any[]>()),
+
+    // Keyed by `<websiteId>|<language code>`; an empty code resolves the request's own preferences
+    resolution: new DataLoader<string, ILanguageResolution | null>(keys => Promise.all(keys.map((key) => {
+      const [webSiteId, lang] = key.split('|');
+      return languageResolutionService.resolve(
+        webSiteId,
+        lang ? { lang, acceptLanguage: languageRequest.acceptLanguage } : languageRequest
+      );
+    }))),
+  };
+};
+
+export type GraphQLLoaders = ReturnType<typeof createLoaders>;
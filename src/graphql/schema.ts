@@ -0,0 +1,393 @@
+import {
+  GraphQLBoolean,
+  GraphQLFieldConfigArgumentMap,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+} from 'graphql';
+import { Types } from 'mongoose';
+import { AppError } from '../middleware/errorHandler.middleware';
+import { IGraphQLContext } from '../types/GraphQL.type';
+import { ILanguageResolution } from '../types/languages.types';
+import { getLocalizedTextIn } from '../utils/localizedText';
+import languageResolutionService from '../services/languageResolution.service';
+import subSectionService from '../services/subSection.service';
+
+// Element types whose value is a URL, stored on the element itself unless translated
+const MEDIA_TYPES = ['image', 'video', 'file'];
+
+const idOf = (doc: any): string => doc._id.toString();
+
+const checkId = (id: string, label: string): string => {
+  if (!Types.ObjectId.isValid(id)) {
+    throw AppError.validation(`Invalid ${label} ID format`);
+  }
+  return id;
+};
+
+// Text fields take the language to read; without one the request's language is used
+const languageArgs: GraphQLFieldConfigArgumentMap = {
+  language: {
+    type: GraphQLString,
+    description: 'Language code, e.g. "ar"; defaults to the request language (lang, languageId or Accept-Language). Missing texts fall back along the website\'s fallback chain',
+  },
+};
+
+const resolutionFor = (
+  context: IGraphQLContext,
+  webSiteId: any,
+  language?: string | null
+): Promise<ILanguageResolution | null> =>
+  context.loaders.resolution.load(`${webSiteId}|${language || ''}`);
+
+const chainFor = async (context: IGraphQLContext, webSiteId: any, language?: string | null): Promise<string[]> =>
+  ((await resolutionFor(context, webSiteId, language))?.chain || []).map(resolved => resolved.languageID);
+
+// Elements carry the website of their parent, which their values are resolved against
+const elementsOf = async (context: IGraphQLContext, parent: any): Promise<any[]> =>
+  (await context.loaders.contentOf(parent.WebSiteId).elementsByParent.load(idOf(parent)))
+    .map(element => ({ ...element, webSiteId: parent.WebSiteId }));
+
+// Elements of shared blocks come with their translations
+const translationsOf = (context: IGraphQLContext, element: any): Promise<any[]> =>
+  element.translations
+    ? Promise.resolve(element.translations)
+    : context.loaders.contentOf(element.webSiteId).translationsByElement.load(idOf(element));
+
+const pickTranslation = async (context: IGraphQLContext, element: any, language?: string | null) => {
+  const [resolution, translations] = await Promise.all([
+    resolutionFor(context, element.webSiteId, language),
+    translationsOf(context, element),
+  ]);
+  return resolution ? languageResolutionService.pickTranslation(translations, resolution) : null;
+};
+
+const JSONScalar = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Any JSON value',
+  serialize: value => value,
+});
+
+const LanguageFormatsType = new GraphQLObjectType({
+  name: 'LanguageFormats',
+  fields: {
+    date: { type: GraphQLString },
+    time: { type: GraphQLString },
+    decimalSeparator: { type: GraphQLString },
+    groupSeparator: { type: GraphQLString },
+    numberingSystem: { type: GraphQLString },
+  },
+});
+
+const LanguageType = new GraphQLObjectType<any, IGraphQLContext>({
+  name: 'Language',
+  fields: {
+    id: { type: new GraphQLNonNull(GraphQLID), resolve: idOf },
+    code: { type: new GraphQLNonNull(GraphQLString), resolve: language => language.languageID },
+    name: { type: new GraphQLNonNull(GraphQLString), resolve: language => language.language },
+    nativeName: { type: GraphQLString },
+    locale: { type: GraphQLString },
+    direction: { type: new GraphQLNonNull(GraphQLString), resolve: language => language.direction || 'ltr' },
+    pluralCategories: { type: new GraphQLList(new GraphQLNonNull(GraphQLString)) },
+    formats: { type: LanguageFormatsType },
+    fallbacks: { type: new GraphQLList(new GraphQLNonNull(GraphQLString)) },
+    order: { type: GraphQLInt },
+    isActive: { type: new GraphQLNonNull(GraphQLBoolean), resolve: language => !!language.isActive },
+  },
+});
+
+const ThemePaletteType = new GraphQLObjectType({
+  name: 'ThemePalette',
+  fields: ['primary', 'secondary', 'accent', 'background', 'surface', 'text', 'textSecondary', 'border', 'hover', 'success', 'warning', 'error', 'info']
+    .reduce((fields, color) => ({ ...fields, [color]: { type: GraphQLString } }), {}),
+});
+
+const ThemeFontType = new GraphQLObjectType({
+  name: 'ThemeFont',
+  fields: {
+    family: { type: GraphQLString },
+    weight: { type: GraphQLString },
+    size: { type: GraphQLString },
+  },
+});
+
+const ThemeType = new GraphQLObjectType<any, IGraphQLContext>({
+  name: 'Theme',
+  fields: {
+    id: { type: new GraphQLNonNull(GraphQLID), resolve: idOf },
+    name: { type: new GraphQLNonNull(GraphQLString), resolve: theme => theme.themeName },
+    isActive: { type: new GraphQLNonNull(GraphQLBoolean), resolve: theme => !!theme.isActive },
+    colors: {
+      type: new GraphQLObjectType({
+        name: 'ThemeColors',
+        fields: { light: { type: ThemePaletteType }, dark: { type: ThemePaletteType } },
+      }),
+    },
+    fonts: {
+      type: new GraphQLObjectType({
+        name: 'ThemeFonts',
+        fields: { heading: { type: ThemeFontType }, body: { type: ThemeFontType }, accent: { type: ThemeFontType } },
+      }),
+    },
+  },
+});
+
+const ContentTranslationType = new GraphQLObjectType<any, IGraphQLContext>({
+  name: 'ContentTranslation',
+  fields: {
+    id: { type: new GraphQLNonNull(GraphQLID), resolve: idOf },
+    content: { type: GraphQLString },
+    items: { type: JSONScalar },
+    metadata: { type: JSONScalar },
+    language: {
+      type: LanguageType,
+      resolve: (translation, args, context) =>
+        context.loaders.language.load((translation.language?._id || translation.language).toString()),
+    },
+  },
+});
+
+const ContentElementType: GraphQLObjectType = new GraphQLObjectType<any, IGraphQLContext>({
+  name: 'ContentElement',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLID), resolve: idOf },
+    name: { type: GraphQLString },
+    type: { type: GraphQLString },
+    order: { type: GraphQLInt },
+    defaultContent: { type: GraphQLString },
+    imageUrl: { type: GraphQLString },
+    fileUrl: { type: GraphQLString },
+    fileName: { type: GraphQLString },
+    fileSize: { type: GraphQLFloat },
+    fileMimeType: { type: GraphQLString },
+    metadata: { type: JSONScalar },
+    value: {
+      type: GraphQLString,
+      description: 'The content in the language, from its translation along the fallback chain; media fall back to the URL stored on the element',
+      args: languageArgs,
+      resolve: async (element, { language }, context) => {
+        const content = (await pickTranslation(context, element, language))?.translation.content ?? null;
+        if (content === null && MEDIA_TYPES.includes(element.type)) {
+          return (element.type === 'file' ? element.fileUrl : element.imageUrl) || element.defaultContent || null;
+        }
+        return content;
+      },
+    },
+    translation: {
+      type: ContentTranslationType,
+      description: 'The translation the value is read from',
+      args: languageArgs,
+      resolve: async (element, { language }, context) =>
+        (await pickTranslation(context, element, language))?.translation || null,
+    },
+    translations: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ContentTranslationType))),
+      resolve: (element, args, context) => translationsOf(context, element),
+    },
+    blockElements: {
+      type: new GraphQLList(new GraphQLNonNull(ContentElementType)),
+      description: 'Elements of the shared block a reference element points to',
+      resolve: element => (element.type === 'reference' && element.block
+        ? (element.block.elements || []).map((child: any) => ({ ...child, webSiteId: element.webSiteId }))
+        : null),
+    },
+  }),
+});
+
+const elementsField = {
+  type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ContentElementType))),
+  resolve: (parent: any, args: any, context: IGraphQLContext) => elementsOf(context, parent),
+};
+
+const SubSectionType: GraphQLObjectType = new GraphQLObjectType<any, IGraphQLContext>({
+  name: 'SubSection',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLID), resolve: idOf },
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    description: { type: GraphQLString },
+    slug: {
+      type: new GraphQLNonNull(GraphQLString),
+      description: 'The slug in the language, else the base slug',
+      args: languageArgs,
+      resolve: async (subsection, { language }, context) => {
+        const code = (await resolutionFor(context, subsection.WebSiteId, language))?.language.languageID;
+        return (code && subsection.slugs?.[code]) || subsection.slug;
+      },
+    },
+    isMain: { type: new GraphQLNonNull(GraphQLBoolean), resolve: subsection => !!subsection.isMain },
+    order: { type: GraphQLInt },
+    sectionItem: {
+      type: SectionItemType,
+      resolve: (subsection, args, context) =>
+        subsection.sectionItem ? context.loaders.sectionItem.load(subsection.sectionItem.toString()) : null,
+    },
+    website: {
+      type: WebSiteType,
+      resolve: (subsection, args, context) => context.loaders.website.load(subsection.WebSiteId.toString()),
+    },
+    elements: elementsField,
+  }),
+});
+
+const SectionItemType: GraphQLObjectType = new GraphQLObjectType<any, IGraphQLContext>({
+  name: 'SectionItem',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLID), resolve: idOf },
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    description: { type: GraphQLString },
+    image: { type: GraphQLString },
+    isMain: { type: new GraphQLNonNull(GraphQLBoolean), resolve: item => !!item.isMain },
+    order: { type: GraphQLInt },
+    section: {
+      type: SectionType,
+      resolve: (item, args, context) => (item.section ? context.loaders.section.load(item.section.toString()) : null),
+    },
+    subsections: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(SubSectionType))),
+      resolve: (item, args, context) => context.loaders.subsectionsByItem.load(idOf(item)),
+    },
+    elements: elementsField,
+  }),
+});
+
+const SectionType: GraphQLObjectType = new GraphQLObjectType<any, IGraphQLContext>({
+  name: 'Section',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLID), resolve: idOf },
+    subName: { type: new GraphQLNonNull(GraphQLString) },
+    name: {
+      type: new GraphQLNonNull(GraphQLString),
+      args: languageArgs,
+      resolve: async (section, { language }, context) =>
+        getLocalizedTextIn(section.name, await chainFor(context, section.WebSiteId, language)),
+    },
+    description: {
+      type: GraphQLString,
+      args: languageArgs,
+      resolve: async (section, { language }, context) =>
+        getLocalizedTextIn(section.description, await chainFor(context, section.WebSiteId, language)) || null,
+    },
+    image: { type: GraphQLString },
+    order: { type: GraphQLInt },
+    website: {
+      type: WebSiteType,
+      resolve: (section, args, context) => context.loaders.website.load(section.WebSiteId.toString()),
+    },
+    items: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(SectionItemType))),
+      resolve: (section, args, context) => context.loaders.itemsBySection.load(idOf(section)),
+    },
+    elements: elementsField,
+  }),
+});
+
+const WebSiteType: GraphQLObjectType = new GraphQLObjectType<any, IGraphQLContext>({
+  name: 'WebSite',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLID), resolve: idOf },
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    description: { type: GraphQLString },
+    logo: { type: GraphQLString },
+    email: { type: GraphQLString },
+    phoneNumber: { type: GraphQLString },
+    address: { type: GraphQLString },
+    sector: { type: GraphQLString },
+    defaultLanguage: { type: GraphQLString },
+    language: {
+      type: LanguageType,
+      description: 'The language content is served in for the request (or the given language)',
+      args: languageArgs,
+      resolve: async (website, { language }, context) => {
+        const resolution = await resolutionFor(context, idOf(website), language);
+        return resolution ? context.loaders.language.load(resolution.language._id) : null;
+      },
+    },
+    languages: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(LanguageType))),
+      args: { includeInactive: { type: GraphQLBoolean, defaultValue: false } },
+      resolve: async (website, { includeInactive }, context) =>
+        (await context.loaders.languagesByWebsite.load(idOf(website)))
+          .filter(language => includeInactive || language.isActive),
+    },
+    theme: {
+      type: ThemeType,
+      description: 'The active theme',
+      resolve: async (website, args, context) =>
+        (await context.loaders.themesByWebsite.load(idOf(website))).find(theme => theme.isActive) || null,
+    },
+    themes: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ThemeType))),
+      resolve: (website, args, context) => context.loaders.themesByWebsite.load(idOf(website)),
+    },
+    sections: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(SectionType))),
+      resolve: (website, args, context) => context.loaders.sectionsByWebsite.load(idOf(website)),
+    },
+    section: {
+      type: SectionType,
+      args: { subName: { type: new GraphQLNonNull(GraphQLString) } },
+      resolve: async (website, { subName }, context) =>
+        (await context.loaders.sectionsByWebsite.load(idOf(website))).find(section => section.subName === subName) || null,
+    },
+    subsection: {
+      type: SubSectionType,
+      description: 'The subsection a slug points to; localized and previous slugs are matched too',
+      args: { slug: { type: new GraphQLNonNull(GraphQLString) }, ...languageArgs },
+      resolve: (website, { slug, language }, context) => findBySlug(context, idOf(website), slug, language),
+    },
+  }),
+});
+
+const findBySlug = async (context: IGraphQLContext, webSiteId: string, slug: string, language?: string | null) => {
+  const resolved = await subSectionService.resolveSlug(
+    slug,
+    language ? { lang: language, acceptLanguage: context.languageRequest.acceptLanguage } : context.languageRequest,
+    webSiteId
+  );
+  return resolved ? context.loaders.subsection.load(idOf(resolved.subsection)) : null;
+};
+
+const QueryType = new GraphQLObjectType<any, IGraphQLContext>({
+  name: 'Query',
+  fields: {
+    website: {
+      type: WebSiteType,
+      args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+      resolve: (root, { id }, context) => context.loaders.website.load(checkId(id, 'website')),
+    },
+    section: {
+      type: SectionType,
+      args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+      resolve: (root, { id }, context) => context.loaders.section.load(checkId(id, 'section')),
+    },
+    sectionItem: {
+      type: SectionItemType,
+      args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+      resolve: (root, { id }, context) => context.loaders.sectionItem.load(checkId(id, 'section item')),
+    },
+    subsection: {
+      type: SubSectionType,
+      args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+      resolve: (root, { id }, context) => context.loaders.subsection.load(checkId(id, 'subsection')),
+    },
+    subsectionBySlug: {
+      type: SubSectionType,
+      args: {
+        websiteId: { type: new GraphQLNonNull(GraphQLID) },
+        slug: { type: new GraphQLNonNull(GraphQLString) },
+        ...languageArgs,
+      },
+      resolve: (root, { websiteId, slug, language }, context) =>
+        findBySlug(context, checkId(websiteId, 'website'), slug, language),
+    },
+  },
+});
+
+// Read-only: there are no mutations or subscriptions
+export const schema = new GraphQLSchema({ query: QueryType });
@@ -2,6 +2,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/jwt';
 import { UserRole } from '../types/user.types';
+import { isMemberOfAll } from '../utils/webSiteAccess';
 import { AppError, ErrorType } from './errorHandler.middleware';
 
 /**
@@ -45,6 +46,82 @@ export const authenticate = (req: Request, _res: Response, next: NextFunction) =
   }
 };
 
+/**
+ * Attach user info when a valid token is sent, but let anonymous requests through
+ * (public endpoints that offer extra data to signed-in editors). An invalid or expired token
+ * is ignored, unless the request asks for drafts (`?draft=true`), which need a signed-in editor.
+ */
+export const optionalAuthenticate = (req: Request, _res: Response, next: NextFunction) => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return next();
+  }
+
+  try {
+    const decoded = verifyToken(authHeader.split(' ')[1]);
+
+    req.user = {
+      id: decoded.id,
+      email: decoded.email,
+      role: decoded.role,
+    };
+
+    next();
+  } catch (error: any) {
+    if (req.query.draft === 'true') {
+      return next(AppError.authentication('Invalid or expired token', { error: error.message }));
+    }
+    next();
+  }
+};
+
+/**
+ * Let members of the websites a read is built from preview drafts (`?draft=true`, see wantsDrafts);
+ * anyone else asking for drafts is refused. Runs after optionalAuthenticate.
+ * @param scope Finds the websites the read is built from
+ */
+export const authorizeDrafts = (scope: (req: Request) => Promise<string[]>) =>
+  async (req: Request, _res: Response, next: NextFunction) => {
+    if (req.query.draft !== 'true') return next();
+
+    try {
+      if (!req.user) {
+        throw AppError.authentication('Authentication required to preview drafts');
+      }
+      if (!(await isMemberOfAll(req.user.id, (await scope(req)).filter(Boolean)))) {
+        throw AppError.authorization('You do not have access to drafts of this website');
+      }
+
+      req.draftAccess = true;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+/**
+ * Only let members of the websites a document belongs to change it. Runs after authenticate; an
+ * unknown document has no website and is left to the handler to report as not found.
+ * @param scope Finds the websites of the document
+ */
+export const authorizeWebsiteMember = (scope: (req: Request) => Promise<string[]>) =>
+  async (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw AppError.authentication('Authentication required');
+      }
+
+      const webSiteIds = (await scope(req)).filter(Boolean);
+      if (webSiteIds.length > 0 && !(await isMemberOfAll(req.user.id, webSiteIds))) {
+        throw AppError.authorization('You do not have access to this website');
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
 /**
  * Check if user has admin role
  */
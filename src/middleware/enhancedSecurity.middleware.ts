@@ -129,6 +129,15 @@ export const createSpeedLimiter = () => {
   });
 };
 
+// Keep the parsed body before sanitizers replace it (rich text is sanitized with its own allowlist)
+export const keepUnsanitizedBody = (req: Request, res: Response, next: NextFunction) => {
+  req.unsanitizedBody = req.body;
+  next();
+};
+
+// The escaping xss() applies to request strings, for text that reaches the API inside uploaded files
+export const escapeLikeXss = (value: string): string => value.replace(/</g, '&lt;').trim();
+
 // Input sanitization and validation
 export const sanitizeInput = (req: Request, res: Response, next: NextFunction) => {
   const sanitizeObject = (obj: any): any => {
@@ -371,6 +380,7 @@ export const securityStack = [
 
 export default {
   verifyServiceSignature,
+  keepUnsanitizedBody,
   createAdaptiveRateLimit,
   createSpeedLimiter,
   sanitizeInput,
@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { env } from '../config/env';
+import WebSiteModel from '../models/WebSite.model';
+import { ContentKind, websitesOfIds } from '../utils/contentVersion';
+
+// The websites whose content a read is built from
+export type CacheScope = (req: Request) => Promise<string[]>;
+
+/**
+ * Scope of reads naming their website in a route parameter
+ */
+export const websiteParam = (param: string): CacheScope => async req => [req.params[param]];
+
+/**
+ * Scope of reads of one document, by the website it belongs to
+ */
+export const documentParam = (kind: ContentKind, param: string): CacheScope => req =>
+  websitesOfIds(kind, [req.params[param]]);
+
+const cacheControl = (req: Request): string => {
+  // Signed-in readers may be served more than the public; shared caches must not keep it
+  if (req.headers.authorization) return 'private, no-cache';
+
+  const { maxAge, sMaxAge, staleWhileRevalidate } = env.httpCache;
+  return [
+    'public',
+    `max-age=${maxAge}`,
+    `s-maxage=${sMaxAge}`,
+    ...(staleWhileRevalidate > 0 ? [`stale-while-revalidate=${staleWhileRevalidate}`] : []),
+  ].join(', ');
+};
+
+const matches = (ifNoneMatch: string | undefined, etag: string): boolean =>
+  !!ifNoneMatch && ifNoneMatch.split(',').some((tag) => {
+    const value = tag.trim();
+    return value === '*' || value.replace(/^W\//, '') === etag.replace(/^W\//, '');
+  });
+
+/**
+ * Conditional GETs for public reads. The ETag is derived from the content version of the websites
+ * in scope (moved on by every content write), the website itself and the request (URL and
+ * Accept-Language), so it is known before the payload is built: a matching `If-None-Match` is
+ * answered with a 304 without running the handler. Successful responses get `Cache-Control` and a
+ * `Surrogate-Key` per website (`website-<id>`) for purging a CDN. Draft previews are never cached.
+ * @param scope Finds the websites the read is built from
+ */
+export const httpCache = (scope: CacheScope) => async (req: Request, res: Response, next: NextFunction) => {
+  if (!env.httpCache.enabled || (req.method !== 'GET' && req.method !== 'HEAD')) return next();
+
+  if (req.query.draft === 'true') {
+    res.set('Cache-Control', 'private, no-store');
+    return next();
+  }
+
+  try {
+    const webSiteIds = Array.from(new Set((await scope(req)).filter(id => id && Types.ObjectId.isValid(id))));
+    // Unknown documents are left to the handler to report
+    if (webSiteIds.length === 0) return next();
+
+    const websites = await WebSiteModel.find({ _id: { $in: webSiteIds } })
+      .select('contentVersion updatedAt')
+      .sort({ _id: 1 })
+      .lean<any[]>();
+    if (websites.length === 0) return next();
+
+    const validator = [
+      req.originalUrl,
+      req.headers['accept-language'] || '',
+      ...websites.map(website => `${website._id}:${website.contentVersion || 0}:${new Date(website.updatedAt).getTime()}`),
+    ].join('\n');
+    const etag = `W/"${crypto.createHash('sha1').update(validator).digest('base64url')}"`;
+
+    res.vary('Accept-Language');
+    if (matches(req.headers['if-none-match'], etag)) {
+      res.set({ ETag: etag, 'Cache-Control': cacheControl(req) });
+      res.status(304).end();
+      return;
+    }
+
+    // Headers are set when the payload is sent, so error responses are not cached
+    const json = res.json.bind(res);
+    res.json = (body?: any) => {
+      if (res.statusCode < 300) {
+        res.set({
+          ETag: etag,
+          'Cache-Control': cacheControl(req),
+          'Surrogate-Key': websites.map(website => `website-${website._id}`).join(' '),
+        });
+      }
+      return json(body);
+    };
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
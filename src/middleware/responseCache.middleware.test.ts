@@ -0,0 +1,17 @@
+import { Request } from 'express';
+import { cacheKey } from './responseCache.middleware';
+
+describe('response cache keys', () => {
+  const request = (query: Record<string, any>) =>
+    ({ baseUrl: '/api/sections', path: '/1/content', query, get: (): undefined => undefined }) as unknown as Request;
+
+  it('vary with the query parameters the cached reads use', () => {
+    expect(cacheKey(request({ limit: '10' }), ['site'])).not.toBe(cacheKey(request({ limit: '20' }), ['site']));
+    expect(cacheKey(request({ lang: 'ar' }), ['site'])).not.toBe(cacheKey(request({}), ['site']));
+  });
+
+  it('ignore any other query parameter', () => {
+    expect(cacheKey(request({ limit: '10', cachebuster: Math.random().toString() }), ['site']))
+      .toBe(cacheKey(request({ limit: '10' }), ['site']));
+  });
+});
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
+import responseCacheService from '../services/responseCache.service';
+import { ContentKind } from '../utils/contentVersion';
+import { languageRequestFrom, parseAcceptLanguage } from '../utils/languageNegotiation';
+import { CacheScope } from './httpCache.middleware';
+
+// Everything a section or subsection read with its content is built from
+export const CONTENT_TREE: ContentKind[] = [
+  'section',
+  'sectionItem',
+  'subsection',
+  'element',
+  'translation',
+  'sharedBlock',
+  'language',
+];
+
+// Query parameters the cached reads are built from (the language ones aside); any other parameter
+// would only split the cache into more entries
+const VARIANT_PARAMS = ['activeOnly', 'includeContentCount', 'includeInactive', 'limit', 'populate', 'skip', 'websiteId'];
+
+/**
+ * Entry key: the websites, then a hash of the route, the query parameters it reads and the requested language
+ */
+export const cacheKey = (req: Request, webSiteIds: string[]): string => {
+  const languageRequest = languageRequestFrom(req);
+  const query = VARIANT_PARAMS
+    .filter(name => req.query[name] !== undefined)
+    .map(name => `${name}=${JSON.stringify(req.query[name])}`);
+  const variant = [
+    `${req.baseUrl}${req.path}`,
+    ...query,
+    languageRequest.languageId || '',
+    languageRequest.lang || '',
+    parseAcceptLanguage(languageRequest.acceptLanguage).join(','),
+  ].join('\n');
+
+  return `response:${webSiteIds.join(',')}:${crypto.createHash('sha1').update(variant).digest('base64url')}`;
+};
+
+/**
+ * Cache successful responses of heavy reads, per website and requested language. Entries are tagged
+ * with the kinds of content they are built from, and dropped when content of one of those kinds is
+ * written for the website (see onContentChange). Draft previews are never cached; `X-Cache` tells
+ * whether a response was served from the cache.
+ * @param scope Finds the websites the read is built from
+ * @param dependsOn The kinds of content the response is built from
+ */
+export const responseCache = (scope: CacheScope, dependsOn: ContentKind[] = CONTENT_TREE) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (req.method !== 'GET' || req.query.draft === 'true' || !responseCacheService.enabled) return next();
+
+    try {
+      const webSiteIds = Array.from(new Set((await scope(req)).filter(id => id && Types.ObjectId.isValid(id)))).sort();
+      // Unknown documents are left to the handler to report
+      if (webSiteIds.length === 0) return next();
+
+      const key = cacheKey(req, webSiteIds);
+      const tags = responseCacheService.tagsFor(webSiteIds, dependsOn);
+      const cached = await responseCacheService.get(key, tags);
+      if (!cached) return next();
+
+      if (cached.response) {
+        const { status, body, contentLanguage } = cached.response;
+        res.set('X-Cache', 'HIT');
+        res.vary('Accept-Language');
+        if (contentLanguage) res.setHeader('Content-Language', contentLanguage);
+        res.status(status).json({ ...body, timestamp: new Date().toISOString(), requestId: (req as any).requestId });
+        return;
+      }
+
+      res.set('X-Cache', 'MISS');
+      const json = res.json.bind(res);
+      res.json = (body?: any) => {
+        if (res.statusCode === 200 && body?.success !== false) {
+          // Stored with the generations read before the handler ran, so a write meanwhile makes it stale
+          responseCacheService.set(key, {
+            generations: cached.generations,
+            status: res.statusCode,
+            body,
+            contentLanguage: (res.get('Content-Language') as string) || null,
+          }, tags);
+        }
+        return json(body);
+      };
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
@@ -1,5 +1,21 @@
 import mongoose, { Schema, model } from 'mongoose';
-import { IContentElement } from '../types/ContentElement.type';
+import { IContentElement, IContentElementDraft } from '../types/ContentElement.type';
+import { softDeletePlugin } from '../utils/softDelete';
+import { contentVersionPlugin } from '../utils/contentVersion';
+
+// Pending structural changes kept apart from the live fields until publish
+const contentElementDraftSchema = new Schema<IContentElementDraft>(
+  {
+    name: { type: String, trim: true },
+    type: { type: String },
+    defaultContent: { type: String, trim: true },
+    imageUrl: { type: String, trim: true },
+    isActive: { type: Boolean },
+    metadata: { type: Schema.Types.Mixed },
+    order: { type: Number },
+  },
+  { _id: false, minimize: false }
+);
 
 // Define schema with performance optimizations
 const contentElementSchema = new Schema<IContentElement>(
@@ -26,6 +42,8 @@ const contentElementSchema = new Schema<IContentElement>(
         'badge',
         'textarea',
         'boolean',
+        'richtext', // metadata.format: 'html' (default) or 'markdown'
+        'reference', // metadata.blockId: shared block embedded in place of the element
       ],
       required: true,
       index: true, // Keep index for filtering by type
@@ -76,9 +94,36 @@ const contentElementSchema = new Schema<IContentElement>(
     parent: {
       type: Schema.Types.ObjectId,
       ref: 'SubSection',
-      required: true,
+      // Elements of a shared block belong to the block instead of a subsection
+      required: function (this: IContentElement) {
+        return !this.sharedBlock;
+      },
       index: true, // Keep index for lookups
     },
+    sharedBlock: {
+      type: Schema.Types.ObjectId,
+      ref: 'SharedBlock',
+      index: true,
+      sparse: true,
+    },
+    draft: {
+      type: contentElementDraftSchema,
+      default: undefined,
+    },
+    hasDraft: {
+      type: Boolean,
+      default: false,
+      index: true, // Index for finding pending changes on publish
+    },
+    // Documents written before drafts existed have no flag and count as published
+    isPublished: {
+      type: Boolean,
+      default: true,
+      index: true,
+    },
+    publishedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -126,6 +171,10 @@ contentElementSchema.statics.findLean = function (query: any) {
 };
 
 // Create model
+// Trashed documents are hidden from queries until restored or purged
+contentElementSchema.plugin(softDeletePlugin);
+contentElementSchema.plugin(contentVersionPlugin, { kind: 'element' });
+
 const ContentElementModel = model<IContentElement>('ContentElement', contentElementSchema);
 
 export default ContentElementModel;
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { Schema, model } from 'mongoose';
+import { IContentRevision } from '../types/ContentRevision.type';
+
+// Full snapshots of content elements and translations, one per change
+const contentRevisionSchema = new Schema<IContentRevision>(
+  {
+    entityType: {
+      type: String,
+      enum: ['ContentElement', 'ContentTranslation'],
+      required: true,
+    },
+    entityId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      index: true,
+    },
+    contentElement: {
+      type: Schema.Types.ObjectId,
+      ref: 'ContentElement',
+      required: true,
+      index: true,
+    },
+    language: {
+      type: Schema.Types.ObjectId,
+      ref: 'Languages',
+    },
+    action: {
+      type: String,
+      enum: ['create', 'update', 'delete', 'restore'],
+      required: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+    },
+    snapshot: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    restoredFrom: {
+      type: Schema.Types.ObjectId,
+      ref: 'ContentRevision',
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    minimize: false,
+  }
+);
+
+// One revision per version of a document; concurrent writers of the same version retry with the next
+contentRevisionSchema.index({ entityType: 1, entityId: 1, version: -1 }, { unique: true });
+contentRevisionSchema.index({ contentElement: 1, createdAt: -1 });
+
+const ContentRevisionModel = model<IContentRevision>('ContentRevision', contentRevisionSchema);
+
+export default ContentRevisionModel;
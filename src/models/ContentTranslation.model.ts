@@ -1,5 +1,20 @@
 import mongoose, { Schema, model } from 'mongoose';
-import { IContentTranslation } from '../types/ContentTranslation.type';
+import { IContentTranslation, IContentTranslationDraft } from '../types/ContentTranslation.type';
+import { softDeletePlugin } from '../utils/softDelete';
+import { contentVersionPlugin } from '../utils/contentVersion';
+import { normalizeText } from '../utils/textSimilarity';
+
+// Pending values kept apart from the live ones until the section is published
+const translationDraftSchema = new Schema<IContentTranslationDraft>(
+  {
+    content: { type: String, trim: true },
+    normalizedContent: { type: String },
+    items: { type: Schema.Types.Mixed },
+    isActive: { type: Boolean },
+    metadata: { type: Schema.Types.Mixed },
+  },
+  { _id: false, minimize: false }
+);
 
 // Define schema with performance optimizations
 const contentTranslationSchema = new Schema<IContentTranslation>(
@@ -10,6 +25,11 @@ const contentTranslationSchema = new Schema<IContentTranslation>(
       trim: true,
       index: true, 
     },
+    // Content as normalizeText leaves it, so the translation memory finds exact matches by equality
+    normalizedContent: {
+      type: String,
+      select: false,
+    },
     language: {
       type: Schema.Types.ObjectId,
       ref: 'Languages',
@@ -32,6 +52,29 @@ const contentTranslationSchema = new Schema<IContentTranslation>(
       default: {}, 
       sparse: true, 
     },
+    // Structured items of array/list elements that declare an item schema (`content` holds the same as JSON)
+    items: {
+      type: Schema.Types.Mixed,
+      default: undefined,
+    },
+    draft: {
+      type: translationDraftSchema,
+      default: undefined,
+    },
+    hasDraft: {
+      type: Boolean,
+      default: false,
+      index: true,
+    },
+    // Documents written before drafts existed have no flag and count as published
+    isPublished: {
+      type: Boolean,
+      default: true,
+      index: true,
+    },
+    publishedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -46,11 +89,56 @@ contentTranslationSchema.index({ language: 1, contentElement: 1 }, { unique: tru
 
 contentTranslationSchema.index({ contentElement: 1, isActive: 1 });
 
+// Translation memory: the most recently edited texts of a language are its fuzzy match candidates,
+// and exact matches are looked up by the normalized live or pending text
+contentTranslationSchema.index({ language: 1, updatedAt: -1 });
+contentTranslationSchema.index({ language: 1, normalizedContent: 1 });
+contentTranslationSchema.index({ language: 1, 'draft.normalizedContent': 1 }, { sparse: true });
+
+/**
+ * Set the normalized text next to every live or pending content an update writes
+ */
+const normalizeContentUpdate = (update: Record<string, any> | undefined): void => {
+  if (!update || Array.isArray(update)) return;
+
+  [update, update.$set].filter(Boolean).forEach((fields) => {
+    if (typeof fields.content === 'string') {
+      fields.normalizedContent = normalizeText(fields.content);
+    }
+    if (typeof fields['draft.content'] === 'string') {
+      fields['draft.normalizedContent'] = normalizeText(fields['draft.content']);
+    }
+    if (typeof fields.draft?.content === 'string') {
+      fields.draft.normalizedContent = normalizeText(fields.draft.content);
+    }
+  });
+};
+
 contentTranslationSchema.pre('validate', function (next) {
   const doc = this as IContentTranslation;
   if (!Object.keys(doc.metadata || {}).length) {
     doc.metadata = undefined; 
   }
+  if (doc.isModified('content')) {
+    doc.normalizedContent = normalizeText(doc.content);
+  }
+  if (doc.isModified('draft') && typeof doc.draft?.content === 'string') {
+    doc.draft.normalizedContent = normalizeText(doc.draft.content);
+  }
+  next();
+});
+
+contentTranslationSchema.pre(['findOneAndUpdate', 'updateOne', 'updateMany'], function (next) {
+  normalizeContentUpdate(this.getUpdate() as Record<string, any>);
+  next();
+});
+
+contentTranslationSchema.pre('bulkWrite', function (next, ops: any[]) {
+  ops.forEach((op) => {
+    normalizeContentUpdate(op.insertOne?.document);
+    normalizeContentUpdate(op.replaceOne?.replacement);
+    normalizeContentUpdate((op.updateOne || op.updateMany)?.update);
+  });
   next();
 });
 
@@ -58,6 +146,10 @@ contentTranslationSchema.statics.findLean = function (query: any) {
   return this.find(query).lean().exec();
 };
 
+// Trashed documents are hidden from queries until restored or purged
+contentTranslationSchema.plugin(softDeletePlugin);
+contentTranslationSchema.plugin(contentVersionPlugin, { kind: 'translation' });
+
 const ContentTranslationModel = model<IContentTranslation>('ContentTranslation', contentTranslationSchema);
 
 export default ContentTranslationModel;
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { Schema, model } from 'mongoose';
+import {
+  IBlueprintElement,
+  IBlueprintSectionItem,
+  IBlueprintSubSection,
+  ISectionBlueprint,
+} from '../types/SectionBlueprint.type';
+
+const blueprintElementSchema = new Schema<IBlueprintElement>(
+  {
+    name: { type: String, required: true, trim: true },
+    type: { type: String, required: true },
+    defaultContent: { type: String, trim: true },
+    metadata: { type: Schema.Types.Mixed, default: {} },
+    order: { type: Number, default: 0 },
+    isActive: { type: Boolean, default: true },
+    translations: { type: Schema.Types.Mixed },
+  },
+  { _id: false, minimize: false }
+);
+
+const blueprintSubSectionSchema = new Schema<IBlueprintSubSection>(
+  {
+    name: { type: String, required: true, trim: true },
+    description: { type: String, trim: true },
+    slug: { type: String, required: true, trim: true, lowercase: true },
+    isActive: { type: Boolean, default: true },
+    order: { type: Number, default: 0 },
+    isMain: { type: Boolean, default: false },
+    metadata: { type: Schema.Types.Mixed },
+    elements: { type: [blueprintElementSchema], default: [] },
+  },
+  { _id: false }
+);
+
+const blueprintSectionItemSchema = new Schema<IBlueprintSectionItem>(
+  {
+    name: { type: String, required: true, trim: true },
+    description: { type: String, trim: true, default: '' },
+    isActive: { type: Boolean, default: true },
+    order: { type: Number, default: 0 },
+    isMain: { type: Boolean, default: false },
+    subsections: { type: [blueprintSubSectionSchema], default: [] },
+  },
+  { _id: false }
+);
+
+// Templates are shared across websites, so they hold no website IDs
+const sectionBlueprintSchema = new Schema<ISectionBlueprint>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      unique: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    section: {
+      // Keyed by language code, like section names
+      name: { type: Schema.Types.Mixed, required: true },
+      subName: { type: String, required: true, trim: true },
+      description: { type: Schema.Types.Mixed, default: () => ({}) },
+      isActive: { type: Boolean, default: false },
+    },
+    sectionItems: {
+      type: [blueprintSectionItemSchema],
+      default: [],
+    },
+    subsections: {
+      type: [blueprintSubSectionSchema],
+      default: [],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const SectionBlueprintModel = model<ISectionBlueprint>('SectionBlueprint', sectionBlueprintSchema);
+
+export default SectionBlueprintModel;
@@ -0,0 +1,42 @@
+import { Schema, model } from 'mongoose';
+import { ISharedBlock } from '../types/SharedBlock.type';
+import { softDeletePlugin } from '../utils/softDelete';
+import { contentVersionPlugin } from '../utils/contentVersion';
+
+// Content elements of a block point at it through `sharedBlock` instead of a subsection `parent`
+const sharedBlockSchema = new Schema<ISharedBlock>(
+  {
+    webSite: {
+      type: Schema.Types.ObjectId,
+      ref: 'WebSite',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+sharedBlockSchema.index({ webSite: 1, name: 1 });
+
+// Trashed documents are hidden from queries until restored or purged
+sharedBlockSchema.plugin(softDeletePlugin);
+sharedBlockSchema.plugin(contentVersionPlugin, { kind: 'sharedBlock' });
+
+const SharedBlockModel = model<ISharedBlock>('SharedBlock', sharedBlockSchema);
+
+export default SharedBlockModel;
@@ -0,0 +1,49 @@
+import { Schema, model } from 'mongoose';
+import { ITrashEntry } from '../types/Trash.type';
+
+// Root of each trashed subtree, listed in the website trash bin
+const trashEntrySchema = new Schema<ITrashEntry>(
+  {
+    webSite: {
+      type: Schema.Types.ObjectId,
+      ref: 'WebSite',
+      required: true,
+    },
+    entityType: {
+      type: String,
+      enum: ['website', 'section', 'sharedBlock'],
+      required: true,
+    },
+    entityId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    label: {
+      type: String,
+      default: '',
+    },
+    counts: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    deletedAt: {
+      type: Date,
+      required: true,
+      index: true,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    minimize: false,
+  }
+);
+
+trashEntrySchema.index({ webSite: 1, deletedAt: -1 });
+
+const TrashEntryModel = model<ITrashEntry>('TrashEntry', trashEntrySchema);
+
+export default TrashEntryModel;
@@ -1,5 +1,6 @@
 import mongoose, { Schema } from 'mongoose';
 import { WebSiteProps } from 'src/types/WebSite.type';
+import { softDeletePlugin } from '../utils/softDelete';
 
 const WebSiteSchema = new Schema<WebSiteProps>(
     {
@@ -28,6 +29,16 @@ const WebSiteSchema = new Schema<WebSiteProps>(
         sector: {
             type: String,
         },
+        // `languageID` served when a request names no language the website offers
+        defaultLanguage: {
+            type: String,
+            trim: true,
+        },
+        // Moved on by every write to the website's content; part of the ETags of its public reads
+        contentVersion: {
+            type: Number,
+            default: 0,
+        },
     },
     {   
         timestamps: true,
@@ -66,6 +77,9 @@ WebSiteSchema.virtual('activeTheme', {
     match: { isActive: true }
 });
 
+// Trashed documents are hidden from queries until restored or purged
+WebSiteSchema.plugin(softDeletePlugin);
+
 const WebSiteModel = mongoose.model<WebSiteProps>('WebSite', WebSiteSchema);
 
 export default WebSiteModel;
\ No newline at end of file
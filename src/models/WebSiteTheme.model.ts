@@ -1,6 +1,7 @@
 // backend/models/WebSiteTheme.model.ts
 
 import mongoose, { Schema, Types } from 'mongoose';
+import { contentVersionPlugin } from '../utils/contentVersion';
 
 // Define the TypeScript interface for WebSiteTheme
 export interface WebSiteThemeProps {
@@ -148,6 +149,8 @@ WebSiteThemeSchema.virtual('website', {
   justOne: true,
 });
 
+WebSiteThemeSchema.plugin(contentVersionPlugin, { kind: 'theme' });
+
 const WebSiteThemeModel = mongoose.model<WebSiteThemeProps>('WebSiteTheme', WebSiteThemeSchema);
 
 export default WebSiteThemeModel;
\ No newline at end of file
@@ -1,5 +1,6 @@
 import mongoose, { Schema } from 'mongoose';
 import { ILanguages } from '../types/languages.types';
+import { contentVersionPlugin } from '../utils/contentVersion';
 
 const languagesSchema = new Schema<ILanguages>(
     {
@@ -28,7 +29,40 @@ const languagesSchema = new Schema<ILanguages>(
     subSections: [{
         type: Schema.Types.ObjectId,
         ref: 'SubSections' 
-    }]
+    }],
+    // Ordered `languageID`s to read from when content is missing in this language (e.g. ar-EG: ["ar", "en"])
+    fallbacks: [{
+        type: String,
+        trim: true,
+    }],
+    // BCP 47 tag used for rendering (e.g. ar-EG); the metadata below defaults from it
+    locale: {
+        type: String,
+        trim: true,
+    },
+    direction: {
+        type: String,
+        enum: ['ltr', 'rtl'],
+    },
+    nativeName: {
+        type: String,
+        trim: true,
+    },
+    pluralCategories: [{
+        type: String,
+        enum: ['zero', 'one', 'two', 'few', 'many', 'other'],
+    }],
+    formats: {
+        date: String,
+        time: String,
+        decimalSeparator: String,
+        groupSeparator: String,
+        numberingSystem: String,
+    },
+    order: {
+        type: Number,
+        default: 0,
+    }
     },
     {
         timestamps: true,
@@ -39,6 +73,8 @@ const languagesSchema = new Schema<ILanguages>(
 languagesSchema.index({ websiteId: 1, languageID: 1 }, { unique: true });
 languagesSchema.index({ websiteId: 1, language: 1 }, { unique: true });
 
+languagesSchema.plugin(contentVersionPlugin, { kind: 'language' });
+
 const LanguageModel = mongoose.model<ILanguages>('Languages', languagesSchema);
 
 export default LanguageModel;
\ No newline at end of file
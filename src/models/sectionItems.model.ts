@@ -1,5 +1,7 @@
 import mongoose, { Schema, model } from 'mongoose';
 import { IServiceDocument } from '../types/sectionItem.types';
+import { softDeletePlugin } from '../utils/softDelete';
+import { contentVersionPlugin } from '../utils/contentVersion';
 
 // Define schema with performance optimizations
 const sectionItemSchema = new Schema<IServiceDocument>(
@@ -36,6 +38,15 @@ const sectionItemSchema = new Schema<IServiceDocument>(
       type: Boolean,
       default: false,
     },
+    // Scheduled activation window, applied by the publish scheduler
+    publishAt: {
+      type: Date,
+      default: null,
+    },
+    unpublishAt: {
+      type: Date,
+      default: null,
+    },
     WebSiteId: {
       type: Schema.Types.ObjectId,
       ref: 'WebSite',
@@ -66,6 +77,10 @@ const sectionItemSchema = new Schema<IServiceDocument>(
 // Compound index for common query patterns
 sectionItemSchema.index({ WebSiteId: 1, section: 1, isActive: 1 });
 
+// Indexes for the publish scheduler
+sectionItemSchema.index({ publishAt: 1 }, { sparse: true });
+sectionItemSchema.index({ unpublishAt: 1 }, { sparse: true });
+
 // Static method for lean queries
 sectionItemSchema.statics.findLean = function (query: any) {
   return this.find(query).lean().exec();
@@ -93,6 +108,10 @@ sectionItemSchema.pre('save', async function (next) {
 
 
 // Create model
+// Trashed documents are hidden from queries until restored or purged
+sectionItemSchema.plugin(softDeletePlugin);
+sectionItemSchema.plugin(contentVersionPlugin, { kind: 'sectionItem' });
+
 const SectionItemModel = model<IServiceDocument>('SectionItems', sectionItemSchema);
 
 export default SectionItemModel;
\ No newline at end of file
@@ -1,73 +1,49 @@
 import mongoose, { Schema } from "mongoose";
+import { softDeletePlugin } from "../utils/softDelete";
+import { contentVersionPlugin } from "../utils/contentVersion";
 
-// Multilingual name interface
-interface IMultilingualName {
-  en: string;
-  ar: string;
-  tr: string;
-}
+import { isLocalizedText, LocalizedText } from "../utils/localizedText";
 
-// Multilingual description interface
-interface IMultilingualDescription {
-  en?: string;
-  ar?: string;
-  tr?: string;
-}
+// Names and descriptions are keyed by the website's own language codes (`Languages.languageID`)
+export type IMultilingualName = LocalizedText;
+export type IMultilingualDescription = LocalizedText;
 
 interface ISection {
-  name: IMultilingualName; // 🎯 UPDATED: Multilingual name object
+  name: IMultilingualName;
   subName: string; // Keep original subName for backend matching
-  description: IMultilingualDescription; // 🎯 UPDATED: Multilingual description
+  description: IMultilingualDescription;
+  // `<languageID>:<name>` for every name, backing name uniqueness per website and language
+  nameKeys: string[];
   image: string;
   isActive: boolean;
   order: number;
+  publishAt?: Date | null;
+  unpublishAt?: Date | null;
   WebSiteId: Schema.Types.ObjectId;
   sectionItems: Schema.Types.ObjectId[];
   createdAt: Date;
   updatedAt: Date;
 }
 
-const multilingualNameSchema = new Schema<IMultilingualName>({
-  en: {
-    type: String,
-    required: true,
-    trim: true
-  },
-  ar: {
-    type: String,
-    required: true,
-    trim: true
-  },
-  tr: {
-    type: String,
-    required: true,
-    trim: true
-  }
-}, { _id: false });
-
-const multilingualDescriptionSchema = new Schema<IMultilingualDescription>({
-  en: {
-    type: String,
-    trim: true,
-    default: ''
-  },
-  ar: {
-    type: String,
-    trim: true,
-    default: ''
-  },
-  tr: {
-    type: String,
-    trim: true,
-    default: ''
-  }
-}, { _id: false });
+/**
+ * Unique keys of a section's names, one per language
+ */
+export const sectionNameKeys = (name: IMultilingualName | null | undefined): string[] =>
+  isLocalizedText(name)
+    ? Object.keys(name)
+      .filter(code => name[code].trim() !== '')
+      .map(code => `${code}:${name[code].trim()}`)
+    : [];
 
 const sectionSchema = new Schema<ISection>(
   {
     name: {
-      type: multilingualNameSchema,
-      required: true
+      type: Schema.Types.Mixed,
+      required: true,
+      validate: {
+        validator: (value: unknown) => isLocalizedText(value) && sectionNameKeys(value).length > 0,
+        message: 'Section name must be an object of names keyed by language code'
+      }
     },
     subName: {
       type: String,
@@ -75,8 +51,12 @@ const sectionSchema = new Schema<ISection>(
       trim: true
     },
     description: {
-      type: multilingualDescriptionSchema,
-      default: () => ({ en: '', ar: '', tr: '' })
+      type: Schema.Types.Mixed,
+      default: () => ({})
+    },
+    nameKeys: {
+      type: [String],
+      default: []
     },
     image: {
       type: String,
@@ -90,6 +70,15 @@ const sectionSchema = new Schema<ISection>(
       type: Number,
       default: 0,
     },
+    // Scheduled activation window, applied by the publish scheduler
+    publishAt: {
+      type: Date,
+      default: null,
+    },
+    unpublishAt: {
+      type: Date,
+      default: null,
+    },
     sectionItems: [{
       type: Schema.Types.ObjectId,
       ref: 'SectionItems'
@@ -102,19 +91,41 @@ const sectionSchema = new Schema<ISection>(
   },
   {
     timestamps: true,
+    minimize: false, // keep empty descriptions as {}
   }
 );
 
-// 🎯 UPDATED: Compound indexes for multilingual name uniqueness
-// Ensure English names are unique within a website
-sectionSchema.index({ 'name.en': 1, WebSiteId: 1 }, { unique: true });
-// Ensure Arabic names are unique within a website  
-sectionSchema.index({ 'name.ar': 1, WebSiteId: 1 }, { unique: true });
-// Ensure Turkish names are unique within a website
-sectionSchema.index({ 'name.tr': 1, WebSiteId: 1 }, { unique: true });
+// Names are unique within a website per language; sections not yet migrated have no keys
+sectionSchema.index(
+  { WebSiteId: 1, nameKeys: 1 },
+  { unique: true, partialFilterExpression: { 'nameKeys.0': { $exists: true } } }
+);
 
 // Index for subName and WebSiteId for backend matching
 sectionSchema.index({ subName: 1, WebSiteId: 1 }, { unique: true });
 
+// Indexes for the publish scheduler
+sectionSchema.index({ publishAt: 1 }, { sparse: true });
+sectionSchema.index({ unpublishAt: 1 }, { sparse: true });
+
+// Keep the name keys in step with the names
+sectionSchema.pre('validate', function (next) {
+  this.nameKeys = sectionNameKeys(this.name);
+  next();
+});
+
+sectionSchema.pre(['findOneAndUpdate', 'updateOne', 'updateMany'], function (next) {
+  const update = this.getUpdate() as Record<string, any>;
+  const name = update?.$set?.name ?? update?.name;
+  if (name !== undefined) {
+    this.set('nameKeys', sectionNameKeys(name));
+  }
+  next();
+});
+
+// Trashed documents are hidden from queries until restored or purged
+sectionSchema.plugin(softDeletePlugin);
+sectionSchema.plugin(contentVersionPlugin, { kind: 'section' });
+
 const SectionModel = mongoose.model<ISection>('Sections', sectionSchema);
 export default SectionModel;
\ No newline at end of file
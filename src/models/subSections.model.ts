@@ -1,5 +1,19 @@
 import mongoose, { Schema } from 'mongoose';
 import { ICreateSubSection } from '../types/sub.section.types';
+import { softDeletePlugin } from '../utils/softDelete';
+import { contentVersionPlugin } from '../utils/contentVersion';
+import { isLocalizedText, LocalizedText } from '../utils/localizedText';
+
+/**
+ * `slug:code` keys of the localized slugs, unique per website; the slug comes first so a slug can be
+ * looked up in any language with an anchored prefix
+ */
+export const subSectionSlugKeys = (slugs: LocalizedText | null | undefined): string[] =>
+  isLocalizedText(slugs)
+    ? Object.keys(slugs)
+      .filter(code => slugs[code].trim() !== '')
+      .map(code => `${slugs[code].trim()}:${code}`)
+    : [];
 
 const subSectionSchema = new Schema<ICreateSubSection>(
   {
@@ -19,6 +33,23 @@ const subSectionSchema = new Schema<ICreateSubSection>(
       trim: true,
       lowercase: true,
     },
+    // Slug per language code (`{ en: 'about-us', tr: 'hakkimizda' }`); languages without one use `slug`
+    slugs: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    slugKeys: {
+      type: [String],
+      default: [],
+    },
+    // Slugs the subsection was reachable under before, for redirects to the current ones
+    slugHistory: [{
+      _id: false,
+      slug: { type: String, required: true },
+      // Language of a previous localized slug, null for the base slug
+      language: { type: String, default: null },
+      changedAt: { type: Date, default: Date.now },
+    }],
     isActive: {
       type: Boolean,
       default: true,
@@ -31,6 +62,15 @@ const subSectionSchema = new Schema<ICreateSubSection>(
       type: Boolean,
       default: false,
     },
+    // Scheduled activation window, applied by the publish scheduler
+    publishAt: {
+      type: Date,
+      default: null,
+    },
+    unpublishAt: {
+      type: Date,
+      default: null,
+    },
     sectionItem: {
       type: Schema.Types.ObjectId,
       ref: 'SectionItems',
@@ -54,9 +94,26 @@ const subSectionSchema = new Schema<ICreateSubSection>(
   },
   {
     timestamps: true,
+    // Keep empty `slugs` objects
+    minimize: false,
   }
 );
 
+  // A slug is unique per website
+  subSectionSchema.index({ WebSiteId: 1, slug: 1 }, { unique: true });
+  subSectionSchema.index({ WebSiteId: 1, 'slugHistory.slug': 1 });
+
+  // A localized slug is unique per website and language
+  subSectionSchema.index(
+    { WebSiteId: 1, slugKeys: 1 },
+    { unique: true, partialFilterExpression: { 'slugKeys.0': { $exists: true } } }
+  );
+  subSectionSchema.index({ slugKeys: 1 });
+
+  // Indexes for the publish scheduler
+  subSectionSchema.index({ publishAt: 1 }, { sparse: true });
+  subSectionSchema.index({ unpublishAt: 1 }, { sparse: true });
+
   // Add a pre-save middleware to ensure consistency when isMain is true
   subSectionSchema.pre('save', async function(next) {
     if (this.isMain && !this.section) {
@@ -75,6 +132,25 @@ const subSectionSchema = new Schema<ICreateSubSection>(
     next();
   });
 
+// Keep the slug keys in step with the localized slugs
+subSectionSchema.pre('validate', function (next) {
+  this.slugKeys = subSectionSlugKeys(this.slugs);
+  next();
+});
+
+subSectionSchema.pre('findOneAndUpdate', function (next) {
+  const update = this.getUpdate() as Record<string, any>;
+  const slugs = update?.$set?.slugs ?? update?.slugs;
+  if (slugs !== undefined) {
+    this.set('slugKeys', subSectionSlugKeys(slugs));
+  }
+  next();
+});
+
+// Trashed documents are hidden from queries until restored or purged
+subSectionSchema.plugin(softDeletePlugin);
+subSectionSchema.plugin(contentVersionPlugin, { kind: 'subsection' });
+
 const SubSectionModel = mongoose.model<ICreateSubSection>('SubSections', subSectionSchema);
 
 export default SubSectionModel;
\ No newline at end of file
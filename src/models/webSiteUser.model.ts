@@ -1,4 +1,5 @@
 import mongoose, { Schema } from 'mongoose';
+import { softDeletePlugin } from '../utils/softDelete';
 
 interface IWebSiteUser {
   userId: Schema.Types.ObjectId;
@@ -35,6 +36,9 @@ const webSiteUserSchema = new Schema<IWebSiteUser>(
 // Create a compound index to ensure unique combinations
 webSiteUserSchema.index({ userId: 1, webSiteId: 1 }, { unique: true });
 
+// Trashed documents are hidden from queries until restored or purged
+webSiteUserSchema.plugin(softDeletePlugin);
+
 const WebSiteUserModel = mongoose.model<IWebSiteUser>('WebSiteUser', webSiteUserSchema);
 
 export default WebSiteUserModel;
\ No newline at end of file
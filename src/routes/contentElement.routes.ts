@@ -1,5 +1,6 @@
 import express from 'express';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, authorizeDrafts, optionalAuthenticate } from '../middleware/auth.middleware';
+import { documentParam, httpCache } from '../middleware/httpCache.middleware';
 import ContentElementController from '../controllers/ContentElement.controller';
 import multer from 'multer';
 import fs from 'fs';
@@ -21,14 +22,20 @@ router.post('/', authenticate, ContentElementController.createContentElement);
 
 // More specific routes must come before wildcard routes
 router.put('/order', authenticate, ContentElementController.updateElementsOrder);
-router.get('/subsection/:subsectionId', ContentElementController.getContentElementsBySubsection);
+router.get('/subsection/:subsectionId', optionalAuthenticate, authorizeDrafts(documentParam('subsection', 'subsectionId')), httpCache(documentParam('subsection', 'subsectionId')), ContentElementController.getContentElementsBySubsection);
 
 // Upload routes - must come before the :id routes
 router.post('/:id/image', authenticate, upload.single('image'), ContentElementController.uploadElementImage);
 router.post('/:id/file', authenticate, upload.single('file'), ContentElementController.uploadElementFile);
 
+// Revision history - list, diff and restore
+router.get('/:id/revisions', authenticate, ContentElementController.getElementRevisions);
+router.get('/:id/revisions/diff', authenticate, ContentElementController.diffElementRevisions);
+router.get('/:id/revisions/:revisionId', authenticate, ContentElementController.getElementRevision);
+router.post('/:id/revisions/:revisionId/restore', authenticate, ContentElementController.restoreElementRevision);
+
 // Routes with the :id parameter should come last
-router.get('/:id', ContentElementController.getContentElementById);
+router.get('/:id', optionalAuthenticate, authorizeDrafts(documentParam('element', 'id')), httpCache(documentParam('element', 'id')), ContentElementController.getContentElementById);
 router.put('/:id', authenticate, ContentElementController.updateContentElement);
 router.delete('/:id', authenticate, ContentElementController.deleteContentElement);
 
@@ -1,5 +1,6 @@
 import express from 'express';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, authorizeDrafts, optionalAuthenticate } from '../middleware/auth.middleware';
+import { documentParam, httpCache } from '../middleware/httpCache.middleware';
 import ContentTranslationController from '../controllers/ContentTranslation.controller';
 
 const router = express.Router();
@@ -29,40 +30,52 @@ router.post(
 /**
  * @route   GET /api/translations/element/:elementId
  * @desc    Get all translations for a content element
- * @access  Public
+ * @access  Public (drafts with ?draft=true require website membership)
  */
 router.get(
   '/element/:elementId',
+  optionalAuthenticate,
+  authorizeDrafts(documentParam('element', 'elementId')),
+  httpCache(documentParam('element', 'elementId')),
   ContentTranslationController.getTranslationsByContentElement
 );
 
 /**
  * @route   GET /api/translations/language/:languageId
  * @desc    Get all translations for a language
- * @access  Public
+ * @access  Public (drafts with ?draft=true require website membership)
  */
 router.get(
   '/language/:languageId',
+  optionalAuthenticate,
+  authorizeDrafts(documentParam('language', 'languageId')),
+  httpCache(documentParam('language', 'languageId')),
   ContentTranslationController.getTranslationsByLanguage
 );
 
 /**
  * @route   GET /api/translations/element/:elementId/language/:languageId
  * @desc    Get specific translation by content element and language
- * @access  Public
+ * @access  Public (drafts with ?draft=true require website membership)
  */
 router.get(
   '/element/:elementId/language/:languageId',
+  optionalAuthenticate,
+  authorizeDrafts(documentParam('element', 'elementId')),
+  httpCache(documentParam('element', 'elementId')),
   ContentTranslationController.getTranslation
 );
 
 /**
  * @route   GET /api/translations/:id
  * @desc    Get translation by ID
- * @access  Public
+ * @access  Public (drafts with ?draft=true require website membership)
  */
 router.get(
   '/:id',
+  optionalAuthenticate,
+  authorizeDrafts(documentParam('translation', 'id')),
+  httpCache(documentParam('translation', 'id')),
   ContentTranslationController.getTranslationById
 );
 
@@ -0,0 +1,11 @@
+import express from 'express';
+import { optionalAuthenticate } from '../middleware/auth.middleware';
+import graphqlController from '../controllers/graphql.controller';
+
+const router = express.Router();
+
+// Read-only GraphQL API; signing in is only needed to preview drafts (`?draft=true`)
+router.get('/', optionalAuthenticate, graphqlController.query);
+router.post('/', optionalAuthenticate, graphqlController.query);
+
+export default router;
@@ -1,5 +1,6 @@
 import express from 'express';
 import { LanguageController } from '../controllers/language.controller';
+import { documentParam, httpCache, websiteParam } from '../middleware/httpCache.middleware';
 
 const router = express.Router();
 const languageController = new LanguageController();
@@ -7,7 +8,7 @@ const languageController = new LanguageController();
 // Language routes
 router.post('/', languageController.createLanguage);
 router.get('/', languageController.getAllLanguages);
-router.get('/:id', languageController.getLanguageById);
+router.get('/:id', httpCache(documentParam('language', 'id')), languageController.getLanguageById);
 router.put('/:id', languageController.updateLanguage);
 router.delete('/:id', languageController.deleteLanguage);
 router.patch('/:id/status', languageController.updateLanguageStatus);
@@ -15,7 +16,7 @@ router.patch('/:id/toggle', languageController.toggleLanguageStatus);
 router.post('/batch-update', languageController.batchUpdateLanguageStatuses);
 
 // Website-specific language routes
-router.get('/website/:websiteId', languageController.getLanguagesByWebsite);
+router.get('/website/:websiteId', httpCache(websiteParam('websiteId')), languageController.getLanguagesByWebsite);
 
 
 
@@ -4,6 +4,9 @@ import express from 'express';
 import { SectionController } from '../controllers/section.controller';
 import multer from 'multer';
 import fs from 'fs';
+import { authenticate, authorizeDrafts, authorizeWebsiteMember, optionalAuthenticate } from '../middleware/auth.middleware';
+import { documentParam, httpCache, websiteParam } from '../middleware/httpCache.middleware';
+import { responseCache } from '../middleware/responseCache.middleware';
 
 const router = express.Router();
 const sectionController = new SectionController();
@@ -21,7 +24,7 @@ const upload = multer({ dest: uploadsDir });
 router.get('/basic', sectionController.getBasicSectionInfo);
 
 // Get basic section information for a specific website
-router.get('/basic/website/:websiteId', sectionController.getBasicSectionInfoByWebsite);
+router.get('/basic/website/:websiteId', httpCache(websiteParam('websiteId')), sectionController.getBasicSectionInfoByWebsite);
 
 // ===== EXISTING ROUTES =====
 // Get all sections (public route)
@@ -31,17 +34,17 @@ router.get('/', sectionController.getAllSections);
 router.get('/all/complete', sectionController.getAllSectionsWithData);
 
 // Get section by ID (public route)
-router.get('/:id', sectionController.getSectionById);
+router.get('/:id', httpCache(documentParam('section', 'id')), sectionController.getSectionById);
 
 // Get section with complete data (public route)
-router.get('/:id/complete', sectionController.getSectionWithCompleteData);
+router.get('/:id/complete', httpCache(documentParam('section', 'id')), responseCache(documentParam('section', 'id')), sectionController.getSectionWithCompleteData);
 
-// Get section with content by ID and language (public route)
-router.get('/:id/content', sectionController.getSectionWithContent);
+// Get section with content by ID and language (public route, ?draft=true for website members)
+router.get('/:id/content', optionalAuthenticate, authorizeDrafts(documentParam('section', 'id')), httpCache(documentParam('section', 'id')), responseCache(documentParam('section', 'id')), sectionController.getSectionWithContent);
 
 // Website specific routes
-router.get('/website/:websiteId', sectionController.getSectionsByWebsiteId);
-router.get('/website/:websiteId/complete', sectionController.getSectionsWithDataByWebsiteId);
+router.get('/website/:websiteId', httpCache(websiteParam('websiteId')), sectionController.getSectionsByWebsiteId);
+router.get('/website/:websiteId/complete', httpCache(websiteParam('websiteId')), responseCache(websiteParam('websiteId')), sectionController.getSectionsWithDataByWebsiteId);
 
 // ===== ADMIN ROUTES =====
 // Create section
@@ -53,11 +56,14 @@ router.put('/:id', sectionController.updateSection);
 // Update section status
 router.patch('/:id/status', sectionController.updateSectionStatus);
 
+// Publish all pending content drafts of the section
+router.post('/:id/publish', authenticate, authorizeWebsiteMember(documentParam('section', 'id')), sectionController.publishSection);
+
 // Upload section image
 router.post('/:id/image', upload.single('image'), sectionController.uploadSectionImage);
 
 // Delete section
-router.delete('/:id', sectionController.deleteSection);
+router.delete('/:id', optionalAuthenticate, sectionController.deleteSection);
 
 // Update section order
 router.patch('/order', sectionController.updateSectionOrder);
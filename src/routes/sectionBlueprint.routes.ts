@@ -0,0 +1,20 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth.middleware';
+import sectionBlueprintController from '../controllers/sectionBlueprint.controller';
+
+const router = express.Router();
+
+// Section blueprint routes
+router.route('/')
+  .get(authenticate, sectionBlueprintController.getBlueprints)
+  .post(authenticate, sectionBlueprintController.createBlueprint);
+
+router.post('/from-section/:sectionId', authenticate, sectionBlueprintController.createBlueprintFromSection);
+router.post('/:id/materialize', authenticate, sectionBlueprintController.materializeBlueprint);
+
+router.route('/:id')
+  .get(authenticate, sectionBlueprintController.getBlueprintById)
+  .put(authenticate, sectionBlueprintController.updateBlueprint)
+  .delete(authenticate, sectionBlueprintController.deleteBlueprint);
+
+export default router;
@@ -1,6 +1,7 @@
 import express from 'express';
 import SectionItemController from '../controllers/sectionItem.controller';
 import { authenticate } from '../middleware/auth.middleware';
+import { documentParam, httpCache, websiteParam } from '../middleware/httpCache.middleware';
 
 const router = express.Router();
 
@@ -12,11 +13,11 @@ router.get('/', SectionItemController.getAllSectionItems);
 router.put('/order', authenticate, SectionItemController.updateSectionItemsOrder);
 
 // Get items by parent section
-router.get('/section/:sectionId', SectionItemController.getSectionItemsBySectionId);
-router.get('/website/:websiteId', SectionItemController.getSectionItemsByWebSiteId);
+router.get('/section/:sectionId', httpCache(documentParam('section', 'sectionId')), SectionItemController.getSectionItemsBySectionId);
+router.get('/website/:websiteId', httpCache(websiteParam('websiteId')), SectionItemController.getSectionItemsByWebSiteId);
 
 // Individual section item routes
-router.get('/:id', SectionItemController.getSectionItemById);
+router.get('/:id', httpCache(documentParam('sectionItem', 'id')), SectionItemController.getSectionItemById);
 router.put('/:id', authenticate, SectionItemController.updateSectionItem);
 router.delete('/:id', authenticate, SectionItemController.deleteSectionItem);
 
@@ -0,0 +1,20 @@
+import express from 'express';
+import { authenticate, authorizeDrafts, optionalAuthenticate } from '../middleware/auth.middleware';
+import { documentParam } from '../middleware/httpCache.middleware';
+import sharedBlockController from '../controllers/sharedBlock.controller';
+
+const router = express.Router();
+
+// Shared block routes (their content is edited through /content-elements with `sharedBlock` set)
+router.post('/', authenticate, sharedBlockController.createSharedBlock);
+router.get('/website/:websiteId', optionalAuthenticate, sharedBlockController.getSharedBlocksByWebSite);
+
+router.get('/:id/references', authenticate, sharedBlockController.getBlockReferences);
+router.post('/:id/publish', authenticate, sharedBlockController.publishSharedBlock);
+
+// Routes with the :id parameter should come last
+router.get('/:id', optionalAuthenticate, authorizeDrafts(documentParam('sharedBlock', 'id')), sharedBlockController.getSharedBlockById);
+router.put('/:id', authenticate, sharedBlockController.updateSharedBlock);
+router.delete('/:id', authenticate, sharedBlockController.deleteSharedBlock);
+
+export default router;
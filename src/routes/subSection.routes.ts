@@ -1,13 +1,32 @@
 import { Router } from 'express';
 import subSectionController from '../controllers/subSection.controller';
+import { authenticate, authorizeDrafts, authorizeWebsiteMember, optionalAuthenticate } from '../middleware/auth.middleware';
+import { CacheScope, documentParam, httpCache, websiteParam } from '../middleware/httpCache.middleware';
+import { responseCache } from '../middleware/responseCache.middleware';
+import subSectionService from '../services/subSection.service';
+import { websitesOfIds } from '../utils/contentVersion';
+import { languageRequestFrom } from '../utils/languageNegotiation';
 
 const router = Router();
 
+// Slug reads are scoped to `?websiteId=`, else to the website of the subsection the slug points to
+const slugWebsite: CacheScope = async (req) => {
+  if (typeof req.query.websiteId === 'string') return [req.query.websiteId];
+
+  const resolved = await subSectionService.resolveSlug(req.params.slug, languageRequestFrom(req));
+  return resolved ? [resolved.subsection.WebSiteId.toString()] : [];
+};
+
+// Batch reads are scoped to the websites of the requested section items
+const sectionItemsWebsites: CacheScope = req =>
+  websitesOfIds('sectionItem', Array.isArray(req.body?.sectionItemIds) ? req.body.sectionItemIds.map(String) : []);
+
 // Base routes
 router.get('/', subSectionController.getAllSubSections);
 router.post('/',  subSectionController.createSubSection);
-router.get('/:id', subSectionController.getSubSectionById);
-router.get('/:id/complete', subSectionController.getCompleteSubSectionById);
+router.get('/:id', httpCache(documentParam('subsection', 'id')), subSectionController.getSubSectionById);
+router.get('/:id/complete', optionalAuthenticate, authorizeDrafts(documentParam('subsection', 'id')), httpCache(documentParam('subsection', 'id')), responseCache(documentParam('subsection', 'id')), subSectionController.getCompleteSubSectionById);
+router.post('/:id/publish', authenticate, authorizeWebsiteMember(documentParam('subsection', 'id')), subSectionController.publishSubSection);
 router.put('/:id',  subSectionController.updateSubSection);
 router.delete('/:id',  subSectionController.deleteSubSection);
 
@@ -15,22 +34,22 @@ router.delete('/:id',  subSectionController.deleteSubSection);
 router.put('/order',  subSectionController.updateSubsectionsOrder);
 
 // Slug routes
-router.get('/slug/:slug', subSectionController.getSubSectionBySlug);
-router.get('/slug/:slug/complete', subSectionController.getCompleteSubSectionBySlug);
+router.get('/slug/:slug', httpCache(slugWebsite), subSectionController.getSubSectionBySlug);
+router.get('/slug/:slug/complete', optionalAuthenticate, authorizeDrafts(slugWebsite), httpCache(slugWebsite), responseCache(slugWebsite), subSectionController.getCompleteSubSectionBySlug);
 
 // WebSite routes
-router.get('/website/:websiteId', subSectionController.getSubSectionsByWebSiteId);
-router.get('/website/:websiteId/complete', subSectionController.getCompleteSubSectionsByWebSiteId);
-router.get('/website/:websiteId/main', subSectionController.getMainSubSectionByWebSiteId);
+router.get('/website/:websiteId', httpCache(websiteParam('websiteId')), subSectionController.getSubSectionsByWebSiteId);
+router.get('/website/:websiteId/complete', optionalAuthenticate, authorizeDrafts(websiteParam('websiteId')), httpCache(websiteParam('websiteId')), responseCache(websiteParam('websiteId')), subSectionController.getCompleteSubSectionsByWebSiteId);
+router.get('/website/:websiteId/main', httpCache(websiteParam('websiteId')), subSectionController.getMainSubSectionByWebSiteId);
 
 // Section item routes
-router.get('/sectionItem/:sectionItemId', subSectionController.getSubSectionsBySectionItemId);
+router.get('/sectionItem/:sectionItemId', optionalAuthenticate, authorizeDrafts(documentParam('sectionItem', 'sectionItemId')), httpCache(documentParam('sectionItem', 'sectionItemId')), responseCache(documentParam('sectionItem', 'sectionItemId')), subSectionController.getSubSectionsBySectionItemId);
 
 
 // Section routes   
-router.get('/section/:sectionId', subSectionController.getCompleteSubSectionsBySectionId);
-router.get('/section/:sectionId/main', subSectionController.getMainSubSectionBySectionId);
-router.get('/section/:sectionId/complete', subSectionController.getCompleteSubSectionsBySectionId); // New route
+router.get('/section/:sectionId', optionalAuthenticate, authorizeDrafts(documentParam('section', 'sectionId')), httpCache(documentParam('section', 'sectionId')), responseCache(documentParam('section', 'sectionId')), subSectionController.getCompleteSubSectionsBySectionId);
+router.get('/section/:sectionId/main', httpCache(documentParam('section', 'sectionId')), subSectionController.getMainSubSectionBySectionId);
+router.get('/section/:sectionId/complete', optionalAuthenticate, authorizeDrafts(documentParam('section', 'sectionId')), httpCache(documentParam('section', 'sectionId')), responseCache(documentParam('section', 'sectionId')), subSectionController.getCompleteSubSectionsBySectionId); // New route
 
 router.put('/order', subSectionController.updateSubsectionsOrder);
 router.post('/sectionItem/:sectionItemId/reorder', subSectionController.reorderSubSectionsInSectionItem);
@@ -40,6 +59,6 @@ router.patch('/:id/toggle-active', subSectionController.toggleSubSectionActive);
 router.patch('/:id/order', subSectionController.updateSubSectionOrder);
 router.patch('/:id/move/:direction', subSectionController.moveSubSection);
 router.patch('/:id/activate', subSectionController.activateDeactivateSubSection);
-router.post('/sectionItems', subSectionController.getSubSectionsBySectionItemIds);
-router.get('/website/:websiteId/navigation', subSectionController.getNavigationSubSectionsByWebSiteId); // NEW ROUTE - Returns ALL navigation subsections
+router.post('/sectionItems', optionalAuthenticate, authorizeDrafts(sectionItemsWebsites), subSectionController.getSubSectionsBySectionItemIds);
+router.get('/website/:websiteId/navigation', optionalAuthenticate, authorizeDrafts(websiteParam('websiteId')), httpCache(websiteParam('websiteId')), responseCache(websiteParam('websiteId')), subSectionController.getNavigationSubSectionsByWebSiteId); // NEW ROUTE - Returns ALL navigation subsections
 export default router;
\ No newline at end of file
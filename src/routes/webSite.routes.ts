@@ -1,9 +1,16 @@
 import express from 'express';
 import { WebSiteController } from '../controllers/WebSite.controller';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, authorizeDrafts, optionalAuthenticate } from '../middleware/auth.middleware';
+import { httpCache, websiteParam } from '../middleware/httpCache.middleware';
 import multer from 'multer';
 import fs from 'fs';
 import clientWebSiteController from '../controllers/client/clientWebSite.controller';
+import trashController from '../controllers/trash.controller';
+import translationExchangeController from '../controllers/translationExchange.controller';
+import translationReportController from '../controllers/translationReport.controller';
+import machineTranslationController from '../controllers/machineTranslation.controller';
+import translationMemoryController from '../controllers/translationMemory.controller';
+import siteBootstrapController from '../controllers/siteBootstrap.controller';
 
 const router = express.Router();
 const webSiteController = new WebSiteController();
@@ -16,6 +23,16 @@ if (!fs.existsSync(uploadsDir)) {
 
 const upload = multer({ dest: uploadsDir });
 
+// Translation files arrive as raw text; they are parsed and sanitized unit by unit
+const translationFile = express.text({
+  type: [
+    'application/xliff+xml', 'application/x-xliff+xml', 'application/xml', 'text/xml',
+    'text/csv',
+    'text/x-gettext-translation', 'text/x-po', 'application/x-po',
+  ],
+  limit: '10mb',
+});
+
 // Logo upload route
 router.post('/:id/logos', upload.single('logo'), webSiteController.uploadWebSiteLogo);
 
@@ -27,12 +44,33 @@ router.route('/')
 // Get all websites for the current user
 router.get('/my', authenticate, webSiteController.getMyWebSites);
 
+// Bundle import as a new website
+router.post('/import', authenticate, webSiteController.importWebSite);
+
 // Website by ID routes
 router.route('/:id')
   .get(webSiteController.getWebSiteById)
   .patch(authenticate, webSiteController.updateWebSite)
   .delete(authenticate, webSiteController.deleteWebSite);
 
+// Everything a frontend needs on boot, resolved for one language
+router.get('/:id/bootstrap', optionalAuthenticate, authorizeDrafts(websiteParam('id')), httpCache(websiteParam('id')), siteBootstrapController.getBootstrap);
+
+// Deep copy (staging copies, sister sites)
+router.post('/:id/clone', authenticate, webSiteController.cloneWebSite);
+
+// Portable JSON bundles (environment moves, offline backups)
+router.get('/:id/export', authenticate, webSiteController.exportWebSite);
+router.post('/:id/import', authenticate, webSiteController.importWebSite);
+
+// Translation exchange with CAT tools
+router.get('/:id/translations/export', authenticate, translationExchangeController.exportTranslations);
+router.post('/:id/translations/import', authenticate, translationFile, translationExchangeController.importTranslations);
+router.get('/:id/translations/completeness', authenticate, translationReportController.getCompletenessReport);
+router.post('/:id/translations/machine-fill', authenticate, machineTranslationController.fillMissingTranslations);
+router.get('/:id/translations/review', authenticate, machineTranslationController.getTranslationsToReview);
+router.get('/:id/translations/suggestions', authenticate, translationMemoryController.getSuggestions);
+
 // Website users management
 router.route('/:id/users')
   .get(authenticate, webSiteController.getWebSiteUsers)
@@ -40,6 +78,11 @@ router.route('/:id/users')
 
 router.delete('/:id/users/:userId', authenticate, webSiteController.removeUserFromWebSite);
 
+// Trash bin (trashed sections and shared blocks, or the website itself)
+router.get('/:id/trash', authenticate, trashController.getTrash);
+router.post('/:id/trash/:entryId/restore', authenticate, trashController.restoreEntry);
+router.delete('/:id/trash/:entryId', authenticate, trashController.purgeEntry);
+
 // New special route for getting websites by user ID with sections and languages
 router.get('/client/user/:userId', clientWebSiteController.getWebSitesByUserIdWithDetails);
 
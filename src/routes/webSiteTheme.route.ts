@@ -2,14 +2,15 @@
 
 import { Router } from 'express';
 import { WebSiteThemeController } from '../controllers/WebSiteTheme.controller';
+import { documentParam, httpCache, websiteParam } from '../middleware/httpCache.middleware';
 
 const router = Router();
 const themeController = new WebSiteThemeController();
 
 router.post('/', themeController.createTheme);
-router.get('/website/:websiteId', themeController.getThemesByWebSite);
-router.get('/active/:websiteId', themeController.getActiveTheme);
-router.get('/:themeId', themeController.getThemeById);
+router.get('/website/:websiteId', httpCache(websiteParam('websiteId')), themeController.getThemesByWebSite);
+router.get('/active/:websiteId', httpCache(websiteParam('websiteId')), themeController.getActiveTheme);
+router.get('/:themeId', httpCache(documentParam('theme', 'themeId')), themeController.getThemeById);
 router.patch('/:themeId', themeController.updateTheme);
 router.patch('/colors/:themeId', themeController.updateThemeColors);
 router.patch('/fonts/:themeId', themeController.updateThemeFonts);
@@ -0,0 +1,120 @@
+import mongoose from 'mongoose';
+import { env } from '../config/env';
+import SectionModel, { sectionNameKeys } from '../models/sections.model';
+import LanguagesModel from '../models/languages.model';
+import WebSiteModel from '../models/WebSite.model';
+
+/**
+ * Moves section names and descriptions from the fixed { en, ar, tr } shape to the website's own languages:
+ * - drops the old unique indexes on name.en / name.ar / name.tr
+ * - turns legacy string names and descriptions into texts in the website default language and drops empty values
+ * - fills `nameKeys` and builds the unique index on names per website and language
+ * Sections using language codes their website does not define are reported, not changed.
+ *
+ * Usage: npm run migrate:section-languages [-- --dry-run]
+ */
+
+const LEGACY_INDEXES = ['name.en_1_WebSiteId_1', 'name.ar_1_WebSiteId_1', 'name.tr_1_WebSiteId_1'];
+
+const dryRun = process.argv.includes('--dry-run');
+
+const toTexts = (value: unknown, fallbackLanguage: string): Record<string, string> => {
+  if (typeof value === 'string') {
+    return value.trim() ? { [fallbackLanguage]: value.trim() } : {};
+  }
+  if (!value || typeof value !== 'object') return {};
+
+  const texts: Record<string, string> = {};
+  Object.keys(value).forEach((code) => {
+    const text = (value as any)[code];
+    if (typeof text === 'string' && text.trim()) texts[code] = text.trim();
+  });
+  return texts;
+};
+
+const dropLegacyIndexes = async () => {
+  const existing = (await SectionModel.collection.indexes()).map(index => index.name);
+
+  for (const name of LEGACY_INDEXES.filter(index => existing.includes(index))) {
+    console.log(`${dryRun ? 'Would drop' : 'Dropping'} index ${name}`);
+    if (!dryRun) await SectionModel.collection.dropIndex(name);
+  }
+};
+
+const migrateSections = async () => {
+  const [websites, languages] = await Promise.all([
+    WebSiteModel.find().select('defaultLanguage').lean<any[]>(),
+    LanguagesModel.find().select('websiteId languageID').sort({ createdAt: 1 }).lean<any[]>(),
+  ]);
+
+  const codesByWebSite = new Map<string, string[]>();
+  languages.forEach((language) => {
+    const id = language.websiteId.toString();
+    codesByWebSite.set(id, [...(codesByWebSite.get(id) || []), language.languageID]);
+  });
+  const defaultByWebSite = new Map<string, string>(websites.map(website => [
+    website._id.toString(),
+    website.defaultLanguage || (codesByWebSite.get(website._id.toString()) || [])[0] || 'en',
+  ]));
+
+  // The raw collection includes trashed sections and skips the model hooks
+  const sections = await SectionModel.collection.find({}).toArray();
+  let updated = 0;
+  const unknownCodes: string[] = [];
+
+  for (const section of sections) {
+    const webSiteId = section.WebSiteId?.toString();
+    const codes = codesByWebSite.get(webSiteId) || [];
+    const fallbackLanguage = defaultByWebSite.get(webSiteId) || 'en';
+
+    const name = toTexts(section.name, fallbackLanguage);
+    const description = toTexts(section.description, fallbackLanguage);
+    const nameKeys = sectionNameKeys(name);
+
+    const unknown = Array.from(new Set([...Object.keys(name), ...Object.keys(description)]))
+      .filter(code => !codes.includes(code));
+    if (unknown.length) {
+      unknownCodes.push(`${section._id} (${section.subName}, website ${webSiteId}): ${unknown.join(', ')}`);
+    }
+
+    const unchanged = JSON.stringify(section.name) === JSON.stringify(name)
+      && JSON.stringify(section.description) === JSON.stringify(description)
+      && JSON.stringify(section.nameKeys) === JSON.stringify(nameKeys);
+    if (unchanged) continue;
+
+    updated++;
+    if (!dryRun) {
+      await SectionModel.collection.updateOne({ _id: section._id }, { $set: { name, description, nameKeys } });
+    }
+  }
+
+  console.log(`${dryRun ? 'Would update' : 'Updated'} ${updated} of ${sections.length} sections`);
+  if (unknownCodes.length) {
+    console.warn(`⚠️ ${unknownCodes.length} sections use languages their website does not define; add the languages or rename the texts:`);
+    unknownCodes.forEach(line => console.warn(`  - ${line}`));
+  }
+};
+
+const main = async () => {
+  try {
+    await mongoose.connect(env.mongodb.uri, { serverSelectionTimeoutMS: 30000 });
+    console.log(`✅ Connected to MongoDB${dryRun ? ' (dry run, nothing is written)' : ''}`);
+
+    await dropLegacyIndexes();
+    await migrateSections();
+
+    if (!dryRun) {
+      await SectionModel.createIndexes();
+      console.log('Section indexes are up to date');
+    }
+
+    console.log('✅ Migration completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.connection.close();
+  }
+};
+
+main();
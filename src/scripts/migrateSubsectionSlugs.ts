@@ -0,0 +1,99 @@
+import mongoose from 'mongoose';
+import { env } from '../config/env';
+import SubSectionModel from '../models/subSections.model';
+import { slugify } from '../utils/slug';
+
+/**
+ * Prepares subsections for the unique index on slugs per website:
+ * - gives subsections without a slug one generated from their name
+ * - renames the later of two subsections sharing a slug in a website (`about` becomes `about-2`) and
+ *   keeps the old slug in the history, so lookups of it redirect to the new one
+ * - builds the unique index
+ * The oldest subsection keeps a shared slug; trashed subsections count, as they stay in the index.
+ *
+ * Usage: npm run migrate:subsection-slugs [-- --dry-run]
+ */
+
+const dryRun = process.argv.includes('--dry-run');
+
+const migrateSlugs = async () => {
+  // The raw collection includes trashed subsections and skips the model hooks
+  const subsections = await SubSectionModel.collection.find({}).sort({ createdAt: 1, _id: 1 }).toArray();
+  const takenByWebSite = new Map<string, Set<string>>();
+  const renamed: string[] = [];
+  const unnamed: string[] = [];
+
+  subsections.forEach((subsection) => {
+    const webSiteId = subsection.WebSiteId?.toString();
+    if (!takenByWebSite.has(webSiteId)) takenByWebSite.set(webSiteId, new Set());
+    const current = `${subsection.slug ?? ''}`.trim().toLowerCase();
+    if (current) takenByWebSite.get(webSiteId).add(current);
+  });
+  const seen = new Map<string, Set<string>>();
+
+  for (const subsection of subsections) {
+    const webSiteId = subsection.WebSiteId?.toString();
+    const taken = takenByWebSite.get(webSiteId);
+    if (!seen.has(webSiteId)) seen.set(webSiteId, new Set());
+    const used = seen.get(webSiteId);
+
+    const current = `${subsection.slug ?? ''}`.trim().toLowerCase();
+    if (current && !used.has(current)) {
+      used.add(current);
+      continue;
+    }
+
+    const base = current || slugify(subsection.name);
+    if (!base) {
+      unnamed.push(`${subsection._id} (${subsection.name}, website ${webSiteId})`);
+      continue;
+    }
+
+    let slug = base;
+    for (let suffix = 2; taken.has(slug) || used.has(slug); suffix++) {
+      slug = `${base}-${suffix}`;
+    }
+    taken.add(slug);
+    used.add(slug);
+    renamed.push(`${subsection._id} (website ${webSiteId}): ${current || '(none)'} → ${slug}`);
+
+    if (!dryRun) {
+      const update: Record<string, any> = { $set: { slug } };
+      if (current) {
+        update.$push = { slugHistory: { slug: current, language: null, changedAt: new Date() } };
+      }
+      await SubSectionModel.collection.updateOne({ _id: subsection._id }, update);
+    }
+  }
+
+  console.log(`${dryRun ? 'Would rename' : 'Renamed'} ${renamed.length} of ${subsections.length} subsections`);
+  renamed.forEach(line => console.log(`  - ${line}`));
+  if (unnamed.length) {
+    console.warn(`⚠️ ${unnamed.length} subsections have no slug and no name to build one from; set their slugs by hand:`);
+    unnamed.forEach(line => console.warn(`  - ${line}`));
+  }
+  return unnamed.length === 0;
+};
+
+const main = async () => {
+  try {
+    await mongoose.connect(env.mongodb.uri, { serverSelectionTimeoutMS: 30000 });
+    console.log(`✅ Connected to MongoDB${dryRun ? ' (dry run, nothing is written)' : ''}`);
+
+    const complete = await migrateSlugs();
+
+    if (!dryRun && complete) {
+      await SubSectionModel.createIndexes();
+      console.log('Subsection indexes are up to date');
+    }
+
+    console.log('✅ Migration completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.connection.close();
+  }
+};
+
+main();
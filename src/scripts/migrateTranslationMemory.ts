@@ -0,0 +1,69 @@
+import mongoose from 'mongoose';
+import { env } from '../config/env';
+import ContentTranslationModel from '../models/ContentTranslation.model';
+import { normalizeText } from '../utils/textSimilarity';
+
+/**
+ * Prepares translations for exact translation memory matches:
+ * - fills `normalizedContent` and `draft.normalizedContent` from the live and pending content
+ * - builds the indexes the memory looks them up by
+ *
+ * Usage: npm run migrate:translation-memory [-- --dry-run]
+ */
+
+const dryRun = process.argv.includes('--dry-run');
+
+const migrateTranslations = async () => {
+  // The raw collection includes trashed translations and skips the model hooks
+  const cursor = ContentTranslationModel.collection.find(
+    {},
+    { projection: { content: 1, normalizedContent: 1, 'draft.content': 1, 'draft.normalizedContent': 1 } }
+  );
+  let total = 0;
+  let updated = 0;
+
+  for await (const translation of cursor) {
+    total++;
+    const set: Record<string, string> = {};
+
+    if (typeof translation.content === 'string') {
+      const normalized = normalizeText(translation.content);
+      if (translation.normalizedContent !== normalized) set.normalizedContent = normalized;
+    }
+    if (typeof translation.draft?.content === 'string') {
+      const normalized = normalizeText(translation.draft.content);
+      if (translation.draft.normalizedContent !== normalized) set['draft.normalizedContent'] = normalized;
+    }
+    if (Object.keys(set).length === 0) continue;
+
+    updated++;
+    if (!dryRun) {
+      await ContentTranslationModel.collection.updateOne({ _id: translation._id }, { $set: set });
+    }
+  }
+
+  console.log(`${dryRun ? 'Would update' : 'Updated'} ${updated} of ${total} translations`);
+};
+
+const main = async () => {
+  try {
+    await mongoose.connect(env.mongodb.uri, { serverSelectionTimeoutMS: 30000 });
+    console.log(`✅ Connected to MongoDB${dryRun ? ' (dry run, nothing is written)' : ''}`);
+
+    await migrateTranslations();
+
+    if (!dryRun) {
+      await ContentTranslationModel.createIndexes();
+      console.log('Translation indexes are up to date');
+    }
+
+    console.log('✅ Migration completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.connection.close();
+  }
+};
+
+main();
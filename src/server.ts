@@ -2,6 +2,9 @@ import app from './app';
 import { connectDatabase } from './config/database';
 import { env } from './config/env';
 import logger from './config/logger';
+import publishScheduler from './services/publishScheduler.service';
+import trashService from './services/trash.service';
+import responseCacheService from './services/responseCache.service';
 
 // Connect to database
 let dbConnected = false;
@@ -32,6 +35,9 @@ if (process.env.VERCEL) {
 
   const gracefulShutdown = (signal: string) => {
     logger.info(`${signal} received. Shutting down gracefully...`);
+    publishScheduler.stop();
+    trashService.stopPurge();
+    responseCacheService.close().catch(() => undefined);
     
     setTimeout(() => {
       logger.info('Server did not close in time. Forcefully shutting down.');
@@ -56,6 +62,12 @@ if (process.env.VERCEL) {
           logger.info(`API available at http://0.0.0.0:${env.port}/api/${env.apiVersion}`);
         });
 
+      // Apply scheduled publish / unpublish windows in the background
+      publishScheduler.start();
+
+      // Permanently delete trash older than the retention period
+      trashService.startPurge();
+
       process.on('unhandledRejection', (error) => {
         logger.error('Unhandled Rejection:', error);
         server.close(() => {
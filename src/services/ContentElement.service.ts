@@ -6,23 +6,55 @@ import ContentTranslationModel from '../models/ContentTranslation.model';
 import cloudinaryService from './cloudinary.service';
 import { AppError } from '../middleware/errorHandler.middleware';
 import { File } from 'multer';
+import { applyDraft, buildDraftUpdate, draftProjection, publishedOnlyFilter, readableContent } from '../utils/contentDraft';
+import contentRevisionService from './contentRevision.service';
+import { IRevisionContext } from '../types/ContentRevision.type';
+import { normalizeItemSchema } from '../utils/itemSchema';
+import SharedBlockModel from '../models/SharedBlock.model';
+import sharedBlockService from './sharedBlock.service';
 
 class ContentElementService {
   /**
    * Create a new content element
    * @param data The content element data to create
+   * @param revision Author of the change, recorded in the revision history
    * @returns Promise with the created content element
    */
-  async createContentElement(data: ICreateContentElement): Promise<IContentElement> {
+  async createContentElement(data: ICreateContentElement, revision: IRevisionContext = {}): Promise<IContentElement> {
     try {
-      // Validate parent subsection exists (use lean for performance)
-      const parentExists = await SubSectionModel.exists({ _id: data.parent }).lean();
-      if (!parentExists) {
-        throw AppError.notFound(`Parent subsection with ID ${data.parent} not found`);
+      if (data.sharedBlock) {
+        // Elements of a shared block have no subsection, and blocks cannot embed other blocks
+        if (data.parent) {
+          throw AppError.validation('An element belongs either to a subsection or to a shared block');
+        }
+        if (data.type === 'reference') {
+          throw AppError.validation('Shared blocks cannot contain reference elements');
+        }
+        const blockExists = await SharedBlockModel.exists({ _id: data.sharedBlock }).lean();
+        if (!blockExists) {
+          throw AppError.notFound(`Shared block with ID ${data.sharedBlock} not found`);
+        }
+      } else {
+        // Validate parent subsection exists (use lean for performance)
+        const parentExists = await SubSectionModel.exists({ _id: data.parent }).lean();
+        if (!parentExists) {
+          throw AppError.notFound(`Parent subsection with ID ${data.parent} not found`);
+        }
+      }
+
+      if (data.type === 'reference') {
+        const blockId = await sharedBlockService.assertReferenceTarget(data.metadata?.blockId, data.parent);
+        data = { ...data, metadata: { ...data.metadata, blockId } };
+      }
+
+      if (data.metadata?.itemSchema) {
+        data = { ...data, metadata: { ...data.metadata, itemSchema: normalizeItemSchema(data.metadata.itemSchema, data.type) } };
       }
 
       // Create and save content element using lean-like efficiency
-      const contentElement = await ContentElementModel.create(data);
+      // New elements stay unpublished until their section is published
+      const contentElement = await ContentElementModel.create({ ...data, isPublished: false });
+      await contentRevisionService.recordRevision('ContentElement', contentElement, revision, 'create');
       return contentElement;
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -34,9 +66,10 @@ class ContentElementService {
    * Upload an image for a content element
    * @param id Content element ID
    * @param file The image file to upload
+   * @param revision Author of the change, recorded in the revision history
    * @returns Promise with the updated content element
    */
-  async uploadElementImage(id: string, file: File): Promise<IContentElement> {
+  async uploadElementImage(id: string, file: File, revision: IRevisionContext = {}): Promise<IContentElement> {
     try {
       // Validate ID
       if (!Types.ObjectId.isValid(id)) {
@@ -57,16 +90,20 @@ class ContentElementService {
       // Upload to Cloudinary
       const result = await cloudinaryService.uploadImage(file.path);
 
-      // Update content element with image URL and metadata
+      // Update content element with image URL and metadata (as a draft when the element is live)
+      const currentMetadata = applyDraft<IContentElement>(contentElement).metadata || {};
       const updatedElement = await ContentElementModel.findByIdAndUpdate(
         id,
         {
-          $set: {
+          $set: buildDraftUpdate(contentElement, {
             imageUrl: result.secure_url,
-            'metadata.cloudinaryId': result.public_id,
-            'metadata.width': result.width,
-            'metadata.height': result.height,
-          },
+            metadata: {
+              ...currentMetadata,
+              cloudinaryId: result.public_id,
+              width: result.width,
+              height: result.height,
+            },
+          }),
         },
         { new: true, runValidators: true }
       );
@@ -75,6 +112,7 @@ class ContentElementService {
         throw AppError.notFound(`Content element with ID ${id} not found after update`);
       }
 
+      await contentRevisionService.recordRevision('ContentElement', updatedElement, revision);
       return updatedElement;
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -86,9 +124,10 @@ class ContentElementService {
    * Upload a file for a content element
    * @param id Content element ID
    * @param file The file to upload
+   * @param revision Author of the change, recorded in the revision history
    * @returns Promise with the updated content element
    */
-  async uploadElementFile(id: string, file: File): Promise<IContentElement> {
+  async uploadElementFile(id: string, file: File, revision: IRevisionContext = {}): Promise<IContentElement> {
     try {
       // Validate ID
       if (!Types.ObjectId.isValid(id)) {
@@ -134,7 +173,8 @@ class ContentElementService {
         unique_filename: false,
       });
 
-      // Update content element with file information
+      // Update content element with file information (metadata as a draft when the element is live)
+      const currentMetadata = applyDraft<IContentElement>(contentElement).metadata || {};
       const updatedElement = await ContentElementModel.findByIdAndUpdate(
         id,
         {
@@ -143,8 +183,13 @@ class ContentElementService {
             fileName: file.originalname,
             fileSize: file.size,
             fileMimeType: file.mimetype,
-            'metadata.cloudinaryId': result.public_id,
-            'metadata.resourceType': result.resource_type,
+            ...buildDraftUpdate(contentElement, {
+              metadata: {
+                ...currentMetadata,
+                cloudinaryId: result.public_id,
+                resourceType: result.resource_type,
+              },
+            }),
           },
         },
         { new: true, runValidators: true }
@@ -154,6 +199,7 @@ class ContentElementService {
         throw AppError.notFound(`Content element with ID ${id} not found after update`);
       }
 
+      await contentRevisionService.recordRevision('ContentElement', updatedElement, revision);
       return updatedElement;
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -165,28 +211,41 @@ class ContentElementService {
    * Get content element by ID
    * @param id The content element ID
    * @param populateTranslations Whether to populate translations
+   * @param includeDrafts Whether to include unpublished content and apply pending drafts
    * @returns Promise with the content element
    */
-  async getContentElementById(id: string, populateTranslations: boolean = false): Promise<IContentElement> {
+  async getContentElementById(
+    id: string,
+    populateTranslations: boolean = false,
+    includeDrafts: boolean = false
+  ): Promise<IContentElement> {
     try {
       if (!Types.ObjectId.isValid(id)) {
         throw AppError.validation('Invalid content element ID format');
       }
 
       // Use lean for faster queries
-      let query = ContentElementModel.findById(id).lean();
-      let contentElement = await query.exec();
+      const query = ContentElementModel.findOne({ _id: id, ...publishedOnlyFilter(includeDrafts) })
+        .select(draftProjection(includeDrafts))
+        .lean();
+      const stored = await query.exec();
 
-      if (!contentElement) {
+      if (!stored) {
         throw AppError.notFound(`Content element with ID ${id} not found`);
       }
 
+      const contentElement = readableContent<IContentElement>(stored, includeDrafts);
+
       // Populate translations if requested
       if (populateTranslations) {
-        const translations = await ContentTranslationModel.find({ contentElement: id })
+        const translations = await ContentTranslationModel.find({
+          contentElement: id,
+          ...publishedOnlyFilter(includeDrafts),
+        })
+          .select(draftProjection(includeDrafts))
           .populate('language')
           .lean();
-        (contentElement as any).translations = translations;
+        (contentElement as any).translations = translations.map((translation) => readableContent(translation, includeDrafts));
       }
 
       return contentElement;
@@ -201,12 +260,14 @@ class ContentElementService {
    * @param subsectionId The subsection ID
    * @param activeOnly Whether to return only active elements
    * @param populateTranslations Whether to populate translations
+   * @param includeDrafts Whether to include unpublished content and apply pending drafts
    * @returns Promise with array of content elements
    */
   async getContentElementsBySubsection(
     subsectionId: string,
     activeOnly: boolean = true,
-    populateTranslations: boolean = false
+    populateTranslations: boolean = false,
+    includeDrafts: boolean = false
   ): Promise<IContentElement[]> {
     try {
       if (!Types.ObjectId.isValid(subsectionId)) {
@@ -220,25 +281,37 @@ class ContentElementService {
       }
 
       // Build query with lean
-      const query: any = { parent: subsectionId };
-      if (activeOnly) {
+      const query: any = { parent: subsectionId, ...publishedOnlyFilter(includeDrafts) };
+      if (activeOnly && !includeDrafts) {
         query.isActive = true;
       }
 
-      // Use findLean static method for performance
-      let contentElements = await ContentElementModel.findLean(query).sort({ order: 1, createdAt: 1 });
+      let contentElements = (await ContentElementModel.find(query)
+        .select(draftProjection(includeDrafts))
+        .sort({ order: 1, createdAt: 1 })
+        .lean<IContentElement[]>())
+        .map((element) => readableContent<IContentElement>(element, includeDrafts));
+
+      // Drafts can change activity and order, so filter and sort after applying them
+      if (includeDrafts) {
+        contentElements = contentElements
+          .filter((element) => !activeOnly || element.isActive)
+          .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+      }
 
       // Populate translations if requested
       if (populateTranslations && contentElements.length > 0) {
         const elementIds = contentElements.map((element) => element._id);
         const translations = await ContentTranslationModel.find({
           contentElement: { $in: elementIds },
+          ...publishedOnlyFilter(includeDrafts),
         })
+          .select(draftProjection(includeDrafts))
           .populate('language')
           .lean();
 
         // Group translations by content element ID
-        const translationsByElement = translations.reduce(
+        const translationsByElement = translations.map((t) => readableContent(t, includeDrafts)).reduce(
           (acc, translation) => {
             const elementId = translation.contentElement.toString();
             acc[elementId] = acc[elementId] || [];
@@ -264,11 +337,17 @@ class ContentElementService {
 
   /**
    * Update content element by ID
+   * Content fields of a published element are written to its draft; parent moves apply directly
    * @param id The content element ID
    * @param updateData The data to update
+   * @param revision Author of the change, recorded in the revision history
    * @returns Promise with the updated content element
    */
-  async updateContentElement(id: string, updateData: IUpdateContentElement): Promise<IContentElement> {
+  async updateContentElement(
+    id: string,
+    updateData: IUpdateContentElement,
+    revision: IRevisionContext = {}
+  ): Promise<IContentElement> {
     try {
       if (!Types.ObjectId.isValid(id)) {
         throw AppError.validation('Invalid content element ID format');
@@ -285,10 +364,36 @@ class ContentElementService {
         }
       }
 
+      const existing = await ContentElementModel.findById(id).lean();
+      if (!existing) {
+        throw AppError.notFound(`Content element with ID ${id} not found`);
+      }
+
+      // The owning shared block of an element never changes
+      const { parent, ...changes } = updateData as IUpdateContentElement & { sharedBlock?: unknown };
+      delete changes.sharedBlock;
+      if (parent && existing.sharedBlock) {
+        throw AppError.validation('Elements of a shared block cannot be moved to a subsection');
+      }
+
+      const type = changes.type || applyDraft<IContentElement>(existing).type;
+      if (type === 'reference' && (changes.type || changes.metadata || parent)) {
+        if (existing.sharedBlock) {
+          throw AppError.validation('Shared blocks cannot contain reference elements');
+        }
+        const metadata = changes.metadata || applyDraft<IContentElement>(existing).metadata;
+        const blockId = await sharedBlockService.assertReferenceTarget(metadata?.blockId, parent || existing.parent);
+        changes.metadata = { ...metadata, blockId };
+      }
+
+      if (changes.metadata?.itemSchema) {
+        changes.metadata = { ...changes.metadata, itemSchema: normalizeItemSchema(changes.metadata.itemSchema, type) };
+      }
+
       // Update with lean-like efficiency
       const contentElement = await ContentElementModel.findByIdAndUpdate(
         id,
-        { $set: updateData },
+        { $set: { ...(parent ? { parent } : {}), ...buildDraftUpdate(existing, changes) } },
         { new: true, runValidators: true, lean: true }
       );
 
@@ -296,6 +401,7 @@ class ContentElementService {
         throw AppError.notFound(`Content element with ID ${id} not found`);
       }
 
+      await contentRevisionService.recordRevision('ContentElement', contentElement, revision);
       return contentElement;
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -307,9 +413,14 @@ class ContentElementService {
    * Delete content element by ID
    * @param id The content element ID
    * @param hardDelete Whether to permanently delete
+   * @param revision Author of the change, recorded in the revision history
    * @returns Promise with the operation result
    */
-  async deleteContentElement(id: string, hardDelete: boolean = false): Promise<{ success: boolean; message: string }> {
+  async deleteContentElement(
+    id: string,
+    hardDelete: boolean = false,
+    revision: IRevisionContext = {}
+  ): Promise<{ success: boolean; message: string }> {
     try {
       if (!Types.ObjectId.isValid(id)) {
         throw AppError.validation('Invalid content element ID format');
@@ -335,13 +446,18 @@ class ContentElementService {
       }
 
       if (hardDelete) {
+        // Keep the last state of the element and its translations in the history
+        const translations = await ContentTranslationModel.find({ contentElement: id }).lean();
+        await contentRevisionService.recordRevisions('ContentTranslation', translations, revision, 'delete');
+        await contentRevisionService.recordRevision('ContentElement', contentElement, revision, 'delete');
+
         // Delete translations first, then content element
         await ContentTranslationModel.deleteMany({ contentElement: id });
         await ContentElementModel.findByIdAndDelete(id);
         return { success: true, message: 'Content element and its translations deleted successfully' };
       } else {
         // Soft delete - deactivate content element and its translations
-        await ContentElementModel.findByIdAndUpdate(
+        const deactivated = await ContentElementModel.findByIdAndUpdate(
           id,
           { $set: { isActive: false } },
           { new: true }
@@ -350,6 +466,10 @@ class ContentElementService {
           { contentElement: id },
           { $set: { isActive: false } }
         );
+
+        const translations = await ContentTranslationModel.find({ contentElement: id }).lean();
+        await contentRevisionService.recordRevision('ContentElement', deactivated, revision, 'delete');
+        await contentRevisionService.recordRevisions('ContentTranslation', translations, revision, 'delete');
         return { success: true, message: 'Content element and its translations deactivated successfully' };
       }
     } catch (error) {
@@ -364,9 +484,13 @@ class ContentElementService {
   /**
    * Bulk update content element order
    * @param elements Array of { id, order } objects
+   * @param revision Author of the change, recorded in the revision history
    * @returns Promise with success message
    */
-  async updateElementsOrder(elements: { id: string; order: number }[]): Promise<{ success: boolean; message: string }> {
+  async updateElementsOrder(
+    elements: { id: string; order: number }[],
+    revision: IRevisionContext = {}
+  ): Promise<{ success: boolean; message: string }> {
     const session = await mongoose.startSession();
     session.startTransaction();
 
@@ -377,11 +501,20 @@ class ContentElementService {
         throw AppError.validation('Invalid content element IDs: ' + invalidIds.map((e) => e.id).join(', '));
       }
 
+      // Live elements get the new order as a draft
+      const existing = await ContentElementModel.find(
+        { _id: { $in: elements.map((element) => element.id) } },
+        'isPublished'
+      )
+        .session(session)
+        .lean();
+      const existingById = new Map(existing.map((element) => [element._id.toString(), element]));
+
       // Prepare bulk operations
       const bulkOps = elements.map((element) => ({
         updateOne: {
           filter: { _id: new Types.ObjectId(element.id) },
-          update: { $set: { order: element.order } },
+          update: { $set: buildDraftUpdate(existingById.get(element.id) || {}, { order: element.order }) },
         },
       }));
 
@@ -393,6 +526,10 @@ class ContentElementService {
       }
 
       await session.commitTransaction();
+
+      const reordered = await ContentElementModel.find({ _id: { $in: elements.map((element) => element.id) } }).lean();
+      await contentRevisionService.recordRevisions('ContentElement', reordered, revision);
+
       return { success: true, message: `Updated order for ${elements.length} content elements` };
     } catch (error) {
       await session.abortTransaction();
@@ -4,14 +4,20 @@ import LanguagesModel from '../models/languages.model';
 import { IContentTranslation, ICreateContentTranslation, IUpdateContentTranslation } from '../types/ContentTranslation.type';
 import ContentElementModel from '../models/ContentElement.model';
 import ContentTranslationModel from '../models/ContentTranslation.model';
+import { applyDraft, buildDraftUpdate, draftProjection, isLive, publishedOnlyFilter, readableContent } from '../utils/contentDraft';
+import contentRevisionService from './contentRevision.service';
+import { IRevisionContext } from '../types/ContentRevision.type';
+import { validateTranslationContent } from '../utils/translationValidators';
+import { copySharedFields, fillSharedFields, getItemSchema, parseItems, validateItems } from '../utils/itemSchema';
 
 class ContentTranslationService {
   /**
    * Create a new content translation - WITHOUT TRANSACTIONS (for standalone MongoDB)
    * @param data The translation data to create
+   * @param revision Author of the change, recorded in the revision history
    * @returns Promise with the created translation
    */
-  async createTranslation(data: ICreateContentTranslation): Promise<IContentTranslation> {
+  async createTranslation(data: ICreateContentTranslation, revision: IRevisionContext = {}): Promise<IContentTranslation> {
   // Log incoming request data
   console.log('=== TRANSLATION CREATE REQUEST ===');
   console.log('Request Data:', JSON.stringify(data, null, 2));
@@ -42,7 +48,8 @@ class ContentTranslationService {
     // Check database existence
     console.log('🔍 Checking database existence...');
     
-    const elementExistsPromise = ContentElementModel.exists({ _id: data.contentElement }).lean();
+    // The element type decides which content is valid
+    const elementExistsPromise = ContentElementModel.findById(data.contentElement, 'type metadata draft').lean();
     const languageExistsPromise = LanguagesModel.exists({ _id: data.language }).lean();
 
     const [elementExists, languageExists] = await Promise.all([
@@ -77,6 +84,16 @@ class ContentTranslationService {
 
     console.log('✅ Database existence validation passed');
 
+    // Array/list elements with an item schema store structured items next to their JSON content
+    const structured = await this.prepareItems(
+      elementExists,
+      data.items !== undefined ? data.items : data.content,
+      data.contentElement
+    );
+    const content = structured
+      ? structured.content
+      : validateTranslationContent(elementExists, data.content, data.rawContent);
+
     // Check for duplicate translation
     console.log('🔍 Checking for existing translation...');
     
@@ -108,12 +125,15 @@ class ContentTranslationService {
     console.log('✅ No duplicate translation found');
 
     // Prepare translation data with explicit field mapping
+    // New translations stay unpublished until their section is published
     const translationData = {
-      content: data.content,
+      content,
+      ...(structured ? { items: structured.items } : {}),
       contentElement: new mongoose.Types.ObjectId(data.contentElement as string),
       language: new mongoose.Types.ObjectId(data.language as string),
       isActive: data.isActive !== undefined ? data.isActive : true,
       metadata: data.metadata || {},
+      isPublished: false,
       createdAt: new Date(),
       updatedAt: new Date()
     };
@@ -154,6 +174,9 @@ class ContentTranslationService {
       contentLength: translation[0].content?.length
     });
 
+    await contentRevisionService.recordRevision('ContentTranslation', translation[0], revision, 'create');
+    if (structured) await this.syncSharedItems(elementExists, translation[0], revision);
+
     console.log('=== TRANSLATION CREATE SUCCESS ===');
     return translation[0];
 
@@ -187,23 +210,26 @@ class ContentTranslationService {
   /**
    * Get translation by ID
    * @param id The translation ID
+   * @param includeDrafts Whether to include unpublished translations and apply pending drafts
    * @returns Promise with the translation
    */
-  async getTranslationById(id: string): Promise<IContentTranslation> {
+  async getTranslationById(id: string, includeDrafts: boolean = false): Promise<IContentTranslation> {
     try {
       if (!Types.ObjectId.isValid(id)) {
         throw AppError.validation('Invalid translation ID format');
       }
 
-      const translation = await ContentTranslationModel.findLean({ _id: id })
+      const translation = await ContentTranslationModel.findOne({ _id: id, ...publishedOnlyFilter(includeDrafts) })
+        .select(draftProjection(includeDrafts))
         .populate('language')
-        .populate('contentElement');
+        .populate({ path: 'contentElement', select: draftProjection(includeDrafts) })
+        .lean<IContentTranslation>();
 
-      if (!translation.length) {
+      if (!translation) {
         throw AppError.notFound(`Translation with ID ${id} not found`);
       }
 
-      return translation[0];
+      return readableContent<IContentTranslation>(translation, includeDrafts);
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw AppError.database('Failed to retrieve translation', error);
@@ -214,22 +240,34 @@ class ContentTranslationService {
    * Get all translations for a content element
    * @param contentElementId The content element ID
    * @param activeOnly Whether to return only active translations
+   * @param includeDrafts Whether to include unpublished translations and apply pending drafts
    * @returns Promise with array of translations
    */
-  async getTranslationsByContentElement(contentElementId: string, activeOnly: boolean = true): Promise<IContentTranslation[]> {
+  async getTranslationsByContentElement(
+    contentElementId: string,
+    activeOnly: boolean = true,
+    includeDrafts: boolean = false
+  ): Promise<IContentTranslation[]> {
     try {
       if (!Types.ObjectId.isValid(contentElementId)) {
         throw AppError.validation('Invalid content element ID format');
       }
 
-      const query: any = { contentElement: contentElementId };
-      if (activeOnly) query.isActive = true;
+      const query: any = { contentElement: contentElementId, ...publishedOnlyFilter(includeDrafts) };
+      if (activeOnly && !includeDrafts) query.isActive = true;
 
-      const translations = await ContentTranslationModel.findLean(query)
+      const translations = await ContentTranslationModel.find(query)
+        .select(draftProjection(includeDrafts))
         .populate('language')
-        .sort({ 'language.language': 1 });
+        .sort({ 'language.language': 1 })
+        .lean<IContentTranslation[]>();
 
-      return translations;
+      if (!includeDrafts) return translations.map(translation => readableContent<IContentTranslation>(translation));
+
+      // Activity is decided after the draft is applied
+      return translations
+        .map(translation => applyDraft<IContentTranslation>(translation))
+        .filter(translation => !activeOnly || translation.isActive);
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw AppError.database('Failed to retrieve translations', error);
@@ -240,22 +278,34 @@ class ContentTranslationService {
    * Get all translations for a language
    * @param languageId The language ID
    * @param activeOnly Whether to return only active translations
+   * @param includeDrafts Whether to include unpublished translations and apply pending drafts
    * @returns Promise with array of translations
    */
-  async getTranslationsByLanguage(languageId: string, activeOnly: boolean = true): Promise<IContentTranslation[]> {
+  async getTranslationsByLanguage(
+    languageId: string,
+    activeOnly: boolean = true,
+    includeDrafts: boolean = false
+  ): Promise<IContentTranslation[]> {
     try {
       if (!Types.ObjectId.isValid(languageId)) {
         throw AppError.validation('Invalid language ID format');
       }
 
-      const query: any = { language: languageId };
-      if (activeOnly) query.isActive = true;
+      const query: any = { language: languageId, ...publishedOnlyFilter(includeDrafts) };
+      if (activeOnly && !includeDrafts) query.isActive = true;
+
+      const translations = await ContentTranslationModel.find(query)
+        .select(draftProjection(includeDrafts))
+        .populate({ path: 'contentElement', select: draftProjection(includeDrafts) })
+        .sort({ 'contentElement.order': 1 })
+        .lean<IContentTranslation[]>();
 
-      const translations = await ContentTranslationModel.findLean(query)
-        .populate('contentElement')
-        .sort({ 'contentElement.order': 1 });
+      if (!includeDrafts) return translations.map(translation => readableContent<IContentTranslation>(translation));
 
-      return translations;
+      // Activity is decided after the draft is applied
+      return translations
+        .map(translation => applyDraft<IContentTranslation>(translation))
+        .filter(translation => !activeOnly || translation.isActive);
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw AppError.database('Failed to retrieve translations', error);
@@ -266,22 +316,32 @@ class ContentTranslationService {
    * Get specific translation by content element and language
    * @param contentElementId The content element ID
    * @param languageId The language ID
+   * @param includeDrafts Whether to include unpublished translations and apply pending drafts
    * @returns Promise with the translation if found
    */
-  async getTranslation(contentElementId: string, languageId: string): Promise<IContentTranslation | null> {
+  async getTranslation(
+    contentElementId: string,
+    languageId: string,
+    includeDrafts: boolean = false
+  ): Promise<IContentTranslation | null> {
     try {
       if (!Types.ObjectId.isValid(contentElementId) || !Types.ObjectId.isValid(languageId)) {
         throw AppError.validation('Invalid content element or language ID format');
       }
 
-      const translation = await ContentTranslationModel.findLean({
+      const translation = await ContentTranslationModel.findOne({
         contentElement: contentElementId,
         language: languageId,
+        ...publishedOnlyFilter(includeDrafts),
       })
+        .select(draftProjection(includeDrafts))
         .populate('language')
-        .populate('contentElement');
+        .populate({ path: 'contentElement', select: draftProjection(includeDrafts) })
+        .lean<IContentTranslation>();
+
+      if (!translation) return null;
 
-      return translation.length ? translation[0] : null;
+      return readableContent<IContentTranslation>(translation, includeDrafts);
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw AppError.database('Failed to retrieve translation', error);
@@ -290,16 +350,27 @@ class ContentTranslationService {
 
   /**
    * Update translation by ID - WITHOUT TRANSACTIONS (for standalone MongoDB)
+   * Content, isActive and metadata of a published translation are written to its draft
    * @param id The translation ID
    * @param updateData The data to update
+   * @param revision Author of the change, recorded in the revision history
    * @returns Promise with the updated translation
    */
-  async updateTranslation(id: string, updateData: IUpdateContentTranslation): Promise<IContentTranslation> {
+  async updateTranslation(
+    id: string,
+    updateData: IUpdateContentTranslation,
+    revision: IRevisionContext = {}
+  ): Promise<IContentTranslation> {
     try {
       if (!Types.ObjectId.isValid(id)) {
         throw AppError.validation('Invalid translation ID format');
       }
 
+      const existing = await ContentTranslationModel.findById(id).lean();
+      if (!existing) {
+        throw AppError.notFound(`Translation with ID ${id} not found`);
+      }
+
       // Validate new contentElement or language if provided
       if (updateData.contentElement || updateData.language) {
         const [elementExists, languageExists] = await Promise.all([
@@ -332,12 +403,46 @@ class ContentTranslationService {
         }
       }
 
+      const { isActive, metadata, rawContent, items: incomingItems, ...keyFields } = updateData;
+      let { content } = updateData;
+      let items: Record<string, any>[] | undefined;
+      let element = null;
+
+      // Content is checked against the (possibly new) element whenever either of them changes
+      if (content !== undefined || incomingItems !== undefined || updateData.contentElement) {
+        element = await ContentElementModel.findById(
+          updateData.contentElement || existing.contentElement,
+          'type metadata draft'
+        ).lean();
+        if (!element) {
+          throw AppError.notFound(`Content element with ID ${updateData.contentElement || existing.contentElement} not found`);
+        }
+
+        const current = applyDraft<IContentTranslation>(existing);
+        const structured = await this.prepareItems(
+          element,
+          incomingItems !== undefined ? incomingItems : content !== undefined ? content : current.items || current.content,
+          updateData.contentElement || existing.contentElement,
+          id
+        );
+
+        if (structured) {
+          ({ content, items } = structured);
+        } else {
+          const validated = content !== undefined
+            ? validateTranslationContent(element, content, rawContent)
+            : validateTranslationContent(element, current.content);
+          if (content !== undefined) content = validated;
+        }
+      }
+
       // Update translation
       const translation = await ContentTranslationModel.findByIdAndUpdate(
         id,
         { 
           $set: {
-            ...updateData,
+            ...keyFields,
+            ...buildDraftUpdate(existing, { content, items, isActive, metadata }),
             updatedAt: new Date()
           }
         },
@@ -352,6 +457,8 @@ class ContentTranslationService {
         throw AppError.notFound(`Translation with ID ${id} not found`);
       }
 
+      await contentRevisionService.recordRevision('ContentTranslation', translation, revision);
+      if (items) await this.syncSharedItems(element, translation, revision);
       return translation;
     } catch (error) {
       console.error('💥 UPDATE TRANSLATION ERROR:', error);
@@ -370,9 +477,14 @@ class ContentTranslationService {
    * Delete translation by ID - WITHOUT TRANSACTIONS (for standalone MongoDB)
    * @param id The translation ID
    * @param hardDelete Whether to permanently delete
+   * @param revision Author of the change, recorded in the revision history
    * @returns Promise with the operation result
    */
-  async deleteTranslation(id: string, hardDelete: boolean = false): Promise<{ success: boolean; message: string }> {
+  async deleteTranslation(
+    id: string,
+    hardDelete: boolean = false,
+    revision: IRevisionContext = {}
+  ): Promise<{ success: boolean; message: string }> {
     try {
       if (!Types.ObjectId.isValid(id)) {
         throw AppError.validation('Invalid translation ID format');
@@ -385,11 +497,14 @@ class ContentTranslationService {
 
       if (hardDelete) {
         await ContentTranslationModel.findByIdAndDelete(id);
+        await contentRevisionService.recordRevision('ContentTranslation', translation, revision, 'delete');
       } else {
-        await ContentTranslationModel.findByIdAndUpdate(
+        const deactivated = await ContentTranslationModel.findByIdAndUpdate(
           id, 
-          { $set: { isActive: false, updatedAt: new Date() } }
+          { $set: { isActive: false, updatedAt: new Date() } },
+          { new: true, lean: true }
         );
+        await contentRevisionService.recordRevision('ContentTranslation', deactivated, revision, 'delete');
       }
 
       return {
@@ -412,9 +527,10 @@ class ContentTranslationService {
 /**
  * Bulk create or update translations - WITHOUT TRANSACTIONS (for standalone MongoDB)
  * @param translations Array of translation data
+ * @param revision Author of the change, recorded in the revision history
  * @returns Promise with success message and count
  */
-async bulkUpsertTranslations(translations: (ICreateContentTranslation & { id?: string })[]): 
+async bulkUpsertTranslations(translations: (ICreateContentTranslation & { id?: string })[], revision: IRevisionContext = {}): 
   Promise<{ success: boolean; message: string; created: number; updated: number; errors?: string[] }> {
   
   // Validate the input array first
@@ -460,7 +576,7 @@ async bulkUpsertTranslations(translations: (ICreateContentTranslation & { id?: s
             throw new Error(`Invalid language ID: ${item.language}`);
           }
 
-          if (!item.content) {
+          if (!item.content && item.items === undefined) {
             throw new Error('Content is required');
           }
 
@@ -493,16 +609,16 @@ async bulkUpsertTranslations(translations: (ICreateContentTranslation & { id?: s
       const languageIds = [...new Set(validItems.map(item => item.language.toString()))];
 
       const [existingElements, existingLanguages] = await Promise.all([
-        ContentElementModel.find({ _id: { $in: contentElementIds } }, '_id').lean(),
+        ContentElementModel.find({ _id: { $in: contentElementIds } }, '_id type metadata draft').lean(),
         LanguagesModel.find({ _id: { $in: languageIds } }, '_id').lean()
       ]);
 
-      const existingElementIds = new Set(existingElements.map(el => el._id.toString()));
+      const existingElementsById = new Map(existingElements.map(el => [el._id.toString(), el]));
       const existingLanguageIds = new Set(existingLanguages.map(lang => lang._id.toString()));
 
       // Filter out items with non-existent references
       const itemsWithValidRefs = validItems.filter(item => {
-        const elementExists = existingElementIds.has(item.contentElement.toString());
+        const elementExists = existingElementsById.has(item.contentElement.toString());
         const languageExists = existingLanguageIds.has(item.language.toString());
         
         if (!elementExists) {
@@ -520,74 +636,67 @@ async bulkUpsertTranslations(translations: (ICreateContentTranslation & { id?: s
       // Process each valid item (WITHOUT session)
       for (const item of itemsWithValidRefs) {
         try {
-          if (item.id && mongoose.Types.ObjectId.isValid(item.id)) {
-            // Update by ID
-            const updateResult = await ContentTranslationModel.findByIdAndUpdate(
-              item.id,
-              { 
-                $set: {
-                  content: item.content,
-                  contentElement: item.contentElement,
-                  language: item.language,
-                  isActive: item.isActive !== undefined ? item.isActive : true,
-                  metadata: item.metadata || {},
-                  updatedAt: new Date()
-                }
-              },
-              { 
-                runValidators: true, 
-                new: true,
-                lean: true
-              }
-            );
-            
-            if (!updateResult) {
-              throw new Error(`Translation with ID ${item.id} not found for update`);
-            }
-            
-            updated++;
-            console.log(`📝 Updated translation ${item.id}`);
-          } else {
-            // Upsert by contentElement + language
-            const upsertResult = await ContentTranslationModel.findOneAndUpdate(
-              {
+          // Match by ID when given, otherwise by contentElement + language
+          const hasId = item.id && mongoose.Types.ObjectId.isValid(item.id);
+          const existing = hasId
+            ? await ContentTranslationModel.findById(item.id).lean()
+            : await ContentTranslationModel.findOne({
                 contentElement: item.contentElement,
                 language: item.language
-              },
+              }).lean();
+
+          if (hasId && !existing) {
+            throw new Error(`Translation with ID ${item.id} not found for update`);
+          }
+
+          const element = existingElementsById.get(item.contentElement.toString());
+          const structured = await this.prepareItems(
+            element,
+            item.items !== undefined ? item.items : item.content,
+            item.contentElement,
+            existing?._id
+          );
+
+          const changes = {
+            content: structured
+              ? structured.content
+              : validateTranslationContent(element, item.content, item.rawContent),
+            items: structured?.items,
+            isActive: item.isActive !== undefined ? item.isActive : true,
+            metadata: item.metadata || {}
+          };
+
+          if (existing) {
+            // Published translations receive the new values as a draft
+            const updatedTranslation = await ContentTranslationModel.findByIdAndUpdate(
+              existing._id,
               {
                 $set: {
-                  content: item.content,
-                  isActive: item.isActive !== undefined ? item.isActive : true,
-                  metadata: item.metadata || {},
+                  ...(hasId ? { contentElement: item.contentElement, language: item.language } : {}),
+                  ...buildDraftUpdate(existing, changes),
                   updatedAt: new Date()
-                },
-                $setOnInsert: {
-                  contentElement: item.contentElement,
-                  language: item.language,
-                  createdAt: new Date()
                 }
               },
-              {
-                upsert: true,
-                new: true,
-                runValidators: true,
-                lean: true
-              }
+              { runValidators: true, new: true, lean: true }
             );
+            await contentRevisionService.recordRevision('ContentTranslation', updatedTranslation, revision);
+            if (structured) await this.syncSharedItems(element, updatedTranslation, revision);
 
-            if (upsertResult) {
-              // Check if it was created or updated by comparing timestamps
-              const wasCreated = upsertResult.createdAt && 
-                Math.abs(upsertResult.createdAt.getTime() - upsertResult.updatedAt.getTime()) < 1000;
-              
-              if (wasCreated) {
-                created++;
-                console.log(`✨ Created translation for element ${item.contentElement} + language ${item.language}`);
-              } else {
-                updated++;
-                console.log(`📝 Updated translation for element ${item.contentElement} + language ${item.language}`);
-              }
-            }
+            updated++;
+            console.log(`📝 Updated translation ${existing._id}${isLive(existing) ? ' (draft)' : ''}`);
+          } else {
+            // New translations stay unpublished until their section is published
+            const createdTranslation = await ContentTranslationModel.create({
+              ...changes,
+              contentElement: item.contentElement,
+              language: item.language,
+              isPublished: false
+            });
+            await contentRevisionService.recordRevision('ContentTranslation', createdTranslation, revision, 'create');
+            if (structured) await this.syncSharedItems(element, createdTranslation, revision);
+
+            created++;
+            console.log(`✨ Created translation for element ${item.contentElement} + language ${item.language}`);
           }
 
         } catch (itemError) {
@@ -634,6 +743,66 @@ async bulkUpsertTranslations(translations: (ICreateContentTranslation & { id?: s
     throw AppError.database(`Bulk upsert failed: ${error.message}`);
   }
 }
+
+  /**
+   * Validate structured items of an array/list element that declares an item schema.
+   * Non-translatable fields left out are taken from the most recently edited other language.
+   * @param element The content element
+   * @param input Items as an array, or the JSON string sent as content
+   * @param contentElementId ID of the element the translation belongs to
+   * @param excludeId The translation being written, when it already exists
+   * @returns The items and their JSON content, or null when the element has no item schema
+   */
+  private async prepareItems(
+    element: any,
+    input: unknown,
+    contentElementId: ICreateContentTranslation['contentElement'],
+    excludeId?: unknown
+  ): Promise<{ content: string; items: Record<string, any>[] } | null> {
+    const schema = getItemSchema(element);
+    if (!schema) return null;
+
+    const sibling = await ContentTranslationModel.findOne({
+      contentElement: contentElementId,
+      ...(excludeId ? { _id: { $ne: excludeId } } : {})
+    })
+      .sort({ updatedAt: -1 })
+      .lean<IContentTranslation>();
+
+    const siblingItems = sibling ? applyDraft<IContentTranslation>(sibling).items : undefined;
+    const items = validateItems(schema, fillSharedFields(schema, parseItems(input), siblingItems));
+
+    return { content: JSON.stringify(items), items };
+  }
+
+  /**
+   * Copy the non-translatable item fields of a written translation to the other languages of its element
+   * @param element The content element
+   * @param translation The translation just written
+   * @param revision Author of the change, recorded on every updated translation
+   */
+  private async syncSharedItems(element: any, translation: any, revision: IRevisionContext): Promise<void> {
+    const schema = getItemSchema(element);
+    const fromItems = applyDraft<IContentTranslation>(translation)?.items;
+    if (!schema || !fromItems) return;
+
+    const siblings = await ContentTranslationModel.find({
+      contentElement: translation.contentElement,
+      _id: { $ne: translation._id }
+    }).lean<IContentTranslation[]>();
+
+    for (const sibling of siblings) {
+      const items = copySharedFields(schema, fromItems, applyDraft<IContentTranslation>(sibling).items);
+      if (!items) continue;
+
+      const updated = await ContentTranslationModel.findByIdAndUpdate(
+        sibling._id,
+        { $set: { ...buildDraftUpdate(sibling, { items, content: JSON.stringify(items) }), updatedAt: new Date() } },
+        { new: true }
+      );
+      await contentRevisionService.recordRevision('ContentTranslation', updated, revision);
+    }
+  }
 }
 
 export default new ContentTranslationService();
\ No newline at end of file
@@ -3,29 +3,22 @@ import { AppError } from "../middleware/errorHandler.middleware";
 import UserModel from "../models/user.model";
 import WebSiteModel from "../models/WebSite.model";
 import WebSiteUserModel from "../models/webSiteUser.model";
-import { WebSiteProps } from "../types/WebSite.type";
+import LanguagesModel from "../models/languages.model";
+import { WebSiteGraphCounts, WebSiteProps } from "../types/WebSite.type";
 import cloudinaryService from "./cloudinary.service";
 import { File } from 'multer';
-import SubSectionModel from "../models/subSections.model";
-import ContentElementModel from "../models/ContentElement.model";
-import SectionItemModel from "../models/sectionItems.model";
-import SectionModel from "../models/sections.model";
-import ContentTranslationModel from "../models/ContentTranslation.model";
 import { withDatabaseTransaction } from "../utils/sessionManager";
 import logger from "../config/logger";
+import trashService from "./trash.service";
+import webSiteBundleService from "./webSiteBundle.service";
 
 export class WebSiteService {
     /**
-     * Create a new website and associate it with the creator user
+     * Create a new website and associate it with the creator user. A user may own several websites,
+     * as clones and imported bundles make them owner of a new one too.
      */
     async createWebSite(webSiteData: WebSiteProps, userId: string): Promise<WebSiteProps> {
         return withDatabaseTransaction(async (session) => {
-            // Check if user already has a website
-            const existingWebsite = await WebSiteUserModel.findOne({ userId }).session(session);
-            if (existingWebsite) {
-                throw new AppError('User can only create one website', 400);
-            }
-            
             // Create the website with creator's userId
             const website = await WebSiteModel.create([{
                 ...webSiteData
@@ -134,6 +127,14 @@ export class WebSiteService {
             if (!websiteUser) {
                 throw new AppError('You do not have permission to update this website', 403);
             }
+
+            // The default language has to be one the website offers
+            if (updateData.defaultLanguage) {
+                const language = await LanguagesModel.exists({ websiteId: id, languageID: updateData.defaultLanguage });
+                if (!language) {
+                    throw new AppError(`Language "${updateData.defaultLanguage}" does not belong to this website`, 400);
+                }
+            }
             
             return WebSiteModel.findByIdAndUpdate(
                 id,
@@ -143,59 +144,15 @@ export class WebSiteService {
         }
         
     /**
-     * Delete a website by ID
-     */
-
-     /**
-     * Delete images asynchronously to avoid blocking the main transaction
-     */
-    private async deleteImagesAsync(imageUrls: string[]): Promise<void> {
-        if (imageUrls.length === 0) return;
-        
-        // Process images in batches to avoid overwhelming Cloudinary
-        const batchSize = 5;
-        const batches = [];
-        
-        for (let i = 0; i < imageUrls.length; i += batchSize) {
-            batches.push(imageUrls.slice(i, i + batchSize));
-        }
-        
-        let deletedCount = 0;
-        
-        for (const batch of batches) {
-            const promises = batch.map(async (imageUrl) => {
-                try {
-                    const publicId = cloudinaryService.getPublicIdFromUrl(imageUrl);
-                    if (publicId) {
-                        await cloudinaryService.deleteImage(publicId);
-                        deletedCount++;
-                    }
-                } catch (error) {
-                    logger.warn(`Failed to delete image ${imageUrl}:`, error);
-                }
-            });
-            
-            await Promise.allSettled(promises);
-            
-            // Small delay between batches
-            if (batches.indexOf(batch) < batches.length - 1) {
-                await new Promise(resolve => setTimeout(resolve, 100));
-            }
-        }
-        
-        logger.info(`Async image deletion completed: ${deletedCount}/${imageUrls.length} images deleted`);
-    }
-   
-    /**
-     * Delete a website by ID with complete cascade deletion
+     * Move a website with its complete content hierarchy to the trash
      * @param id The website ID
      * @param userId The user requesting the deletion
-     * @param hardDelete Whether to permanently delete (default: true for complete removal)
-     * @returns Promise with deletion results
+     * @returns Promise with the trash entry and the number of trashed documents
      */
-async deleteWebSite(id: string, userId: string): Promise<{
+    async deleteWebSite(id: string, userId: string): Promise<{
         success: boolean;
         message: string;
+        trashEntryId?: string;
         deletedCounts?: {
             websites: number;
             websiteUsers: number;
@@ -204,7 +161,6 @@ async deleteWebSite(id: string, userId: string): Promise<{
             subsections: number;
             contentElements: number;
             contentTranslations: number;
-            imagesDeleted: number;
         };
     }> {
         if (!mongoose.Types.ObjectId.isValid(id)) {
@@ -222,147 +178,90 @@ async deleteWebSite(id: string, userId: string): Promise<{
             throw new AppError('You do not have permission to delete this website', 403);
         }
 
-        return withDatabaseTransaction(async (session) => {
-            try {
-                // Get the website with its logo
-                const website = await WebSiteModel.findById(id).session(session);
-                if (!website) {
-                    throw new AppError('Website not found', 404);
-                }
-                
-                // Store images for later deletion
-                const imagesToDelete: string[] = [];
-                if (website.logo) {
-                    imagesToDelete.push(website.logo);
-                }
-                
-                logger.info('Starting website deletion cascade', {
-                    websiteId: id,
-                    userId
-                });
-                
-                // Step 1: Get all related data IDs in parallel
-                const [sections, sectionItems] = await Promise.all([
-                    SectionModel.find({ WebSiteId: id }).select('_id image').session(session),
-                    SectionItemModel.find({ WebSiteId: id }).select('_id image').session(session)
-                ]);
-                
-                const sectionIds = sections.map(s => s._id);
-                const sectionItemIds = sectionItems.map(si => si._id);
-                
-                // Collect images from sections and section items
-                sections.forEach(section => {
-                    if (section.image) imagesToDelete.push(section.image);
-                });
-                sectionItems.forEach(item => {
-                    if (item.image) imagesToDelete.push(item.image);
-                });
-                
-                // Step 2: Get subsections and content elements
-                const [subsections, contentElements] = await Promise.all([
-                    SubSectionModel.find({
-                        $or: [
-                            { WebSiteId: id },
-                            { section: { $in: sectionIds } },
-                            { sectionItem: { $in: sectionItemIds } }
-                        ]
-                    }).select('_id').session(session),
-                    
-                    ContentElementModel.find({
-                        $or: [
-                            { parent: id },
-                            { parent: { $in: sectionIds } },
-                            { parent: { $in: sectionItemIds } }
-                        ]
-                    }).select('_id imageUrl').session(session)
-                ]);
-                
-                const subsectionIds = subsections.map(sub => sub._id);
-                const contentElementIds = contentElements.map(ce => ce._id);
-                
-                // Collect images from content elements
-                contentElements.forEach(element => {
-                    if (element.imageUrl) imagesToDelete.push(element.imageUrl);
-                });
-                
-                // Step 3: Bulk delete operations in optimal order
-                const deletionResults = await Promise.all([
-                    // Delete translations first (they reference content elements)
-                    ContentTranslationModel.deleteMany({
-                        contentElement: { $in: contentElementIds }
-                    }).session(session),
-                    
-                    // Delete content elements
-                    ContentElementModel.deleteMany({
-                        $or: [
-                            { parent: id },
-                            { parent: { $in: [...sectionIds, ...sectionItemIds, ...subsectionIds] } }
-                        ]
-                    }).session(session),
-                    
-                    // Delete subsections
-                    SubSectionModel.deleteMany({
-                        $or: [
-                            { WebSiteId: id },
-                            { section: { $in: sectionIds } },
-                            { sectionItem: { $in: sectionItemIds } }
-                        ]
-                    }).session(session),
-                    
-                    // Delete section items
-                    SectionItemModel.deleteMany({
-                        $or: [
-                            { WebSiteId: id },
-                            { section: { $in: sectionIds } }
-                        ]
-                    }).session(session),
-                    
-                    // Delete sections
-                    SectionModel.deleteMany({
-                        WebSiteId: id
-                    }).session(session),
-                    
-                    // Delete website user associations
-                    WebSiteUserModel.deleteMany({
-                        webSiteId: id
-                    }).session(session)
-                ]);
-                
-                // Delete the website itself
-                await WebSiteModel.findByIdAndDelete(id).session(session);
-                
-           
-                
-                // Handle image deletion outside transaction (async)
-                this.deleteImagesAsync(imagesToDelete);
-                
-                return { 
-                    success: true,
-                    message: 'Website and all related data deleted successfully',
-                    deletedCounts: {
-                        websites: 1,
-                        websiteUsers: deletionResults[5].deletedCount || 0,
-                        sections: deletionResults[4].deletedCount || 0,
-                        sectionItems: deletionResults[3].deletedCount || 0,
-                        subsections: deletionResults[2].deletedCount || 0,
-                        contentElements: deletionResults[1].deletedCount || 0,
-                        contentTranslations: deletionResults[0].deletedCount || 0,
-                        imagesDeleted: imagesToDelete.length
-                    }
-                };
-                
-            } catch (error) {
-                logger.error(`Failed to delete website ${id}:`, {
-                    error: error.message,
-                    userId
-                });
-                throw error;
-            }
-        });
+        try {
+            const { trashEntry, counts } = await trashService.trashWebSite(id, userId);
+
+            return { 
+                success: true,
+                message: 'Website and all related data moved to trash',
+                trashEntryId: trashEntry._id.toString(),
+                deletedCounts: counts
+            };
+        } catch (error) {
+            logger.error(`Failed to delete website ${id}:`, {
+                error: error.message,
+                userId
+            });
+            throw error;
+        }
     }
 
 
-    
+    /**
+     * Deep clone a website with its languages, themes, shared blocks and whole content hierarchy.
+     * Every internal reference points at the copies; drafts and publish state are copied as they are,
+     * media files are shared with the source and the revision history starts fresh.
+     * @param id The website ID
+     * @param userId The user requesting the clone, who becomes owner of the copy
+     * @param overrides Fields of the copied website to replace (defaults to "<name> (copy)")
+     * @returns Promise with the new website ID and the number of copied documents
+     */
+    async cloneWebSite(id: string, userId: string, overrides: { name?: string } = {}): Promise<{
+        success: boolean;
+        message: string;
+        webSiteId: string;
+        clonedCounts: WebSiteGraphCounts;
+    }> {
+        if (!mongoose.Types.ObjectId.isValid(id)) {
+            throw new AppError('Invalid website ID format', 400);
+        }
+
+        const websiteUser = await WebSiteUserModel.findOne({
+            webSiteId: id,
+            userId,
+            role: { $in: ['owner', 'superAdmin', 'admin'] }
+        }).lean();
+
+        if (!websiteUser) {
+            throw new AppError('You do not have permission to clone this website', 403);
+        }
+
+        const graph = await webSiteBundleService.loadGraph(id);
+        const copies = webSiteBundleService.remapGraph(graph);
+        copies.websites[0].name = overrides.name || `${graph.website.name} (copy)`;
+
+        const webSiteId = copies.websites[0]._id;
+
+        try {
+            const clonedCounts = await withDatabaseTransaction(async (session) => {
+                const counts = await webSiteBundleService.insertGraph(copies, session);
+
+                await WebSiteUserModel.create([{
+                    userId,
+                    webSiteId,
+                    role: 'owner'
+                }], { session });
+
+                return counts;
+            });
+
+            logger.info(`Cloned website ${id} into ${webSiteId}`, { userId, clonedCounts });
+
+            return {
+                success: true,
+                message: 'Website cloned successfully',
+                webSiteId: webSiteId.toString(),
+                clonedCounts
+            };
+        } catch (error) {
+            logger.error(`Failed to clone website ${id}:`, {
+                error: error.message,
+                userId
+            });
+            throw error;
+        }
+    }
+
     /**
      * Add a user to a website
      */
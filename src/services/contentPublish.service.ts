@@ -0,0 +1,179 @@
+import { ClientSession, Types } from 'mongoose';
+import { AppError } from '../middleware/errorHandler.middleware';
+import SectionModel from '../models/sections.model';
+import SectionItemModel from '../models/sectionItems.model';
+import SubSectionModel from '../models/subSections.model';
+import ContentElementModel from '../models/ContentElement.model';
+import ContentTranslationModel from '../models/ContentTranslation.model';
+import SharedBlockModel from '../models/SharedBlock.model';
+import { SessionManager } from '../utils/sessionManager';
+import { buildPublishUpdate } from '../utils/contentDraft';
+
+export interface IPublishResult {
+  message: string;
+  publishedAt: Date;
+  publishedCounts: {
+    contentElements: number;
+    contentTranslations: number;
+  };
+}
+
+class ContentPublishService {
+  /**
+   * Publish every pending draft below a section (section items, subsections, elements, translations)
+   * @param sectionId The section ID
+   * @returns Promise with the publish counts
+   */
+  async publishSection(sectionId: string): Promise<IPublishResult> {
+    try {
+      if (!Types.ObjectId.isValid(sectionId)) {
+        throw AppError.validation('Invalid section ID format');
+      }
+
+      const sectionExists = await SectionModel.exists({ _id: sectionId }).lean();
+      if (!sectionExists) {
+        throw AppError.notFound(`Section with ID ${sectionId} not found`);
+      }
+
+      const sectionItems = await SectionItemModel.find({ section: sectionId }, '_id').lean();
+      const subSections = await SubSectionModel.find(
+        {
+          $or: [
+            { section: sectionId },
+            { sectionItem: { $in: sectionItems.map(item => item._id) } }
+          ]
+        },
+        '_id'
+      ).lean();
+
+      const result = await this.publishElements({ parent: { $in: subSections.map(subSection => subSection._id) } });
+
+      return {
+        ...result,
+        message: `Section published (${result.publishedCounts.contentElements} elements, ${result.publishedCounts.contentTranslations} translations)`
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.database('Failed to publish section', error);
+    }
+  }
+
+  /**
+   * Publish every pending draft of a single subsection
+   * @param subSectionId The subsection ID
+   * @returns Promise with the publish counts
+   */
+  async publishSubSection(subSectionId: string): Promise<IPublishResult> {
+    try {
+      if (!Types.ObjectId.isValid(subSectionId)) {
+        throw AppError.validation('Invalid subsection ID format');
+      }
+
+      const subSectionExists = await SubSectionModel.exists({ _id: subSectionId }).lean();
+      if (!subSectionExists) {
+        throw AppError.notFound(`Subsection with ID ${subSectionId} not found`);
+      }
+
+      const result = await this.publishElements({ parent: subSectionId });
+
+      return {
+        ...result,
+        message: `Subsection published (${result.publishedCounts.contentElements} elements, ${result.publishedCounts.contentTranslations} translations)`
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.database('Failed to publish subsection', error);
+    }
+  }
+
+  /**
+   * Publish every pending draft of a shared block; pages embedding it show the new content right away
+   * @param blockId The shared block ID
+   * @returns Promise with the publish counts
+   */
+  async publishSharedBlock(blockId: string): Promise<IPublishResult> {
+    try {
+      if (!Types.ObjectId.isValid(blockId)) {
+        throw AppError.validation('Invalid shared block ID format');
+      }
+
+      const blockExists = await SharedBlockModel.exists({ _id: blockId }).lean();
+      if (!blockExists) {
+        throw AppError.notFound(`Shared block with ID ${blockId} not found`);
+      }
+
+      const result = await this.publishElements({ sharedBlock: blockId });
+
+      return {
+        ...result,
+        message: `Shared block published (${result.publishedCounts.contentElements} elements, ${result.publishedCounts.contentTranslations} translations)`
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.database('Failed to publish shared block', error);
+    }
+  }
+
+  /**
+   * Promote drafts of the matching elements and all their translations in one transaction
+   */
+  private async publishElements(elementFilter: Record<string, any>): Promise<IPublishResult> {
+    const publishedAt = new Date();
+
+    const publishedCounts = await SessionManager.withTransaction(async (session: ClientSession | null) => {
+      const elements = await ContentElementModel.find(elementFilter, '_id draft hasDraft isPublished')
+        .session(session)
+        .lean();
+
+      const translations = await ContentTranslationModel.find(
+        { contentElement: { $in: elements.map(element => element._id) } },
+        '_id draft hasDraft isPublished'
+      )
+        .session(session)
+        .lean();
+
+      // Only documents that were never published or have a pending draft need a write
+      const pendingElements = elements.filter(element => element.hasDraft || element.isPublished === false);
+      const pendingTranslations = translations.filter(
+        translation => translation.hasDraft || translation.isPublished === false
+      );
+
+      if (pendingElements.length > 0) {
+        await ContentElementModel.bulkWrite(
+          pendingElements.map(element => ({
+            updateOne: {
+              filter: { _id: element._id },
+              update: buildPublishUpdate(element, publishedAt)
+            }
+          })),
+          { session }
+        );
+      }
+
+      if (pendingTranslations.length > 0) {
+        await ContentTranslationModel.bulkWrite(
+          pendingTranslations.map(translation => ({
+            updateOne: {
+              filter: { _id: translation._id },
+              update: buildPublishUpdate(translation, publishedAt)
+            }
+          })),
+          { session }
+        );
+      }
+
+      return {
+        contentElements: pendingElements.length,
+        contentTranslations: pendingTranslations.length
+      };
+    });
+
+    return {
+      message: 'Content published',
+      publishedAt,
+      publishedCounts
+    };
+  }
+}
+
+export default new ContentPublishService();
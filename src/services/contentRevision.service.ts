@@ -0,0 +1,297 @@
+import { Types } from 'mongoose';
+import { AppError } from '../middleware/errorHandler.middleware';
+import ContentRevisionModel from '../models/ContentRevision.model';
+import ContentElementModel from '../models/ContentElement.model';
+import {
+  IContentRevision,
+  IRevisionChange,
+  IRevisionContext,
+  RevisionAction,
+  RevisionEntityType,
+} from '../types/ContentRevision.type';
+import { applyDraft } from '../utils/contentDraft';
+import logger from '../config/logger';
+
+// Bookkeeping fields left out of diffs
+const IGNORED_DIFF_PATHS = ['_id', '__v', 'id', 'createdAt', 'updatedAt'];
+
+// Attempts at taking the next version when concurrent changes of a document take it first
+const MAX_VERSION_ATTEMPTS = 5;
+
+class ContentRevisionService {
+  /**
+   * Record a full snapshot of a content element or translation after a change.
+   * Failures are logged and never block the write that triggered them.
+   * @param entityType The kind of document
+   * @param doc The document as it is after the change (lean or hydrated)
+   * @param context Author and action of the change
+   * @param defaultAction Action used when the context does not name one
+   */
+  async recordRevision(
+    entityType: RevisionEntityType,
+    doc: any,
+    context: IRevisionContext = {},
+    defaultAction: RevisionAction = 'update'
+  ): Promise<void> {
+    if (!doc) return;
+
+    try {
+      const snapshot = typeof doc.toObject === 'function'
+        ? doc.toObject({ virtuals: false, depopulate: true })
+        : { ...doc };
+      delete snapshot.__v;
+
+      // The unique version index rejects a version taken meanwhile, and the next one is tried
+      for (let attempt = 1; ; attempt++) {
+        const latest = await ContentRevisionModel.findOne({ entityType, entityId: snapshot._id }, 'version')
+          .sort({ version: -1 })
+          .lean();
+
+        try {
+          await ContentRevisionModel.create({
+            entityType,
+            entityId: snapshot._id,
+            contentElement: entityType === 'ContentElement' ? snapshot._id : snapshot.contentElement,
+            language: entityType === 'ContentTranslation' ? snapshot.language : undefined,
+            action: context.action || defaultAction,
+            version: (latest?.version || 0) + 1,
+            snapshot,
+            author: context.authorId && Types.ObjectId.isValid(context.authorId) ? context.authorId : undefined,
+            restoredFrom: context.restoredFrom,
+          });
+          return;
+        } catch (error) {
+          if (error.code !== 11000 || attempt >= MAX_VERSION_ATTEMPTS) throw error;
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to record content revision', {
+        entityType,
+        entityId: doc?._id?.toString(),
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Record snapshots for several documents of the same kind
+   */
+  async recordRevisions(
+    entityType: RevisionEntityType,
+    docs: any[],
+    context: IRevisionContext = {},
+    defaultAction: RevisionAction = 'update'
+  ): Promise<void> {
+    for (const doc of docs) {
+      await this.recordRevision(entityType, doc, context, defaultAction);
+    }
+  }
+
+  /**
+   * List revisions of a content element, newest first
+   * @param elementId The content element ID
+   * @param includeTranslations Whether to include revisions of the element's translations
+   * @param languageId Optional language filter for translation revisions
+   * @param limit Maximum number of revisions to return
+   * @param skip Number of revisions to skip
+   * @returns Promise with the revisions (snapshots omitted) and total count
+   */
+  async getElementRevisions(
+    elementId: string,
+    includeTranslations: boolean = true,
+    languageId?: string,
+    limit: number = 50,
+    skip: number = 0
+  ): Promise<{ revisions: IContentRevision[]; total: number }> {
+    try {
+      if (!Types.ObjectId.isValid(elementId)) {
+        throw AppError.validation('Invalid content element ID format');
+      }
+
+      const elementExists = await ContentElementModel.exists({ _id: elementId }).lean();
+      const hasHistory = await ContentRevisionModel.exists({ contentElement: elementId }).lean();
+      if (!elementExists && !hasHistory) {
+        throw AppError.notFound(`Content element with ID ${elementId} not found`);
+      }
+
+      const query: any = { contentElement: elementId };
+      if (!includeTranslations) {
+        query.entityType = 'ContentElement';
+      } else if (languageId) {
+        if (!Types.ObjectId.isValid(languageId)) {
+          throw AppError.validation('Invalid language ID format');
+        }
+        query.$or = [{ entityType: 'ContentElement' }, { language: languageId }];
+      }
+
+      const [revisions, total] = await Promise.all([
+        ContentRevisionModel.find(query, '-snapshot')
+          .sort({ createdAt: -1, version: -1 })
+          .skip(skip)
+          .limit(limit)
+          .populate('author', 'email firstName lastName')
+          .lean<IContentRevision[]>(),
+        ContentRevisionModel.countDocuments(query),
+      ]);
+
+      return { revisions, total };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.database('Failed to retrieve content revisions', error);
+    }
+  }
+
+  /**
+   * Get a single revision with its snapshot
+   * @param id The revision ID
+   * @param elementId Optional content element the revision must belong to
+   * @returns Promise with the revision
+   */
+  async getRevisionById(id: string, elementId?: string): Promise<IContentRevision> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw AppError.validation('Invalid revision ID format');
+      }
+
+      const revision = await ContentRevisionModel.findById(id)
+        .populate('author', 'email firstName lastName')
+        .lean<IContentRevision>();
+
+      if (!revision || (elementId && revision.contentElement.toString() !== elementId)) {
+        throw AppError.notFound(`Revision with ID ${id} not found`);
+      }
+
+      return revision;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.database('Failed to retrieve content revision', error);
+    }
+  }
+
+  /**
+   * Compare the snapshots of two revisions of the same document
+   * @param fromId The older revision ID
+   * @param toId The newer revision ID
+   * @param elementId Optional content element both revisions must belong to
+   * @returns Promise with both revisions (without snapshots) and the changed paths
+   */
+  async diffRevisions(fromId: string, toId: string, elementId?: string): Promise<{
+    from: Partial<IContentRevision>;
+    to: Partial<IContentRevision>;
+    changes: IRevisionChange[];
+  }> {
+    const [from, to] = await Promise.all([
+      this.getRevisionById(fromId, elementId),
+      this.getRevisionById(toId, elementId),
+    ]);
+
+    if (from.entityType !== to.entityType || from.entityId.toString() !== to.entityId.toString()) {
+      throw AppError.badRequest('Revisions must belong to the same content element or translation');
+    }
+
+    const { snapshot: fromSnapshot, ...fromInfo } = from;
+    const { snapshot: toSnapshot, ...toInfo } = to;
+
+    return {
+      from: fromInfo,
+      to: toInfo,
+      changes: this.diffSnapshots(fromSnapshot, toSnapshot),
+    };
+  }
+
+  /**
+   * Restore a document to the state captured by a revision.
+   * The write goes through the element/translation services so validation and drafts apply as usual.
+   * @param id The revision ID
+   * @param elementId Optional content element the revision must belong to
+   * @param authorId The user restoring the revision
+   * @returns Promise with the restored document
+   */
+  async restoreRevision(id: string, elementId?: string, authorId?: string): Promise<any> {
+    const revision = await this.getRevisionById(id, elementId);
+    const snapshot = applyDraft(revision.snapshot);
+    const context: IRevisionContext = { authorId, action: 'restore', restoredFrom: revision._id.toString() };
+
+    // Loaded lazily: the content services record their revisions through this service
+    if (revision.entityType === 'ContentElement') {
+      const contentElementService = (await import('./ContentElement.service')).default;
+
+      return contentElementService.updateContentElement(
+        revision.entityId.toString(),
+        {
+          name: snapshot.name,
+          type: snapshot.type,
+          defaultContent: snapshot.defaultContent,
+          imageUrl: snapshot.imageUrl,
+          isActive: snapshot.isActive,
+          metadata: snapshot.metadata,
+          order: snapshot.order,
+          parent: snapshot.parent,
+        },
+        context
+      );
+    }
+
+    const contentTranslationService = (await import('./ContentTranslation.service')).default;
+    const translationData = {
+      content: snapshot.content,
+      isActive: snapshot.isActive,
+      metadata: snapshot.metadata,
+    };
+
+    // Hard-deleted translations are recreated for the same element and language
+    const existing = await contentTranslationService.getTranslation(
+      snapshot.contentElement.toString(),
+      snapshot.language.toString(),
+      true
+    );
+
+    if (!existing) {
+      return contentTranslationService.createTranslation(
+        {
+          ...translationData,
+          contentElement: snapshot.contentElement.toString(),
+          language: snapshot.language.toString(),
+        },
+        context
+      );
+    }
+
+    return contentTranslationService.updateTranslation(existing._id.toString(), translationData, context);
+  }
+
+  /**
+   * Flatten two snapshots and list every path whose value differs
+   */
+  private diffSnapshots(from: Record<string, any>, to: Record<string, any>): IRevisionChange[] {
+    const fromValues = this.flatten(from);
+    const toValues = this.flatten(to);
+    const paths = [...new Set([...Object.keys(fromValues), ...Object.keys(toValues)])].sort();
+
+    return paths
+      .filter(path => !IGNORED_DIFF_PATHS.includes(path.split('.')[0]))
+      .filter(path => JSON.stringify(fromValues[path]) !== JSON.stringify(toValues[path]))
+      .map(path => ({ path, from: fromValues[path], to: toValues[path] }));
+  }
+
+  private flatten(value: any, prefix: string = '', result: Record<string, any> = {}): Record<string, any> {
+    const isPlainObject = value !== null
+      && typeof value === 'object'
+      && !Array.isArray(value)
+      && !(value instanceof Date)
+      && !(value instanceof Types.ObjectId);
+
+    if (!isPlainObject || (prefix && Object.keys(value).length === 0)) {
+      if (prefix) result[prefix] = value;
+      return result;
+    }
+
+    Object.entries(value).forEach(([key, child]) => {
+      this.flatten(child, prefix ? `${prefix}.${key}` : key, result);
+    });
+
+    return result;
+  }
+}
+
+export default new ContentRevisionService();
@@ -0,0 +1,105 @@
+import {
+  execute,
+  GraphQLError,
+  NoSchemaIntrospectionCustomRule,
+  parse,
+  specifiedRules,
+  validate,
+  ValidationRule,
+} from 'graphql';
+import { env } from '../config/env';
+import logger from '../config/logger';
+import { AppError } from '../middleware/errorHandler.middleware';
+import { createLoaders } from '../graphql/loaders';
+import { complexityLimit, depthLimit } from '../graphql/limits';
+import { schema } from '../graphql/schema';
+import { IGraphQLRequest, IGraphQLResponse } from '../types/GraphQL.type';
+import { ILanguageRequest } from '../utils/languageNegotiation';
+
+class GraphQLService {
+  private readonly rules: ReadonlyArray<ValidationRule> = [
+    ...specifiedRules,
+    depthLimit(env.graphql.maxDepth),
+    complexityLimit(env.graphql.maxComplexity),
+    ...(env.graphql.introspection ? [] : [NoSchemaIntrospectionCustomRule]),
+  ];
+
+  /**
+   * Run a read query against the content graph. Queries that do not parse, or break the schema or the
+   * depth and complexity limits, are rejected before any resolver runs
+   * @param request The query, its variables and the operation to run
+   * @param languageRequest The request's language preferences, for text fields without a `language` argument
+   * @param draftWebSiteIds The websites whose unpublished content and pending drafts are served
+   * @returns Promise with the HTTP status and the GraphQL response
+   */
+  async execute(
+    request: IGraphQLRequest,
+    languageRequest: ILanguageRequest,
+    draftWebSiteIds: string[] = []
+  ): Promise<{ status: number; body: IGraphQLResponse }> {
+    if (typeof request.query !== 'string' || request.query.trim() === '') {
+      throw AppError.badRequest('A GraphQL query is required');
+    }
+    if (request.variables != null && (typeof request.variables !== 'object' || Array.isArray(request.variables))) {
+      throw AppError.badRequest('GraphQL variables must be an object');
+    }
+
+    let document;
+    try {
+      document = parse(request.query);
+    } catch (error) {
+      return { status: 400, body: { errors: [this.formatError(error as GraphQLError, 'GRAPHQL_PARSE_FAILED')] } };
+    }
+
+    const validationErrors = validate(schema, document, this.rules);
+    if (validationErrors.length > 0) {
+      return { status: 400, body: { errors: validationErrors.map(error => this.formatError(error, 'GRAPHQL_VALIDATION_FAILED')) } };
+    }
+
+    const result = await execute({
+      schema,
+      document,
+      variableValues: request.variables,
+      operationName: request.operationName,
+      contextValue: { loaders: createLoaders(languageRequest, draftWebSiteIds), languageRequest, draftWebSiteIds },
+    });
+
+    return {
+      status: 200,
+      body: {
+        data: result.data ?? null,
+        ...(result.errors ? { errors: result.errors.map(error => this.formatError(error)) } : {}),
+      },
+    };
+  }
+
+  /**
+   * Spec-format error; resolver errors carry the AppError code, and unexpected errors are logged
+   * and only described in development
+   */
+  private formatError(error: GraphQLError, defaultCode?: string): IGraphQLResponse['errors'][number] {
+    const original = error.originalError;
+    let message = error.message;
+    let code = error.extensions?.code ?? defaultCode;
+
+    if (original instanceof AppError) {
+      code = original.errorCode;
+      if (!original.isOperational) {
+        logger.error(`GraphQL resolver error: ${original.message}`, { error: original.stack, path: error.path });
+      }
+    } else if (original && !(original instanceof GraphQLError)) {
+      logger.error(`GraphQL resolver error: ${original.message}`, { error: original.stack, path: error.path });
+      code = 'INTERNAL_SERVER_ERROR';
+      message = env.nodeEnv === 'development' ? original.message : 'Something went wrong';
+    }
+
+    return {
+      message,
+      ...(error.locations ? { locations: [...error.locations] } : {}),
+      ...(error.path ? { path: [...error.path] } : {}),
+      ...(code ? { extensions: { code } } : {}),
+    };
+  }
+}
+
+export default new GraphQLService();
@@ -3,6 +3,9 @@ import LanguageModel from "../models/languages.model";
 import { ILanguages, ICreateLanguage, IUpdateLanguage } from "../types/languages.types";
 import { AppError } from "../middleware/errorHandler.middleware";
 import WebSiteModel from "../models/WebSite.model";
+import SectionModel from "../models/sections.model";
+import SubSectionModel from "../models/subSections.model";
+import { canonicalLocale, normalizeLanguageMetadata, withLanguageMetadata } from "../utils/languageMetadata";
 
 export class LanguageService {
   // Create a new language for a website
@@ -22,12 +25,24 @@ export class LanguageService {
         throw AppError.notFound(`Website with ID ${languageData.websiteId} not found`);
       }
       
+      // The locale defaults to the language code; metadata not given is derived from it
+      const metadata = normalizeLanguageMetadata(this.metadataOf(languageData));
+      const locale = metadata.locale || canonicalLocale(languageData.languageID);
+      if (!locale) {
+        throw AppError.validation(`"${languageData.languageID}" is not a valid BCP 47 language tag; pass a "locale" such as "en-US"`);
+      }
+      if (metadata.order === undefined) {
+        metadata.order = await LanguageModel.countDocuments({ websiteId: languageData.websiteId });
+      }
+
       const language = new LanguageModel({
         language: languageData.language,
         languageID: languageData.languageID,
         isActive: languageData.isActive || false,
         websiteId: languageData.websiteId,
-        subSections: languageData.subSections || []
+        subSections: languageData.subSections || [],
+        fallbacks: this.normalizeFallbacks(languageData.fallbacks, languageData.languageID),
+        ...withLanguageMetadata({ ...metadata, locale })
       });
       
       await language.save();
@@ -70,8 +85,11 @@ export class LanguageService {
         throw AppError.validation('Invalid website ID format');
       }
       
-      const languages = await LanguageModel.find({ websiteId }).populate('subSections');
-      return languages;
+      // Clients render from the metadata; languages stored before it existed get it derived from their code
+      const languages = await LanguageModel.find({ websiteId })
+        .sort({ order: 1, createdAt: 1 })
+        .populate('subSections');
+      return languages.map(language => withLanguageMetadata(language.toObject()));
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw AppError.database('Failed to retrieve languages for website', error);
@@ -114,6 +132,22 @@ export class LanguageService {
           throw AppError.notFound(`Website with ID ${updateData.websiteId} not found`);
         }
       }
+
+      const current = await LanguageModel.findById(id).select('languageID websiteId locale').lean();
+
+      const metadata = normalizeLanguageMetadata(this.metadataOf(updateData));
+      if (metadata.locale && current && metadata.locale !== current.locale) {
+        // Re-derive what the new locale implies, unless given along with it
+        const derived = withLanguageMetadata({ locale: metadata.locale });
+        ['direction', 'nativeName', 'pluralCategories', 'formats'].forEach((field) => {
+          if (metadata[field] === undefined) metadata[field] = derived[field];
+        });
+      }
+      updateData = { ...updateData, ...metadata };
+
+      if (updateData.fallbacks !== undefined) {
+        updateData.fallbacks = this.normalizeFallbacks(updateData.fallbacks, updateData.languageID || current?.languageID);
+      }
       
       const language = await LanguageModel.findByIdAndUpdate(
         id,
@@ -124,6 +158,12 @@ export class LanguageService {
       if (!language) {
         throw AppError.notFound('Language not found');
       }
+
+      if (current.languageID !== language.languageID) {
+        await this.renameLanguageReferences(current.websiteId, current.languageID, language.languageID);
+        await this.renameSectionTexts(current.websiteId, current.languageID, language.languageID);
+        await this.renameSubsectionSlugs(current.websiteId, current.languageID, language.languageID);
+      }
       
       return language;
     } catch (error) {
@@ -247,4 +287,81 @@ export class LanguageService {
       throw AppError.database('Failed to update language statuses', error);
     }
   }
-}
\ No newline at end of file
+
+  private metadataOf(data: ICreateLanguage | IUpdateLanguage) {
+    const { locale, direction, nativeName, pluralCategories, formats, order } = data;
+    return { locale, direction, nativeName, pluralCategories, formats, order };
+  }
+
+  /**
+   * Point the website's other languages' fallbacks and its default language at a language's new code
+   */
+  private async renameLanguageReferences(websiteId: any, from: string, to: string): Promise<void> {
+    await Promise.all([
+      LanguageModel.updateMany(
+        { websiteId, fallbacks: from },
+        { $set: { 'fallbacks.$[code]': to } },
+        { arrayFilters: [{ code: from }] }
+      ),
+      WebSiteModel.updateOne({ _id: websiteId, defaultLanguage: from }, { $set: { defaultLanguage: to } }),
+    ]);
+  }
+
+  /**
+   * Move section names and descriptions to a language's new code
+   */
+  private async renameSectionTexts(websiteId: any, from: string, to: string): Promise<void> {
+    const sections = await SectionModel.find({
+      WebSiteId: websiteId,
+      $or: [{ [`name.${from}`]: { $exists: true } }, { [`description.${from}`]: { $exists: true } }],
+    }).setOptions({ withTrashed: true });
+
+    const renamed = (texts: Record<string, string> = {}) => {
+      const { [from]: text, ...rest } = texts;
+      return text === undefined ? texts : { ...rest, [to]: text };
+    };
+
+    for (const section of sections) {
+      section.name = renamed(section.name);
+      section.description = renamed(section.description);
+      await section.save();
+    }
+  }
+
+  /**
+   * Move localized subsection slugs and their history to a language's new code
+   */
+  private async renameSubsectionSlugs(websiteId: any, from: string, to: string): Promise<void> {
+    const subsections = await SubSectionModel.find({
+      WebSiteId: websiteId,
+      $or: [{ [`slugs.${from}`]: { $exists: true } }, { 'slugHistory.language': from }],
+    }).setOptions({ withTrashed: true });
+
+    for (const subsection of subsections) {
+      const { [from]: slug, ...rest } = subsection.slugs || {};
+      if (slug !== undefined) {
+        subsection.slugs = { ...rest, [to]: slug };
+      }
+      subsection.slugHistory.forEach((change) => {
+        if (change.language === from) change.language = to;
+      });
+      await subsection.save();
+    }
+  }
+
+  // Fallbacks are language codes tried in order; a language cannot fall back to itself
+  private normalizeFallbacks(fallbacks: unknown, languageID?: string): string[] {
+    if (fallbacks === undefined || fallbacks === null) return [];
+
+    if (!Array.isArray(fallbacks) || fallbacks.some(code => typeof code !== 'string' || !code.trim())) {
+      throw AppError.validation('Fallbacks must be a list of language codes');
+    }
+
+    const codes = fallbacks.map((code: string) => code.trim());
+    if (languageID && codes.includes(languageID.trim())) {
+      throw AppError.validation('A language cannot fall back to itself');
+    }
+
+    return codes.filter((code, index) => codes.indexOf(code) === index);
+  }
+}
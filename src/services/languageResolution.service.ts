@@ -0,0 +1,160 @@
+import { Types } from 'mongoose';
+import WebSiteModel from '../models/WebSite.model';
+import LanguagesModel from '../models/languages.model';
+import { ILanguageResolution, IResolvedLanguage } from '../types/languages.types';
+import {
+  buildFallbackChain,
+  ILanguageRequest,
+  matchLanguage,
+  negotiateLanguage,
+} from '../utils/languageNegotiation';
+
+class LanguageResolutionService {
+  /**
+   * Choose the language a delivery request is served in: an explicit `languageId` or `lang`,
+   * else the Accept-Language header, else the website default; only active languages are negotiated
+   * @param webSiteId The website ID
+   * @param request The request's language preferences
+   * @returns Promise with the language and its fallback chain, or null when the website has no usable language
+   */
+  async resolve(webSiteId: string, request: ILanguageRequest = {}): Promise<ILanguageResolution | null> {
+    if (!Types.ObjectId.isValid(webSiteId)) return null;
+
+    const [website, languages] = await Promise.all([
+      WebSiteModel.findById(webSiteId).select('defaultLanguage').lean<{ defaultLanguage?: string }>(),
+      LanguagesModel.find({ websiteId: webSiteId }).sort({ createdAt: 1 }).lean<any[]>(),
+    ]);
+    if (!website) return null;
+
+    const active = languages.filter(language => language.isActive);
+    const activeCodes = active.map(language => language.languageID);
+    const byCode = new Map(languages.map(language => [language.languageID, language]));
+
+    let selected: any = null;
+    let source: ILanguageResolution['source'] = 'default';
+
+    if (request.languageId) {
+      // Explicit IDs predate negotiation and may point at an inactive language
+      selected = languages.find(language => language._id.toString() === request.languageId) || null;
+      source = 'languageId';
+    }
+    if (!selected && request.lang) {
+      selected = byCode.get(matchLanguage(request.lang, activeCodes)) || null;
+      source = 'lang';
+    }
+    if (!selected && request.acceptLanguage) {
+      selected = byCode.get(negotiateLanguage(request.acceptLanguage, activeCodes)) || null;
+      source = 'accept-language';
+    }
+
+    const defaultCode = website.defaultLanguage && activeCodes.includes(website.defaultLanguage)
+      ? website.defaultLanguage
+      : activeCodes[0];
+    if (!selected) {
+      selected = byCode.get(defaultCode) || null;
+      source = 'default';
+    }
+    if (!selected) return null;
+
+    const fallbacksByCode = new Map<string, string[]>(
+      [...active, selected].map(language => [language.languageID, language.fallbacks || []])
+    );
+
+    return {
+      language: this.toResolved(selected),
+      source,
+      chain: buildFallbackChain(selected.languageID, fallbacksByCode, defaultCode)
+        .map(code => this.toResolved(byCode.get(code))),
+    };
+  }
+
+  /**
+   * Resolve once per website, for payloads spanning several websites
+   * @param webSiteIds The website IDs
+   * @param request The request's language preferences
+   * @returns Promise with the resolutions keyed by website ID (websites without a usable language are left out)
+   */
+  async resolveMany(webSiteIds: string[], request: ILanguageRequest = {}): Promise<Map<string, ILanguageResolution>> {
+    const unique = Array.from(new Set(webSiteIds.filter(Boolean)));
+    const resolutions = await Promise.all(unique.map(id => this.resolve(id, request)));
+
+    return new Map(unique
+      .map((id, index) => [id, resolutions[index]] as [string, ILanguageResolution])
+      .filter(([, resolution]) => resolution));
+  }
+
+  /**
+   * Pick the best translation along the fallback chain
+   * @param translations Candidate translations (with `language` as an ID or a populated document)
+   * @param resolution The request's language resolution
+   * @returns The translation and the language it is in, or null when no language in the chain has content
+   */
+  pickTranslation<T extends { language: any; content?: string }>(
+    translations: T[],
+    resolution: ILanguageResolution
+  ): { translation: T; language: IResolvedLanguage } | null {
+    for (const language of resolution.chain) {
+      const translation = translations.find(item =>
+        (item.language?._id || item.language)?.toString() === language._id
+        && typeof item.content === 'string'
+        && item.content.trim() !== '');
+      if (translation) return { translation, language };
+    }
+    return null;
+  }
+
+  /**
+   * Set `value`, `valueLanguage` and `isFallback` on elements carrying their `translations`,
+   * including the elements of embedded shared blocks
+   * @param elements The elements
+   * @param resolution The request's language resolution
+   */
+  localizeElements(elements: any[], resolution: ILanguageResolution): void {
+    elements.forEach((element) => {
+      const picked = this.pickTranslation(element.translations || [], resolution);
+
+      element.value = picked ? picked.translation.content : null;
+      element.valueLanguage = picked ? picked.language.languageID : null;
+      element.isFallback = !!picked && picked.language._id !== resolution.language._id;
+
+      if (Array.isArray(element.block?.elements)) {
+        this.localizeElements(element.block.elements, resolution);
+      }
+    });
+  }
+
+  /**
+   * Localize the elements of complete subsections, resolving the language per website
+   * @param subsections Subsections with their `elements`
+   * @param request The request's language preferences
+   * @returns Promise with the content language when every subsection uses the same one
+   */
+  async localizeSubsections(subsections: any[], request: ILanguageRequest): Promise<string | null> {
+    const webSiteIdOf = (subsection: any) =>
+      (subsection.WebSiteId || subsection.section?.WebSiteId || subsection.sectionItem?.section?.WebSiteId)?.toString();
+
+    const resolutions = await this.resolveMany(subsections.map(webSiteIdOf), request);
+    const used = new Set<string>();
+
+    subsections.forEach((subsection) => {
+      const resolution = resolutions.get(webSiteIdOf(subsection));
+      if (!resolution) return;
+
+      this.localizeElements(subsection.elements || [], resolution);
+      subsection.contentLanguage = resolution.language.languageID;
+      used.add(resolution.language.languageID);
+    });
+
+    return used.size === 1 ? Array.from(used)[0] : null;
+  }
+
+  private toResolved(language: any): IResolvedLanguage {
+    return {
+      _id: language._id.toString(),
+      languageID: language.languageID,
+      language: language.language,
+    };
+  }
+}
+
+export default new LanguageResolutionService();
@@ -0,0 +1,113 @@
+import { Types } from 'mongoose';
+import WebSiteModel from '../models/WebSite.model';
+import WebSiteUserModel from '../models/webSiteUser.model';
+import LanguagesModel from '../models/languages.model';
+import ContentTranslationModel from '../models/ContentTranslation.model';
+import contentTranslationService from './ContentTranslation.service';
+import translationExchangeService from './translationExchange.service';
+import machineTranslationService, { MACHINE_TRANSLATION_SOURCE, NEEDS_REVIEW_STATUS } from './machineTranslation.service';
+
+jest.mock('../models/WebSite.model', () => ({ __esModule: true, default: { exists: jest.fn(), findById: jest.fn() } }));
+jest.mock('../models/webSiteUser.model', () => ({ __esModule: true, default: { exists: jest.fn() } }));
+jest.mock('../models/languages.model', () => ({ __esModule: true, default: { findOne: jest.fn() } }));
+jest.mock('../models/ContentTranslation.model', () => ({ __esModule: true, default: { find: jest.fn() } }));
+jest.mock('./ContentTranslation.service', () => ({ __esModule: true, default: { bulkUpsertTranslations: jest.fn() } }));
+jest.mock('./translationExchange.service', () => ({ __esModule: true, default: { getElementContexts: jest.fn() } }));
+
+// Resolves like a Mongoose query, whichever of select / lean / setOptions is chained
+const query = (result: any): any => ({
+  select: () => query(result),
+  lean: () => query(result),
+  setOptions: () => query(result),
+  then: (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject),
+});
+
+const mocked = (fn: unknown) => fn as jest.Mock;
+
+describe('MachineTranslationService.fillMissingTranslations', () => {
+  const webSiteId = new Types.ObjectId().toString();
+  const userId = new Types.ObjectId().toString();
+  const languages = {
+    en: { _id: new Types.ObjectId(), languageID: 'en' },
+    ar: { _id: new Types.ObjectId(), languageID: 'ar' },
+  };
+  const element = (name: string, defaultContent = '') => ({
+    _id: new Types.ObjectId(),
+    name,
+    type: 'text',
+    defaultContent,
+    isActive: true,
+  });
+  const elements = {
+    translated: element('title'),
+    defaultOnly: element('subtitle', 'Welcome'),
+    done: element('footer'),
+    empty: element('spacer'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mocked(WebSiteModel.exists).mockReturnValue(query({ _id: webSiteId }));
+    mocked(WebSiteModel.findById).mockReturnValue(query({ defaultLanguage: 'en' }));
+    mocked(WebSiteUserModel.exists).mockReturnValue(query({ _id: new Types.ObjectId() }));
+    mocked(LanguagesModel.findOne).mockImplementation(({ languageID }) => query(languages[languageID] || null));
+    mocked(translationExchangeService.getElementContexts).mockResolvedValue(
+      Object.values(elements).map(doc => ({ element: doc, key: `home/${doc.name}`, section: { subName: 'home' } }))
+    );
+    mocked(ContentTranslationModel.find).mockReturnValue(query([
+      { contentElement: elements.translated._id, language: languages.en._id, content: 'Hello' },
+      { contentElement: elements.done._id, language: languages.ar._id, content: 'مرحبا' },
+    ]));
+    mocked(contentTranslationService.bulkUpsertTranslations).mockResolvedValue({ success: true, errors: [] });
+  });
+
+  it('fills missing translations with the stub provider and marks them for review', async () => {
+    const report = await machineTranslationService.fillMissingTranslations(
+      webSiteId,
+      { target: 'ar', provider: 'stub' },
+      { authorId: userId }
+    );
+
+    expect(report).toMatchObject({ targetLanguage: 'ar', sourceLanguage: 'en', provider: 'stub', missing: 3, failed: [] });
+    expect(report.created.map(entry => entry.key)).toEqual(['home/title', 'home/subtitle']);
+    expect(report.skipped).toEqual([
+      { id: elements.empty._id.toString(), key: 'home/spacer', reason: 'No source text to translate' },
+    ]);
+
+    const [items, revision] = mocked(contentTranslationService.bulkUpsertTranslations).mock.calls[0];
+    expect(revision).toEqual({ authorId: userId });
+    expect(items.map((item: any) => item.content)).toEqual(['[ar] Hello', '[ar] Welcome']);
+    items.forEach((item: any) => {
+      expect(item.language).toBe(languages.ar._id.toString());
+      expect(item.metadata).toMatchObject({
+        source: MACHINE_TRANSLATION_SOURCE,
+        status: NEEDS_REVIEW_STATUS,
+        provider: 'stub',
+        sourceLanguage: 'en',
+      });
+    });
+  });
+
+  it('reports elements the bulk write rejected as failed', async () => {
+    mocked(contentTranslationService.bulkUpsertTranslations).mockResolvedValue({
+      success: true,
+      errors: ['Item 2: Content is too long'],
+    });
+
+    const report = await machineTranslationService.fillMissingTranslations(webSiteId, { target: 'ar' }, { authorId: userId });
+
+    expect(report.created.map(entry => entry.key)).toEqual(['home/title']);
+    expect(report.failed).toEqual([
+      { id: elements.defaultOnly._id.toString(), key: 'home/subtitle', reason: 'Content is too long' },
+    ]);
+  });
+
+  it('refuses users who are not members of the website', async () => {
+    mocked(WebSiteUserModel.exists).mockReturnValue(query(null));
+
+    await expect(machineTranslationService.fillMissingTranslations(webSiteId, { target: 'ar' }, { authorId: userId }))
+      .rejects.toMatchObject({ statusCode: 403 });
+    expect(contentTranslationService.bulkUpsertTranslations).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,266 @@
+import { Types } from 'mongoose';
+import { env } from '../config/env';
+import { AppError } from '../middleware/errorHandler.middleware';
+import { escapeLikeXss } from '../middleware/enhancedSecurity.middleware';
+import WebSiteModel from '../models/WebSite.model';
+import LanguagesModel from '../models/languages.model';
+import ContentTranslationModel from '../models/ContentTranslation.model';
+import { IRevisionContext } from '../types/ContentRevision.type';
+import { IElementContext } from '../types/TranslationExchange.type';
+import {
+  IMachineFillEntry,
+  IMachineFillOptions,
+  IMachineFillReport,
+  IMachineTranslationProvider,
+  IReviewTranslation,
+  MachineTranslationFormat,
+} from '../types/MachineTranslation.type';
+import { applyDraft } from '../utils/contentDraft';
+import { getItemSchema } from '../utils/itemSchema';
+import { getRichTextFormat } from '../utils/richText';
+import { getMachineTranslationProvider } from '../utils/machineTranslation';
+import { assertWebSiteMember, getWebSiteLanguage } from '../utils/webSiteAccess';
+import contentTranslationService from './ContentTranslation.service';
+import translationExchangeService from './translationExchange.service';
+
+// `metadata.source` and `metadata.status` of pre-filled translations, until an editor reviews them
+export const MACHINE_TRANSLATION_SOURCE = 'machine';
+export const NEEDS_REVIEW_STATUS = 'needs-review';
+
+interface IFillCandidate {
+  context: IElementContext;
+  text: string;
+  format: MachineTranslationFormat;
+  existing?: any;
+}
+
+class MachineTranslationService {
+  /**
+   * Machine-translate every translatable element of a website that has no content in the target language.
+   * Source text is the element's translation in the source language, else its default content.
+   * Translations are marked `metadata.source = 'machine'`, `metadata.status = 'needs-review'`. New ones are created
+   * unpublished (served once their section is published) and empty live ones get the text as a pending draft.
+   * @param webSiteId The website ID
+   * @param options Target and source language codes, and the provider to use
+   * @param revision Author of the change, recorded in the revision history
+   * @returns Promise with the created, skipped and failed elements
+   */
+  async fillMissingTranslations(
+    webSiteId: string,
+    options: IMachineFillOptions,
+    revision: IRevisionContext = {}
+  ): Promise<IMachineFillReport> {
+    await assertWebSiteMember(webSiteId, revision.authorId);
+    const provider = getMachineTranslationProvider(options.provider || undefined);
+
+    const targetLanguage = await getWebSiteLanguage(webSiteId, options.target);
+    const sourceLanguage = await this.getSourceLanguage(webSiteId, options.source, targetLanguage.languageID);
+
+    // Elements whose parent is gone are not reachable by visitors
+    const contexts = (await translationExchangeService.getElementContexts(webSiteId))
+      .filter(({ element, section, sharedBlock }) => element.isActive !== false && (section || sharedBlock));
+
+    const translations = await ContentTranslationModel.find({
+      contentElement: { $in: contexts.map(({ element }) => element._id) },
+      language: { $in: [targetLanguage._id, ...(sourceLanguage ? [sourceLanguage._id] : [])] },
+    }).lean<any[]>();
+    const byKey = new Map(translations.map(translation => [
+      `${translation.contentElement}:${translation.language}`,
+      translation,
+    ]));
+    const contentOf = (translation: any): string => `${translation ? applyDraft(translation).content ?? '' : ''}`.trim();
+
+    const report: IMachineFillReport = {
+      targetLanguage: targetLanguage.languageID,
+      sourceLanguage: sourceLanguage ? sourceLanguage.languageID : null,
+      provider: provider.name,
+      missing: 0,
+      created: [],
+      skipped: [],
+      failed: [],
+    };
+
+    const candidates: IFillCandidate[] = [];
+
+    contexts.forEach((context) => {
+      const { element } = context;
+      const existing = byKey.get(`${element._id}:${targetLanguage._id}`);
+      if (contentOf(existing) !== '') return;
+
+      report.missing++;
+      const entry = this.entryOf(context);
+
+      if (getItemSchema(element)) {
+        report.skipped.push({ ...entry, reason: 'Structured items are not machine translated' });
+        return;
+      }
+
+      const sourceText = (sourceLanguage && contentOf(byKey.get(`${element._id}:${sourceLanguage._id}`)))
+        || `${element.defaultContent ?? ''}`.trim();
+      if (!sourceText) {
+        report.skipped.push({ ...entry, reason: 'No source text to translate' });
+        return;
+      }
+
+      candidates.push({
+        context,
+        text: sourceText,
+        format: element.type === 'richtext' ? getRichTextFormat(element) : 'text',
+        existing,
+      });
+    });
+
+    const translated = await this.translate(provider, candidates, {
+      source: report.sourceLanguage,
+      target: report.targetLanguage,
+    }, report.failed);
+    if (translated.length === 0) return report;
+
+    const translatedAt = new Date().toISOString();
+    const result = await contentTranslationService.bulkUpsertTranslations(
+      translated.map(({ candidate, text }) => ({
+        contentElement: candidate.context.element._id.toString(),
+        language: targetLanguage._id.toString(),
+        content: escapeLikeXss(text),
+        rawContent: text,
+        isActive: candidate.existing ? candidate.existing.isActive : true,
+        metadata: {
+          ...(candidate.existing ? applyDraft(candidate.existing).metadata : {}),
+          source: MACHINE_TRANSLATION_SOURCE,
+          status: NEEDS_REVIEW_STATUS,
+          provider: provider.name,
+          sourceLanguage: report.sourceLanguage,
+          translatedAt,
+        },
+      })),
+      revision
+    );
+
+    // Bulk errors are reported as "Item <1-based index>: <reason>"
+    const failed = new Map<number, string>();
+    (result.errors || []).forEach((message) => {
+      const match = message.match(/^Item (\d+): (.*)$/);
+      if (match) failed.set(Number(match[1]) - 1, match[2]);
+    });
+
+    translated.forEach(({ candidate }, index) => {
+      const entry = this.entryOf(candidate.context);
+      if (failed.has(index)) {
+        report.failed.push({ ...entry, reason: failed.get(index) });
+      } else {
+        report.created.push(entry);
+      }
+    });
+
+    return report;
+  }
+
+  /**
+   * List the machine translations of a website that still wait for review
+   * @param webSiteId The website ID
+   * @param userId The requesting user, who must be a member of the website
+   * @param language Language code (`languageID`) to list
+   * @returns Promise with the translations in page order (pending drafts applied)
+   */
+  async getTranslationsToReview(webSiteId: string, userId: string, language: string): Promise<IReviewTranslation[]> {
+    await assertWebSiteMember(webSiteId, userId);
+    const targetLanguage = await getWebSiteLanguage(webSiteId, language);
+
+    const contexts = await translationExchangeService.getElementContexts(webSiteId);
+    const translations = await ContentTranslationModel.find({
+      contentElement: { $in: contexts.map(({ element }) => element._id) },
+      language: targetLanguage._id,
+    }).lean<any[]>();
+    const byElement = new Map<string, any>(translations.map(translation => [translation.contentElement.toString(), applyDraft(translation)]));
+
+    return contexts
+      .map(context => ({ context, translation: byElement.get(context.element._id.toString()) }))
+      .filter(({ translation }) => translation?.metadata?.status === NEEDS_REVIEW_STATUS)
+      .map(({ context, translation }) => ({
+        id: translation._id.toString(),
+        contentElement: context.element._id.toString(),
+        key: context.key,
+        name: context.element.name,
+        type: context.element.type,
+        content: translation.content,
+        provider: translation.metadata.provider,
+        translatedAt: translation.metadata.translatedAt,
+      }));
+  }
+
+  /**
+   * Send candidates to the provider in batches of one format; failed batches are recorded and left out
+   */
+  private async translate(
+    provider: IMachineTranslationProvider,
+    candidates: IFillCandidate[],
+    languages: { source: string | null; target: string },
+    failures: IMachineFillEntry[]
+  ): Promise<{ candidate: IFillCandidate; text: string }[]> {
+    const batchSize = Math.max(1, env.machineTranslation.batchSize || 50);
+    const byFormat = new Map<MachineTranslationFormat, IFillCandidate[]>();
+    candidates.forEach((candidate) => {
+      if (!byFormat.has(candidate.format)) byFormat.set(candidate.format, []);
+      byFormat.get(candidate.format).push(candidate);
+    });
+
+    const translated: { candidate: IFillCandidate; text: string }[] = [];
+
+    for (const [format, group] of Array.from(byFormat.entries())) {
+      for (let i = 0; i < group.length; i += batchSize) {
+        const batch = group.slice(i, i + batchSize);
+
+        try {
+          const texts = await provider.translate(batch.map(candidate => candidate.text), { ...languages, format });
+          if (!Array.isArray(texts) || texts.length !== batch.length) {
+            throw new Error(`expected ${batch.length} translations, got ${Array.isArray(texts) ? texts.length : 'none'}`);
+          }
+
+          batch.forEach((candidate, index) => {
+            const text = typeof texts[index] === 'string' ? texts[index].trim() : '';
+            if (text) {
+              translated.push({ candidate, text });
+            } else {
+              failures.push({ ...this.entryOf(candidate.context), reason: 'The provider returned no translation' });
+            }
+          });
+        } catch (error) {
+          const reason = `Machine translation failed: ${error.message}`;
+          batch.forEach(candidate => failures.push({ ...this.entryOf(candidate.context), reason }));
+        }
+      }
+    }
+
+    return translated;
+  }
+
+  private entryOf({ element, key }: IElementContext): IMachineFillEntry {
+    return { id: element._id.toString(), key };
+  }
+
+  /**
+   * The requested source language, else the website default when it differs from the target;
+   * null means element default content is translated
+   */
+  private async getSourceLanguage(
+    webSiteId: string,
+    source: string | undefined,
+    target: string
+  ): Promise<{ _id: Types.ObjectId; languageID: string } | null> {
+    if (source) {
+      if (source === target) {
+        throw AppError.validation('Source and target languages must differ');
+      }
+      return getWebSiteLanguage(webSiteId, source);
+    }
+
+    const website = await WebSiteModel.findById(webSiteId).select('defaultLanguage').lean<{ defaultLanguage?: string }>();
+    if (!website?.defaultLanguage || website.defaultLanguage === target) return null;
+
+    return LanguagesModel.findOne({ websiteId: webSiteId, languageID: website.defaultLanguage })
+      .select('_id languageID')
+      .lean<{ _id: Types.ObjectId; languageID: string }>();
+  }
+}
+
+export default new MachineTranslationService();
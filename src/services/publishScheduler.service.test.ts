@@ -0,0 +1,64 @@
+import SectionModel from '../models/sections.model';
+import SectionItemModel from '../models/sectionItems.model';
+import SubSectionModel from '../models/subSections.model';
+import publishSchedulerService from './publishScheduler.service';
+
+jest.mock('../models/sections.model', () => ({ __esModule: true, default: { updateMany: jest.fn(), findOne: jest.fn() } }));
+jest.mock('../models/sectionItems.model', () => ({ __esModule: true, default: { updateMany: jest.fn(), findOne: jest.fn() } }));
+jest.mock('../models/subSections.model', () => ({ __esModule: true, default: { updateMany: jest.fn(), findOne: jest.fn() } }));
+
+// Resolves like a Mongoose query
+const query = (result: any): any => {
+  const chain: any = {
+    sort: () => chain,
+    select: () => chain,
+    lean: () => Promise.resolve(result),
+  };
+  return chain;
+};
+
+const models = [SectionModel, SectionItemModel, SubSectionModel] as any[];
+
+// Let the pending runs and lookups settle
+const settle = async () => {
+  for (let i = 0; i < 20; i++) await Promise.resolve();
+};
+
+describe('PublishSchedulerService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    models.forEach((model) => {
+      model.updateMany.mockReset().mockResolvedValue({ modifiedCount: 0 });
+      model.findOne.mockReset().mockReturnValue(query(null));
+    });
+  });
+
+  afterEach(() => {
+    publishSchedulerService.stop();
+    jest.useRealTimers();
+  });
+
+  it('runs again when a boundary due before the next interval passes', async () => {
+    const publishAt = new Date(Date.now() + 10000);
+    (SectionModel.findOne as jest.Mock).mockImplementation((filter: any) =>
+      query(filter.publishAt && publishAt > filter.publishAt.$gt ? { publishAt } : null));
+
+    publishSchedulerService.start(60000);
+    await settle();
+    expect(SectionModel.updateMany).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(10000);
+    await settle();
+    expect(SectionModel.updateMany).toHaveBeenCalledTimes(4);
+    expect((SectionModel.updateMany as jest.Mock).mock.calls[2][0]).toEqual({ publishAt: { $ne: null, $lte: expect.any(Date) } });
+  });
+
+  it('waits for the interval when no boundary is due before it', async () => {
+    publishSchedulerService.start(60000);
+    await settle();
+
+    jest.advanceTimersByTime(59000);
+    await settle();
+    expect(SectionModel.updateMany).toHaveBeenCalledTimes(2);
+  });
+});
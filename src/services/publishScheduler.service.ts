@@ -0,0 +1,135 @@
+import { Model } from 'mongoose';
+import SectionModel from '../models/sections.model';
+import SectionItemModel from '../models/sectionItems.model';
+import SubSectionModel from '../models/subSections.model';
+import { env } from '../config/env';
+import logger from '../config/logger';
+
+export interface IScheduleRunResult {
+  activated: Record<string, number>;
+  deactivated: Record<string, number>;
+}
+
+// Window boundaries a run applies
+const BOUNDARY_FIELDS = ['publishAt', 'unpublishAt'];
+
+class PublishSchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private boundaryTimer: NodeJS.Timeout | null = null;
+  private intervalMs = env.publishScheduler.intervalMs;
+  private running = false;
+
+  // Models carrying publishAt / unpublishAt windows
+  private readonly models: { name: string; model: Model<any> }[] = [
+    { name: 'sections', model: SectionModel },
+    { name: 'sectionItems', model: SectionItemModel },
+    { name: 'subSections', model: SubSectionModel },
+  ];
+
+  /**
+   * Start applying publish windows on an interval (no-op when disabled or already started)
+   * @param intervalMs Time between runs
+   */
+  start(intervalMs: number = env.publishScheduler.intervalMs): void {
+    if (!env.publishScheduler.enabled || this.timer) return;
+
+    this.intervalMs = intervalMs;
+    this.timer = setInterval(() => this.tick(), intervalMs);
+
+    // Do not keep the process alive just for the scheduler
+    this.timer.unref();
+
+    logger.info(`Publish scheduler started (every ${Math.round(intervalMs / 1000)}s)`);
+
+    this.tick();
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    clearTimeout(this.boundaryTimer);
+    this.timer = null;
+    this.boundaryTimer = null;
+    logger.info('Publish scheduler stopped');
+  }
+
+  /**
+   * Apply the boundaries that have passed, then plan a run for the next one due before the next interval
+   */
+  private tick(): void {
+    this.runOnce()
+      .then(() => this.scheduleNextBoundary())
+      .catch(error => logger.error('Publish scheduler run failed:', error));
+  }
+
+  /**
+   * Reads apply publish windows as they are served, but the content version (and so the ETags and
+   * cached responses) only moves on when a run applies the boundary; running at the boundary itself
+   * keeps validators from matching content that has since changed
+   */
+  private async scheduleNextBoundary(now: Date = new Date()): Promise<void> {
+    if (!this.timer) return;
+
+    const until = new Date(now.getTime() + this.intervalMs);
+    const upcoming = await Promise.all(this.models.map(({ model }) => Promise.all(BOUNDARY_FIELDS.map(field =>
+      model.findOne({ [field]: { $gt: now, $lte: until } })
+        .sort({ [field]: 1 })
+        .select(field)
+        .lean<Record<string, any>>()
+        .then(doc => (doc ? new Date(doc[field]).getTime() : Infinity))))));
+    const next = Math.min(...[].concat(...upcoming));
+
+    // Stopped meanwhile, or nothing due before the next interval run
+    if (!this.timer || next === Infinity) return;
+
+    clearTimeout(this.boundaryTimer);
+    this.boundaryTimer = setTimeout(() => this.tick(), Math.max(0, next - Date.now()));
+    this.boundaryTimer.unref();
+  }
+
+  /**
+   * Flip isActive for every window boundary that has passed.
+   * Applied boundaries are cleared so later manual status changes are not overridden. The updates
+   * move the content version of the websites they touch on (see contentVersionPlugin).
+   * @param now Reference time (defaults to the current time)
+   * @returns Promise with the number of activated and deactivated documents per model
+   */
+  async runOnce(now: Date = new Date()): Promise<IScheduleRunResult> {
+    const result: IScheduleRunResult = { activated: {}, deactivated: {} };
+
+    // Skip overlapping runs when a previous one is still in progress
+    if (this.running) return result;
+    this.running = true;
+
+    try {
+      for (const { name, model } of this.models) {
+        // Publish first so a window that has fully passed ends up inactive
+        const activated = await model.updateMany(
+          { publishAt: { $ne: null, $lte: now } },
+          { $set: { isActive: true, publishAt: null } }
+        );
+
+        const deactivated = await model.updateMany(
+          { unpublishAt: { $ne: null, $lte: now } },
+          { $set: { isActive: false, unpublishAt: null } }
+        );
+
+        result.activated[name] = activated.modifiedCount;
+        result.deactivated[name] = deactivated.modifiedCount;
+
+        if (activated.modifiedCount || deactivated.modifiedCount) {
+          logger.info(
+            `Publish scheduler: ${name} activated ${activated.modifiedCount}, deactivated ${deactivated.modifiedCount}`
+          );
+        }
+      }
+
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export default new PublishSchedulerService();
@@ -0,0 +1,96 @@
+import { env } from '../config/env';
+import logger from '../config/logger';
+import { ICachedResponse, IResponseCacheDriver } from '../types/ResponseCache.type';
+import { ContentKind, onContentChange } from '../utils/contentVersion';
+import { createResponseCacheDriver } from '../utils/responseCache';
+
+class ResponseCacheService {
+  // Built on first use; null when caching is off or the driver could not be built
+  private driver: IResponseCacheDriver | null | undefined;
+
+  constructor() {
+    // A write drops exactly the entries built from that kind of content of the websites it touched
+    onContentChange((webSiteIds, kind) => this.invalidate(webSiteIds, [kind]).then(() => undefined));
+  }
+
+  get enabled(): boolean {
+    return this.getDriver() !== null;
+  }
+
+  /**
+   * Tags of an entry built from the given kinds of content of the given websites
+   */
+  tagsFor(webSiteIds: string[], kinds: ContentKind[]): string[] {
+    return [].concat(...webSiteIds.map(id => kinds.map(kind => `${id}:${kind}`)));
+  }
+
+  /**
+   * Look a response up. Entries computed before one of their tags was invalidated count as missing
+   * @param key The entry key
+   * @param tags The entry tags
+   * @returns Promise with the response (null when missing) and the current tag generations, to store
+   * a fresh response with; null when the cache is unavailable
+   */
+  async get(key: string, tags: string[]): Promise<{ response: ICachedResponse | null; generations: number[] } | null> {
+    const driver = this.getDriver();
+    if (!driver) return null;
+
+    try {
+      const { value, generations } = await driver.get(key, tags);
+      const response: ICachedResponse | null = value ? JSON.parse(value) : null;
+      const fresh = !!response && response.generations.join(',') === generations.join(',');
+      return { response: fresh ? response : null, generations };
+    } catch (error) {
+      logger.warn(`Response cache read failed for ${key}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Store a response for `env.responseCache.ttlSeconds`
+   */
+  async set(key: string, response: ICachedResponse, tags: string[]): Promise<void> {
+    const driver = this.getDriver();
+    if (!driver) return;
+
+    try {
+      await driver.set(key, JSON.stringify(response), env.responseCache.ttlSeconds, tags);
+    } catch (error) {
+      logger.warn(`Response cache write failed for ${key}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Drop the entries built from the given kinds of content of the given websites
+   * @returns Promise with the number of entries dropped
+   */
+  async invalidate(webSiteIds: string[], kinds: ContentKind[]): Promise<number> {
+    const driver = this.getDriver();
+    if (!driver || webSiteIds.length === 0) return 0;
+
+    try {
+      return await driver.invalidate(this.tagsFor(webSiteIds, kinds));
+    } catch (error) {
+      logger.error(`Response cache invalidation failed for websites ${webSiteIds.join(', ')}`, { error });
+      return 0;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.driver) await this.driver.close();
+  }
+
+  private getDriver(): IResponseCacheDriver | null {
+    if (this.driver === undefined) {
+      try {
+        this.driver = env.responseCache.driver === 'none' ? null : createResponseCacheDriver();
+      } catch (error) {
+        logger.error(`Response cache is off: ${error.message}`);
+        this.driver = null;
+      }
+    }
+    return this.driver;
+  }
+}
+
+export default new ResponseCacheService();
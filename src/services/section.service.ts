@@ -1,22 +1,19 @@
 import mongoose, { Schema } from 'mongoose';
 import ContentElementModel from '../models/ContentElement.model';
 import ContentTranslationModel from '../models/ContentTranslation.model';
-import SectionModel from '../models/sections.model';
+import SectionModel, { IMultilingualDescription, IMultilingualName } from '../models/sections.model';
+import LanguagesModel from '../models/languages.model';
+import WebSiteModel from '../models/WebSite.model';
 import SubSectionModel from '../models/subSections.model';
 import SectionItemModel from '../models/sectionItems.model';
+import { AppError } from '../middleware/errorHandler.middleware';
+import { draftProjection, publishedOnlyFilter, readableContent } from '../utils/contentDraft';
+import { isScheduledActive, normalizePublishWindow, withScheduledActive } from '../utils/publishSchedule';
 import { boolean } from 'joi';
-
-interface IMultilingualName {
-  en: string;
-  ar: string;
-  tr: string;
-}
-
-interface IMultilingualDescription {
-  en?: string;
-  ar?: string;
-  tr?: string;
-}
+import trashService from './trash.service';
+import languageResolutionService from './languageResolution.service';
+import { ILanguageRequest } from '../utils/languageNegotiation';
+import { getLocalizedText, normalizeLocalizedText } from '../utils/localizedText';
 
 
 export class SectionService {
@@ -28,35 +25,32 @@ async createSection(sectionData: {
     image?: string;
     isActive?: boolean;
     order?: number;
+    publishAt?: Date | string | null;
+    unpublishAt?: Date | string | null;
     WebSiteId: Schema.Types.ObjectId,
   }) {
     
     try {
-      // Validate multilingual names
-      this.validateMultilingualName(sectionData.name);
+      // Names and descriptions are keyed by the website's languages
+      const { name, description } = await this.normalizeTexts(sectionData.WebSiteId, sectionData.name, sectionData.description ?? {});
       
       // Check for duplicate names in all languages
-      await this.checkDuplicateNames(sectionData.name, sectionData.WebSiteId);
+      await this.checkDuplicateNames(name, sectionData.WebSiteId);
       
       // Check for duplicate subName (for backend matching)
       const existingSubName = await SectionModel.findOne({
         subName: sectionData.subName,
         WebSiteId: sectionData.WebSiteId
-      });
+      }).setOptions({ withTrashed: true });
       
       if (existingSubName) {
-        throw new Error(`A section with subName "${sectionData.subName}" already exists for this website`);
+        throw AppError.badRequest(`A section with subName "${sectionData.subName}" already exists for this website${this.trashedHint(existingSubName)}`);
       }
       
-      // Ensure description has all languages
-      const description: IMultilingualDescription = {
-        en: sectionData.description?.en || '',
-        ar: sectionData.description?.ar || '',
-        tr: sectionData.description?.tr || ''
-      };
-      
       const section = new SectionModel({
         ...sectionData,
+        ...normalizePublishWindow(sectionData),
+        name,
         description
       });
       
@@ -64,26 +58,40 @@ async createSection(sectionData: {
       return section;
     } catch (error: any) {
       console.error('Error creating section:', error);
+      if (error.name === 'MongoServerError' && error.code === 11000) {
+        throw AppError.badRequest('A section with the same name already exists for this website');
+      }
       throw error;
     }
   }
 
-  private validateMultilingualName(name: IMultilingualName): void {
-    const languages = ['en', 'ar', 'tr'] as const;
-    
-    for (const lang of languages) {
-      if (!name[lang] || name[lang].trim() === '') {
-        throw new Error(`Section name in ${lang.toUpperCase()} is required`);
-      }
-      
-      if (name[lang].trim().length < 2) {
-        throw new Error(`Section name in ${lang.toUpperCase()} must be at least 2 characters`);
-      }
-      
-      if (name[lang].trim().length > 100) {
-        throw new Error(`Section name in ${lang.toUpperCase()} must be less than 100 characters`);
-      }
-    }
+  /**
+   * Validate names and descriptions against the website's languages; a name is required
+   * in the website default language (or, without one, in at least one language)
+   */
+  private async normalizeTexts(
+    websiteId: Schema.Types.ObjectId | string,
+    name: unknown,
+    description: unknown
+  ): Promise<{ name?: IMultilingualName; description?: IMultilingualDescription }> {
+    const [languages, website] = await Promise.all([
+      LanguagesModel.find({ websiteId }).distinct('languageID'),
+      WebSiteModel.findById(websiteId).select('defaultLanguage').lean<{ defaultLanguage?: string }>(),
+    ]);
+
+    return {
+      name: name !== undefined
+        ? normalizeLocalizedText(name, languages, 'Section name', {
+          required: true,
+          requiredLanguage: website?.defaultLanguage,
+          minLength: 2,
+          maxLength: 100,
+        })
+        : undefined,
+      description: description !== undefined
+        ? normalizeLocalizedText(description, languages, 'Section description')
+        : undefined,
+    };
   }
 
   private async checkDuplicateNames(
@@ -91,9 +99,7 @@ async createSection(sectionData: {
     websiteId: Schema.Types.ObjectId, 
     excludeId?: string
   ): Promise<void> {
-    const languages = ['en', 'ar', 'tr'] as const;
-    
-    for (const lang of languages) {
+    for (const lang of Object.keys(name)) {
       const query: any = {
         [`name.${lang}`]: name[lang].trim(),
         WebSiteId: websiteId
@@ -103,14 +109,19 @@ async createSection(sectionData: {
         query._id = { $ne: excludeId };
       }
       
-      const existingSection = await SectionModel.findOne(query);
+      // Trashed sections still hold their names until they are purged
+      const existingSection = await SectionModel.findOne(query).setOptions({ withTrashed: true });
       
       if (existingSection) {
-        throw new Error(`A section with the ${lang.toUpperCase()} name "${name[lang].trim()}" already exists for this website`);
+        throw AppError.badRequest(`A section with the ${lang.toUpperCase()} name "${name[lang].trim()}" already exists for this website${this.trashedHint(existingSection)}`);
       }
     }
   }
 
+  private trashedHint(section: any): string {
+    return section.get('deletedAt') ? ' (it is in the trash; restore or purge it first)' : '';
+  }
+
   // Update section
   async updateSection(id: string, updateData: any) {
       try {
@@ -120,22 +131,29 @@ async createSection(sectionData: {
           throw new Error('Section not found');
         }
         
-        // If multilingual name is being updated
-        if (updateData.name) {
-          this.validateMultilingualName(updateData.name);
-          await this.checkDuplicateNames(updateData.name, currentSection.WebSiteId, id);
+        // If multilingual name or description is being updated
+        if (updateData.name !== undefined || updateData.description !== undefined) {
+          const { name, description } = await this.normalizeTexts(currentSection.WebSiteId, updateData.name, updateData.description);
+          if (name) {
+            await this.checkDuplicateNames(name, currentSection.WebSiteId, id);
+            updateData = { ...updateData, name };
+          }
+          if (description) {
+            updateData = { ...updateData, description };
+          }
         }
         
         // If subName is being updated
         if (updateData.subName && updateData.subName !== currentSection.subName) {
+          // Trashed sections still hold their subNames until they are purged
           const existingSubName = await SectionModel.findOne({
             subName: updateData.subName,
             WebSiteId: currentSection.WebSiteId,
             _id: { $ne: id }
-          });
+          }).setOptions({ withTrashed: true });
           
           if (existingSubName) {
-            throw new Error(`A section with subName "${updateData.subName}" already exists for this website`);
+            throw AppError.badRequest(`A section with subName "${updateData.subName}" already exists for this website${this.trashedHint(existingSubName)}`);
           }
         }
         
@@ -149,7 +167,7 @@ async createSection(sectionData: {
         
         const section = await SectionModel.findByIdAndUpdate(
           id,
-          updateData,
+          { ...updateData, ...normalizePublishWindow(updateData, currentSection) },
           { new: true, runValidators: true }
         );
         
@@ -175,36 +193,24 @@ async createSection(sectionData: {
         return section;
       } catch (error: any) {
         if (error.name === 'MongoServerError' && error.code === 11000) {
-          throw new Error('A section with the same name already exists for this website');
+          throw AppError.badRequest('A section with the same name already exists for this website');
         }
         throw error;
       }
     }
 
-    getSectionNameByLanguage(section: any, language: 'en' | 'ar' | 'tr' = 'en'): string {
-    if (typeof section.name === 'object' && section.name[language]) {
-      return section.name[language];
-    }
-    
-    // Fallback for legacy sections with string names
-    if (typeof section.name === 'string') {
-      return section.name;
-    }
-    
-    return section.subName || 'Unknown Section';
+  /**
+   * Section name in a language, else in the first language it has one
+   */
+  getSectionNameByLanguage(section: any, language?: string): string {
+    return getLocalizedText(section.name, language) || section.subName || 'Unknown Section';
   }
 
-getSectionDescriptionByLanguage(section: any, language: 'en' | 'ar' | 'tr' = 'en'): string {
-    if (typeof section.description === 'object' && section.description[language]) {
-      return section.description[language];
-    }
-    
-    // Fallback for legacy sections with string descriptions
-    if (typeof section.description === 'string') {
-      return section.description;
-    }
-    
-    return '';
+  /**
+   * Section description in a language, else in the first language it has one
+   */
+  getSectionDescriptionByLanguage(section: any, language?: string): string {
+    return getLocalizedText(section.description, language);
   }
   // Get all sections
    async getAllSections(query: any = {}) {
@@ -247,95 +253,20 @@ getSectionDescriptionByLanguage(section: any, language: 'en' | 'ar' | 'tr' = 'en
         throw error;
       }
     }
-    // Delete section with complete cascade deletion
-  // Delete section with complete cascade deletion
-  async deleteSection(id: string) {
+  // Move the section and everything under it to the trash (restorable until purged)
+  async deleteSection(id: string, userId?: string) {
     try {
-      // ✅ Get the section and its image
-      const section = await SectionModel.findById(id).select('image');
-      if (!section) {
-        throw new Error('Section not found');
-      }
-      const imageUrl = section.image;
-      
-      // ✅ Find all SectionItems belonging to this section
-      const sectionItems = await SectionItemModel.find({ section: id }).select('_id');
-      const sectionItemIds = sectionItems.map(item => item._id);
-      
-      // ✅ Find all SubSections
-      const subsections = await SubSectionModel.find({
-        $or: [
-          { section: id },
-          { sectionItem: { $in: sectionItemIds } }
-        ]
-      }).select('_id');
-      const subsectionIds = subsections.map(subsection => subsection._id);
-      
-      // ✅ Find all ContentElements
-      const contentElements = await ContentElementModel.find({
-        $or: [
-          { parent: id },
-          { parent: { $in: sectionItemIds } },
-          { parent: { $in: subsectionIds } },
-          { parentType: 'section', parentId: id },
-          { parentType: 'sectionItem', parentId: { $in: sectionItemIds } },
-          { parentType: 'subsection', parentId: { $in: subsectionIds } }
-        ]
-      }).select('_id');
-      const contentElementIds = contentElements.map(element => element._id);
-      
-      // ✅ Delete everything WITHOUT session
-      // Delete all ContentTranslations
-      const deletedTranslations = await ContentTranslationModel.deleteMany({
-        $or: [
-          { contentElement: { $in: contentElementIds } },
-          { elementId: { $in: contentElementIds } }
-        ]
-      });
-      
-      // Delete all ContentElements
-      const deletedElements = await ContentElementModel.deleteMany({
-        _id: { $in: contentElementIds }
-      });
-      
-      // Delete all SubSections
-      const deletedSubsections = await SubSectionModel.deleteMany({
-        _id: { $in: subsectionIds }
-      });
-      
-      // Delete all SectionItems
-      const deletedSectionItems = await SectionItemModel.deleteMany({
-        _id: { $in: sectionItemIds }
-      });
-      
-      // Finally, delete the section itself
-      const deletedSection = await SectionModel.findByIdAndDelete(id);
-      
-      // ✅ Clean up image
-      if (imageUrl) {
-        setTimeout(async () => {
-          try {
-            const cloudinaryService = require('../services/cloudinary.service').default;
-            const publicId = cloudinaryService.getPublicIdFromUrl(imageUrl);
-            if (publicId) {
-              cloudinaryService.deleteImage(publicId).catch((err: any) => {
-                console.error('Failed to delete section image:', err);
-              });
-            }
-          } catch (error) {
-            console.error('Error importing cloudinary service:', error);
-          }
-        }, 100);
-      }
+      const { trashEntry, counts } = await trashService.trashSection(id, userId);
       
       return { 
-        message: 'Section and all related data deleted successfully',
+        message: 'Section and all related data moved to trash',
+        trashEntryId: trashEntry._id,
         deletedCounts: {
-          sections: 1,
-          sectionItems: deletedSectionItems.deletedCount,
-          subsections: deletedSubsections.deletedCount,
-          contentElements: deletedElements.deletedCount,
-          contentTranslations: deletedTranslations.deletedCount
+          sections: counts.sections,
+          sectionItems: counts.sectionItems,
+          subsections: counts.subsections,
+          contentElements: counts.contentElements,
+          contentTranslations: counts.contentTranslations
         }
       };
       
@@ -391,21 +322,29 @@ getSectionDescriptionByLanguage(section: any, language: 'en' | 'ar' | 'tr' = 'en
     }
 
   // Get section with all related content (subsections and content elements)
-  async getSectionWithContent(id: string, languageId: string) {
+  // Only published content is returned unless includeDrafts is set.
+  // Each element's `value` comes from the first language of the fallback chain that has content,
+  // with `valueLanguage` and `isFallback` telling which one was used.
+  async getSectionWithContent(id: string, languageRequest: ILanguageRequest, includeDrafts: boolean = false) {
     try {
       const section = await SectionModel.findById(id);
       if (!section) {
-        throw new Error('Section not found');
+        throw AppError.notFound('Section not found');
       }
-      
+
+      const resolution = await languageResolutionService.resolve(section.WebSiteId?.toString(), languageRequest);
+      if (!resolution) {
+        throw AppError.notFound('Website has no active language');
+      }
+
       // Get all subsections for this section
-      const subsections = await SubSectionModel.find({ sectionId: id }).sort({ order: 1 });
+      const subsections = await SubSectionModel.find({ section: id }).sort({ order: 1 });
       
       // Get all content elements for the section
       const sectionElements = await ContentElementModel.find({
-        parentType: 'section',
-        parentId: id
-      }).sort({ order: 1 });
+        parent: id,
+        ...publishedOnlyFilter(includeDrafts)
+      }).select(draftProjection(includeDrafts)).sort({ order: 1 });
       
       // Get all content element IDs for section and subsections
       const sectionElementIds = sectionElements.map(el => el._id);
@@ -413,49 +352,51 @@ getSectionDescriptionByLanguage(section: any, language: 'en' | 'ar' | 'tr' = 'en
       
       // Get all content elements for the subsections
       const subsectionElements = await ContentElementModel.find({
-        parentType: 'subsection',
-        parentId: { $in: subsectionIds }
-      }).sort({ order: 1 });
+        parent: { $in: subsectionIds },
+        ...publishedOnlyFilter(includeDrafts)
+      }).select(draftProjection(includeDrafts)).sort({ order: 1 });
       
       const allElementIds = [...sectionElementIds, ...subsectionElements.map(el => el._id)];
       
-      // Get all translations for the content elements
+      // Get the translations of every language in the fallback chain
       const translations = await ContentTranslationModel.find({
-        elementId: { $in: allElementIds },
-        languageId
-      });
+        contentElement: { $in: allElementIds },
+        language: { $in: resolution.chain.map(language => language._id) },
+        ...publishedOnlyFilter(includeDrafts)
+      }).select(draftProjection(includeDrafts)).lean();
       
-      // Map translations to their elements
+      // Group translations by their element
       const translationsMap = translations.reduce((map, trans) => {
-        map[trans.id.toString()] = trans.content;
+        const elementId = trans.contentElement.toString();
+        (map[elementId] = map[elementId] || []).push(readableContent(trans, includeDrafts));
         return map;
-      }, {} as Record<string, any>);
+      }, {} as Record<string, any[]>);
+      
+      const withValue = (element: any) => {
+        const picked = languageResolutionService.pickTranslation(translationsMap[element._id.toString()] || [], resolution);
+        return {
+          ...readableContent(element, includeDrafts),
+          value: picked ? picked.translation.content : null,
+          valueLanguage: picked ? picked.language.languageID : null,
+          isFallback: !!picked && picked.language._id !== resolution.language._id
+        };
+      };
       
       // Add translations to section elements
-      const sectionElementsWithTranslations = sectionElements.map(element => ({
-        ...element.toObject(),
-        value: translationsMap[element._id.toString()] || null
-      }));
+      const sectionElementsWithTranslations = sectionElements.map(withValue);
       
       // Process subsections with their elements and translations
-      const subsectionsWithContent = await Promise.all(subsections.map(async (subsection) => {
-        const subsectionElementsForThisSubsection = subsectionElements.filter(
-          el => el.parent.toString() === subsection._id.toString()
-        );
-        
-        const elementsWithTranslations = subsectionElementsForThisSubsection.map(element => ({
-          ...element.toObject(),
-          value: translationsMap[element._id.toString()] || null
-        }));
-        
-        return {
-          ...subsection.toObject(),
-          elements: elementsWithTranslations
-        };
+      const subsectionsWithContent = subsections.map((subsection) => ({
+        ...subsection.toObject(),
+        elements: subsectionElements
+          .filter(el => el.parent.toString() === subsection._id.toString())
+          .map(withValue)
       }));
       
       return {
         ...section.toObject(),
+        contentLanguage: resolution.language.languageID,
+        languageSource: resolution.source,
         elements: sectionElementsWithTranslations,
         subsections: subsectionsWithContent
       };
@@ -472,28 +413,26 @@ getSectionDescriptionByLanguage(section: any, language: 'en' | 'ar' | 'tr' = 'en
    */
   async getSectionWithCompleteData(id: string, includeInactive: boolean = false, languageId?: string) {
     try {
-      // 1. Fetch the section
+      // 1. Fetch the section (a section outside its scheduled window is hidden)
       const section = await SectionModel.findById(id);
-      if (!section) {
+      const isScheduled = section && (section.publishAt || section.unpublishAt);
+      if (!section || (!includeInactive && isScheduled && !isScheduledActive(section))) {
         throw new Error('Section not found');
       }
       
       // 2. Fetch section items that belong to this section
+      // Scheduled windows apply even before the scheduler has flipped isActive
       const query: any = { section: id };
-      if (!includeInactive) {
-        query.isActive = true;
-      }
       
-      const sectionItems = await SectionItemModel.find(query).sort({ order: 1 });
+      const sectionItems = await SectionItemModel.find(includeInactive ? query : withScheduledActive(query)).sort({ order: 1 });
       const sectionItemIds = sectionItems.map(item => item._id);
       
       // 3. Fetch subsections for all section items
       const subsectionQuery: any = { sectionItem: { $in: sectionItemIds } };
-      if (!includeInactive) {
-        subsectionQuery.isActive = true;
-      }
       
-      const subsections = await SubSectionModel.find(subsectionQuery).sort({ order: 1 });
+      const subsections = await SubSectionModel.find(
+        includeInactive ? subsectionQuery : withScheduledActive(subsectionQuery)
+      ).sort({ order: 1 });
       
       // Group subsections by sectionItem
       const subsectionsByItem = subsections.reduce((acc: Record<string, any[]>, subsection) => {
@@ -599,17 +538,18 @@ getSectionDescriptionByLanguage(section: any, language: 'en' | 'ar' | 'tr' = 'en
   async getAllSectionsWithData(query: any = {}, includeInactive: boolean = false, languageId?: string) {
     try {
       // 1. Fetch all sections
-      const sections = await SectionModel.find(query).sort({ order: 1 });
+      // Scheduled windows apply even before the scheduler has flipped isActive
+      const sectionQuery = query.isActive === true ? withScheduledActive(query) : query;
+      const sections = await SectionModel.find(sectionQuery).sort({ order: 1 });
       
       // 2. Fetch all section items
       const sectionIds = sections.map(section => section._id);
       
       const itemQuery: any = { section: { $in: sectionIds } };
-      if (!includeInactive) {
-        itemQuery.isActive = true;
-      }
       
-      const allSectionItems = await SectionItemModel.find(itemQuery).sort({ order: 1 });
+      const allSectionItems = await SectionItemModel.find(
+        includeInactive ? itemQuery : withScheduledActive(itemQuery)
+      ).sort({ order: 1 });
       
       // Group section items by section
       const itemsBySection = allSectionItems.reduce((acc: Record<string, any[]>, item) => {
@@ -625,11 +565,10 @@ getSectionDescriptionByLanguage(section: any, language: 'en' | 'ar' | 'tr' = 'en
       const sectionItemIds = allSectionItems.map(item => item._id);
       
       const subsectionQuery: any = { sectionItem: { $in: sectionItemIds } };
-      if (!includeInactive) {
-        subsectionQuery.isActive = true;
-      }
       
-      const allSubsections = await SubSectionModel.find(subsectionQuery).sort({ order: 1 });
+      const allSubsections = await SubSectionModel.find(
+        includeInactive ? subsectionQuery : withScheduledActive(subsectionQuery)
+      ).sort({ order: 1 });
       
       // Group subsections by section item
       const subsectionsByItem = allSubsections.reduce((acc: Record<string, any[]>, subsection) => {
@@ -750,21 +689,22 @@ getSectionDescriptionByLanguage(section: any, language: 'en' | 'ar' | 'tr' = 'en
       
       // Handle both legacy string names and new multilingual names
       if (typeof name === 'string') {
+        const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
         query = {
           $or: [
-            { 'name.en': name },
-            { 'name.ar': name },
-            { 'name.tr': name },
+            { nameKeys: { $regex: `^[^:]+:${escaped}$` } },
             { name: name } // For legacy string names
           ]
         };
       } else {
+        // MongoDB rejects an empty $or, and no names match no section
+        const languages = Object.keys(name || {});
+        if (languages.length === 0) {
+          return { allSectionsWithName: [], sectionsForWebsite: [], indexes: await SectionModel.collection.indexes() };
+        }
+
         query = {
-          $or: [
-            { 'name.en': name.en },
-            { 'name.ar': name.ar },
-            { 'name.tr': name.tr }
-          ]
+          $or: languages.map(lang => ({ [`name.${lang}`]: name[lang] }))
         };
       }
       
@@ -884,11 +824,7 @@ async getBasicSectionInfo(query: any = {}, websiteId?: string) {
     // Transform the data to have a cleaner structure
     const basicSectionInfo = sections.map(section => ({
       id: section._id,
-      name: {
-        en: section.name.en,
-        ar: section.name.ar,
-        tr: section.name.tr
-      },
+      name: section.name,
       subName: section.subName
     }));
     
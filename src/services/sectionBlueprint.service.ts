@@ -0,0 +1,716 @@
+import { Types } from 'mongoose';
+import { AppError } from '../middleware/errorHandler.middleware';
+import SectionBlueprintModel from '../models/SectionBlueprint.model';
+import WebSiteModel from '../models/WebSite.model';
+import WebSiteUserModel from '../models/webSiteUser.model';
+import SectionModel from '../models/sections.model';
+import SectionItemModel from '../models/sectionItems.model';
+import SubSectionModel from '../models/subSections.model';
+import ContentElementModel from '../models/ContentElement.model';
+import ContentTranslationModel from '../models/ContentTranslation.model';
+import LanguagesModel from '../models/languages.model';
+import {
+  IBlueprintCounts,
+  IBlueprintElement,
+  IBlueprintSectionItem,
+  IBlueprintSubSection,
+  ICreateSectionBlueprint,
+  IMaterializeBlueprintOptions,
+  ISectionBlueprint,
+  IUpdateSectionBlueprint,
+} from '../types/SectionBlueprint.type';
+import { applyDraft } from '../utils/contentDraft';
+import { getItemSchema, normalizeItemSchema, parseItems, validateItems } from '../utils/itemSchema';
+import { validateTranslationContent } from '../utils/translationValidators';
+import { withDatabaseTransaction } from '../utils/sessionManager';
+import { getLocalizedText, isLocalizedText, LocalizedText, normalizeLocalizedText } from '../utils/localizedText';
+import { omit } from '../utils/object';
+import { slugify } from '../utils/slug';
+import contentRevisionService from './contentRevision.service';
+import logger from '../config/logger';
+
+// Metadata of an uploaded file, which a blueprint does not carry over
+const MEDIA_METADATA_FIELDS = ['cloudinaryId', 'width', 'height'];
+
+// Documents created by materializing a blueprint, built up front so nothing is written when validation fails
+interface IMaterializedDocs {
+  section: Record<string, any>;
+  sectionItems: Record<string, any>[];
+  subsections: Record<string, any>[];
+  contentElements: Record<string, any>[];
+  contentTranslations: Record<string, any>[];
+}
+
+class SectionBlueprintService {
+  /**
+   * Create a blueprint from a structure description
+   * @param data The blueprint name and structure
+   * @param userId The user creating the blueprint
+   * @returns Promise with the created blueprint
+   */
+  async createBlueprint(data: ICreateSectionBlueprint, userId?: string): Promise<ISectionBlueprint> {
+    const blueprint = this.normalizeBlueprint(data);
+    await this.checkDuplicateName(blueprint.name);
+
+    try {
+      return await SectionBlueprintModel.create({
+        ...blueprint,
+        createdBy: userId && Types.ObjectId.isValid(userId) ? userId : undefined,
+      });
+    } catch (error) {
+      throw AppError.database('Failed to create blueprint', error);
+    }
+  }
+
+  /**
+   * Capture the structure of an existing section (items, subsections, elements and default content) as a blueprint.
+   * Media URLs are left out, and so are references to shared blocks, as both belong to the source website.
+   * @param sectionId The section to capture
+   * @param options Name and description of the blueprint, and whether to keep the current translations
+   * @param userId The user creating the blueprint
+   * @returns Promise with the created blueprint
+   */
+  async createBlueprintFromSection(
+    sectionId: string,
+    options: { name: string; description?: string; withTranslations?: boolean },
+    userId?: string
+  ): Promise<ISectionBlueprint> {
+    if (!Types.ObjectId.isValid(sectionId)) {
+      throw AppError.validation('Invalid section ID format');
+    }
+
+    const section = await SectionModel.findById(sectionId).lean<any>();
+    if (!section) {
+      throw AppError.notFound(`Section with ID ${sectionId} not found`);
+    }
+
+    const sectionItems = await SectionItemModel.find({ section: sectionId }).sort({ order: 1 }).lean<any[]>();
+    const subsections = await SubSectionModel.find({
+      $or: [
+        { section: sectionId },
+        { sectionItem: { $in: sectionItems.map(item => item._id) } }
+      ]
+    })
+      .sort({ order: 1 })
+      .lean<any[]>();
+
+    const elements = (await ContentElementModel.find({ parent: { $in: subsections.map(subsection => subsection._id) } })
+      .lean<any[]>())
+      .map(element => applyDraft(element))
+      .filter(element => element.type !== 'reference')
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+    const translationsByElement: Record<string, Record<string, string>> = {};
+    if (options.withTranslations) {
+      const translations = await ContentTranslationModel.find({ contentElement: { $in: elements.map(element => element._id) } })
+        .populate('language', 'languageID')
+        .lean<any[]>();
+
+      translations.forEach((translation) => {
+        const languageId = translation.language?.languageID;
+        if (!languageId) return;
+
+        const elementId = translation.contentElement.toString();
+        translationsByElement[elementId] = translationsByElement[elementId] || {};
+        translationsByElement[elementId][languageId] = applyDraft(translation).content;
+      });
+    }
+
+    const toBlueprintSubSection = (subsection: any): IBlueprintSubSection => ({
+      name: subsection.name,
+      description: subsection.description,
+      slug: subsection.slug,
+      isActive: subsection.isActive,
+      order: subsection.order,
+      isMain: subsection.isMain,
+      metadata: subsection.metadata,
+      elements: elements
+        .filter(element => element.parent.toString() === subsection._id.toString())
+        .map(element => ({
+          name: element.name,
+          type: element.type,
+          defaultContent: element.defaultContent,
+          // Upload details point at the source website's files
+          metadata: this.withoutMediaMetadata(element.metadata),
+          order: element.order,
+          isActive: element.isActive,
+          translations: translationsByElement[element._id.toString()],
+        })),
+    });
+
+    return this.createBlueprint({
+      name: options.name,
+      description: options.description,
+      section: {
+        name: section.name,
+        subName: section.subName,
+        description: section.description,
+        isActive: section.isActive,
+      },
+      sectionItems: sectionItems.map(item => ({
+        name: item.name,
+        description: item.description,
+        isActive: item.isActive,
+        order: item.order,
+        isMain: item.isMain,
+        subsections: subsections
+          .filter(subsection => subsection.sectionItem?.toString() === item._id.toString())
+          .map(toBlueprintSubSection),
+      })),
+      subsections: subsections.filter(subsection => !subsection.sectionItem).map(toBlueprintSubSection),
+    }, userId);
+  }
+
+  /**
+   * List blueprints with the size of their structure
+   * @param limit Maximum number of blueprints to return
+   * @param skip Number of blueprints to skip
+   * @returns Promise with the blueprints (without their structure) and the total count
+   */
+  async getBlueprints(limit = 50, skip = 0): Promise<{ blueprints: Record<string, any>[]; total: number }> {
+    try {
+      const [blueprints, total] = await Promise.all([
+        SectionBlueprintModel.find()
+          .sort({ name: 1 })
+          .skip(skip)
+          .limit(limit)
+          .lean<ISectionBlueprint[]>(),
+        SectionBlueprintModel.countDocuments(),
+      ]);
+
+      return {
+        blueprints: blueprints.map(({ sectionItems, subsections, ...blueprint }) => ({
+          ...blueprint,
+          counts: this.countStructure({ sectionItems, subsections } as ISectionBlueprint),
+        })),
+        total,
+      };
+    } catch (error) {
+      throw AppError.database('Failed to retrieve blueprints', error);
+    }
+  }
+
+  /**
+   * Get a blueprint with its full structure
+   * @param id The blueprint ID
+   * @returns Promise with the blueprint
+   */
+  async getBlueprintById(id: string): Promise<ISectionBlueprint> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw AppError.validation('Invalid blueprint ID format');
+    }
+
+    const blueprint = await SectionBlueprintModel.findById(id).lean<ISectionBlueprint>();
+    if (!blueprint) {
+      throw AppError.notFound(`Blueprint with ID ${id} not found`);
+    }
+
+    return blueprint;
+  }
+
+  /**
+   * Update a blueprint; a new structure replaces the stored one as a whole
+   * @param id The blueprint ID
+   * @param data The changes
+   * @returns Promise with the updated blueprint
+   */
+  async updateBlueprint(id: string, data: IUpdateSectionBlueprint): Promise<ISectionBlueprint> {
+    const existing = await this.getBlueprintById(id);
+
+    const blueprint = this.normalizeBlueprint({
+      name: data.name !== undefined ? data.name : existing.name,
+      description: data.description !== undefined ? data.description : existing.description,
+      section: data.section || existing.section,
+      sectionItems: data.sectionItems || existing.sectionItems,
+      subsections: data.subsections || existing.subsections,
+    });
+
+    if (blueprint.name !== existing.name) {
+      await this.checkDuplicateName(blueprint.name, id);
+    }
+
+    try {
+      return await SectionBlueprintModel.findByIdAndUpdate(id, { $set: blueprint }, { new: true, runValidators: true });
+    } catch (error) {
+      throw AppError.database('Failed to update blueprint', error);
+    }
+  }
+
+  /**
+   * Delete a blueprint (sections created from it are not affected)
+   * @param id The blueprint ID
+   */
+  async deleteBlueprint(id: string): Promise<{ message: string }> {
+    const blueprint = await this.getBlueprintById(id);
+    await SectionBlueprintModel.deleteOne({ _id: blueprint._id });
+
+    return { message: `Blueprint "${blueprint.name}" deleted` };
+  }
+
+  /**
+   * Create a section with its items, subsections and elements in a website from a blueprint.
+   * Every document gets a fresh ID and the target website; new content stays unpublished until
+   * the section is published.
+   * @param id The blueprint ID
+   * @param options Target website, section name overrides and whether to create translations
+   * @param userId The user materializing the blueprint
+   * @returns Promise with the created section ID, the number of created documents and renamed slugs
+   */
+  async materializeBlueprint(id: string, options: IMaterializeBlueprintOptions, userId: string): Promise<{
+    message: string;
+    sectionId: string;
+    counts: IBlueprintCounts;
+    renamedSlugs: { from: string; to: string }[];
+  }> {
+    const blueprint = await this.getBlueprintById(id);
+    const { webSiteId } = options;
+
+    if (!webSiteId || !Types.ObjectId.isValid(webSiteId)) {
+      throw AppError.validation('Invalid website ID format');
+    }
+
+    const websiteExists = await WebSiteModel.exists({ _id: webSiteId });
+    if (!websiteExists) {
+      throw AppError.notFound(`Website with ID ${webSiteId} not found`);
+    }
+
+    const membership = await WebSiteUserModel.exists({ webSiteId, userId });
+    if (!membership) {
+      throw AppError.authorization('You do not have access to this website');
+    }
+
+    const subName = options.subName || blueprint.section.subName;
+    if (typeof subName !== 'string' || !subName.trim()) {
+      throw AppError.validation('Section subName is required');
+    }
+    const { name, description } = await this.localizeSection(webSiteId, blueprint, options.name);
+    await this.checkSectionConflicts(webSiteId, name, subName);
+
+    const docs = await this.buildDocuments(blueprint, options, name, description, subName);
+    const renamedSlugs = await this.assignUniqueSlugs(webSiteId, docs.subsections);
+
+    const counts = await withDatabaseTransaction(async (session) => {
+      await SectionModel.insertMany([docs.section], { session });
+      if (docs.sectionItems.length) await SectionItemModel.insertMany(docs.sectionItems, { session });
+      if (docs.subsections.length) await SubSectionModel.insertMany(docs.subsections, { session });
+      if (docs.contentElements.length) await ContentElementModel.insertMany(docs.contentElements, { session });
+      if (docs.contentTranslations.length) await ContentTranslationModel.insertMany(docs.contentTranslations, { session });
+
+      return {
+        sections: 1,
+        sectionItems: docs.sectionItems.length,
+        subsections: docs.subsections.length,
+        contentElements: docs.contentElements.length,
+        contentTranslations: docs.contentTranslations.length,
+      };
+    });
+
+    const revision = { authorId: userId };
+    await contentRevisionService.recordRevisions('ContentElement', docs.contentElements, revision, 'create');
+    await contentRevisionService.recordRevisions('ContentTranslation', docs.contentTranslations, revision, 'create');
+
+    logger.info(`Materialized blueprint ${blueprint._id} into website ${webSiteId}`, { userId, counts });
+
+    return {
+      message: `Section "${getLocalizedText(name)}" created from blueprint "${blueprint.name}"`,
+      sectionId: docs.section._id.toString(),
+      counts,
+      renamedSlugs,
+    };
+  }
+
+  /**
+   * Build every document of the new section with fresh IDs and the target website
+   */
+  private async buildDocuments(
+    blueprint: ISectionBlueprint,
+    options: IMaterializeBlueprintOptions,
+    name: LocalizedText,
+    description: LocalizedText,
+    subName: string
+  ): Promise<IMaterializedDocs> {
+    const WebSiteId = new Types.ObjectId(options.webSiteId);
+    const languages = await LanguagesModel.find({ websiteId: options.webSiteId }).select('_id languageID').lean();
+
+    const lastSection = await SectionModel.findOne({ WebSiteId }).sort({ order: -1 }).select('order').lean<any>();
+
+    const docs: IMaterializedDocs = {
+      section: {
+        _id: new Types.ObjectId(),
+        name,
+        subName,
+        description,
+        isActive: options.isActive !== undefined ? options.isActive : blueprint.section.isActive,
+        order: (lastSection?.order ?? -1) + 1,
+        WebSiteId,
+        sectionItems: [],
+      },
+      sectionItems: [],
+      subsections: [],
+      contentElements: [],
+      contentTranslations: [],
+    };
+    const sectionId = docs.section._id;
+
+    const addSubSection = (subsection: IBlueprintSubSection, order: number, sectionItemId?: Types.ObjectId) => {
+      const subsectionId = new Types.ObjectId();
+
+      docs.subsections.push({
+        _id: subsectionId,
+        name: subsection.name,
+        description: subsection.description,
+        slug: subsection.slug,
+        isActive: subsection.isActive,
+        order,
+        isMain: subsection.isMain,
+        metadata: subsection.metadata,
+        sectionItem: sectionItemId,
+        // Main subsections always point at their section, like the ones created through the API
+        section: sectionItemId && !subsection.isMain ? undefined : sectionId,
+        WebSiteId,
+        languages: languages.map(language => language._id),
+      });
+
+      this.sortByOrder(subsection.elements).forEach((element, elementOrder) => {
+        const elementId = new Types.ObjectId();
+
+        docs.contentElements.push({
+          _id: elementId,
+          name: element.name,
+          type: element.type,
+          defaultContent: element.defaultContent,
+          metadata: element.metadata || {},
+          order: elementOrder,
+          isActive: element.isActive,
+          parent: subsectionId,
+          isPublished: false,
+        });
+
+        if (!options.withTranslations) return;
+
+        languages.forEach((language) => {
+          const translation = this.buildTranslation(element, language.languageID);
+          if (!translation) return;
+
+          docs.contentTranslations.push({
+            _id: new Types.ObjectId(),
+            ...translation,
+            contentElement: elementId,
+            language: language._id,
+            isActive: true,
+            isPublished: false,
+          });
+        });
+      });
+
+      return subsectionId;
+    };
+
+    this.sortByOrder(blueprint.sectionItems).forEach((item, order) => {
+      const sectionItemId = new Types.ObjectId();
+
+      docs.sectionItems.push({
+        _id: sectionItemId,
+        name: item.name,
+        description: item.description,
+        isActive: item.isActive,
+        order,
+        isMain: item.isMain,
+        WebSiteId,
+        section: sectionId,
+        subsections: [],
+      });
+      docs.section.sectionItems.push(sectionItemId);
+
+      const itemDoc = docs.sectionItems[docs.sectionItems.length - 1];
+      this.sortByOrder(item.subsections).forEach((subsection, subsectionOrder) => {
+        itemDoc.subsections.push(addSubSection(subsection, subsectionOrder, sectionItemId));
+      });
+    });
+
+    this.sortByOrder(blueprint.subsections).forEach((subsection, order) => addSubSection(subsection, order));
+
+    return docs;
+  }
+
+  /**
+   * Initial translation of a blueprint element for one language (its own content, else the default content)
+   */
+  private buildTranslation(element: IBlueprintElement, languageId: string): { content: string; items?: any[] } | null {
+    const content = element.translations?.[languageId] ?? element.defaultContent;
+    if (content === undefined || content === null || content === '') return null;
+
+    const schema = getItemSchema(element);
+    if (schema) {
+      const items = validateItems(schema, parseItems(content));
+      return { content: JSON.stringify(items), items };
+    }
+
+    return { content: validateTranslationContent(element, content) };
+  }
+
+  /**
+   * Suffix slugs already used in the website (`about` becomes `about-2`)
+   */
+  private async assignUniqueSlugs(
+    webSiteId: string,
+    subsections: Record<string, any>[]
+  ): Promise<{ from: string; to: string }[]> {
+    const taken = new Set<string>(
+      await SubSectionModel.distinct('slug', { WebSiteId: webSiteId }).setOptions({ withTrashed: true })
+    );
+    const renamed: { from: string; to: string }[] = [];
+
+    subsections.forEach((subsection) => {
+      let slug = subsection.slug;
+      for (let suffix = 2; taken.has(slug); suffix++) {
+        slug = `${subsection.slug}-${suffix}`;
+      }
+
+      if (slug !== subsection.slug) {
+        renamed.push({ from: subsection.slug, to: slug });
+        subsection.slug = slug;
+      }
+      taken.add(slug);
+    });
+
+    return renamed;
+  }
+
+  /**
+   * Section names and subName are unique per website (trashed sections included)
+   */
+  private async checkSectionConflicts(
+    webSiteId: string,
+    name: LocalizedText,
+    subName: string
+  ): Promise<void> {
+    const conflict = await SectionModel.findOne({
+      WebSiteId: webSiteId,
+      $or: [
+        ...Object.keys(name).map(lang => ({ [`name.${lang}`]: name[lang] })),
+        { subName: subName.trim() }
+      ]
+    })
+      .select('subName deletedAt')
+      .setOptions({ withTrashed: true })
+      .lean<any>();
+
+    if (conflict) {
+      const trashed = conflict.deletedAt ? ' (it is in the trash; restore or purge it first)' : '';
+      throw AppError.badRequest(
+        `The website already has a section named like this blueprint ("${conflict.subName}")${trashed}; pass "name" and "subName" to use other names`
+      );
+    }
+  }
+
+  /**
+   * Validate a blueprint structure and fill in defaults
+   */
+  private normalizeBlueprint(data: ICreateSectionBlueprint): ICreateSectionBlueprint {
+    if (!data || typeof data.name !== 'string' || !data.name.trim()) {
+      throw AppError.validation('Blueprint name is required');
+    }
+    if (!data.section) {
+      throw AppError.validation('Blueprint section is required');
+    }
+    this.validateSectionName(data.section.name, data.section.subName);
+
+    const slugs = new Set<string>();
+    let mainSubSections = 0;
+
+    const normalizeSubSection = (subsection: IBlueprintSubSection, path: string): IBlueprintSubSection => {
+      if (!subsection || typeof subsection.name !== 'string' || !subsection.name.trim()) {
+        throw AppError.validation(`${path}: name is required`);
+      }
+
+      const slug = slugify((subsection.slug || subsection.name).toString());
+      if (!slug) {
+        throw AppError.validation(`${path}: a slug is required`);
+      }
+      if (slugs.has(slug)) {
+        throw AppError.validation(`${path}: slug "${slug}" is used twice in the blueprint`);
+      }
+      slugs.add(slug);
+
+      if (subsection.isMain) mainSubSections++;
+
+      return {
+        name: subsection.name.trim(),
+        description: subsection.description,
+        slug,
+        isActive: subsection.isActive !== false,
+        order: Number(subsection.order) || 0,
+        isMain: subsection.isMain === true,
+        metadata: subsection.metadata,
+        elements: (subsection.elements || []).map((element, index) =>
+          this.normalizeElement(element, `${path} element ${index + 1}`)
+        ),
+      };
+    };
+
+    const sectionItems = (data.sectionItems || []).map((item: IBlueprintSectionItem, index) => {
+      const path = `section item ${index + 1}`;
+      if (!item || typeof item.name !== 'string' || !item.name.trim()) {
+        throw AppError.validation(`${path}: name is required`);
+      }
+
+      return {
+        name: item.name.trim(),
+        description: item.description || '',
+        isActive: item.isActive !== false,
+        order: Number(item.order) || 0,
+        isMain: item.isMain === true,
+        subsections: (item.subsections || []).map((subsection, subIndex) =>
+          normalizeSubSection(subsection, `${path} subsection ${subIndex + 1}`)
+        ),
+      };
+    });
+
+    const subsections = (data.subsections || []).map((subsection, index) =>
+      normalizeSubSection(subsection, `subsection ${index + 1}`)
+    );
+
+    if (mainSubSections > 1) {
+      throw AppError.validation('A blueprint can have only one main subsection');
+    }
+
+    return {
+      name: data.name.trim(),
+      description: data.description,
+      section: {
+        name: this.trimTexts(data.section.name),
+        subName: data.section.subName.trim(),
+        description: isLocalizedText(data.section.description) ? this.trimTexts(data.section.description) : {},
+        isActive: data.section.isActive === true,
+      },
+      sectionItems,
+      subsections,
+    };
+  }
+
+  private normalizeElement(element: IBlueprintElement, path: string): IBlueprintElement {
+    const types = (ContentElementModel.schema.path('type') as any).enumValues as string[];
+
+    if (!element || typeof element.name !== 'string' || !element.name.trim()) {
+      throw AppError.validation(`${path}: name is required`);
+    }
+    if (!types.includes(element.type)) {
+      throw AppError.validation(`${path}: invalid type "${element.type}"`);
+    }
+    // Shared blocks belong to one website
+    if (element.type === 'reference') {
+      throw AppError.validation(`${path}: blueprints cannot contain references to shared blocks`);
+    }
+
+    const metadata = { ...(element.metadata || {}) };
+    if (metadata.itemSchema) {
+      metadata.itemSchema = normalizeItemSchema(metadata.itemSchema, element.type);
+    }
+
+    const translations: Record<string, string> = {};
+    Object.entries(element.translations || {}).forEach(([languageId, content]) => {
+      if (content === undefined || content === null) return;
+      translations[languageId] = typeof content === 'string' ? content : JSON.stringify(content);
+    });
+
+    return {
+      name: element.name.trim(),
+      type: element.type,
+      defaultContent: element.defaultContent,
+      metadata,
+      order: Number(element.order) || 0,
+      isActive: element.isActive !== false,
+      ...(Object.keys(translations).length ? { translations } : {}),
+    };
+  }
+
+  private validateSectionName(name: LocalizedText, subName: string): void {
+    if (!isLocalizedText(name) || Object.keys(this.trimTexts(name)).length === 0) {
+      throw AppError.validation('Section name must be an object of names keyed by language code, e.g. { "en": "About" }');
+    }
+    Object.keys(name).forEach((lang) => {
+      const text = name[lang].trim();
+      if (text && text.length < 2) {
+        throw AppError.validation(`Section name in ${lang.toUpperCase()} must be at least 2 characters`);
+      }
+    });
+    if (typeof subName !== 'string' || !subName.trim()) {
+      throw AppError.validation('Section subName is required');
+    }
+  }
+
+  /**
+   * Section name and description for the target website. Blueprint texts in languages the website
+   * lacks are dropped; a name override is validated as given.
+   */
+  private async localizeSection(
+    webSiteId: string,
+    blueprint: ISectionBlueprint,
+    nameOverride?: LocalizedText
+  ): Promise<{ name: LocalizedText; description: LocalizedText }> {
+    const [languages, website] = await Promise.all([
+      LanguagesModel.find({ websiteId: webSiteId }).distinct('languageID'),
+      WebSiteModel.findById(webSiteId).select('defaultLanguage').lean<{ defaultLanguage?: string }>(),
+    ]);
+    const ofWebSite = (texts: LocalizedText = {}): LocalizedText => {
+      const kept: LocalizedText = {};
+      Object.keys(texts).filter(code => languages.includes(code)).forEach((code) => {
+        kept[code] = texts[code];
+      });
+      return kept;
+    };
+
+    return {
+      name: normalizeLocalizedText(nameOverride || ofWebSite(blueprint.section.name), languages, 'Section name', {
+        required: true,
+        requiredLanguage: website?.defaultLanguage,
+        minLength: 2,
+        maxLength: 100,
+      }),
+      description: normalizeLocalizedText(ofWebSite(blueprint.section.description), languages, 'Section description'),
+    };
+  }
+
+  private trimTexts(texts: LocalizedText): LocalizedText {
+    const trimmed: LocalizedText = {};
+    Object.keys(texts).forEach((code) => {
+      if (texts[code].trim()) trimmed[code] = texts[code].trim();
+    });
+    return trimmed;
+  }
+
+  private async checkDuplicateName(name: string, excludeId?: string): Promise<void> {
+    const duplicate = await SectionBlueprintModel.exists({
+      name,
+      ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+    });
+
+    if (duplicate) {
+      throw AppError.badRequest(`A blueprint named "${name}" already exists`);
+    }
+  }
+
+  private withoutMediaMetadata(metadata: Record<string, any> = {}): Record<string, any> {
+    return omit(metadata, MEDIA_METADATA_FIELDS);
+  }
+
+  private sortByOrder<T extends { order: number }>(list: T[] = []): T[] {
+    return [...list].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  }
+
+  private countStructure(blueprint: ISectionBlueprint): Omit<IBlueprintCounts, 'sections' | 'contentTranslations'> {
+    const subsections = [
+      ...(blueprint.subsections || []),
+      ...(blueprint.sectionItems || []).reduce<IBlueprintSubSection[]>((all, item) => all.concat(item.subsections || []), []),
+    ];
+
+    return {
+      sectionItems: (blueprint.sectionItems || []).length,
+      subsections: subsections.length,
+      contentElements: subsections.reduce((total, subsection) => total + (subsection.elements || []).length, 0),
+    };
+  }
+}
+
+export default new SectionBlueprintService();
@@ -6,6 +6,7 @@ import { IService, IServiceDocument } from '../types/sectionItem.types';
 import { AppError } from '../middleware/errorHandler.middleware';
 import ContentElementModel from '../models/ContentElement.model';
 import ContentTranslationModel from '../models/ContentTranslation.model';
+import { normalizePublishWindow } from '../utils/publishSchedule';
 
 class SectionItemService {
   /**
@@ -84,6 +85,7 @@ async createSectionItem(itemData: IService): Promise<IServiceDocument> {
         section: itemData.section,
         subsections: itemData.subsections,
         isMain: itemData.isMain,
+        ...normalizePublishWindow(itemData),
         WebSiteId: itemData.WebSiteId,
       });
 
@@ -416,7 +418,7 @@ async createSectionItem(itemData: IService): Promise<IServiceDocument> {
       // Update the section item
       const updatedSectionItem = await SectionItemModel.findByIdAndUpdate(
         id,
-        { $set: updateData },
+        { $set: { ...updateData, ...normalizePublishWindow(updateData, sectionItem) } },
         { new: true, runValidators: true }
       ).populate('section');
 
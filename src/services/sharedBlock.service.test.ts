@@ -0,0 +1,80 @@
+import { Types } from 'mongoose';
+import SharedBlockModel from '../models/SharedBlock.model';
+import ContentElementModel from '../models/ContentElement.model';
+import ContentTranslationModel from '../models/ContentTranslation.model';
+import sharedBlockService from './sharedBlock.service';
+
+jest.mock('../models/SharedBlock.model', () => ({ __esModule: true, default: { find: jest.fn() } }));
+jest.mock('../models/WebSite.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../models/subSections.model', () => ({ __esModule: true, default: {} }));
+jest.mock('../models/ContentElement.model', () => ({ __esModule: true, default: { find: jest.fn() } }));
+jest.mock('../models/ContentTranslation.model', () => ({ __esModule: true, default: { find: jest.fn() } }));
+jest.mock('./trash.service', () => ({ __esModule: true, default: {} }));
+
+// Resolves like a Mongoose query and records the projections it was given
+const query = (result: any, projections: any[] = []): any => {
+  const chain: any = {
+    select: (projection: any) => { projections.push(projection); return chain; },
+    populate: () => chain,
+    sort: () => chain,
+    lean: () => chain,
+    then: (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject),
+  };
+  return chain;
+};
+
+// A hydrated document: toObject returns everything that was stored
+const hydrated = (fields: Record<string, any>) => ({ ...fields, toObject: () => ({ ...fields }) });
+
+const mocked = (fn: unknown) => fn as jest.Mock;
+
+describe('SharedBlockService.getSharedBlockById', () => {
+  const blockId = new Types.ObjectId();
+  const elementId = new Types.ObjectId();
+  let projections: any[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    projections = [];
+
+    mocked(SharedBlockModel.find).mockReturnValue(query([{ _id: blockId, name: 'footer' }]));
+    mocked(ContentElementModel.find).mockReturnValue(query([hydrated({
+      _id: elementId,
+      sharedBlock: blockId,
+      name: 'copyright',
+      isActive: true,
+      draft: { name: 'legal' },
+      hasDraft: true,
+    })], projections));
+    mocked(ContentTranslationModel.find).mockReturnValue(query([hydrated({
+      _id: new Types.ObjectId(),
+      contentElement: elementId,
+      content: '© 2024',
+      isActive: true,
+      draft: { content: '© 2025' },
+      hasDraft: true,
+    })], projections));
+  });
+
+  it('serves public reads the published values without their drafts', async () => {
+    const block = await sharedBlockService.getSharedBlockById(blockId.toString());
+    const [element] = block.elements;
+
+    expect(element.name).toBe('copyright');
+    expect(element.translations[0].content).toBe('© 2024');
+    [element, element.translations[0]].forEach((doc) => {
+      expect(doc).not.toHaveProperty('draft');
+      expect(doc).not.toHaveProperty('hasDraft');
+    });
+    expect(projections).toEqual(['-draft -hasDraft', '-draft -hasDraft']);
+  });
+
+  it('applies the drafts for previews', async () => {
+    const block = await sharedBlockService.getSharedBlockById(blockId.toString(), true, true);
+    const [element] = block.elements;
+
+    expect(element.name).toBe('legal');
+    expect(element.translations[0].content).toBe('© 2025');
+    expect(projections).toEqual([undefined, undefined]);
+  });
+});
@@ -0,0 +1,347 @@
+import { Types } from 'mongoose';
+import { AppError } from '../middleware/errorHandler.middleware';
+import SharedBlockModel from '../models/SharedBlock.model';
+import WebSiteModel from '../models/WebSite.model';
+import SubSectionModel from '../models/subSections.model';
+import ContentElementModel from '../models/ContentElement.model';
+import ContentTranslationModel from '../models/ContentTranslation.model';
+import { ICreateSharedBlock, ISharedBlock, IUpdateSharedBlock } from '../types/SharedBlock.type';
+import { applyDraft, draftProjection, publishedOnlyFilter, readableContent } from '../utils/contentDraft';
+import trashService from './trash.service';
+
+class SharedBlockService {
+  /**
+   * Create a shared block for a website
+   * @param data The block data
+   * @returns Promise with the created block
+   */
+  async createSharedBlock(data: ICreateSharedBlock): Promise<ISharedBlock> {
+    if (!data.webSite || !Types.ObjectId.isValid(data.webSite.toString())) {
+      throw AppError.validation('Invalid website ID format');
+    }
+    if (!data.name?.trim()) {
+      throw AppError.validation('Shared block name is required');
+    }
+
+    const websiteExists = await WebSiteModel.exists({ _id: data.webSite });
+    if (!websiteExists) {
+      throw AppError.notFound(`Website with ID ${data.webSite} not found`);
+    }
+
+    await this.checkDuplicateName(data.webSite.toString(), data.name);
+
+    try {
+      return await SharedBlockModel.create({
+        webSite: data.webSite,
+        name: data.name,
+        description: data.description,
+        isActive: data.isActive,
+      });
+    } catch (error) {
+      throw AppError.database('Failed to create shared block', error);
+    }
+  }
+
+  /**
+   * List the shared blocks of a website with their element and reference counts
+   * @param webSiteId The website ID
+   * @param activeOnly Whether to return only active blocks
+   * @returns Promise with the blocks
+   */
+  async getSharedBlocksByWebSite(webSiteId: string, activeOnly = false): Promise<Record<string, any>[]> {
+    if (!Types.ObjectId.isValid(webSiteId)) {
+      throw AppError.validation('Invalid website ID format');
+    }
+
+    try {
+      const blocks = await SharedBlockModel.find({
+        webSite: webSiteId,
+        ...(activeOnly ? { isActive: true } : {}),
+      })
+        .sort({ name: 1 })
+        .lean<ISharedBlock[]>();
+
+      const blockIds = blocks.map(block => block._id);
+      const [elementCounts, references] = await Promise.all([
+        ContentElementModel.aggregate([
+          { $match: { sharedBlock: { $in: blockIds } } },
+          { $group: { _id: '$sharedBlock', count: { $sum: 1 } } },
+        ]),
+        this.findReferences(blockIds.map(id => id.toString())),
+      ]);
+
+      return blocks.map((block) => {
+        const id = block._id.toString();
+        return {
+          ...block,
+          elementCount: elementCounts.find(count => count._id.toString() === id)?.count || 0,
+          referenceCount: references.filter(reference =>
+            this.getReferencedBlockId(reference) === id || this.getReferencedBlockId(applyDraft(reference)) === id
+          ).length,
+        };
+      });
+    } catch (error) {
+      throw AppError.database('Failed to retrieve shared blocks', error);
+    }
+  }
+
+  /**
+   * Get a shared block with its content elements and their translations
+   * @param id The block ID
+   * @param activeOnly Whether to return only active elements and translations
+   * @param includeDrafts Whether to include unpublished content and apply pending drafts
+   * @returns Promise with the block and its elements
+   */
+  async getSharedBlockById(id: string, activeOnly = true, includeDrafts = false): Promise<Record<string, any>> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw AppError.validation('Invalid shared block ID format');
+    }
+
+    const blocks = await this.getBlocksWithContent([id], activeOnly, includeDrafts, false);
+    if (!blocks[id]) {
+      throw AppError.notFound(`Shared block with ID ${id} not found`);
+    }
+
+    return blocks[id];
+  }
+
+  /**
+   * Update the name, description or status of a shared block (its content is edited through its elements)
+   * @param id The block ID
+   * @param data The changes
+   * @returns Promise with the updated block
+   */
+  async updateSharedBlock(id: string, data: IUpdateSharedBlock): Promise<ISharedBlock> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw AppError.validation('Invalid shared block ID format');
+    }
+
+    const existing = await SharedBlockModel.findById(id).lean<ISharedBlock>();
+    if (!existing) {
+      throw AppError.notFound(`Shared block with ID ${id} not found`);
+    }
+
+    if (data.name !== undefined) {
+      if (!data.name.trim()) {
+        throw AppError.validation('Shared block name cannot be empty');
+      }
+      await this.checkDuplicateName(existing.webSite.toString(), data.name, id);
+    }
+
+    const changes: IUpdateSharedBlock = {};
+    (['name', 'description', 'isActive'] as const).forEach((key) => {
+      if (data[key] !== undefined) (changes as any)[key] = data[key];
+    });
+
+    try {
+      return await SharedBlockModel.findByIdAndUpdate(id, { $set: changes }, { new: true, runValidators: true });
+    } catch (error) {
+      throw AppError.database('Failed to update shared block', error);
+    }
+  }
+
+  /**
+   * Move a shared block and its content to the trash; blocks still referenced by a subsection are kept
+   * @param id The block ID
+   * @param userId The user deleting the block
+   * @returns Promise with the trash entry ID and the number of trashed documents
+   */
+  async deleteSharedBlock(id: string, userId?: string): Promise<Record<string, any>> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw AppError.validation('Invalid shared block ID format');
+    }
+
+    const references = await this.getBlockReferences(id);
+    if (references.length > 0) {
+      throw AppError.badRequest(
+        `Shared block is still used by ${references.length} element(s); remove the references first`
+      );
+    }
+
+    const { trashEntry, counts } = await trashService.trashSharedBlock(id, userId);
+
+    return {
+      message: 'Shared block moved to trash',
+      trashEntryId: trashEntry._id,
+      deletedCounts: counts,
+    };
+  }
+
+  /**
+   * List the reference elements embedding a block, with the subsection each one sits in
+   * @param id The block ID
+   * @returns Promise with the references
+   */
+  async getBlockReferences(id: string): Promise<Record<string, any>[]> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw AppError.validation('Invalid shared block ID format');
+    }
+
+    const blockExists = await SharedBlockModel.exists({ _id: id });
+    if (!blockExists) {
+      throw AppError.notFound(`Shared block with ID ${id} not found`);
+    }
+
+    const references = await this.findReferences([id]);
+    const subsections = await SubSectionModel.find({ _id: { $in: references.map(reference => reference.parent) } })
+      .select('name slug section sectionItem')
+      .lean<any[]>();
+
+    return references.map(reference => ({
+      elementId: reference._id,
+      elementName: reference.name,
+      subsection: subsections.find(subsection => subsection._id.toString() === reference.parent?.toString()) || null,
+    }));
+  }
+
+  /**
+   * Check that a reference element may embed a block: the block must exist and belong to the
+   * website of the element's subsection
+   * @param blockId The referenced block ID
+   * @param parentId The subsection of the reference element
+   * @returns The block ID, normalized to a string
+   */
+  async assertReferenceTarget(blockId: unknown, parentId: unknown): Promise<string> {
+    if (!blockId || !Types.ObjectId.isValid(blockId.toString())) {
+      throw AppError.validation('Reference elements need a valid metadata.blockId');
+    }
+
+    const [block, subsection] = await Promise.all([
+      SharedBlockModel.findById(blockId).select('webSite').lean<ISharedBlock>(),
+      parentId ? SubSectionModel.findById(parentId).select('WebSiteId').lean<any>() : null,
+    ]);
+
+    if (!block) {
+      throw AppError.notFound(`Shared block with ID ${blockId} not found`);
+    }
+    if (subsection?.WebSiteId && subsection.WebSiteId.toString() !== block.webSite.toString()) {
+      throw AppError.badRequest('Shared blocks can only be referenced from the same website');
+    }
+
+    return blockId.toString();
+  }
+
+  /**
+   * Expand reference elements in place: each one gets the referenced block, with its elements and
+   * translations, as `block` (null when the block is missing or inactive)
+   * @param elements Elements as returned to clients (drafts already applied when requested)
+   * @param activeOnly Whether to include only active blocks, elements and translations
+   * @param includeDrafts Whether to include unpublished content and apply pending drafts
+   */
+  async expandReferences(elements: Record<string, any>[], activeOnly: boolean, includeDrafts = false): Promise<void> {
+    const references = elements.filter(element => element.type === 'reference');
+    if (references.length === 0) return;
+
+    const blockIds = [...new Set(references.map(reference => this.getReferencedBlockId(reference)).filter(Boolean))];
+    const blocks = await this.getBlocksWithContent(blockIds, activeOnly, includeDrafts, activeOnly);
+
+    references.forEach((reference) => {
+      reference.block = blocks[this.getReferencedBlockId(reference)] || null;
+    });
+  }
+
+  /**
+   * Load blocks with their elements and translations, keyed by block ID
+   */
+  private async getBlocksWithContent(
+    blockIds: string[],
+    activeOnly: boolean,
+    includeDrafts: boolean,
+    activeBlocksOnly: boolean
+  ): Promise<Record<string, Record<string, any>>> {
+    const validIds = blockIds.filter(id => Types.ObjectId.isValid(id));
+    if (validIds.length === 0) return {};
+
+    const blocks = await SharedBlockModel.find({
+      _id: { $in: validIds },
+      ...(activeBlocksOnly ? { isActive: true } : {}),
+    }).lean<ISharedBlock[]>();
+    if (blocks.length === 0) return {};
+
+    // With drafts the active flag may be overridden, so it is checked after applying them
+    const activeFilter = activeOnly && !includeDrafts ? { isActive: true } : {};
+
+    const elements = await ContentElementModel.find({
+      sharedBlock: { $in: blocks.map(block => block._id) },
+      ...activeFilter,
+      ...publishedOnlyFilter(includeDrafts),
+    }).select(draftProjection(includeDrafts)).sort({ order: 1 });
+
+    const translations = await ContentTranslationModel.find({
+      contentElement: { $in: elements.map(element => element._id) },
+      ...activeFilter,
+      ...publishedOnlyFilter(includeDrafts),
+    }).select(draftProjection(includeDrafts)).populate('language');
+
+    const translationsByElement: Record<string, any[]> = {};
+    translations.forEach((translation) => {
+      const translationData = readableContent(translation, includeDrafts);
+      if (activeOnly && !translationData.isActive) return;
+
+      const elementId = translation.contentElement.toString();
+      (translationsByElement[elementId] = translationsByElement[elementId] || []).push(translationData);
+    });
+
+    const result: Record<string, Record<string, any>> = {};
+    blocks.forEach((block) => {
+      result[block._id.toString()] = { ...block, elements: [] };
+    });
+
+    elements.forEach((element) => {
+      const elementData = readableContent(element, includeDrafts);
+      if (activeOnly && !elementData.isActive) return;
+
+      elementData.translations = translationsByElement[element._id.toString()] || [];
+      result[element.sharedBlock.toString()].elements.push(elementData);
+    });
+
+    // Draft orders can differ from the stored ones
+    if (includeDrafts) {
+      Object.values(result).forEach(block =>
+        block.elements.sort((a: any, b: any) => (a.order ?? 0) - (b.order ?? 0))
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Reference elements (live or drafted) pointing at any of the given blocks
+   */
+  private async findReferences(blockIds: string[]): Promise<any[]> {
+    if (blockIds.length === 0) return [];
+
+    const elements = await ContentElementModel.find({
+      $or: [
+        { type: 'reference', 'metadata.blockId': { $in: blockIds } },
+        { 'draft.type': 'reference', 'draft.metadata.blockId': { $in: blockIds } },
+      ],
+    })
+      .select('name type metadata draft hasDraft parent')
+      .lean<any[]>();
+
+    // A pending draft that drops the reference still keeps the block in use until it is published
+    return elements.filter(element =>
+      blockIds.includes(this.getReferencedBlockId(element)) ||
+      blockIds.includes(this.getReferencedBlockId(applyDraft(element)))
+    );
+  }
+
+  private getReferencedBlockId(element: Record<string, any>): string {
+    return element.type === 'reference' && element.metadata?.blockId ? element.metadata.blockId.toString() : '';
+  }
+
+  private async checkDuplicateName(webSiteId: string, name: string, excludeId?: string): Promise<void> {
+    const duplicate = await SharedBlockModel.exists({
+      webSite: webSiteId,
+      name: name.trim(),
+      ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+    });
+
+    if (duplicate) {
+      throw AppError.badRequest(`A shared block named "${name.trim()}" already exists for this website`);
+    }
+  }
+}
+
+export default new SharedBlockService();
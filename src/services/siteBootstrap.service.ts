@@ -0,0 +1,283 @@
+import { Types } from 'mongoose';
+import { AppError } from '../middleware/errorHandler.middleware';
+import WebSiteModel from '../models/WebSite.model';
+import WebSiteThemeModel from '../models/WebSiteTheme.model';
+import LanguagesModel from '../models/languages.model';
+import SectionModel from '../models/sections.model';
+import SectionItemModel from '../models/sectionItems.model';
+import SubSectionModel from '../models/subSections.model';
+import ContentElementModel from '../models/ContentElement.model';
+import ContentTranslationModel from '../models/ContentTranslation.model';
+import { ILanguageResolution } from '../types/languages.types';
+import {
+  ISiteBootstrap,
+  ISiteBootstrapOptions,
+  ISiteLanguage,
+  ISiteSection,
+  ISiteSectionItem,
+  ISiteSubsection,
+  ISiteTheme,
+  SiteElementValues,
+} from '../types/SiteBootstrap.type';
+import { draftProjection, publishedOnlyFilter, readableContent } from '../utils/contentDraft';
+import { ILanguageRequest } from '../utils/languageNegotiation';
+import { withLanguageMetadata } from '../utils/languageMetadata';
+import { getLocalizedTextIn } from '../utils/localizedText';
+import { withScheduledActive } from '../utils/publishSchedule';
+import { getRichTextFormat, renderRichText } from '../utils/richText';
+import languageResolutionService from './languageResolution.service';
+import sharedBlockService from './sharedBlock.service';
+
+// Subsections the frontend builds its menus from
+const NAVIGATION_NAME = 'Navigation';
+
+// Element types whose value is a URL, stored on the element itself unless translated
+const MEDIA_TYPES = ['image', 'video', 'file'];
+
+/**
+ * Number repeated keys in order (`title`, `title#2`)
+ */
+const keyed = <T>(entries: [string, T][]): Record<string, T> => {
+  const used = new Map<string, number>();
+  const result: Record<string, T> = {};
+
+  entries.forEach(([base, value]) => {
+    const count = (used.get(base) || 0) + 1;
+    used.set(base, count);
+    result[count > 1 ? `${base}#${count}` : base] = value;
+  });
+
+  return result;
+};
+
+const groupBy = <T>(docs: T[], keyOf: (doc: T) => string | undefined): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  docs.forEach((doc) => {
+    const key = keyOf(doc);
+    if (!key) return;
+    groups.set(key, [...(groups.get(key) || []), doc]);
+  });
+  return groups;
+};
+
+class SiteBootstrapService {
+  /**
+   * Everything a frontend needs on boot, in one payload: the website, the resolved language, the active
+   * languages and theme, the navigation and the content tree (sections → items → subsections) with
+   * element values resolved for the language. Only live content is included; internal fields are left out.
+   * @param webSiteId The website ID
+   * @param request The request's language preferences
+   * @param options Draft preview and rich text rendering
+   * @returns Promise with the bootstrap payload
+   */
+  async getBootstrap(
+    webSiteId: string,
+    request: ILanguageRequest,
+    options: ISiteBootstrapOptions = {}
+  ): Promise<ISiteBootstrap> {
+    if (!Types.ObjectId.isValid(webSiteId)) {
+      throw AppError.validation('Invalid website ID format');
+    }
+
+    const [website, resolution] = await Promise.all([
+      WebSiteModel.findById(webSiteId).lean<any>(),
+      languageResolutionService.resolve(webSiteId, request),
+    ]);
+    if (!website) {
+      throw AppError.notFound(`Website with ID ${webSiteId} not found`);
+    }
+    if (!resolution) {
+      throw AppError.notFound(`Website ${webSiteId} has no active language to serve content in`);
+    }
+
+    const [languages, theme, sections] = await Promise.all([
+      LanguagesModel.find({ websiteId: webSiteId }).sort({ order: 1, createdAt: 1 }).lean<any[]>(),
+      WebSiteThemeModel.findOne({ websiteId: webSiteId, isActive: true }).lean<any>(),
+      SectionModel.find(withScheduledActive({ WebSiteId: webSiteId })).sort({ order: 1 }).lean<any[]>(),
+    ]);
+    const sectionItems = await SectionItemModel.find(withScheduledActive({ section: { $in: sections.map(section => section._id) } }))
+      .sort({ order: 1 })
+      .lean<any[]>();
+    const subsections = await SubSectionModel.find(withScheduledActive({
+      $or: [{ WebSiteId: webSiteId }, { sectionItem: { $in: sectionItems.map(item => item._id) } }],
+    })).sort({ order: 1 }).lean<any[]>();
+
+    const elementsByParent = await this.getElementValues(
+      [...sections, ...sectionItems, ...subsections].map(doc => doc._id),
+      resolution,
+      options
+    );
+    const elementsOf = (doc: any): SiteElementValues => elementsByParent.get(doc._id.toString()) || {};
+
+    const code = resolution.language.languageID;
+    const chain = resolution.chain.map(language => language.languageID);
+    const toSubsection = (subsection: any): ISiteSubsection => ({
+      id: subsection._id.toString(),
+      name: subsection.name,
+      slug: subsection.slugs?.[code] || subsection.slug,
+      isMain: !!subsection.isMain,
+      elements: elementsOf(subsection),
+    });
+
+    const subsectionsByItem = groupBy(subsections, subsection => subsection.sectionItem?.toString());
+    const itemsBySection = groupBy(sectionItems, item => item.section?.toString());
+    // An explicit `languageId` may select an inactive language, which is served but not listed
+    const siteLanguages = this.siteLanguages(languages, website.defaultLanguage);
+
+    return {
+      website: {
+        id: website._id.toString(),
+        name: website.name,
+        description: website.description ?? null,
+        logo: website.logo ?? null,
+        email: website.email ?? null,
+        phoneNumber: website.phoneNumber ?? null,
+        address: website.address ?? null,
+        sector: website.sector ?? null,
+        defaultLanguage: website.defaultLanguage ?? null,
+      },
+      language: {
+        ...siteLanguages.find(language => language.code === code),
+        source: resolution.source,
+        fallbacks: chain.filter(fallback => fallback !== code),
+      },
+      languages: siteLanguages.filter((language, index) => languages[index].isActive),
+      theme: this.siteTheme(theme),
+      navigation: subsections.filter(subsection => subsection.name === NAVIGATION_NAME).map(toSubsection),
+      sections: keyed(sections.map((section): [string, ISiteSection] => [section.subName, {
+        id: section._id.toString(),
+        name: getLocalizedTextIn(section.name, chain),
+        description: getLocalizedTextIn(section.description, chain) || null,
+        image: section.image ?? null,
+        elements: elementsOf(section),
+        items: keyed((itemsBySection.get(section._id.toString()) || []).map((item): [string, ISiteSectionItem] => [item.name, {
+          id: item._id.toString(),
+          name: item.name,
+          description: item.description || null,
+          image: item.image ?? null,
+          isMain: !!item.isMain,
+          elements: elementsOf(item),
+          subsections: keyed((subsectionsByItem.get(item._id.toString()) || [])
+            .map((subsection): [string, ISiteSubsection] => [subsection.slug, toSubsection(subsection)])),
+        }])),
+      }])),
+    };
+  }
+
+  /**
+   * Load the live elements of the given parents and resolve their values, keyed by parent ID
+   */
+  private async getElementValues(
+    parentIds: Types.ObjectId[],
+    resolution: ILanguageResolution,
+    options: ISiteBootstrapOptions
+  ): Promise<Map<string, SiteElementValues>> {
+    const includeDrafts = !!options.includeDrafts;
+    // With drafts the active flag may be overridden, so it is checked after applying them
+    const activeFilter = includeDrafts ? {} : { isActive: true };
+    const live = (doc: any) => {
+      const current = readableContent(doc, includeDrafts);
+      return current.isActive === false ? null : current;
+    };
+
+    const stored = await ContentElementModel.find({
+      parent: { $in: parentIds },
+      ...activeFilter,
+      ...publishedOnlyFilter(includeDrafts),
+    }).select(draftProjection(includeDrafts)).sort({ order: 1 }).lean<any[]>();
+    const elements = stored.map(live).filter(Boolean);
+    if (includeDrafts) {
+      elements.sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+    }
+
+    // Only the languages the content can come from
+    const translations = (await ContentTranslationModel.find({
+      contentElement: { $in: elements.map(element => element._id) },
+      language: { $in: resolution.chain.map(language => language._id) },
+      ...activeFilter,
+      ...publishedOnlyFilter(includeDrafts),
+    }).select(draftProjection(includeDrafts)).lean<any[]>()).map(live).filter(Boolean);
+
+    const translationsByElement = groupBy(translations, translation => translation.contentElement.toString());
+    elements.forEach((element) => {
+      element.translations = translationsByElement.get(element._id.toString()) || [];
+    });
+    await sharedBlockService.expandReferences(elements, true, includeDrafts);
+
+    const values = new Map<string, SiteElementValues>();
+    groupBy(elements, element => element.parent?.toString()).forEach((children, parentId) => {
+      values.set(parentId, this.compactElements(children, resolution, options));
+    });
+    return values;
+  }
+
+  /**
+   * Element values keyed by element name
+   */
+  private compactElements(elements: any[], resolution: ILanguageResolution, options: ISiteBootstrapOptions): SiteElementValues {
+    return keyed(elements.map((element): [string, any] => [element.name, this.valueOf(element, resolution, options)]));
+  }
+
+  /**
+   * The value of an element in the resolved language: its translation along the fallback chain,
+   * parsed for arrays and lists; media fall back to the URL stored on the element, shared blocks
+   * become their own element values
+   */
+  private valueOf(element: any, resolution: ILanguageResolution, options: ISiteBootstrapOptions): any {
+    if (element.type === 'reference') {
+      return element.block ? this.compactElements(element.block.elements || [], resolution, options) : null;
+    }
+
+    const picked = languageResolutionService.pickTranslation(element.translations || [], resolution);
+    let content: string | null = picked ? picked.translation.content : null;
+
+    if (MEDIA_TYPES.includes(element.type)) {
+      content = content || (element.type === 'file' ? element.fileUrl : element.imageUrl) || element.defaultContent || null;
+      if (element.type === 'file' && content) {
+        return { url: content, name: element.fileName ?? null, size: element.fileSize ?? null, mimeType: element.fileMimeType ?? null };
+      }
+      return content;
+    }
+    if (element.type === 'boolean') {
+      return (content ?? element.defaultContent) === 'true';
+    }
+    if (content === null) return null;
+
+    if (element.type === 'array' || element.type === 'list') {
+      try {
+        const items = JSON.parse(content);
+        return Array.isArray(items) ? items : content;
+      } catch {
+        return content;
+      }
+    }
+    if (element.type === 'richtext' && options.renderRichText) {
+      return renderRichText(content, getRichTextFormat(element));
+    }
+    return content;
+  }
+
+  private siteLanguages(languages: any[], defaultLanguage?: string): ISiteLanguage[] {
+    return languages.map(withLanguageMetadata).map(language => ({
+      code: language.languageID,
+      name: language.language,
+      nativeName: language.nativeName ?? null,
+      locale: language.locale,
+      direction: language.direction || 'ltr',
+      isDefault: language.languageID === defaultLanguage,
+    }));
+  }
+
+  private siteTheme(theme: any): ISiteTheme | null {
+    if (!theme) return null;
+
+    return {
+      id: theme._id.toString(),
+      name: theme.themeName,
+      colors: theme.colors || {},
+      fonts: theme.fonts || {},
+    };
+  }
+}
+
+export default new SiteBootstrapService();
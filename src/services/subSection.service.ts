@@ -1,10 +1,26 @@
 import ContentElementModel from '../models/ContentElement.model';
 import SubSectionModel from '../models/subSections.model';
-import { ICreateSubSection, IUpdateSubSection } from '../types/sub.section.types';
+import {
+    ICreateSubSection,
+    ISubSectionSlugAlternate,
+    ISubSectionSlugChange,
+    ISubSectionSlugRedirect,
+    IUpdateSubSection,
+} from '../types/sub.section.types';
 import mongoose from 'mongoose';
 import SectionItemModel from '../models/sectionItems.model';
+import SectionModel from '../models/sections.model';
 import ContentTranslationModel from '../models/ContentTranslation.model';
 import { AppError } from '../middleware/errorHandler.middleware';
+import { draftProjection, publishedOnlyFilter, readableContent } from '../utils/contentDraft';
+import { isScheduledActive, normalizePublishWindow, scheduledActiveFilter } from '../utils/publishSchedule';
+import sharedBlockService from './sharedBlock.service';
+import languageResolutionService from './languageResolution.service';
+import LanguagesModel from '../models/languages.model';
+import { isLocalizedText, LocalizedText } from '../utils/localizedText';
+import { ILanguageRequest } from '../utils/languageNegotiation';
+import { canonicalLocale } from '../utils/languageMetadata';
+import { slugify } from '../utils/slug';
 
 class SubSectionService {
     /**
@@ -14,6 +30,9 @@ class SubSectionService {
      */
     async createSubSection(subsectionData: ICreateSubSection): Promise<ICreateSubSection> {
         try {
+            if (!subsectionData.WebSiteId) {
+                throw AppError.validation('Website ID is required');
+            }
 
             // Check if section item exists
             if (subsectionData.sectionItem) {
@@ -37,13 +56,19 @@ class SubSectionService {
                 const subsection = new SubSectionModel({
                     name: subsectionData.name,
                     description: subsectionData.description,
-                    slug: subsectionData.slug,
+                    slug: await this.buildSlug(subsectionData.WebSiteId, subsectionData.slug, subsectionData.name),
+                    slugs: await this.buildLocalizedSlugs(
+                        subsectionData.WebSiteId,
+                        subsectionData.name || subsectionData.slug,
+                        subsectionData.slugs
+                    ),
                     order: subsectionData.order || 0,
                     isActive: subsectionData.isActive !== undefined ? subsectionData.isActive : true,
                     sectionItem: subsectionData.sectionItem,
                     section: subsectionData.section,
                     languages: subsectionData.languages || [],
                     isMain: subsectionData.isMain,
+                    ...normalizePublishWindow(subsectionData),
                     WebSiteId : subsectionData.WebSiteId 
                 });
                 
@@ -61,7 +86,7 @@ class SubSectionService {
         } catch (error) {
             if (error instanceof AppError) throw error;
             if (error.code === 11000) {
-                throw AppError.badRequest('Subsection with this slug already exists');
+                throw AppError.badRequest('Subsection with this slug already exists in this website');
             }
             throw AppError.database('Failed to create subsection', error);
         }
@@ -192,7 +217,8 @@ class SubSectionService {
             if (includeContentElements) {
                 const contentElements = await ContentElementModel.find({
                     parent: id,
-                    isActive: true
+                    isActive: true,
+                    ...publishedOnlyFilter()
                 }).sort({ order: 1 });
                 
                 // Add content elements to the result
@@ -212,13 +238,15 @@ class SubSectionService {
      * @param activeOnly Whether to return only active subsections
      * @param limit Maximum number of subsections to return
      * @param skip Number of subsections to skip
+     * @param includeDrafts Whether to include unpublished content and apply pending drafts
      * @returns Promise with array of complete subsections data including elements and translations
      */
     async getCompleteSubSectionsBySectionId(
         sectionId: string,
         activeOnly = true,
         limit = 100,
-        skip = 0
+        skip = 0,
+        includeDrafts = false
     ): Promise<any[]> {
         try {
             if (!mongoose.Types.ObjectId.isValid(sectionId)) {
@@ -231,11 +259,12 @@ class SubSectionService {
             };
             
             if (activeOnly) {
-                query.isActive = true;
+                // Scheduled windows apply even before the scheduler has flipped isActive
+                Object.assign(query, scheduledActiveFilter());
             }
             
             // Get subsections with basic population
-            const subsections = await SubSectionModel.find(query)
+            const subsections = this.withLiveParents(activeOnly, await SubSectionModel.find(query)
                 .sort({ order: 1, createdAt: -1 })
                 .skip(skip)
                 .limit(limit)
@@ -243,11 +272,10 @@ class SubSectionService {
                     path: 'sectionItem',
                     populate: {
                         path: 'section'
-                    },
-                    match: activeOnly ? { isActive: true } : {}
+                    }
                 })
                 .populate('section')
-                .populate('languages');
+                .populate('languages'));
             
             if (subsections.length === 0) {
                 return [];
@@ -256,46 +284,8 @@ class SubSectionService {
             // Get all subsection IDs
             const subsectionIds = subsections.map(sub => sub._id);
 
-            // Get all content elements for these subsections
-            const contentElements = await ContentElementModel.find({
-                parent: { $in: subsectionIds },
-                isActive: activeOnly
-            }).sort({ order: 1 });
-
-            // Get all element IDs
-            const elementIds = contentElements.map(element => element._id);
-
-            // Get all translations for these elements in a single query
-            const translations = await ContentTranslationModel.find({
-                contentElement: { $in: elementIds },
-                isActive: activeOnly
-            }).populate('language');
-
-            // Group translations by content element ID
-            const translationsByElement: Record<string, any[]> = {};
-            
-            translations.forEach(translation => {
-                const elementId = translation.contentElement.toString();
-                if (!translationsByElement[elementId]) {
-                    translationsByElement[elementId] = [];
-                }
-                translationsByElement[elementId].push(translation);
-            });
-
-            // Group content elements by subsection ID
-            const elementsBySubsection: Record<string, any[]> = {};
-            
-            contentElements.forEach(element => {
-                const subsectionId = element.parent.toString();
-                if (!elementsBySubsection[subsectionId]) {
-                    elementsBySubsection[subsectionId] = [];
-                }
-                
-                const elementData = element.toObject();
-                const elementId = element._id.toString();
-                elementData.translations = translationsByElement[elementId] || [];
-                elementsBySubsection[subsectionId].push(elementData);
-            });
+            // Get content elements with their translations, grouped by subsection ID
+            const elementsBySubsection = await this.getElementsBySubsection(subsectionIds, activeOnly, includeDrafts);
 
             // Create complete result with subsections and their elements
             const result = subsections.map(subsection => {
@@ -344,20 +334,33 @@ class SubSectionService {
     }
     
     /**
-     * Get subsection by slug
+     * Get subsection by slug; see resolveSlug for how current, localized and previous slugs are matched
      * @param slug The subsection slug
      * @param populateSectionItem Whether to populate section item
      * @param includeContentElements Whether to include content elements
-     * @returns Promise with the subsection if found
+     * @param languageRequest The request's language preferences
+     * @param webSiteId Website to look the slug up in (all websites when omitted)
+     * @returns Promise with the subsection if found, with a `redirect` hint when the slug is a previous one
      */
     async getSubSectionBySlug(
         slug: string,
         populateSectionItem = true,
-        includeContentElements = false
+        includeContentElements = false,
+        languageRequest: ILanguageRequest = {},
+        webSiteId?: string
     ): Promise<ICreateSubSection> {
         try {
-            const query = SubSectionModel.findOne({ slug });
-            
+            if (webSiteId && !mongoose.Types.ObjectId.isValid(webSiteId)) {
+                throw AppError.validation('Invalid website ID format');
+            }
+
+            const resolved = await this.resolveSlug(slug, languageRequest, webSiteId);
+            if (!resolved) {
+                throw AppError.notFound(`Subsection with slug ${slug} not found`);
+            }
+
+            const query = SubSectionModel.findById(resolved.subsection._id);
+
             if (populateSectionItem) {
                 query.populate({
                     path: 'sectionItem',
@@ -366,18 +369,22 @@ class SubSectionService {
                     }
                 }).populate('languages');
             }
-            
+
             const subsection = await query.exec();
-            
+
             if (!subsection) {
                 throw AppError.notFound(`Subsection with slug ${slug} not found`);
             }
-            
+            if (resolved.redirect) {
+                subsection.set('redirect', resolved.redirect, { strict: false });
+            }
+
             // If requested, include content elements
             if (includeContentElements) {
                 const contentElements = await ContentElementModel.find({
                     parent: subsection._id,
-                    isActive: true
+                    isActive: true,
+                    ...publishedOnlyFilter()
                 }).sort({ order: 1 });
                 
                 // Add content elements to the result
@@ -409,18 +416,32 @@ class SubSectionService {
                 throw AppError.notFound(`Subsection with ID ${id} not found`);
             }
             
-            // Check slug uniqueness if it's being updated
-            if (updateData.slug && updateData.slug !== subsection.slug) {
-                const existingWithSlug = await SubSectionModel.findOne({
-                    slug: updateData.slug,
-                    _id: { $ne: id }
-                });
-                
-                if (existingWithSlug) {
-                    throw AppError.badRequest(`Subsection with slug '${updateData.slug}' already exists`);
-                }
+            // The slug history and keys are kept here, never written by clients
+            delete (updateData as Record<string, any>).slugHistory;
+            delete (updateData as Record<string, any>).slugKeys;
+
+            // Check slug uniqueness if it's being updated; an empty slug is generated from the name
+            if (updateData.slug !== undefined) {
+                updateData.slug = await this.buildSlug(
+                    subsection.WebSiteId,
+                    updateData.slug,
+                    updateData.name || subsection.name,
+                    id
+                );
             }
 
+            // Localized slugs are merged into the current ones; an empty slug is generated again
+            if (updateData.slugs !== undefined) {
+                updateData.slugs = await this.buildLocalizedSlugs(
+                    subsection.WebSiteId,
+                    updateData.name || subsection.name || subsection.slug,
+                    updateData.slugs,
+                    subsection.slugs,
+                    id
+                );
+            }
+            const slugHistory = this.getSlugHistory(subsection, updateData);
+
             // Handle section item update if provided
             if (updateData.sectionItem && updateData.sectionItem.toString() !== subsection.sectionItem.toString()) {
                 // Check if new section item exists
@@ -445,7 +466,13 @@ class SubSectionService {
             // Update the subsection
             const updatedSubSection = await SubSectionModel.findByIdAndUpdate(
                 id,
-                { $set: updateData },
+                {
+                    $set: {
+                        ...updateData,
+                        ...normalizePublishWindow(updateData, subsection),
+                        ...(slugHistory && { slugHistory }),
+                    },
+                },
                 { new: true, runValidators: true }
             ).populate({
                 path: 'sectionItem',
@@ -458,7 +485,7 @@ class SubSectionService {
         } catch (error) {
             if (error instanceof AppError) throw error;
             if (error.code === 11000) {
-                throw AppError.badRequest('Subsection with this slug already exists');
+                throw AppError.badRequest('Subsection with this slug already exists in this website');
             }
             throw AppError.database('Failed to update subsection', error);
         }
@@ -602,11 +629,13 @@ class SubSectionService {
      * Get subsection by ID with all content elements and their translations
      * @param id The subsection ID
      * @param populateSectionItem Whether to populate section item
+     * @param includeDrafts Whether to include unpublished content and apply pending drafts
      * @returns Promise with the complete subsection data including elements and translations
      */
     async getCompleteSubSectionById(
         id: string, 
-        populateSectionItem = true
+        populateSectionItem = true,
+        includeDrafts = false
     ): Promise<any> {
 
         try {
@@ -628,47 +657,18 @@ class SubSectionService {
             
             const subsection = await query.exec();
             
-            if (!subsection) {
+            // A subsection outside its scheduled window, or in a section item or section outside
+            // theirs, is hidden from public reads
+            if (!subsection || (!includeDrafts && (this.isOutsideWindow(subsection) || await this.hasParentOutsideWindow(subsection)))) {
                 throw AppError.notFound(`Subsection with ID ${id} not found`);
             }
             
-            // Get all content elements for this subsection
-            const contentElements = await ContentElementModel.find({
-                parent: id,
-                isActive: true
-            }).sort({ order: 1 });
-            
-            // Get all element IDs
-            const elementIds = contentElements.map(element => element._id);
-            
-            // Get all translations for these elements in a single query
-            const translations = await ContentTranslationModel.find({
-                contentElement: { $in: elementIds },
-                isActive: true
-            }).populate('language');
-            
-            // Group translations by content element ID
-            const translationsByElement: Record<string, any[]> = {};
-            
-            translations.forEach(translation => {
-                const elementId = translation.contentElement.toString();
-                if (!translationsByElement[elementId]) {
-                    translationsByElement[elementId] = [];
-                }
-                translationsByElement[elementId].push(translation);
-            });
-            
-            // Add translations to each content element
-            const elementsWithTranslations = contentElements.map(element => {
-                const elementId = element._id.toString();
-                const elementData = element.toObject();
-                elementData.translations = translationsByElement[elementId] || [];
-                return elementData;
-            });
+            // Get all active content elements for this subsection with their translations
+            const elementsBySubsection = await this.getElementsBySubsection([subsection._id], true, includeDrafts);
             
             // Create result object
             const result = subsection.toObject();
-            result.elements = elementsWithTranslations;
+            result.elements = elementsBySubsection[subsection._id.toString()] || [];
             
             return result;
         } catch (error) {
@@ -678,51 +678,351 @@ class SubSectionService {
     }
 
     /**
-     * Get subsection by slug with all content elements and their translations
+     * Get subsection by slug with all content elements and their translations. The slug may be the
+     * subsection's slug or one of its localized slugs; see resolveSlug
      * @param slug The subsection slug
      * @param populateSectionItem Whether to populate section item
-     * @returns Promise with the complete subsection data including elements and translations
+     * @param includeDrafts Whether to include unpublished content and apply pending drafts
+     * @param languageRequest The request's language preferences
+     * @param webSiteId Website to look the slug up in (all websites when omitted)
+     * @returns Promise with the complete subsection data, the language the slug belongs to (`slugLanguage`,
+     * null for the base slug), the slugs of the other languages (`alternates`) and a `redirect` hint when
+     * the slug is a previous one
      */
     async getCompleteSubSectionBySlug(
         slug: string,
-        populateSectionItem = true
+        populateSectionItem = true,
+        includeDrafts = false,
+        languageRequest: ILanguageRequest = {},
+        webSiteId?: string
     ): Promise<any> {
         try {
-            // Find subsection by slug
-            const query = SubSectionModel.findOne({ slug });
-            
-            if (populateSectionItem) {
-                query.populate({
-                    path: 'sectionItem',
-                    populate: {
-                        path: 'section'
-                    }
-                }).populate('languages');
+            if (webSiteId && !mongoose.Types.ObjectId.isValid(webSiteId)) {
+                throw AppError.validation('Invalid website ID format');
             }
-            
-            const subsection = await query.exec();
-            
-            if (!subsection) {
+
+            const resolved = await this.resolveSlug(slug, languageRequest, webSiteId);
+            if (!resolved) {
                 throw AppError.notFound(`Subsection with slug ${slug} not found`);
             }
-            
+
             // Use the ID to get complete data
-            return this.getCompleteSubSectionById(subsection._id.toString(), false);
+            const result = await this.getCompleteSubSectionById(resolved.subsection._id.toString(), false, includeDrafts);
+            result.slugLanguage = resolved.slugLanguage;
+            result.alternates = await this.getSlugAlternates(resolved.subsection, resolved.slugLanguage);
+            if (resolved.redirect) {
+                result.redirect = resolved.redirect;
+            }
+
+            return result;
         } catch (error) {
             if (error instanceof AppError) throw error;
             throw AppError.database('Failed to retrieve complete subsection data', error);
         }
     }
+
+    /**
+     * Find the subsection a slug points to, preferring a localized slug in the requested language,
+     * then a localized slug in any language, then the base slug. A slug no subsection uses any more
+     * is looked up in the slug history instead; see resolvePreviousSlug
+     * @returns The subsection (ID, website and slugs), the language of the matched slug and, for a
+     * previous slug, the redirect hint; null when nothing matches
+     */
+    async resolveSlug(
+        slug: string,
+        languageRequest: ILanguageRequest,
+        webSiteId?: string
+    ): Promise<{ subsection: any; slugLanguage: string | null; redirect?: ISubSectionSlugRedirect } | null> {
+        const wanted = slug.trim().toLowerCase();
+        const escaped = wanted.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const scope = webSiteId ? { WebSiteId: webSiteId } : {};
+
+        const candidates = await SubSectionModel.find({
+            ...scope,
+            $or: [{ slug: wanted }, { slugKeys: { $regex: `^${escaped}:` } }],
+        }).select('_id WebSiteId slug slugs').lean<any[]>();
+        if (candidates.length === 0) {
+            return this.resolvePreviousSlug(wanted, scope);
+        }
+
+        const resolutions = await languageResolutionService.resolveMany(
+            candidates.map(candidate => candidate.WebSiteId.toString()),
+            languageRequest
+        );
+
+        const ranked = candidates.map((candidate) => {
+            const slugs: LocalizedText = candidate.slugs || {};
+            const requested = resolutions.get(candidate.WebSiteId.toString())?.language.languageID;
+            const matching = Object.keys(slugs).filter(code => slugs[code] === wanted);
+
+            if (requested && matching.includes(requested)) {
+                return { subsection: candidate, slugLanguage: requested, rank: 0 };
+            }
+            if (matching.length) {
+                return { subsection: candidate, slugLanguage: matching[0], rank: 1 };
+            }
+            return { subsection: candidate, slugLanguage: null, rank: 2 };
+        });
+
+        const [best] = ranked.sort((a, b) => a.rank - b.rank);
+        return { subsection: best.subsection, slugLanguage: best.slugLanguage };
+    }
+
+    /**
+     * Whether a document has a scheduled window it is outside of right now
+     */
+    private isOutsideWindow(doc: any): boolean {
+        return !!doc && !!(doc.publishAt || doc.unpublishAt) && !isScheduledActive(doc);
+    }
+
+    /**
+     * Drop the subsections whose section item or section is outside its scheduled window, as
+     * getCompleteSubSectionById does, and blank populated items that are not live
+     * @param activeOnly Whether the read serves live content only; otherwise every subsection is kept
+     * @param subsections Subsections with their section item (and its section) populated
+     */
+    private withLiveParents<T extends { sectionItem?: any; section?: any }>(activeOnly: boolean, subsections: T[]): T[] {
+        if (!activeOnly) return subsections;
+
+        return subsections.filter((subsection) => {
+            const item = subsection.sectionItem;
+            if (this.isOutsideWindow(item) || this.isOutsideWindow(item?.section) || this.isOutsideWindow(subsection.section)) {
+                return false;
+            }
+            if (item && !(item instanceof mongoose.Types.ObjectId) && !isScheduledActive(item)) {
+                subsection.sectionItem = null;
+            }
+            return true;
+        });
+    }
+
+    /**
+     * Whether the section item or the section a subsection belongs to is outside its scheduled window;
+     * uses the populated parents when present
+     */
+    private async hasParentOutsideWindow(subsection: any): Promise<boolean> {
+        const loaded = (ref: any) => (ref && !(ref instanceof mongoose.Types.ObjectId) ? ref : null);
+        const windowFields = 'isActive publishAt unpublishAt';
+
+        const item = loaded(subsection.sectionItem) || (subsection.sectionItem
+            ? await SectionItemModel.findById(subsection.sectionItem).select(`${windowFields} section`).lean()
+            : null);
+        if (this.isOutsideWindow(item)) return true;
+
+        // Subsections without an item hang off their section directly
+        const sectionRef = item?.section || subsection.section;
+        const section = loaded(sectionRef) || (sectionRef
+            ? await SectionModel.findById(sectionRef).select(windowFields).lean()
+            : null);
+        return this.isOutsideWindow(section);
+    }
+
+    /**
+     * Find the subsection that most recently gave up a slug, and the slug it uses now
+     */
+    private async resolvePreviousSlug(
+        wanted: string,
+        scope: Record<string, any>
+    ): Promise<{ subsection: any; slugLanguage: string | null; redirect: ISubSectionSlugRedirect } | null> {
+        const moved = await SubSectionModel.find({ ...scope, 'slugHistory.slug': wanted })
+            .select('_id WebSiteId slug slugs slugHistory')
+            .lean<any[]>();
+
+        const changes: { subsection: any; change: ISubSectionSlugChange }[] = [];
+        moved.forEach(subsection => (subsection.slugHistory || [])
+            .filter((change: ISubSectionSlugChange) => change.slug === wanted)
+            .forEach((change: ISubSectionSlugChange) => changes.push({ subsection, change })));
+        if (changes.length === 0) return null;
+
+        const [{ subsection, change }] = changes.sort((a, b) =>
+            new Date(b.change.changedAt).getTime() - new Date(a.change.changedAt).getTime());
+
+        // A language whose localized slug was removed since redirects to the base slug
+        const slugLanguage = change.language && subsection.slugs?.[change.language] ? change.language : null;
+
+        return {
+            subsection,
+            slugLanguage,
+            redirect: {
+                from: wanted,
+                to: slugLanguage ? subsection.slugs[slugLanguage] : subsection.slug,
+                language: slugLanguage,
+                statusCode: 301,
+            },
+        };
+    }
+
+    /**
+     * The slug history after an update: replaced slugs are added, slugs in use again are dropped
+     * @returns The new history, or null when no slug changes
+     */
+    private getSlugHistory(subsection: ICreateSubSection, updateData: IUpdateSubSection): ISubSectionSlugChange[] | null {
+        const changedAt = new Date();
+        const slug = updateData.slug ?? subsection.slug;
+        const slugs: LocalizedText = updateData.slugs ?? subsection.slugs ?? {};
+        const previousSlugs: LocalizedText = subsection.slugs || {};
+
+        const changes: ISubSectionSlugChange[] = [];
+        if (slug !== subsection.slug) {
+            changes.push({ slug: subsection.slug, language: null, changedAt });
+        }
+        Object.keys(previousSlugs)
+            .filter(code => previousSlugs[code] && previousSlugs[code] !== slugs[code])
+            .forEach(code => changes.push({ slug: previousSlugs[code], language: code, changedAt }));
+        if (changes.length === 0) return null;
+
+        const isCurrent = (change: ISubSectionSlugChange) =>
+            (change.language ? slugs[change.language] : slug) === change.slug;
+        const isRepeated = (change: ISubSectionSlugChange) =>
+            changes.some(other => other.slug === change.slug && other.language === change.language);
+
+        return [
+            ...(subsection.slugHistory || []).filter(change => !isCurrent(change) && !isRepeated(change)),
+            ...changes,
+        ];
+    }
+
+    /**
+     * Slugs of a subsection in the website's other active languages, for language switchers and hreflang links
+     */
+    private async getSlugAlternates(subsection: any, slugLanguage: string | null): Promise<ISubSectionSlugAlternate[]> {
+        const languages = await LanguagesModel.find({ websiteId: subsection.WebSiteId, isActive: true })
+            .sort({ order: 1, createdAt: 1 })
+            .select('languageID locale')
+            .lean<any[]>();
+        const slugs: LocalizedText = subsection.slugs || {};
+
+        return languages
+            .filter(language => language.languageID !== slugLanguage)
+            .map(language => ({
+                language: language.languageID,
+                locale: language.locale || canonicalLocale(language.languageID),
+                slug: slugs[language.languageID] || subsection.slug,
+            }));
+    }
+
+    /**
+     * The base slug of a subsection: a given slug is slugified and must be free in the website; without
+     * one, the name is transliterated and suffixed until it is free (`about-us-2`)
+     * @param webSiteId The subsection's website
+     * @param slug The incoming slug, if any
+     * @param name Text the slug is generated from when none is given
+     * @param excludeId The subsection being updated, whose own slug is not taken
+     * @returns The slug
+     */
+    private async buildSlug(webSiteId: any, slug: unknown, name: string, excludeId?: string): Promise<string> {
+        // Trashed subsections still hold their slugs in the unique index
+        const others = { WebSiteId: webSiteId, ...(excludeId && { _id: { $ne: excludeId } }) };
+
+        if (typeof slug === 'string' && slug.trim()) {
+            const given = slugify(slug);
+            if (!given) {
+                throw AppError.validation('Slug must contain letters or digits');
+            }
+            if (await SubSectionModel.exists({ ...others, slug: given }).setOptions({ withTrashed: true })) {
+                throw AppError.badRequest(`Subsection with slug '${given}' already exists in this website`);
+            }
+            return given;
+        }
+
+        const base = slugify(name);
+        if (!base) {
+            throw AppError.validation('A slug is required when the name has no letters or digits to build one from');
+        }
+
+        const taken = new Set<string>(
+            await SubSectionModel.find({ ...others, slug: { $regex: `^${base}(-[0-9]+)?$` } })
+                .setOptions({ withTrashed: true })
+                .distinct('slug')
+        );
+        let generated = base;
+        for (let suffix = 2; taken.has(generated); suffix++) {
+            generated = `${base}-${suffix}`;
+        }
+        return generated;
+    }
+
+    /**
+     * Localized slugs for every language of a website. Given slugs are slugified and must be free in
+     * their language; languages without one get a slug transliterated from the name, suffixed until
+     * it is free (`hakkimizda-2`)
+     * @param webSiteId The subsection's website
+     * @param name Text missing slugs are generated from
+     * @param slugs Incoming slugs keyed by language code
+     * @param current The subsection's current slugs, kept unless replaced
+     * @param excludeId The subsection being updated, whose own slugs are not taken
+     * @returns The slugs keyed by language code
+     */
+    private async buildLocalizedSlugs(
+        webSiteId: any,
+        name: string,
+        slugs: unknown,
+        current: LocalizedText = {},
+        excludeId?: string
+    ): Promise<LocalizedText> {
+        if (slugs !== undefined && slugs !== null && !isLocalizedText(slugs)) {
+            throw AppError.validation('Slugs must be an object of slugs keyed by language code');
+        }
+        const given: LocalizedText = (slugs as LocalizedText) || {};
+
+        const [codes, others] = await Promise.all([
+            LanguagesModel.find({ websiteId: webSiteId }).distinct('languageID'),
+            // Trashed subsections still hold their slugs in the unique index
+            SubSectionModel.find({ WebSiteId: webSiteId, ...(excludeId && { _id: { $ne: excludeId } }) })
+                .select('slugKeys')
+                .setOptions({ withTrashed: true })
+                .lean<any[]>(),
+        ]);
+        const taken = new Set<string>();
+        others.forEach(other => (other.slugKeys || []).forEach((key: string) => taken.add(key)));
+
+        const result: LocalizedText = {};
+        Object.keys(current || {}).forEach((code) => {
+            if (codes.includes(code) && given[code] === undefined) result[code] = current[code];
+        });
+
+        Object.keys(given).forEach((code) => {
+            if (!given[code].trim()) return;
+            if (!codes.includes(code)) {
+                throw AppError.validation(
+                    `Slugs use "${code}", which is not a language of this website (expected one of: ${codes.join(', ') || 'none'})`
+                );
+            }
+
+            const slug = slugify(given[code]);
+            if (!slug) {
+                throw AppError.validation(`Slug in ${code.toUpperCase()} must contain letters or digits`);
+            }
+            if (taken.has(`${slug}:${code}`)) {
+                throw AppError.badRequest(`Subsection with slug '${slug}' already exists in ${code.toUpperCase()}`);
+            }
+            result[code] = slug;
+        });
+
+        // Names with nothing to transliterate (e.g. Chinese) leave the language on the base slug
+        const base = slugify(name);
+        codes.filter(code => !result[code] && base).forEach((code) => {
+            let slug = base;
+            for (let suffix = 2; taken.has(`${slug}:${code}`); suffix++) {
+                slug = `${base}-${suffix}`;
+            }
+            result[code] = slug;
+        });
+
+        return result;
+    }
+
     /**
      * Get subsections by section item ID with all content elements and their translations
      * @param sectionItemId The section item ID
      * @param activeOnly Whether to return only active subsections
      * @param limit Maximum number of subsections to return
      * @param skip Number of subsections to skip
+     * @param includeDrafts Whether to include unpublished content and apply pending drafts
      * @returns Promise with array of complete subsections data including elements and translations
      */
         async getSubSectionsBySectionItemId(
-            sectionItemId: string, activeOnly = true, limit = 100, skip = 0, includeContentCount: boolean    ): Promise<any[]> {
+            sectionItemId: string, activeOnly = true, limit = 100, skip = 0, includeContentCount: boolean, includeDrafts = false    ): Promise<any[]> {
                     try {
                         if (!mongoose.Types.ObjectId.isValid(sectionItemId)) {
                             throw AppError.validation('Invalid section item ID format');
@@ -734,11 +1034,12 @@ class SubSectionService {
                         };
                         
                         if (activeOnly) {
-                            query.isActive = true;
+                            // Scheduled windows apply even before the scheduler has flipped isActive
+                            Object.assign(query, scheduledActiveFilter());
                         }
                         
                         // Get subsections with basic population
-                        const subsections = await SubSectionModel.find(query)
+                        const subsections = this.withLiveParents(activeOnly, await SubSectionModel.find(query)
                             .sort({ order: 1, createdAt: -1 })
                             .skip(skip)
                             .limit(limit)
@@ -746,10 +1047,9 @@ class SubSectionService {
                                 path: 'sectionItem',
                                 populate: {
                                     path: 'section'
-                                },
-                                match: activeOnly ? { isActive: true } : {}
+                                }
                             })
-                            .populate('languages');
+                            .populate('languages'));
                         
                         if (subsections.length === 0) {
                             return [];
@@ -758,46 +1058,8 @@ class SubSectionService {
                         // Get all subsection IDs
                         const subsectionIds = subsections.map(sub => sub._id);
 
-                        // Get all content elements for these subsections
-                        const contentElements = await ContentElementModel.find({
-                            parent: { $in: subsectionIds },
-                            isActive: activeOnly
-                        }).sort({ order: 1 });
-
-                        // Get all element IDs
-                        const elementIds = contentElements.map(element => element._id);
-
-                        // Get all translations for these elements in a single query
-                        const translations = await ContentTranslationModel.find({
-                            contentElement: { $in: elementIds },
-                            isActive: activeOnly
-                        }).populate('language');
-
-                        // Group translations by content element ID
-                        const translationsByElement: Record<string, any[]> = {};
-                        
-                        translations.forEach(translation => {
-                            const elementId = translation.contentElement.toString();
-                            if (!translationsByElement[elementId]) {
-                                translationsByElement[elementId] = [];
-                            }
-                            translationsByElement[elementId].push(translation);
-                        });
-
-                        // Group content elements by subsection ID
-                        const elementsBySubsection: Record<string, any[]> = {};
-                        
-                        contentElements.forEach(element => {
-                            const subsectionId = element.parent.toString();
-                            if (!elementsBySubsection[subsectionId]) {
-                                elementsBySubsection[subsectionId] = [];
-                            }
-                            
-                            const elementData = element.toObject();
-                            const elementId = element._id.toString();
-                            elementData.translations = translationsByElement[elementId] || [];
-                            elementsBySubsection[subsectionId].push(elementData);
-                        });
+                        // Get content elements with their translations, grouped by subsection ID
+                        const elementsBySubsection = await this.getElementsBySubsection(subsectionIds, activeOnly, includeDrafts);
 
                         // Create complete result with subsections and their elements
                         const result = subsections.map(subsection => {
@@ -894,13 +1156,15 @@ class SubSectionService {
      * @param activeOnly Whether to return only active subsections
      * @param limit Maximum number of subsections to return
      * @param skip Number of subsections to skip
+     * @param includeDrafts Whether to include unpublished content and apply pending drafts
      * @returns Promise with array of complete subsections data including elements and translations
      */
     async getCompleteSubSectionsByWebSiteId(
         websiteId: string,
         activeOnly = true,
         limit = 100,
-        skip = 0
+        skip = 0,
+        includeDrafts = false
     ): Promise<any[]> {
         try {
             if (!mongoose.Types.ObjectId.isValid(websiteId)) {
@@ -913,11 +1177,12 @@ class SubSectionService {
             };
             
             if (activeOnly) {
-                query.isActive = true;
+                // Scheduled windows apply even before the scheduler has flipped isActive
+                Object.assign(query, scheduledActiveFilter());
             }
             
             // Get subsections with basic population
-            const subsections = await SubSectionModel.find(query)
+            const subsections = this.withLiveParents(activeOnly, await SubSectionModel.find(query)
                 .sort({ order: 1, createdAt: -1 })
                 .skip(skip)
                 .limit(limit)
@@ -925,11 +1190,10 @@ class SubSectionService {
                     path: 'sectionItem',
                     populate: {
                         path: 'section'
-                    },
-                    match: activeOnly ? { isActive: true } : {}
+                    }
                 })
                 .populate('section')
-                .populate('languages');
+                .populate('languages'));
             
             if (subsections.length === 0) {
                 return [];
@@ -938,46 +1202,8 @@ class SubSectionService {
             // Get all subsection IDs
             const subsectionIds = subsections.map(sub => sub._id);
 
-            // Get all content elements for these subsections
-            const contentElements = await ContentElementModel.find({
-                parent: { $in: subsectionIds },
-                isActive: activeOnly
-            }).sort({ order: 1 });
-
-            // Get all element IDs
-            const elementIds = contentElements.map(element => element._id);
-
-            // Get all translations for these elements in a single query
-            const translations = await ContentTranslationModel.find({
-                contentElement: { $in: elementIds },
-                isActive: activeOnly
-            }).populate('language');
-
-            // Group translations by content element ID
-            const translationsByElement: Record<string, any[]> = {};
-            
-            translations.forEach(translation => {
-                const elementId = translation.contentElement.toString();
-                if (!translationsByElement[elementId]) {
-                    translationsByElement[elementId] = [];
-                }
-                translationsByElement[elementId].push(translation);
-            });
-
-            // Group content elements by subsection ID
-            const elementsBySubsection: Record<string, any[]> = {};
-            
-            contentElements.forEach(element => {
-                const subsectionId = element.parent.toString();
-                if (!elementsBySubsection[subsectionId]) {
-                    elementsBySubsection[subsectionId] = [];
-                }
-                
-                const elementData = element.toObject();
-                const elementId = element._id.toString();
-                elementData.translations = translationsByElement[elementId] || [];
-                elementsBySubsection[subsectionId].push(elementData);
-            });
+            // Get content elements with their translations, grouped by subsection ID
+            const elementsBySubsection = await this.getElementsBySubsection(subsectionIds, activeOnly, includeDrafts);
 
             // Create complete result with subsections and their elements
             const result = subsections.map(subsection => {
@@ -1301,6 +1527,7 @@ class SubSectionService {
      * @param limit Maximum number of subsections to return
      * @param skip Number of subsections to skip
      * @param includeContentCount Whether to include content element count
+     * @param includeDrafts Whether to include unpublished content and apply pending drafts
      * @returns Promise with array of complete subsections data including elements and translations
      */
     async getSubSectionsBySectionItemIds(
@@ -1308,7 +1535,8 @@ class SubSectionService {
         activeOnly = true, 
         limit = 100, 
         skip = 0, 
-        includeContentCount = false
+        includeContentCount = false,
+        includeDrafts = false
     ): Promise<any[]> {
         try {
             // Validate all section item IDs
@@ -1324,11 +1552,12 @@ class SubSectionService {
             };
             
             if (activeOnly) {
-                query.isActive = true;
+                // Scheduled windows apply even before the scheduler has flipped isActive
+                Object.assign(query, scheduledActiveFilter());
             }
             
             // Get subsections with basic population
-            const subsections = await SubSectionModel.find(query)
+            const subsections = this.withLiveParents(activeOnly, await SubSectionModel.find(query)
                 .sort({ order: 1, createdAt: -1 })
                 .skip(skip)
                 .limit(limit)
@@ -1336,11 +1565,10 @@ class SubSectionService {
                     path: 'sectionItem',
                     populate: {
                         path: 'section'
-                    },
-                    match: activeOnly ? { isActive: true } : {}
+                    }
                 })
                 .populate('section')
-                .populate('languages');
+                .populate('languages'));
             
             if (subsections.length === 0) {
                 return [];
@@ -1372,46 +1600,8 @@ class SubSectionService {
             // Get all subsection IDs
             const subsectionIds = subsections.map(sub => sub._id);
 
-            // Get all content elements for these subsections
-            const contentElements = await ContentElementModel.find({
-                parent: { $in: subsectionIds },
-                isActive: activeOnly
-            }).sort({ order: 1 });
-
-            // Get all element IDs
-            const elementIds = contentElements.map(element => element._id);
-
-            // Get all translations for these elements in a single query
-            const translations = await ContentTranslationModel.find({
-                contentElement: { $in: elementIds },
-                isActive: activeOnly
-            }).populate('language');
-
-            // Group translations by content element ID
-            const translationsByElement: Record<string, any[]> = {};
-            
-            translations.forEach(translation => {
-                const elementId = translation.contentElement.toString();
-                if (!translationsByElement[elementId]) {
-                    translationsByElement[elementId] = [];
-                }
-                translationsByElement[elementId].push(translation);
-            });
-
-            // Group content elements by subsection ID
-            const elementsBySubsection: Record<string, any[]> = {};
-            
-            contentElements.forEach(element => {
-                const subsectionId = element.parent.toString();
-                if (!elementsBySubsection[subsectionId]) {
-                    elementsBySubsection[subsectionId] = [];
-                }
-                
-                const elementData = element.toObject();
-                const elementId = element._id.toString();
-                elementData.translations = translationsByElement[elementId] || [];
-                elementsBySubsection[subsectionId].push(elementData);
-            });
+            // Get content elements with their translations, grouped by subsection ID
+            const elementsBySubsection = await this.getElementsBySubsection(subsectionIds, activeOnly, includeDrafts);
 
             // Create complete result with subsections and their elements
             const result = subsections.map(subsection => {
@@ -1433,13 +1623,15 @@ class SubSectionService {
  * @param activeOnly Whether to return only active content
  * @param limit Maximum number of subsections to return
  * @param skip Number of subsections to skip
+ * @param includeDrafts Whether to include unpublished content and apply pending drafts
  * @returns Promise with array of navigation subsections data including elements and translations
  */
 async getNavigationSubSectionsByWebSiteId(
     websiteId: string,
     activeOnly = true,
     limit = 100,
-    skip = 0
+    skip = 0,
+    includeDrafts = false
 ): Promise<any[]> {
     try {
         if (!mongoose.Types.ObjectId.isValid(websiteId)) {
@@ -1453,11 +1645,12 @@ async getNavigationSubSectionsByWebSiteId(
         };
         
         if (activeOnly) {
-            query.isActive = true;
+            // Scheduled windows apply even before the scheduler has flipped isActive
+            Object.assign(query, scheduledActiveFilter());
         }
         
         // Get all navigation subsections with basic population
-        const subsections = await SubSectionModel.find(query)
+        const subsections = this.withLiveParents(activeOnly, await SubSectionModel.find(query)
             .sort({ order: 1, createdAt: -1 })
             .skip(skip)
             .limit(limit)
@@ -1465,11 +1658,10 @@ async getNavigationSubSectionsByWebSiteId(
                 path: 'sectionItem',
                 populate: {
                     path: 'section'
-                },
-                match: activeOnly ? { isActive: true } : {}
+                }
             })
             .populate('section')
-            .populate('languages');
+            .populate('languages'));
         
         if (subsections.length === 0) {
             return [];
@@ -1478,46 +1670,8 @@ async getNavigationSubSectionsByWebSiteId(
         // Get all subsection IDs
         const subsectionIds = subsections.map(sub => sub._id);
 
-        // Get all content elements for these subsections
-        const contentElements = await ContentElementModel.find({
-            parent: { $in: subsectionIds },
-            isActive: activeOnly
-        }).sort({ order: 1 });
-
-        // Get all element IDs
-        const elementIds = contentElements.map(element => element._id);
-
-        // Get all translations for these elements in a single query
-        const translations = await ContentTranslationModel.find({
-            contentElement: { $in: elementIds },
-            isActive: activeOnly
-        }).populate('language');
-
-        // Group translations by content element ID
-        const translationsByElement: Record<string, any[]> = {};
-        
-        translations.forEach(translation => {
-            const elementId = translation.contentElement.toString();
-            if (!translationsByElement[elementId]) {
-                translationsByElement[elementId] = [];
-            }
-            translationsByElement[elementId].push(translation);
-        });
-
-        // Group content elements by subsection ID
-        const elementsBySubsection: Record<string, any[]> = {};
-        
-        contentElements.forEach(element => {
-            const subsectionId = element.parent.toString();
-            if (!elementsBySubsection[subsectionId]) {
-                elementsBySubsection[subsectionId] = [];
-            }
-            
-            const elementData = element.toObject();
-            const elementId = element._id.toString();
-            elementData.translations = translationsByElement[elementId] || [];
-            elementsBySubsection[subsectionId].push(elementData);
-        });
+        // Get content elements with their translations, grouped by subsection ID
+        const elementsBySubsection = await this.getElementsBySubsection(subsectionIds, activeOnly, includeDrafts);
 
         // Create complete result with subsections and their elements
         const result = subsections.map(subsection => {
@@ -1533,6 +1687,82 @@ async getNavigationSubSectionsByWebSiteId(
         throw AppError.database('Failed to retrieve navigation subsections by WebSite ID', error);
     }
 }
+
+/**
+ * Get content elements with their translations for several subsections, grouped by subsection ID
+ * @param subsectionIds The subsection IDs
+ * @param activeOnly Active status the elements and translations must have
+ * @param includeDrafts Whether to include unpublished content and apply pending drafts
+ * @returns Promise with the elements (each carrying its translations) keyed by subsection ID
+ */
+private async getElementsBySubsection(
+    subsectionIds: (mongoose.Types.ObjectId | string)[],
+    activeOnly: boolean,
+    includeDrafts = false
+): Promise<Record<string, any[]>> {
+    // With drafts the active flag may be overridden, so it is checked after applying them
+    const activeFilter = includeDrafts ? {} : { isActive: activeOnly };
+
+    const contentElements = await ContentElementModel.find({
+        parent: { $in: subsectionIds },
+        ...activeFilter,
+        ...publishedOnlyFilter(includeDrafts)
+    }).select(draftProjection(includeDrafts)).sort({ order: 1 });
+
+    const elementIds = contentElements.map(element => element._id);
+
+    const translations = await ContentTranslationModel.find({
+        contentElement: { $in: elementIds },
+        ...activeFilter,
+        ...publishedOnlyFilter(includeDrafts)
+    }).select(draftProjection(includeDrafts)).populate('language');
+
+    // Group translations by content element ID
+    const translationsByElement: Record<string, any[]> = {};
+
+    translations.forEach(translation => {
+        const translationData = readableContent(translation, includeDrafts);
+        if (includeDrafts && translationData.isActive !== activeOnly) return;
+
+        const elementId = translation.contentElement.toString();
+        if (!translationsByElement[elementId]) {
+            translationsByElement[elementId] = [];
+        }
+        translationsByElement[elementId].push(translationData);
+    });
+
+    // Group content elements by subsection ID
+    const elementsBySubsection: Record<string, any[]> = {};
+
+    contentElements.forEach(element => {
+        const elementData = readableContent(element, includeDrafts);
+        if (includeDrafts && elementData.isActive !== activeOnly) return;
+
+        const subsectionId = element.parent.toString();
+        if (!elementsBySubsection[subsectionId]) {
+            elementsBySubsection[subsectionId] = [];
+        }
+
+        elementData.translations = translationsByElement[element._id.toString()] || [];
+        elementsBySubsection[subsectionId].push(elementData);
+    });
+
+    // Draft orders can differ from the stored ones
+    if (includeDrafts) {
+        Object.values(elementsBySubsection).forEach(elements =>
+            elements.sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+        );
+    }
+
+    // Shared blocks are embedded inline, so editing a block shows up on every page using it
+    await sharedBlockService.expandReferences(
+        ([] as any[]).concat(...Object.values(elementsBySubsection)),
+        activeOnly,
+        includeDrafts
+    );
+
+    return elementsBySubsection;
+}
 }
 
 export default new SubSectionService();
\ No newline at end of file
@@ -0,0 +1,399 @@
+import { AppError } from '../middleware/errorHandler.middleware';
+import { escapeLikeXss } from '../middleware/enhancedSecurity.middleware';
+import SectionModel from '../models/sections.model';
+import SectionItemModel from '../models/sectionItems.model';
+import SubSectionModel from '../models/subSections.model';
+import SharedBlockModel from '../models/SharedBlock.model';
+import ContentElementModel from '../models/ContentElement.model';
+import ContentTranslationModel from '../models/ContentTranslation.model';
+import { IRevisionContext } from '../types/ContentRevision.type';
+import {
+  IElementContext,
+  ITranslationExportOptions,
+  ITranslationFile,
+  ITranslationImportOptions,
+  ITranslationImportReport,
+  ITranslationUnit,
+  XliffVersion,
+} from '../types/TranslationExchange.type';
+import { applyDraft } from '../utils/contentDraft';
+import { getLocalizedText } from '../utils/localizedText';
+import { buildXliff, parseXliff, XLIFF_VERSIONS } from '../utils/xliff';
+import { buildCsv, parseCsv } from '../utils/csv';
+import { buildPo, parsePo } from '../utils/po';
+import { assertWebSiteMember, getWebSiteLanguage } from '../utils/webSiteAccess';
+import contentTranslationService from './ContentTranslation.service';
+
+// Element types whose per-language content is not text for translators
+const NON_TRANSLATABLE_TYPES = ['reference', 'boolean', 'image', 'video', 'file'];
+
+/**
+ * Whether elements of a type carry translatable text
+ */
+export const isTranslatableType = (type: string): boolean => !NON_TRANSLATABLE_TYPES.includes(type);
+
+interface ITranslationFormat {
+  contentType: string;
+  extension: string;
+  build: (units: ITranslationUnit[], languages: { source: string; target: string }, options: { version?: string; original: string }) => string;
+  parse: (body: string) => ITranslationFile;
+}
+
+const formats = new Map<string, ITranslationFormat>();
+
+formats.set('xliff', {
+  contentType: 'application/xliff+xml',
+  extension: 'xlf',
+  build: (units, languages, { version, original }) => {
+    const xliffVersion = (version || '1.2') as XliffVersion;
+    if (!XLIFF_VERSIONS.includes(xliffVersion)) {
+      throw AppError.validation(`Unsupported XLIFF version ${version}, expected ${XLIFF_VERSIONS.join(' or ')}`);
+    }
+    return buildXliff(units, languages, xliffVersion, original);
+  },
+  parse: parseXliff,
+});
+
+const CSV_COLUMNS = ['key', 'source', 'target', 'context'];
+
+formats.set('csv', {
+  contentType: 'text/csv',
+  extension: 'csv',
+  build: units => buildCsv([
+    CSV_COLUMNS,
+    ...units.map(unit => [unit.key, unit.source, unit.target, unit.notes.join('\n')]),
+  ]),
+  parse: (body) => {
+    const [header = [], ...rows] = parseCsv(body);
+    const columns = header.map(name => name.trim().toLowerCase());
+    const keyColumn = columns.indexOf('key');
+    const targetColumn = columns.indexOf('target');
+    if (keyColumn === -1 || targetColumn === -1) {
+      throw new Error(`the first row must name the columns (${CSV_COLUMNS.join(', ')})`);
+    }
+
+    return {
+      units: rows.map(row => ({
+        id: (row[keyColumn] || '').trim(),
+        source: row[columns.indexOf('source')],
+        target: row[targetColumn] || '',
+      })),
+    };
+  },
+});
+
+formats.set('po', {
+  contentType: 'text/x-gettext-translation',
+  extension: 'po',
+  build: (units, languages) => buildPo(units, languages),
+  parse: parsePo,
+});
+
+class TranslationExchangeService {
+  /**
+   * List the translatable content elements of a website with the section, item,
+   * subsection or shared block they belong to. Pending drafts are applied.
+   * @param webSiteId The website ID
+   * @returns Promise with the elements in page order
+   */
+  async getElementContexts(webSiteId: string): Promise<IElementContext[]> {
+    const [sections, sharedBlocks] = await Promise.all([
+      SectionModel.find({ WebSiteId: webSiteId }).sort({ order: 1 }).lean<any[]>(),
+      SharedBlockModel.find({ webSite: webSiteId }).sort({ name: 1 }).lean<any[]>(),
+    ]);
+    const sectionIds = sections.map(section => section._id);
+
+    const sectionItems = await SectionItemModel.find({
+      $or: [{ WebSiteId: webSiteId }, { section: { $in: sectionIds } }],
+    }).sort({ order: 1 }).lean<any[]>();
+
+    const subsections = await SubSectionModel.find({
+      $or: [
+        { WebSiteId: webSiteId },
+        { section: { $in: sectionIds } },
+        { sectionItem: { $in: sectionItems.map(item => item._id) } },
+      ],
+    }).sort({ order: 1 }).lean<any[]>();
+
+    const elements = await ContentElementModel.find({
+      $or: [
+        { parent: { $in: [...sectionIds, ...sectionItems.map(item => item._id), ...subsections.map(subsection => subsection._id)] } },
+        { sharedBlock: { $in: sharedBlocks.map(block => block._id) } },
+      ],
+    }).sort({ order: 1 }).lean<any[]>();
+
+    const byId = <T extends { _id: any }>(docs: T[]) => new Map(docs.map(doc => [doc._id.toString(), doc]));
+    const sectionsById = byId(sections);
+    const itemsById = byId(sectionItems);
+    const subsectionsById = byId(subsections);
+    const blocksById = byId(sharedBlocks);
+
+    const contexts = elements
+      .map(applyDraft)
+      .filter(element => isTranslatableType(element.type))
+      .map((element): IElementContext => {
+        if (element.sharedBlock) {
+          return { element, key: '', sharedBlock: blocksById.get(element.sharedBlock.toString()) };
+        }
+
+        const parentId = element.parent?.toString();
+        const subsection = subsectionsById.get(parentId);
+        const sectionItem = itemsById.get(parentId) || itemsById.get(subsection?.sectionItem?.toString());
+        const section = sectionsById.get(parentId)
+          || sectionsById.get(subsection?.section?.toString())
+          || sectionsById.get(sectionItem?.section?.toString());
+
+        return { element, key: '', section, sectionItem, subsection };
+      });
+
+    // Page order: section, item, subsection, then the element's own order; shared blocks last
+    const position = (context: IElementContext) => [
+      context.sharedBlock ? sections.length : sections.indexOf(context.section),
+      sectionItems.indexOf(context.sectionItem),
+      subsections.indexOf(context.subsection),
+    ];
+
+    return contexts
+      .map((context, index) => ({ context, index, position: position(context) }))
+      .sort((a, b) => a.position[0] - b.position[0]
+        || a.position[1] - b.position[1]
+        || a.position[2] - b.position[2]
+        || a.index - b.index)
+      .map(({ context }) => context)
+      .map(this.assignKeys());
+  }
+
+  /**
+   * Build the translation units of a website for a source/target language pair
+   * @param webSiteId The website ID
+   * @param source Source language code (`languageID`)
+   * @param target Target language code (`languageID`)
+   * @returns Promise with one unit per translatable content element
+   */
+  async getTranslationUnits(webSiteId: string, source: string, target: string): Promise<ITranslationUnit[]> {
+    const [sourceLanguage, targetLanguage] = await Promise.all([
+      getWebSiteLanguage(webSiteId, source),
+      getWebSiteLanguage(webSiteId, target),
+    ]);
+
+    const contexts = await this.getElementContexts(webSiteId);
+    const translations = await ContentTranslationModel.find({
+      contentElement: { $in: contexts.map(({ element }) => element._id) },
+      language: { $in: [sourceLanguage._id, targetLanguage._id] },
+    }).lean<any[]>();
+
+    const contents = new Map(translations.map(translation => [
+      `${translation.contentElement}:${translation.language}`,
+      applyDraft(translation).content as string,
+    ]));
+    const contentOf = (elementId: any, languageId: any): string | undefined => contents.get(`${elementId}:${languageId}`);
+
+    return contexts.map((context) => {
+      const { element } = context;
+      return {
+        id: element._id.toString(),
+        key: context.key,
+        name: element.name,
+        type: element.type,
+        source: contentOf(element._id, sourceLanguage._id) ?? element.defaultContent ?? '',
+        target: contentOf(element._id, targetLanguage._id) ?? '',
+        notes: this.describeContext(context),
+      };
+    });
+  }
+
+  /**
+   * Export a website's translations for a language pair as a file
+   * @param webSiteId The website ID
+   * @param userId The requesting user, who must be a member of the website
+   * @param options Language pair, file format and format version
+   * @returns Promise with the file name, content type and body
+   */
+  async exportTranslations(
+    webSiteId: string,
+    userId: string,
+    options: ITranslationExportOptions
+  ): Promise<{ fileName: string; contentType: string; body: string }> {
+    const format = this.getFormat(options.format);
+    await assertWebSiteMember(webSiteId, userId);
+
+    const units = await this.getTranslationUnits(webSiteId, options.source, options.target);
+    const languages = { source: options.source, target: options.target };
+
+    return {
+      fileName: `website-${webSiteId}.${options.source}-${options.target}.${format.extension}`,
+      contentType: format.contentType,
+      body: format.build(units, languages, { version: options.version, original: `website-${webSiteId}` }),
+    };
+  }
+
+  /**
+   * Import a translation file for one target language through the bulk upsert.
+   * Units with an empty or unchanged target are left untouched.
+   * @param webSiteId The website ID
+   * @param body The file contents
+   * @param options File format and expected target language
+   * @param revision Author of the change, recorded in the revision history
+   * @returns Promise with the updated, untouched and rejected unit IDs
+   */
+  async importTranslations(
+    webSiteId: string,
+    body: string,
+    options: ITranslationImportOptions,
+    revision: IRevisionContext = {}
+  ): Promise<ITranslationImportReport> {
+    const format = this.getFormat(options.format);
+    await assertWebSiteMember(webSiteId, revision.authorId);
+
+    let file: ITranslationFile;
+    try {
+      file = format.parse(body);
+    } catch (error) {
+      throw AppError.validation(`Could not read the ${options.format} file: ${error.message}`);
+    }
+
+    const targetCode = options.target || file.targetLanguage;
+    if (!targetCode) {
+      throw AppError.validation('The file names no target language; pass it as the `target` query parameter');
+    }
+    if (options.target && file.targetLanguage && file.targetLanguage !== options.target) {
+      throw AppError.validation(`The file targets "${file.targetLanguage}", not "${options.target}"`);
+    }
+
+    const targetLanguage = await getWebSiteLanguage(webSiteId, targetCode);
+    const contexts = await this.getElementContexts(webSiteId);
+    // Units name their element by ID (XLIFF) or by key (CSV, PO)
+    const elements = new Map<string, Record<string, any>>();
+    contexts.forEach(({ element, key }) => {
+      elements.set(element._id.toString(), element);
+      elements.set(key, element);
+    });
+
+    const existing = await ContentTranslationModel.find({
+      contentElement: { $in: contexts.map(({ element }) => element._id) },
+      language: targetLanguage._id,
+    }).lean<any[]>();
+    const existingByElement = new Map(existing.map(translation => [translation.contentElement.toString(), translation]));
+
+    const report: ITranslationImportReport = {
+      targetLanguage: targetCode,
+      total: file.units.length,
+      updated: [],
+      untouched: [],
+      rejected: [],
+    };
+
+    const pending: { id: string; translation: any }[] = [];
+    const seen = new Set<string>();
+
+    file.units.forEach((unit) => {
+      if (unit.error) {
+        report.rejected.push({ id: unit.id, reason: unit.error });
+        return;
+      }
+
+      const element = elements.get(unit.id);
+      if (!element) {
+        report.rejected.push({ id: unit.id, reason: 'No translatable content element with this ID or key in the website' });
+        return;
+      }
+
+      const elementId = element._id.toString();
+      if (seen.has(elementId)) {
+        report.rejected.push({ id: unit.id, reason: 'Duplicate unit' });
+        return;
+      }
+      seen.add(elementId);
+
+      const current = existingByElement.get(elementId);
+      const currentContent = current ? applyDraft(current).content : undefined;
+      const content = escapeLikeXss(unit.target);
+
+      if (content === '' || content === currentContent || unit.target === currentContent) {
+        report.untouched.push(unit.id);
+        return;
+      }
+
+      pending.push({
+        id: unit.id,
+        translation: {
+          contentElement: elementId,
+          language: targetLanguage._id.toString(),
+          content,
+          rawContent: unit.target,
+          isActive: current ? current.isActive : true,
+          metadata: current?.metadata,
+        },
+      });
+    });
+
+    if (pending.length === 0) return report;
+
+    const result = await contentTranslationService.bulkUpsertTranslations(
+      pending.map(({ translation }) => translation),
+      revision
+    );
+
+    // Bulk errors are reported as "Item <1-based index>: <reason>"
+    const failed = new Map<number, string>();
+    (result.errors || []).forEach((message) => {
+      const match = message.match(/^Item (\d+): (.*)$/);
+      if (match) failed.set(Number(match[1]) - 1, match[2]);
+    });
+
+    pending.forEach(({ id }, index) => {
+      if (failed.has(index)) {
+        report.rejected.push({ id, reason: failed.get(index) });
+      } else {
+        report.updated.push(id);
+      }
+    });
+
+    return report;
+  }
+
+  /**
+   * Key each context by where it sits; repeated paths are numbered in page order (`hero/title#2`)
+   */
+  private assignKeys(): (context: IElementContext) => IElementContext {
+    const used = new Map<string, number>();
+
+    return (context) => {
+      const base = [
+        context.sharedBlock ? `block:${context.sharedBlock.name}` : context.section?.subName,
+        context.subsection?.slug,
+        context.element.name,
+      ].filter(Boolean).join('/');
+
+      const count = (used.get(base) || 0) + 1;
+      used.set(base, count);
+
+      return { ...context, key: count > 1 ? `${base}#${count}` : base };
+    };
+  }
+
+  /**
+   * Context lines shown to translators next to a unit
+   */
+  private describeContext({ element, section, sectionItem, subsection, sharedBlock }: IElementContext): string[] {
+    const notes: string[] = [];
+
+    if (sharedBlock) notes.push(`Shared block: ${sharedBlock.name}`);
+    if (section) notes.push(`Section: ${getLocalizedText(section.name) || section.subName} (${section.subName})`);
+    if (sectionItem) notes.push(`Item: ${sectionItem.name}`);
+    if (subsection) notes.push(`Subsection: ${subsection.name} (/${subsection.slug})`);
+    notes.push(`Element: ${element.name} (${element.type})`);
+
+    return notes;
+  }
+
+  private getFormat(name: string): ITranslationFormat {
+    const format = formats.get(name);
+    if (!format) {
+      throw AppError.validation(`Unsupported format "${name}", expected one of: ${Array.from(formats.keys()).join(', ')}`);
+    }
+    return format;
+  }
+}
+
+export default new TranslationExchangeService();
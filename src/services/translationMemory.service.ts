@@ -0,0 +1,253 @@
+import { Types } from 'mongoose';
+import { AppError } from '../middleware/errorHandler.middleware';
+import WebSiteModel from '../models/WebSite.model';
+import WebSiteUserModel from '../models/webSiteUser.model';
+import LanguagesModel from '../models/languages.model';
+import ContentElementModel from '../models/ContentElement.model';
+import ContentTranslationModel from '../models/ContentTranslation.model';
+import {
+  ITranslationSuggestion,
+  ITranslationSuggestionOptions,
+  ITranslationSuggestions,
+  TranslationMemoryScope,
+} from '../types/TranslationMemory.type';
+import { applyDraft } from '../utils/contentDraft';
+import { normalizeText, similarity } from '../utils/textSimilarity';
+import { assertWebSiteMember } from '../utils/webSiteAccess';
+import translationExchangeService, { isTranslatableType } from './translationExchange.service';
+import { NEEDS_REVIEW_STATUS } from './machineTranslation.service';
+
+const SCOPES: TranslationMemoryScope[] = ['website', 'all'];
+const DEFAULT_MIN_SCORE = 70;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+// Fields a memory entry is built from
+const TRANSLATION_FIELDS = 'contentElement language content isActive metadata draft hasDraft';
+
+// Source texts scored for fuzzy matches, most recently edited first; exact matches are looked up on their own.
+// Scoring runs in the request, so the candidates are kept few
+const MAX_FUZZY_CANDIDATES = 200;
+
+class TranslationMemoryService {
+  /**
+   * Suggest target-language text for an element from the translation memory: every other element
+   * translated in both languages, matched on its source-language text. Exact matches come first,
+   * then fuzzy ones by similarity. Unreviewed machine translations are not part of the memory.
+   * @param webSiteId The website of the element
+   * @param elementId The content element being translated
+   * @param userId The requesting user, who must be a member of the website
+   * @param options Language pair, scope, minimum fuzzy score and number of suggestions
+   * @returns Promise with the source text and the suggestions
+   */
+  async getSuggestions(
+    webSiteId: string,
+    elementId: string,
+    userId: string,
+    options: ITranslationSuggestionOptions
+  ): Promise<ITranslationSuggestions> {
+    const scope = options.scope || 'website';
+    const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+    const limit = options.limit ?? DEFAULT_LIMIT;
+
+    if (!SCOPES.includes(scope)) {
+      throw AppError.validation(`Scope must be one of: ${SCOPES.join(', ')}`);
+    }
+    if (isNaN(minScore) || minScore < 0 || minScore > 100) {
+      throw AppError.validation('Minimum score must be between 0 and 100');
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw AppError.validation(`Limit must be a whole number between 1 and ${MAX_LIMIT}`);
+    }
+    if (!Types.ObjectId.isValid(elementId)) {
+      throw AppError.validation('Invalid content element ID format');
+    }
+    await assertWebSiteMember(webSiteId, userId);
+
+    const context = (await translationExchangeService.getElementContexts(webSiteId))
+      .find(({ element }) => element._id.toString() === elementId);
+    if (!context) {
+      throw AppError.notFound(`No translatable content element ${elementId} in website ${webSiteId}`);
+    }
+
+    const [sourceCode, targetCode] = await this.getLanguagePair(webSiteId, options);
+    const sourceLanguage = await LanguagesModel.findOne({ websiteId: webSiteId, languageID: sourceCode }).select('_id').lean();
+    const ownSource = await ContentTranslationModel.findOne({ contentElement: elementId, language: sourceLanguage._id })
+      .select(TRANSLATION_FIELDS)
+      .lean();
+
+    const sourceText = `${this.usableContent(ownSource) ?? context.element.defaultContent ?? ''}`.trim();
+    if (!sourceText) {
+      throw AppError.validation(`The element has no "${sourceCode}" text to look up`);
+    }
+
+    return {
+      contentElement: elementId,
+      sourceLanguage: sourceCode,
+      targetLanguage: targetCode,
+      sourceText,
+      scope,
+      suggestions: await this.lookup(
+        normalizeText(sourceText),
+        elementId,
+        await this.getScopeWebSiteIds(webSiteId, userId, scope),
+        sourceCode,
+        targetCode,
+        minScore,
+        limit
+      ),
+    };
+  }
+
+  /**
+   * Match a normalized source text against the memory of the given websites
+   */
+  private async lookup(
+    wanted: string,
+    excludeElementId: string,
+    webSiteIds: string[],
+    sourceCode: string,
+    targetCode: string,
+    minScore: number,
+    limit: number
+  ): Promise<ITranslationSuggestion[]> {
+    const languages = await LanguagesModel.find({
+      websiteId: { $in: webSiteIds },
+      languageID: { $in: [sourceCode, targetCode] },
+    }).select('_id languageID websiteId').lean<any[]>();
+    const webSiteOfLanguage = new Map(languages.map(language => [language._id.toString(), language.websiteId.toString()]));
+    const idsOf = (code: string) => languages.filter(language => language.languageID === code).map(language => language._id);
+
+    // Score source texts first so only matching elements are read in the target language. Exact
+    // matches are queried by their indexed normalized text, so the cap on fuzzy candidates cannot leave them out
+    const sourceFilter = { language: { $in: idsOf(sourceCode) }, contentElement: { $ne: excludeElementId } };
+    const [exactCandidates, fuzzyCandidates] = await Promise.all([
+      ContentTranslationModel.find({
+        ...sourceFilter,
+        $or: [{ normalizedContent: wanted }, { 'draft.normalizedContent': wanted }],
+      })
+        .select(TRANSLATION_FIELDS)
+        .lean<any[]>(),
+      ContentTranslationModel.find(sourceFilter)
+        .sort({ updatedAt: -1 })
+        .limit(MAX_FUZZY_CANDIDATES)
+        .select(TRANSLATION_FIELDS)
+        .lean<any[]>(),
+    ]);
+
+    const scored = new Map<string, { source: string; normalized: string; score: number; exact: boolean; webSiteId: string }>();
+    [...exactCandidates, ...fuzzyCandidates].forEach((translation) => {
+      const elementId = translation.contentElement.toString();
+      const source = this.usableContent(translation);
+      if (scored.has(elementId) || source === undefined) return;
+
+      const normalized = normalizeText(source);
+      const exact = normalized === wanted;
+      const score = exact ? 100 : similarity(wanted, normalized, minScore);
+      if (exact || (score > 0 && score >= minScore)) {
+        scored.set(elementId, {
+          source,
+          normalized,
+          score,
+          exact,
+          webSiteId: webSiteOfLanguage.get(translation.language.toString()),
+        });
+      }
+    });
+    if (scored.size === 0) return [];
+
+    const elementIds = Array.from(scored.keys());
+    const [targets, elements] = await Promise.all([
+      ContentTranslationModel.find({
+        language: { $in: idsOf(targetCode) },
+        contentElement: { $in: elementIds },
+      }).select(TRANSLATION_FIELDS).lean<any[]>(),
+      ContentElementModel.find({ _id: { $in: elementIds } }).select('type draft').lean<any[]>(),
+    ]);
+    const translatable = new Set(elements
+      .filter(element => isTranslatableType(applyDraft(element).type))
+      .map(element => element._id.toString()));
+
+    // One suggestion per distinct source/target pair
+    const suggestions = new Map<string, ITranslationSuggestion>();
+    targets.forEach((translation) => {
+      const elementId = translation.contentElement.toString();
+      const target = this.usableContent(translation);
+      if (target === undefined || !translatable.has(elementId)) return;
+      if (applyDraft(translation).metadata?.status === NEEDS_REVIEW_STATUS) return;
+
+      const { source, normalized, score, exact, webSiteId } = scored.get(elementId);
+      const pairKey = `${normalized}\u0000${target}`;
+      if (!suggestions.has(pairKey)) {
+        suggestions.set(pairKey, {
+          match: exact ? 'exact' : 'fuzzy',
+          score,
+          source,
+          target,
+          occurrences: 0,
+          webSiteIds: [],
+          contentElements: [],
+        });
+      }
+
+      const suggestion = suggestions.get(pairKey);
+      suggestion.occurrences++;
+      suggestion.contentElements.push(elementId);
+      if (!suggestion.webSiteIds.includes(webSiteId)) suggestion.webSiteIds.push(webSiteId);
+    });
+
+    return Array.from(suggestions.values())
+      .sort((a, b) => b.score - a.score || b.occurrences - a.occurrences)
+      .slice(0, limit);
+  }
+
+  /**
+   * Content of an active translation as editors see it, or undefined when there is none
+   */
+  private usableContent(translation: any): string | undefined {
+    if (!translation) return undefined;
+
+    const current = applyDraft(translation);
+    const content = `${current.content ?? ''}`.trim();
+    return current.isActive !== false && content !== '' ? content : undefined;
+  }
+
+  /**
+   * The requested language pair; the source defaults to the website default language
+   */
+  private async getLanguagePair(webSiteId: string, options: ITranslationSuggestionOptions): Promise<[string, string]> {
+    let source = options.source;
+    if (!source) {
+      const website = await WebSiteModel.findById(webSiteId).select('defaultLanguage').lean<{ defaultLanguage?: string }>();
+      source = website?.defaultLanguage;
+    }
+    if (!source) {
+      throw AppError.validation('The website has no default language; pass the source language code');
+    }
+    if (!options.target) {
+      throw AppError.validation('Target language code is required');
+    }
+    if (source === options.target) {
+      throw AppError.validation('Source and target languages must differ');
+    }
+
+    const found = await LanguagesModel.find({ websiteId: webSiteId, languageID: { $in: [source, options.target] } })
+      .distinct('languageID');
+    [source, options.target].forEach((code) => {
+      if (!found.includes(code)) {
+        throw AppError.notFound(`Language "${code}" not found in website ${webSiteId}`);
+      }
+    });
+
+    return [source, options.target];
+  }
+
+  private async getScopeWebSiteIds(webSiteId: string, userId: string, scope: TranslationMemoryScope): Promise<string[]> {
+    if (scope === 'website') return [webSiteId];
+
+    const memberships = await WebSiteUserModel.find({ userId }).select('webSiteId').lean<any[]>();
+    return Array.from(new Set([webSiteId, ...memberships.map(membership => membership.webSiteId.toString())]));
+  }
+}
+
+export default new TranslationMemoryService();
@@ -0,0 +1,193 @@
+import { AppError } from '../middleware/errorHandler.middleware';
+import LanguagesModel from '../models/languages.model';
+import ContentTranslationModel from '../models/ContentTranslation.model';
+import { IElementContext } from '../types/TranslationExchange.type';
+import {
+  ICompletenessCounts,
+  ICompletenessReport,
+  ICompletenessReportOptions,
+  ILanguageCompleteness,
+  IMissingSection,
+  IMissingSectionItem,
+  IMissingSharedBlock,
+  IMissingSubSection,
+  ISectionCompleteness,
+} from '../types/TranslationReport.type';
+import { applyDraft } from '../utils/contentDraft';
+import { getLocalizedText } from '../utils/localizedText';
+import { assertWebSiteMember } from '../utils/webSiteAccess';
+import translationExchangeService from './translationExchange.service';
+
+class TranslationReportService {
+  /**
+   * Report, per language, how many of a website's translatable elements have a translation
+   * and which ones are missing. Elements and translations are read as editors see them
+   * (pending drafts applied); inactive elements are left out and inactive or empty translations count as missing.
+   * @param webSiteId The website ID
+   * @param userId The requesting user, who must be a member of the website
+   * @param options Language filter, per-section breakdown and threshold
+   * @returns Promise with the report
+   */
+  async getCompletenessReport(
+    webSiteId: string,
+    userId: string,
+    options: ICompletenessReportOptions = {}
+  ): Promise<ICompletenessReport> {
+    if (options.threshold !== undefined && (isNaN(options.threshold) || options.threshold < 0 || options.threshold > 100)) {
+      throw AppError.validation('Threshold must be a percentage between 0 and 100');
+    }
+
+    await assertWebSiteMember(webSiteId, userId);
+
+    const languages = await LanguagesModel.find({
+      websiteId: webSiteId,
+      ...(options.language ? { languageID: options.language } : {}),
+    }).sort({ languageID: 1 }).lean<any[]>();
+    if (options.language && languages.length === 0) {
+      throw AppError.notFound(`Language "${options.language}" not found in website ${webSiteId}`);
+    }
+
+    // Elements whose parent is gone are not reachable by visitors
+    const contexts = (await translationExchangeService.getElementContexts(webSiteId))
+      .filter(({ element, section, sharedBlock }) => element.isActive !== false && (section || sharedBlock));
+
+    const translations = await ContentTranslationModel.find({
+      contentElement: { $in: contexts.map(({ element }) => element._id) },
+      language: { $in: languages.map(language => language._id) },
+    }).lean<any[]>();
+
+    const translated = new Set(translations
+      .map(translation => applyDraft(translation))
+      .filter(translation => translation.isActive !== false && `${translation.content ?? ''}`.trim() !== '')
+      .map(translation => `${translation.contentElement}:${translation.language}`));
+
+    return {
+      webSiteId,
+      generatedAt: new Date().toISOString(),
+      threshold: options.threshold,
+      languages: languages.map((language): ILanguageCompleteness => {
+        const missing = contexts.filter(({ element }) => !translated.has(`${element._id}:${language._id}`));
+
+        return {
+          languageId: language._id.toString(),
+          languageID: language.languageID,
+          language: language.language,
+          isActive: language.isActive,
+          ...this.count(contexts.length, missing.length, options.threshold),
+          missingElements: this.groupMissing(missing),
+          ...(options.bySection ? { sections: this.countBySection(contexts, missing, options.threshold) } : {}),
+        };
+      }),
+    };
+  }
+
+  private count(total: number, missing: number, threshold?: number): ICompletenessCounts {
+    const percentage = total === 0 ? 100 : Math.round(((total - missing) / total) * 1000) / 10;
+
+    return {
+      total,
+      translated: total - missing,
+      missing,
+      percentage,
+      ...(threshold !== undefined ? { belowThreshold: percentage < threshold } : {}),
+    };
+  }
+
+  /**
+   * Counts for every section that has translatable elements, in page order
+   */
+  private countBySection(
+    contexts: IElementContext[],
+    missing: IElementContext[],
+    threshold?: number
+  ): ISectionCompleteness[] {
+    const sections = new Map<string, { section: Record<string, any>; total: number; missing: number }>();
+
+    contexts.forEach(({ section }) => {
+      if (!section) return;
+      const id = section._id.toString();
+      if (!sections.has(id)) sections.set(id, { section, total: 0, missing: 0 });
+      sections.get(id).total++;
+    });
+    missing.forEach(({ section }) => {
+      if (section) sections.get(section._id.toString()).missing++;
+    });
+
+    return Array.from(sections.values()).map(({ section, total, missing: missingCount }) => ({
+      id: section._id.toString(),
+      name: getLocalizedText(section.name) || section.subName,
+      subName: section.subName,
+      ...this.count(total, missingCount, threshold),
+    }));
+  }
+
+  /**
+   * Group missing elements by section → item → subsection, with shared block elements apart
+   */
+  private groupMissing(missing: IElementContext[]): { sections: IMissingSection[]; sharedBlocks: IMissingSharedBlock[] } {
+    const sections = new Map<string, IMissingSection>();
+    const sectionItems = new Map<string, IMissingSectionItem>();
+    const subsections = new Map<string, IMissingSubSection>();
+    const sharedBlocks = new Map<string, IMissingSharedBlock>();
+
+    const getOrAdd = <T>(map: Map<string, T>, list: T[] | null, id: string, create: () => T): T => {
+      if (!map.has(id)) {
+        const entry = create();
+        map.set(id, entry);
+        if (list) list.push(entry);
+      }
+      return map.get(id);
+    };
+
+    missing.forEach(({ element, key, section, sectionItem, subsection, sharedBlock }) => {
+      const entry = { id: element._id.toString(), key, name: element.name, type: element.type };
+
+      if (sharedBlock) {
+        getOrAdd(sharedBlocks, null, sharedBlock._id.toString(), () => ({
+          id: sharedBlock._id.toString(),
+          name: sharedBlock.name,
+          elements: [],
+        })).elements.push(entry);
+        return;
+      }
+
+      const sectionEntry = getOrAdd(sections, null, section._id.toString(), () => ({
+        id: section._id.toString(),
+        name: getLocalizedText(section.name) || section.subName,
+        subName: section.subName,
+        elements: [],
+        sectionItems: [],
+        subsections: [],
+      }));
+
+      const itemEntry = sectionItem
+        ? getOrAdd(sectionItems, sectionEntry.sectionItems, sectionItem._id.toString(), () => ({
+          id: sectionItem._id.toString(),
+          name: sectionItem.name,
+          elements: [],
+          subsections: [],
+        }))
+        : null;
+
+      if (subsection) {
+        getOrAdd(subsections, itemEntry ? itemEntry.subsections : sectionEntry.subsections, subsection._id.toString(), () => ({
+          id: subsection._id.toString(),
+          name: subsection.name,
+          slug: subsection.slug,
+          elements: [],
+        })).elements.push(entry);
+      } else if (itemEntry) {
+        itemEntry.elements.push(entry);
+      } else {
+        sectionEntry.elements.push(entry);
+      }
+    });
+
+    return {
+      sections: Array.from(sections.values()),
+      sharedBlocks: Array.from(sharedBlocks.values()),
+    };
+  }
+}
+
+export default new TranslationReportService();
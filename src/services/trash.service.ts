@@ -0,0 +1,567 @@
+import { Model, Types } from 'mongoose';
+import { AppError } from '../middleware/errorHandler.middleware';
+import TrashEntryModel from '../models/TrashEntry.model';
+import WebSiteModel from '../models/WebSite.model';
+import WebSiteUserModel from '../models/webSiteUser.model';
+import SectionModel from '../models/sections.model';
+import SectionItemModel from '../models/sectionItems.model';
+import SubSectionModel from '../models/subSections.model';
+import ContentElementModel from '../models/ContentElement.model';
+import ContentTranslationModel from '../models/ContentTranslation.model';
+import ContentRevisionModel from '../models/ContentRevision.model';
+import SharedBlockModel from '../models/SharedBlock.model';
+import { ITrashCounts, ITrashEntry, TrashEntityType } from '../types/Trash.type';
+import { trashedFilter } from '../utils/softDelete';
+import { getLocalizedText } from '../utils/localizedText';
+import { withDatabaseTransaction } from '../utils/sessionManager';
+import cloudinaryService from './cloudinary.service';
+import { env } from '../config/env';
+import logger from '../config/logger';
+
+type TrashIds = Record<keyof ITrashCounts, Types.ObjectId[]>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ENTITY_LABELS: Record<TrashEntityType, string> = {
+  website: 'Website',
+  section: 'Section',
+  sharedBlock: 'Shared block',
+};
+
+class TrashService {
+  private timer: NodeJS.Timeout | null = null;
+
+  // Collections of the content hierarchy, from the top down
+  private readonly models: { key: keyof ITrashCounts; model: Model<any> }[] = [
+    { key: 'websites', model: WebSiteModel },
+    { key: 'websiteUsers', model: WebSiteUserModel },
+    { key: 'sections', model: SectionModel },
+    { key: 'sectionItems', model: SectionItemModel },
+    { key: 'subsections', model: SubSectionModel },
+    { key: 'sharedBlocks', model: SharedBlockModel },
+    { key: 'contentElements', model: ContentElementModel },
+    { key: 'contentTranslations', model: ContentTranslationModel },
+  ];
+
+  /**
+   * Move a section with its items, subsections, elements and translations to the trash
+   * @param id The section ID
+   * @param userId The user deleting the section
+   * @returns Promise with the trash entry and the number of trashed documents
+   */
+  async trashSection(id: string, userId?: string): Promise<{ trashEntry: ITrashEntry; counts: ITrashCounts }> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw AppError.validation('Invalid section ID format');
+    }
+
+    const section = await SectionModel.findById(id).select('name subName WebSiteId').lean<any>();
+    if (!section) {
+      throw AppError.notFound('Section not found');
+    }
+
+    const sectionItems = await SectionItemModel.find({ section: id }).select('_id').lean();
+    const sectionItemIds = sectionItems.map(item => item._id as Types.ObjectId);
+
+    const subsections = await SubSectionModel.find({
+      $or: [
+        { section: id },
+        { sectionItem: { $in: sectionItemIds } }
+      ]
+    }).select('_id').lean();
+    const subsectionIds = subsections.map(subsection => subsection._id as Types.ObjectId);
+
+    const ids = await this.collectContent({
+      websites: [],
+      websiteUsers: [],
+      sections: [section._id],
+      sectionItems: sectionItemIds,
+      subsections: subsectionIds,
+      sharedBlocks: [],
+      contentElements: [],
+      contentTranslations: [],
+    }, [
+      { parentType: 'section', parentId: id },
+      { parentType: 'sectionItem', parentId: { $in: sectionItemIds } },
+      { parentType: 'subsection', parentId: { $in: subsectionIds } }
+    ]);
+
+    return this.moveToTrash('section', section.WebSiteId, section._id, getLocalizedText(section.name) || section.subName, ids, userId);
+  }
+
+  /**
+   * Move a website with its memberships and whole content hierarchy to the trash
+   * @param id The website ID
+   * @param userId The user deleting the website
+   * @returns Promise with the trash entry and the number of trashed documents
+   */
+  async trashWebSite(id: string, userId?: string): Promise<{ trashEntry: ITrashEntry; counts: ITrashCounts }> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw AppError.validation('Invalid website ID format');
+    }
+
+    const website = await WebSiteModel.findById(id).select('name').lean<any>();
+    if (!website) {
+      throw AppError.notFound('Website not found');
+    }
+
+    const [websiteUsers, sections, sharedBlocks] = await Promise.all([
+      WebSiteUserModel.find({ webSiteId: id }).select('_id').lean(),
+      SectionModel.find({ WebSiteId: id }).select('_id').lean(),
+      SharedBlockModel.find({ webSite: id }).select('_id').lean(),
+    ]);
+    const sectionIds = sections.map(section => section._id as Types.ObjectId);
+
+    const sectionItems = await SectionItemModel.find({
+      $or: [
+        { WebSiteId: id },
+        { section: { $in: sectionIds } }
+      ]
+    }).select('_id').lean();
+    const sectionItemIds = sectionItems.map(item => item._id as Types.ObjectId);
+
+    const subsections = await SubSectionModel.find({
+      $or: [
+        { WebSiteId: id },
+        { section: { $in: sectionIds } },
+        { sectionItem: { $in: sectionItemIds } }
+      ]
+    }).select('_id').lean();
+
+    const ids = await this.collectContent({
+      websites: [website._id],
+      websiteUsers: websiteUsers.map(membership => membership._id as Types.ObjectId),
+      sections: sectionIds,
+      sectionItems: sectionItemIds,
+      subsections: subsections.map(subsection => subsection._id as Types.ObjectId),
+      sharedBlocks: sharedBlocks.map(block => block._id as Types.ObjectId),
+      contentElements: [],
+      contentTranslations: [],
+    }, [{ parent: website._id }]);
+
+    return this.moveToTrash('website', website._id, website._id, website.name, ids, userId);
+  }
+
+  /**
+   * Move a shared block with its elements and translations to the trash
+   * @param id The shared block ID
+   * @param userId The user deleting the block
+   * @returns Promise with the trash entry and the number of trashed documents
+   */
+  async trashSharedBlock(id: string, userId?: string): Promise<{ trashEntry: ITrashEntry; counts: ITrashCounts }> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw AppError.validation('Invalid shared block ID format');
+    }
+
+    const block = await SharedBlockModel.findById(id).select('name webSite').lean<any>();
+    if (!block) {
+      throw AppError.notFound('Shared block not found');
+    }
+
+    const ids = await this.collectContent({
+      websites: [],
+      websiteUsers: [],
+      sections: [],
+      sectionItems: [],
+      subsections: [],
+      sharedBlocks: [block._id],
+      contentElements: [],
+      contentTranslations: [],
+    });
+
+    return this.moveToTrash('sharedBlock', block.webSite, block._id, block.name, ids, userId);
+  }
+
+  /**
+   * List the trash bin of a website, newest first
+   * @param webSiteId The website ID
+   * @param userId The user requesting the list
+   * @param limit Maximum number of entries to return
+   * @param skip Number of entries to skip
+   * @returns Promise with the entries, total count and retention period
+   */
+  async getTrash(webSiteId: string, userId: string, limit: number = 50, skip: number = 0): Promise<{
+    entries: Record<string, any>[];
+    total: number;
+    retentionDays: number;
+  }> {
+    await this.assertWebSiteAccess(webSiteId, userId);
+
+    try {
+      const [entries, total] = await Promise.all([
+        TrashEntryModel.find({ webSite: webSiteId })
+          .sort({ deletedAt: -1 })
+          .skip(skip)
+          .limit(limit)
+          .populate('deletedBy', 'email firstName lastName')
+          .lean<ITrashEntry[]>(),
+        TrashEntryModel.countDocuments({ webSite: webSiteId }),
+      ]);
+
+      return {
+        entries: entries.map(entry => ({ ...entry, purgeAt: this.getPurgeDate(entry.deletedAt) })),
+        total,
+        retentionDays: env.trash.retentionDays,
+      };
+    } catch (error) {
+      throw AppError.database('Failed to retrieve trash', error);
+    }
+  }
+
+  /**
+   * Bring a trashed subtree back exactly as it was (parents, order and status are untouched by the trash)
+   * @param webSiteId The website the entry belongs to
+   * @param entryId The trash entry ID
+   * @param userId The user restoring the entry
+   * @returns Promise with the number of restored documents
+   */
+  async restoreEntry(webSiteId: string, entryId: string, userId: string): Promise<{
+    message: string;
+    entityType: TrashEntityType;
+    entityId: string;
+    restoredCounts: ITrashCounts;
+  }> {
+    const entry = await this.getEntry(webSiteId, entryId, userId);
+
+    if (entry.entityType !== 'website') {
+      const websiteExists = await WebSiteModel.exists({ _id: entry.webSite });
+      if (!websiteExists) {
+        throw AppError.badRequest(`Restore the website before restoring its ${ENTITY_LABELS[entry.entityType].toLowerCase()}s`);
+      }
+    }
+
+    const restoredCounts = await withDatabaseTransaction(async (session) => {
+      const counts = this.emptyCounts();
+
+      for (const { key, model } of this.models) {
+        const result = await model.updateMany(
+          { trashBatch: entry._id, ...trashedFilter() },
+          { $set: { deletedAt: null, deletedBy: null, trashBatch: null } }
+        ).session(session);
+        counts[key] = result.modifiedCount;
+      }
+
+      await TrashEntryModel.deleteOne({ _id: entry._id }).session(session);
+
+      return counts;
+    });
+
+    logger.info(`Restored ${entry.entityType} ${entry.entityId} from trash`, { userId, restoredCounts });
+
+    return {
+      message: `${ENTITY_LABELS[entry.entityType]} restored from trash`,
+      entityType: entry.entityType,
+      entityId: entry.entityId.toString(),
+      restoredCounts,
+    };
+  }
+
+  /**
+   * Permanently delete a trash entry from the trash bin of a website
+   * @param webSiteId The website the entry belongs to
+   * @param entryId The trash entry ID
+   * @param userId The user purging the entry
+   */
+  async purgeEntry(webSiteId: string, entryId: string, userId: string): Promise<{
+    message: string;
+    purgedCounts: ITrashCounts;
+    mediaDeleted: number;
+  }> {
+    const entry = await this.getEntry(webSiteId, entryId, userId);
+    const result = await this.purge(entry);
+
+    return { message: 'Trash entry permanently deleted', ...result };
+  }
+
+  /**
+   * Permanently delete every trash entry older than the retention period
+   * @param now Reference time (defaults to the current time)
+   * @returns Promise with the number of purged entries
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    if (env.trash.retentionDays <= 0) return 0;
+
+    const cutoff = new Date(now.getTime() - env.trash.retentionDays * DAY_MS);
+    const entries = await TrashEntryModel.find({ deletedAt: { $lte: cutoff } }).lean<ITrashEntry[]>();
+
+    let purged = 0;
+    for (const entry of entries) {
+      try {
+        await this.purge(entry);
+        purged++;
+      } catch (error) {
+        logger.error(`Failed to purge trash entry ${entry._id}:`, error);
+      }
+    }
+
+    if (purged) {
+      logger.info(`Trash purge: ${purged} expired entries permanently deleted`);
+    }
+
+    return purged;
+  }
+
+  /**
+   * Start purging expired trash on an interval (no-op without a retention period or when already started)
+   * @param intervalMs Time between runs
+   */
+  startPurge(intervalMs: number = env.trash.purgeIntervalMs): void {
+    if (env.trash.retentionDays <= 0 || this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.purgeExpired().catch(error => logger.error('Trash purge failed:', error));
+    }, intervalMs);
+
+    // Do not keep the process alive just for the purge
+    this.timer.unref();
+
+    logger.info(`Trash purge started (retention ${env.trash.retentionDays} days)`);
+
+    this.purgeExpired().catch(error => logger.error('Trash purge failed:', error));
+  }
+
+  stopPurge(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    logger.info('Trash purge stopped');
+  }
+
+  /**
+   * Add the content elements and translations under the collected parents
+   */
+  private async collectContent(ids: TrashIds, legacyParents: Record<string, any>[] = []): Promise<TrashIds> {
+    const parentIds = [...ids.sections, ...ids.sectionItems, ...ids.subsections];
+
+    const contentElements = await ContentElementModel.find({
+      $or: [
+        { parent: { $in: parentIds } },
+        { sharedBlock: { $in: ids.sharedBlocks } },
+        ...legacyParents
+      ]
+    }).select('_id').lean();
+    ids.contentElements = contentElements.map(element => element._id as Types.ObjectId);
+
+    const contentTranslations = await ContentTranslationModel.find({
+      $or: [
+        { contentElement: { $in: ids.contentElements } },
+        { elementId: { $in: ids.contentElements } }
+      ]
+    }).select('_id').lean();
+    ids.contentTranslations = contentTranslations.map(translation => translation._id as Types.ObjectId);
+
+    return ids;
+  }
+
+  /**
+   * Stamp the collected documents with one trash batch and record its entry
+   */
+  private async moveToTrash(
+    entityType: TrashEntityType,
+    webSiteId: any,
+    entityId: any,
+    label: string,
+    ids: TrashIds,
+    userId?: string
+  ): Promise<{ trashEntry: ITrashEntry; counts: ITrashCounts }> {
+    const deletedAt = new Date();
+    const deletedBy = userId && Types.ObjectId.isValid(userId) ? userId : undefined;
+
+    return withDatabaseTransaction(async (session) => {
+      const batch = new Types.ObjectId();
+      const counts = this.emptyCounts();
+
+      for (const { key, model } of this.models) {
+        if (ids[key].length === 0) continue;
+
+        // Documents already in the trash keep their own batch
+        const result = await model.updateMany(
+          { _id: { $in: ids[key] } },
+          { $set: { deletedAt, deletedBy: deletedBy || null, trashBatch: batch } }
+        ).session(session);
+        counts[key] = result.modifiedCount;
+      }
+
+      const [trashEntry] = await TrashEntryModel.create([{
+        _id: batch,
+        webSite: webSiteId,
+        entityType,
+        entityId,
+        label,
+        counts,
+        deletedAt,
+        deletedBy,
+      }], { session });
+
+      logger.info(`Moved ${entityType} ${entityId} to trash`, { userId, counts });
+
+      return { trashEntry, counts };
+    });
+  }
+
+  /**
+   * Delete every document of a trash batch, their revision history and their media
+   */
+  private async purge(entry: ITrashEntry): Promise<{ purgedCounts: ITrashCounts; mediaDeleted: number }> {
+    const batchFilter = { trashBatch: entry._id, ...trashedFilter() };
+
+    const [websites, sections, sectionItems, contentElements] = await Promise.all([
+      WebSiteModel.find(batchFilter).select('logo').lean<any[]>(),
+      SectionModel.find(batchFilter).select('image').lean<any[]>(),
+      SectionItemModel.find(batchFilter).select('image').lean<any[]>(),
+      ContentElementModel.find(batchFilter).select('type imageUrl metadata').lean<any[]>(),
+    ]);
+
+    const purgedCounts = await withDatabaseTransaction(async (session) => {
+      const counts = this.emptyCounts();
+
+      for (const { key, model } of this.models) {
+        const result = await model.deleteMany(batchFilter).session(session);
+        counts[key] = result.deletedCount;
+      }
+
+      await ContentRevisionModel.deleteMany({
+        contentElement: { $in: contentElements.map(element => element._id) }
+      }).session(session);
+      await TrashEntryModel.deleteOne({ _id: entry._id }).session(session);
+
+      return counts;
+    });
+
+    // Files are removed only once the documents are gone, so a failed purge stays restorable
+    const mediaDeleted = await this.deleteMedia([
+      ...websites.map(website => ({ url: website.logo })),
+      ...sections.map(section => ({ url: section.image })),
+      ...sectionItems.map(item => ({ url: item.image })),
+      ...contentElements.map(element => ({
+        url: element.imageUrl,
+        publicId: element.metadata?.cloudinaryId,
+        raw: element.type === 'file',
+      })),
+    ]);
+
+    logger.info(`Purged trash entry ${entry._id}`, { purgedCounts, mediaDeleted });
+
+    return { purgedCounts, mediaDeleted };
+  }
+
+  /**
+   * Delete Cloudinary files in small batches; failures are logged and skipped.
+   * Files still used by other documents (e.g. in a cloned website) are kept.
+   */
+  private async deleteMedia(media: { url?: string; publicId?: string; raw?: boolean }[]): Promise<number> {
+    const files = new Map<string, boolean>();
+    media.forEach(({ url, publicId, raw }) => {
+      const id = publicId || (url ? cloudinaryService.getPublicIdFromUrl(url) : null);
+      if (id) files.set(id, !!raw);
+    });
+
+    const inUse = await this.getMediaInUse(media.map(({ url }) => url).filter(Boolean), [...files.keys()]);
+    inUse.forEach(publicId => files.delete(publicId));
+
+    const entries = [...files.entries()];
+    const batchSize = 5;
+    let deleted = 0;
+
+    for (let i = 0; i < entries.length; i += batchSize) {
+      await Promise.allSettled(entries.slice(i, i + batchSize).map(async ([publicId, raw]) => {
+        try {
+          await (raw ? cloudinaryService.deleteRawFile(publicId) : cloudinaryService.deleteImage(publicId));
+          deleted++;
+        } catch (error) {
+          logger.warn(`Failed to delete media ${publicId}:`, error);
+        }
+      }));
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Public IDs of the given files that remaining documents (trashed ones included) still point at
+   */
+  private async getMediaInUse(urls: string[], publicIds: string[]): Promise<Set<string>> {
+    if (publicIds.length === 0) return new Set();
+
+    const withTrashed = { withTrashed: true };
+    const [websites, sections, sectionItems, contentElements] = await Promise.all([
+      WebSiteModel.find({ logo: { $in: urls } }).select('logo').setOptions(withTrashed).lean<any[]>(),
+      SectionModel.find({ image: { $in: urls } }).select('image').setOptions(withTrashed).lean<any[]>(),
+      SectionItemModel.find({ image: { $in: urls } }).select('image').setOptions(withTrashed).lean<any[]>(),
+      ContentElementModel.find({
+        $or: [
+          { imageUrl: { $in: urls } },
+          { fileUrl: { $in: urls } },
+          { 'draft.imageUrl': { $in: urls } },
+          { 'metadata.cloudinaryId': { $in: publicIds } },
+          { 'draft.metadata.cloudinaryId': { $in: publicIds } },
+        ]
+      }).select('imageUrl fileUrl metadata draft').setOptions(withTrashed).lean<any[]>(),
+    ]);
+
+    const used = new Set<string>();
+    const addUrl = (url?: string) => {
+      const id = url ? cloudinaryService.getPublicIdFromUrl(url) : null;
+      if (id) used.add(id);
+    };
+
+    websites.forEach(website => addUrl(website.logo));
+    sections.forEach(section => addUrl(section.image));
+    sectionItems.forEach(item => addUrl(item.image));
+    contentElements.forEach((element) => {
+      [element.imageUrl, element.fileUrl, element.draft?.imageUrl].forEach(addUrl);
+      [element.metadata?.cloudinaryId, element.draft?.metadata?.cloudinaryId].forEach(id => id && used.add(id));
+    });
+
+    return used;
+  }
+
+  private async getEntry(webSiteId: string, entryId: string, userId: string): Promise<ITrashEntry> {
+    if (!Types.ObjectId.isValid(entryId)) {
+      throw AppError.validation('Invalid trash entry ID format');
+    }
+
+    await this.assertWebSiteAccess(webSiteId, userId);
+
+    const entry = await TrashEntryModel.findOne({ _id: entryId, webSite: webSiteId }).lean<ITrashEntry>();
+    if (!entry) {
+      throw AppError.notFound(`Trash entry with ID ${entryId} not found`);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Members of a website (including a trashed one) can manage its trash
+   */
+  private async assertWebSiteAccess(webSiteId: string, userId: string): Promise<void> {
+    if (!Types.ObjectId.isValid(webSiteId)) {
+      throw AppError.validation('Invalid website ID format');
+    }
+
+    const membership = await WebSiteUserModel.exists({ webSiteId, userId }).setOptions({ withTrashed: true });
+    if (!membership) {
+      throw AppError.authorization('You do not have access to this website');
+    }
+  }
+
+  private getPurgeDate(deletedAt: Date): Date | null {
+    if (env.trash.retentionDays <= 0) return null;
+    return new Date(new Date(deletedAt).getTime() + env.trash.retentionDays * DAY_MS);
+  }
+
+  private emptyCounts(): ITrashCounts {
+    return {
+      websites: 0,
+      websiteUsers: 0,
+      sections: 0,
+      sectionItems: 0,
+      subsections: 0,
+      sharedBlocks: 0,
+      contentElements: 0,
+      contentTranslations: 0,
+    };
+  }
+}
+
+export default new TrashService();
@@ -0,0 +1,676 @@
+import mongoose, { Types } from 'mongoose';
+import { AppError } from '../middleware/errorHandler.middleware';
+import WebSiteModel from '../models/WebSite.model';
+import WebSiteUserModel from '../models/webSiteUser.model';
+import LanguagesModel from '../models/languages.model';
+import WebSiteThemeModel from '../models/WebSiteTheme.model';
+import SectionModel from '../models/sections.model';
+import SectionItemModel from '../models/sectionItems.model';
+import SubSectionModel from '../models/subSections.model';
+import SharedBlockModel from '../models/SharedBlock.model';
+import ContentElementModel from '../models/ContentElement.model';
+import ContentTranslationModel from '../models/ContentTranslation.model';
+import { WebSiteGraphCounts } from '../types/WebSite.type';
+import {
+  IBundleConflict,
+  IBundleImportOptions,
+  IBundleImportReport,
+  IWebSiteBundle,
+  IWebSiteGraph,
+} from '../types/WebSiteBundle.type';
+import { validateTranslationContent } from '../utils/translationValidators';
+import { withDatabaseTransaction } from '../utils/sessionManager';
+import { omit } from '../utils/object';
+import logger from '../config/logger';
+
+export const BUNDLE_FORMAT = 'website-bundle';
+export const BUNDLE_VERSION = 1;
+
+// Trash bookkeeping, never exported or copied
+const TRASH_FIELDS = ['deletedAt', 'deletedBy', 'trashBatch'] as const;
+
+// Keep the report readable when a bundle is broken throughout
+const MAX_REPORTED_ERRORS = 100;
+
+// Copies of a website's documents, ready to insert
+export type WebSiteGraphCopies = Record<keyof WebSiteGraphCounts, Record<string, any>[]>;
+
+// Insert order: referenced documents before the ones pointing at them
+const GRAPH_COLLECTIONS: { key: keyof WebSiteGraphCounts; model: mongoose.Model<any> }[] = [
+  { key: 'websites', model: WebSiteModel },
+  { key: 'languages', model: LanguagesModel },
+  { key: 'themes', model: WebSiteThemeModel },
+  { key: 'sections', model: SectionModel },
+  { key: 'sectionItems', model: SectionItemModel },
+  { key: 'subsections', model: SubSectionModel },
+  { key: 'sharedBlocks', model: SharedBlockModel },
+  { key: 'contentElements', model: ContentElementModel },
+  { key: 'contentTranslations', model: ContentTranslationModel },
+];
+
+const BUNDLE_COLLECTIONS: (keyof IWebSiteGraph)[] = [
+  'languages',
+  'themes',
+  'sections',
+  'sectionItems',
+  'subsections',
+  'sharedBlocks',
+  'contentElements',
+  'contentTranslations',
+];
+
+/**
+ * `field.<code>` paths for every language code the documents use in a language-keyed field
+ */
+const localizedPaths = (docs: Record<string, any>[], field: string): string[] => {
+  const codes = new Set<string>();
+  docs.forEach((doc) => {
+    if (doc[field] && typeof doc[field] === 'object') Object.keys(doc[field]).forEach(code => codes.add(code));
+  });
+  return Array.from(codes).map(code => `${field}.${code}`);
+};
+
+/**
+ * Section fields that are unique per website: subName and the name in every language the sections use
+ */
+const sectionUniqueFields = (sections: Record<string, any>[]): string[] =>
+  ['subName', ...localizedPaths(sections, 'name')];
+
+const getPath = (doc: Record<string, any>, path: string): any =>
+  path.split('.').reduce((value, key) => (value == null ? value : value[key]), doc);
+
+const idOf = (value: any): string => (value == null ? '' : (value._id || value).toString());
+
+class WebSiteBundleService {
+  /**
+   * Load every (non-trashed) document of a website
+   * @param webSiteId The website ID
+   * @returns Promise with the website's content graph
+   */
+  async loadGraph(webSiteId: string): Promise<IWebSiteGraph> {
+    const website = await WebSiteModel.findById(webSiteId).lean<any>();
+    if (!website) {
+      throw AppError.notFound(`Website with ID ${webSiteId} not found`);
+    }
+
+    const [languages, themes, sections, sharedBlocks] = await Promise.all([
+      LanguagesModel.find({ websiteId: webSiteId }).lean<any[]>(),
+      WebSiteThemeModel.find({ websiteId: webSiteId }).lean<any[]>(),
+      SectionModel.find({ WebSiteId: webSiteId }).lean<any[]>(),
+      SharedBlockModel.find({ webSite: webSiteId }).lean<any[]>(),
+    ]);
+    const sectionIds = sections.map(section => section._id);
+
+    const sectionItems = await SectionItemModel.find({
+      $or: [
+        { WebSiteId: webSiteId },
+        { section: { $in: sectionIds } },
+      ],
+    }).lean<any[]>();
+    const sectionItemIds = sectionItems.map(item => item._id);
+
+    const subsections = await SubSectionModel.find({
+      $or: [
+        { WebSiteId: webSiteId },
+        { section: { $in: sectionIds } },
+        { sectionItem: { $in: sectionItemIds } },
+      ],
+    }).lean<any[]>();
+
+    const contentElements = await ContentElementModel.find({
+      $or: [
+        { parent: { $in: [...sectionIds, ...sectionItemIds, ...subsections.map(subsection => subsection._id)] } },
+        { sharedBlock: { $in: sharedBlocks.map(block => block._id) } },
+      ],
+    }).lean<any[]>();
+
+    const contentTranslations = await ContentTranslationModel.find({
+      contentElement: { $in: contentElements.map(element => element._id) },
+    }).lean<any[]>();
+
+    return {
+      website,
+      languages,
+      themes,
+      sections,
+      sectionItems,
+      subsections,
+      sharedBlocks,
+      contentElements,
+      contentTranslations,
+    };
+  }
+
+  /**
+   * Copy a content graph with fresh IDs, remapping every reference between its documents
+   * @param graph The source graph
+   * @param newIds Source IDs that map onto documents which already exist (these are not copied);
+   * filled with the new ID of every other source document
+   * @returns The copies per collection
+   */
+  remapGraph(graph: IWebSiteGraph, newIds: Map<string, Types.ObjectId> = new Map()): WebSiteGraphCopies {
+    const reused = new Set(newIds.keys());
+    [[graph.website], ...BUNDLE_COLLECTIONS.map(key => graph[key] as Record<string, any>[])]
+      .forEach(docs => docs.forEach((doc) => {
+        const id = doc._id.toString();
+        if (!newIds.has(id)) newIds.set(id, new Types.ObjectId());
+      }));
+
+    // References outside the graph (e.g. broken ones) are kept as they are
+    const remap = (value: any) => (value ? newIds.get(value.toString()) || value : value);
+    const remapAll = (values: any[] = []) => values.map(remap);
+    const remapBlockRef = (metadata: any) => (metadata?.blockId
+      ? { ...metadata, blockId: remap(metadata.blockId).toString() }
+      : metadata);
+
+    const copy = (doc: Record<string, any>, changes: Record<string, any> = {}) => {
+      const fields = omit(doc, ['_id', '__v', 'createdAt', 'updatedAt', ...TRASH_FIELDS]);
+      return { ...fields, _id: newIds.get(doc._id.toString()), ...changes };
+    };
+    const isNew = (doc: Record<string, any>) => !reused.has(doc._id.toString());
+
+    const webSiteId = newIds.get(graph.website._id.toString());
+
+    return {
+      websites: [graph.website].filter(isNew).map(website => copy(website)),
+      languages: graph.languages.filter(isNew).map(language => copy(language, {
+        websiteId: webSiteId,
+        subSections: remapAll(language.subSections),
+      })),
+      themes: graph.themes.filter(isNew).map(theme => copy(theme, { websiteId: webSiteId })),
+      sections: graph.sections.filter(isNew).map(section => copy(section, {
+        WebSiteId: webSiteId,
+        sectionItems: remapAll(section.sectionItems),
+      })),
+      sectionItems: graph.sectionItems.filter(isNew).map(item => copy(item, {
+        WebSiteId: webSiteId,
+        section: remap(item.section),
+        subsections: remapAll(item.subsections),
+      })),
+      subsections: graph.subsections.filter(isNew).map(subsection => copy(subsection, {
+        WebSiteId: webSiteId,
+        section: remap(subsection.section),
+        sectionItem: remap(subsection.sectionItem),
+        languages: remapAll(subsection.languages),
+      })),
+      sharedBlocks: graph.sharedBlocks.filter(isNew).map(block => copy(block, { webSite: webSiteId })),
+      contentElements: graph.contentElements.filter(isNew).map(element => copy(element, {
+        parent: remap(element.parent),
+        sharedBlock: remap(element.sharedBlock),
+        metadata: remapBlockRef(element.metadata),
+        ...(element.draft ? { draft: { ...element.draft, metadata: remapBlockRef(element.draft.metadata) } } : {}),
+      })),
+      contentTranslations: graph.contentTranslations.filter(isNew).map(translation => copy(translation, {
+        contentElement: remap(translation.contentElement),
+        language: remap(translation.language),
+      })),
+    };
+  }
+
+  /**
+   * Insert graph copies collection by collection
+   * @param copies The documents to insert
+   * @param session The transaction session, if any
+   * @returns Promise with the number of inserted documents per collection
+   */
+  async insertGraph(copies: WebSiteGraphCopies, session: mongoose.ClientSession | null): Promise<WebSiteGraphCounts> {
+    const counts = {} as WebSiteGraphCounts;
+
+    for (const { key, model } of GRAPH_COLLECTIONS) {
+      counts[key] = copies[key].length;
+      if (copies[key].length === 0) continue;
+
+      await model.insertMany(copies[key], { session });
+    }
+
+    return counts;
+  }
+
+  /**
+   * Serialize a website's full content graph into a versioned bundle
+   * @param webSiteId The website ID
+   * @param userId The requesting user, who must be a member of the website
+   * @returns Promise with the bundle
+   */
+  async exportBundle(webSiteId: string, userId: string): Promise<IWebSiteBundle> {
+    if (!Types.ObjectId.isValid(webSiteId)) {
+      throw AppError.validation('Invalid website ID format');
+    }
+
+    const member = await WebSiteUserModel.exists({ webSiteId, userId });
+    if (!member) {
+      throw AppError.authorization('You do not have access to this website');
+    }
+
+    const graph = await this.loadGraph(webSiteId);
+    const strip = (doc: Record<string, any>) => omit(doc, ['__v', ...TRASH_FIELDS]);
+
+    const bundle = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      source: { webSiteId: graph.website._id.toString(), name: graph.website.name },
+      website: strip(graph.website),
+      media: this.collectMedia(graph),
+    } as IWebSiteBundle;
+
+    BUNDLE_COLLECTIONS.forEach((key) => {
+      bundle[key] = (graph[key] as Record<string, any>[]).map(strip);
+    });
+
+    logger.info(`Exported website ${webSiteId} as bundle`, { userId });
+
+    return bundle;
+  }
+
+  /**
+   * Import a bundle as a new website, or into an existing one.
+   * Bundle IDs are replaced with fresh ones; languages matching an existing `languageID` of the target are merged.
+   * @param bundle The bundle
+   * @param userId The requesting user
+   * @param options Target website, name and dry-run flag
+   * @returns Promise with the import report (nothing is written on a dry run)
+   * @throws AppError with the report as details when the bundle is invalid or conflicts with the target
+   */
+  async importBundle(bundle: IWebSiteBundle, userId: string, options: IBundleImportOptions = {}): Promise<IBundleImportReport> {
+    const dryRun = options.dryRun === true;
+    const report: IBundleImportReport = {
+      dryRun,
+      valid: false,
+      webSiteId: options.targetWebSiteId || null,
+      errors: [],
+      conflicts: [],
+      mergedLanguages: [],
+      counts: this.emptyCounts(),
+    };
+
+    const target = options.targetWebSiteId
+      ? await this.getImportTarget(options.targetWebSiteId, userId)
+      : null;
+
+    report.errors = this.validateBundle(bundle);
+    if (report.errors.length > 0) {
+      return this.rejectOrReport(report);
+    }
+
+    const graph: IWebSiteGraph = {
+      ...(bundle as IWebSiteGraph),
+      website: { ...bundle.website, ...(options.name ? { name: options.name } : {}) },
+    };
+
+    const newIds = new Map<string, Types.ObjectId>();
+    if (target) {
+      newIds.set(idOf(graph.website), target._id);
+      await this.matchTarget(graph, target._id, newIds, report);
+    }
+    const mergedLanguages = graph.languages.filter(language => newIds.has(idOf(language)));
+
+    const copies = this.remapGraph(graph, newIds);
+    if (target) {
+      await this.fitIntoTarget(copies, target._id);
+    }
+
+    this.prepareTranslations(graph, copies, options.rawTranslationContents, report.errors);
+    this.validateCopies(copies, report.errors);
+
+    GRAPH_COLLECTIONS.forEach(({ key }) => {
+      report.counts[key] = copies[key].length;
+    });
+
+    if (report.errors.length > 0 || report.conflicts.length > 0 || dryRun) {
+      return this.rejectOrReport(report);
+    }
+
+    // Merged languages gain the imported subsections
+    const mergedLanguageSubSections = mergedLanguages.map(language => ({
+      _id: newIds.get(idOf(language)),
+      subSections: (language.subSections || []).map((id: any) => newIds.get(idOf(id))).filter(Boolean),
+    }));
+
+    const webSiteId = target ? target._id : copies.websites[0]._id;
+
+    try {
+      await withDatabaseTransaction(async (session) => {
+        await this.insertGraph(copies, session);
+
+        for (const { _id, subSections } of mergedLanguageSubSections) {
+          if (subSections.length === 0) continue;
+          await LanguagesModel.updateOne(
+            { _id },
+            { $addToSet: { subSections: { $each: subSections } } },
+            { session }
+          );
+        }
+
+        if (!target) {
+          await WebSiteUserModel.create([{
+            userId,
+            webSiteId,
+            role: 'owner',
+          }], { session });
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to import website bundle:', { error: error.message, userId });
+      throw AppError.database('Failed to import website bundle', error);
+    }
+
+    report.webSiteId = webSiteId.toString();
+    logger.info(`Imported website bundle into ${report.webSiteId}`, { userId, counts: report.counts });
+
+    return this.finishReport(report);
+  }
+
+  /**
+   * Check the bundle's format and the references between its documents
+   */
+  private validateBundle(bundle: IWebSiteBundle): string[] {
+    const errors: string[] = [];
+
+    if (!bundle || typeof bundle !== 'object' || Array.isArray(bundle)) {
+      return ['Bundle must be a JSON object'];
+    }
+    if (bundle.format !== BUNDLE_FORMAT) {
+      return [`Unknown bundle format "${bundle.format}", expected "${BUNDLE_FORMAT}"`];
+    }
+    if (bundle.version !== BUNDLE_VERSION) {
+      return [`Unsupported bundle version ${bundle.version}, this server reads version ${BUNDLE_VERSION}`];
+    }
+    if (!bundle.website || typeof bundle.website !== 'object') {
+      return ['Bundle has no website'];
+    }
+
+    BUNDLE_COLLECTIONS.forEach((key) => {
+      if (bundle[key] === undefined) bundle[key] = [];
+      if (!Array.isArray(bundle[key])) errors.push(`"${key}" must be an array`);
+    });
+    if (errors.length > 0) return errors;
+
+    // Every document needs a bundle-wide unique ID for references to resolve
+    const seen = new Set<string>();
+    const ids = {} as Record<keyof IWebSiteGraph, Set<string>>;
+    [['website', [bundle.website]] as const, ...BUNDLE_COLLECTIONS.map(key => [key, bundle[key]] as const)]
+      .forEach(([key, docs]) => {
+        ids[key] = new Set();
+        (docs as Record<string, any>[]).forEach((doc, index) => {
+          const id = doc && typeof doc === 'object' ? idOf(doc._id) : '';
+          if (!Types.ObjectId.isValid(id)) {
+            errors.push(`${key}[${index}] has no valid _id`);
+          } else if (seen.has(id)) {
+            errors.push(`${key}[${index}] reuses the _id ${id}`);
+          } else {
+            seen.add(id);
+            ids[key].add(id);
+          }
+        });
+      });
+    if (errors.length > 0) return errors;
+
+    const requireRef = (key: string, doc: Record<string, any>, field: string, targets: Set<string>[], optional = false) => {
+      const value = getPath(doc, field);
+      if (value == null || value === '') {
+        if (!optional) errors.push(`${key} ${idOf(doc._id)}: "${field}" is missing`);
+        return;
+      }
+      if (!targets.some(set => set.has(idOf(value)))) {
+        errors.push(`${key} ${idOf(doc._id)}: "${field}" points at ${idOf(value)}, which is not in the bundle`);
+      }
+    };
+
+    // List references to documents left out of the export (e.g. trashed ones) are dropped on import
+    const keepKnown = (doc: Record<string, any>, field: string, targets: Set<string>) => {
+      if (Array.isArray(doc[field])) {
+        doc[field] = doc[field].filter((value: any) => targets.has(idOf(value)));
+      }
+    };
+
+    bundle.languages.forEach(language => keepKnown(language, 'subSections', ids.subsections));
+    bundle.sections.forEach(section => keepKnown(section, 'sectionItems', ids.sectionItems));
+    bundle.sectionItems.forEach((item) => {
+      requireRef('sectionItems', item, 'section', [ids.sections]);
+      keepKnown(item, 'subsections', ids.subsections);
+    });
+    bundle.subsections.forEach((subsection) => {
+      requireRef('subsections', subsection, 'section', [ids.sections], true);
+      requireRef('subsections', subsection, 'sectionItem', [ids.sectionItems], true);
+      keepKnown(subsection, 'languages', ids.languages);
+    });
+    bundle.contentElements.forEach((element) => {
+      if (element.sharedBlock) {
+        requireRef('contentElements', element, 'sharedBlock', [ids.sharedBlocks]);
+      } else {
+        requireRef('contentElements', element, 'parent', [ids.sections, ids.sectionItems, ids.subsections]);
+      }
+      requireRef('contentElements', element, 'metadata.blockId', [ids.sharedBlocks], true);
+      requireRef('contentElements', element, 'draft.metadata.blockId', [ids.sharedBlocks], true);
+    });
+    bundle.contentTranslations.forEach((translation) => {
+      requireRef('contentTranslations', translation, 'contentElement', [ids.contentElements]);
+      requireRef('contentTranslations', translation, 'language', [ids.languages]);
+    });
+
+    // Values the unique indexes would reject on insert
+    const checkUnique = (key: keyof IWebSiteGraph, fields: string[]) => {
+      fields.forEach((field) => {
+        const values = new Set<string>();
+        (bundle[key] as Record<string, any>[]).forEach((doc) => {
+          const value = getPath(doc, field);
+          if (value == null) return;
+          const normalized = String(value).trim();
+          if (values.has(normalized)) {
+            errors.push(`${key} ${idOf(doc._id)}: "${field}" value "${normalized}" is used more than once in the bundle`);
+          }
+          values.add(normalized);
+        });
+      });
+    };
+    checkUnique('languages', ['languageID', 'language']);
+    checkUnique('themes', ['themeName']);
+    checkUnique('sections', sectionUniqueFields(bundle.sections));
+
+    const translationKeys = new Set<string>();
+    bundle.contentTranslations.forEach((translation) => {
+      const key = `${idOf(translation.contentElement)}:${idOf(translation.language)}`;
+      if (translationKeys.has(key)) {
+        errors.push(`contentTranslations ${idOf(translation._id)}: more than one translation for the same element and language`);
+      }
+      translationKeys.add(key);
+    });
+
+    return errors;
+  }
+
+  /**
+   * The website to import into; requires an owner or admin role
+   */
+  private async getImportTarget(webSiteId: string, userId: string): Promise<{ _id: Types.ObjectId }> {
+    if (!Types.ObjectId.isValid(webSiteId)) {
+      throw AppError.validation('Invalid website ID format');
+    }
+
+    const websiteUser = await WebSiteUserModel.exists({
+      webSiteId,
+      userId,
+      role: { $in: ['owner', 'superAdmin', 'admin'] },
+    });
+    if (!websiteUser) {
+      throw AppError.authorization('You do not have permission to import into this website');
+    }
+
+    const website = await WebSiteModel.findById(webSiteId).select('_id').lean<{ _id: Types.ObjectId }>();
+    if (!website) {
+      throw AppError.notFound(`Website with ID ${webSiteId} not found`);
+    }
+
+    return website;
+  }
+
+  /**
+   * Merge bundle languages into the target's and report values the target already uses
+   */
+  private async matchTarget(
+    graph: IWebSiteGraph,
+    webSiteId: Types.ObjectId,
+    newIds: Map<string, Types.ObjectId>,
+    report: IBundleImportReport
+  ): Promise<void> {
+    const [languages, themes, sections, sharedBlocks, subsections] = await Promise.all([
+      LanguagesModel.find({ websiteId: webSiteId }).select('language languageID').lean<any[]>(),
+      WebSiteThemeModel.find({ websiteId: webSiteId }).select('themeName').lean<any[]>(),
+      // Trashed sections still hold their names in the unique indexes
+      SectionModel.find({ WebSiteId: webSiteId }).select('name subName').setOptions({ withTrashed: true }).lean<any[]>(),
+      SharedBlockModel.find({ webSite: webSiteId }).select('name').lean<any[]>(),
+      // Likewise their localized slugs
+      SubSectionModel.find({ WebSiteId: webSiteId }).select('slug slugs').setOptions({ withTrashed: true }).lean<any[]>(),
+    ]);
+
+    const conflicts = (
+      type: IBundleConflict['type'],
+      incoming: Record<string, any>[],
+      existing: Record<string, any>[],
+      fields: string[],
+      normalize: (value: string) => string = value => value.trim()
+    ) => {
+      incoming.forEach((doc) => {
+        fields.forEach((field) => {
+          const value = getPath(doc, field);
+          if (value == null || value === '') return;
+          const match = existing.find(other => getPath(other, field) != null
+            && normalize(String(getPath(other, field))) === normalize(String(value)));
+          if (match) {
+            report.conflicts.push({
+              type,
+              field,
+              value: String(value),
+              bundleId: idOf(doc._id),
+              existingId: match._id.toString(),
+            });
+          }
+        });
+      });
+    };
+
+    const newLanguages = graph.languages.filter((language) => {
+      const match = languages.find(existing => existing.languageID === String(language.languageID).trim());
+      if (!match) return true;
+      newIds.set(idOf(language._id), match._id);
+      report.mergedLanguages.push(match.languageID);
+      return false;
+    });
+
+    conflicts('language', newLanguages, languages, ['language']);
+    conflicts('theme', graph.themes, themes, ['themeName']);
+    conflicts('section', graph.sections, sections, sectionUniqueFields(graph.sections));
+    conflicts('sharedBlock', graph.sharedBlocks, sharedBlocks, ['name'], value => value.trim().toLowerCase());
+    conflicts('subsection', graph.subsections, subsections, ['slug', ...localizedPaths(graph.subsections, 'slugs')],
+      value => value.trim().toLowerCase());
+  }
+
+  /**
+   * Place imported sections after the target's and keep its active theme
+   */
+  private async fitIntoTarget(copies: WebSiteGraphCopies, webSiteId: Types.ObjectId): Promise<void> {
+    const [lastSection, activeTheme] = await Promise.all([
+      SectionModel.findOne({ WebSiteId: webSiteId }).sort({ order: -1 }).select('order').lean<{ order?: number }>(),
+      WebSiteThemeModel.exists({ websiteId: webSiteId, isActive: true }),
+    ]);
+
+    const offset = lastSection ? (lastSection.order || 0) + 1 : 0;
+    copies.sections.forEach((section) => {
+      section.order = offset + (section.order || 0);
+    });
+
+    if (activeTheme) {
+      copies.themes.forEach((theme) => {
+        theme.isActive = false;
+      });
+    }
+  }
+
+  /**
+   * Run translation content through the element type validators, as the translation API does
+   */
+  private prepareTranslations(
+    graph: IWebSiteGraph,
+    copies: WebSiteGraphCopies,
+    rawContents: unknown[] = [],
+    errors: string[]
+  ): void {
+    const elements = new Map(copies.contentElements.map(element => [element._id.toString(), element]));
+
+    copies.contentTranslations.forEach((translation, index) => {
+      const element = elements.get(idOf(translation.contentElement));
+      if (!element) return;
+
+      try {
+        translation.content = validateTranslationContent(element as any, translation.content, rawContents[index]);
+      } catch (error) {
+        errors.push(`contentTranslations ${idOf(graph.contentTranslations[index]._id)}: ${error.message}`);
+      }
+    });
+  }
+
+  /**
+   * Validate every copy against its model schema
+   */
+  private validateCopies(copies: WebSiteGraphCopies, errors: string[]): void {
+    GRAPH_COLLECTIONS.forEach(({ key, model }) => {
+      copies[key].forEach((doc) => {
+        const error = new model(doc).validateSync();
+        if (error) {
+          errors.push(`${key} ${doc._id}: ${error.message}`);
+        }
+      });
+    });
+  }
+
+  /**
+   * URLs of every file the graph points at
+   */
+  private collectMedia(graph: IWebSiteGraph): string[] {
+    const urls = [
+      graph.website.logo,
+      ...graph.sections.map(section => section.image),
+      ...graph.sectionItems.map(item => item.image),
+      ...([] as any[]).concat(...graph.contentElements.map(element => [
+        element.imageUrl,
+        element.fileUrl,
+        element.draft?.imageUrl,
+      ])),
+    ];
+
+    return Array.from(new Set(urls.filter(url => typeof url === 'string' && url.trim() !== '')));
+  }
+
+  private emptyCounts(): WebSiteGraphCounts {
+    return GRAPH_COLLECTIONS.reduce(
+      (counts, { key }) => ({ ...counts, [key]: 0 }),
+      {} as WebSiteGraphCounts
+    );
+  }
+
+  /**
+   * Return the report of a dry run; a real import stops on any error or conflict
+   */
+  private rejectOrReport(report: IBundleImportReport): IBundleImportReport {
+    this.finishReport(report);
+    if (!report.dryRun && !report.valid) {
+      throw AppError.validation(
+        report.errors.length > 0 ? 'Website bundle is invalid' : 'Website bundle conflicts with the target website',
+        report
+      );
+    }
+    return report;
+  }
+
+  private finishReport(report: IBundleImportReport): IBundleImportReport {
+    report.valid = report.errors.length === 0 && report.conflicts.length === 0;
+    if (report.errors.length > MAX_REPORTED_ERRORS) {
+      const hidden = report.errors.length - MAX_REPORTED_ERRORS;
+      report.errors = [...report.errors.slice(0, MAX_REPORTED_ERRORS), `...and ${hidden} more errors`];
+    }
+    return report;
+  }
+}
+
+export default new WebSiteBundleService();
@@ -1,16 +1,46 @@
 import mongoose from "mongoose";
 
+// Pending (unpublished) structural changes for an element that is already live
+export interface IContentElementDraft {
+  name?: string;
+  type?: string;
+  defaultContent?: string;
+  imageUrl?: string;
+  isActive?: boolean;
+  metadata?: any;
+  order?: number;
+}
+
+export type ItemFieldType = 'text' | 'textarea' | 'number' | 'boolean' | 'link' | 'image' | 'video' | 'file';
+
+// One field of a repeatable item, declared in `metadata.itemSchema` of array/list elements
+export interface IItemField {
+  name: string;
+  type: ItemFieldType;
+  label?: string;
+  required: boolean;
+  // Non-translatable fields hold the same value in every language
+  translatable: boolean;
+}
+
+export interface IItemSchema {
+  fields: IItemField[];
+  minItems?: number;
+  maxItems?: number;
+}
+
 // Update in types/ContentElement.type.ts
 export interface IContentElement {
   _id: mongoose.Types.ObjectId;
   name: string;
-  type: 'text' | 'heading' |'array' | 'paragraph' | 'list' | 'image' | 'video' | 'link' | 'custom' | 'badge' | 'textarea' | 'file' | 'boolean';
+  type: 'text' | 'heading' |'array' | 'paragraph' | 'list' | 'image' | 'video' | 'link' | 'custom' | 'badge' | 'textarea' | 'file' | 'boolean' | 'richtext' | 'reference';
   defaultContent?: string;
   imageUrl?: string; // Add this field
   isActive: boolean;
   metadata?: any;
   order: number;
-  parent: mongoose.Types.ObjectId | string;
+  parent?: mongoose.Types.ObjectId | string;
+  sharedBlock?: mongoose.Types.ObjectId | string;
   createdAt: Date;
   updatedAt: Date;
   fileUrl?:string,
@@ -18,6 +48,10 @@ export interface IContentElement {
   fileSize?:number,
   fileMimeType?:string,
   translations : any[],
+  draft?: IContentElementDraft;
+  hasDraft?: boolean;
+  isPublished?: boolean;
+  publishedAt?: Date;
 }
 
 export interface ICreateContentElement {
@@ -28,7 +62,9 @@ export interface ICreateContentElement {
   isActive?: boolean;
   metadata?: any;
   order?: number;
-  parent: mongoose.Types.ObjectId | string;
+  // Either a subsection or a shared block
+  parent?: mongoose.Types.ObjectId | string;
+  sharedBlock?: mongoose.Types.ObjectId | string;
 }
 
 export interface IUpdateContentElement {
@@ -0,0 +1,32 @@
+import { Document, Schema } from 'mongoose';
+
+export type RevisionEntityType = 'ContentElement' | 'ContentTranslation';
+
+export type RevisionAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface IContentRevision extends Document {
+  entityType: RevisionEntityType;
+  entityId: Schema.Types.ObjectId | string;
+  // Element the revision belongs to (the element itself, or the translated element)
+  contentElement: Schema.Types.ObjectId | string;
+  language?: Schema.Types.ObjectId | string;
+  action: RevisionAction;
+  version: number;
+  snapshot: Record<string, any>;
+  author?: Schema.Types.ObjectId | string;
+  restoredFrom?: Schema.Types.ObjectId | string;
+  createdAt: Date;
+}
+
+// Who made a change and why, passed along by the content services
+export interface IRevisionContext {
+  authorId?: string;
+  action?: RevisionAction;
+  restoredFrom?: string;
+}
+
+export interface IRevisionChange {
+  path: string;
+  from: any;
+  to: any;
+}
@@ -1,27 +1,49 @@
 import { Document, Schema } from 'mongoose';
 
+// Pending (unpublished) values for a translation that is already live
+export interface IContentTranslationDraft {
+  content?: string;
+  normalizedContent?: string;
+  items?: Record<string, any>[];
+  isActive?: boolean;
+  metadata?: any;
+}
+
 export interface IContentTranslation extends Document {
   content: string;
+  // Content as normalizeText leaves it, for exact translation memory matches
+  normalizedContent?: string;
+  items?: Record<string, any>[];
   language: Schema.Types.ObjectId | string;
   contentElement: Schema.Types.ObjectId | string;
   isActive: boolean;
   metadata?: any;
+  draft?: IContentTranslationDraft;
+  hasDraft?: boolean;
+  isPublished?: boolean;
+  publishedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
 export interface ICreateContentTranslation {
   content: string;
+  items?: Record<string, any>[];
   language: Schema.Types.ObjectId | string;
   contentElement: Schema.Types.ObjectId | string;
   isActive?: boolean;
   metadata?: any;
+  // Content as sent by the client, before xss() escaping (only used for rich text)
+  rawContent?: string;
 }
 
 export interface IUpdateContentTranslation {
   content?: string;
+  items?: Record<string, any>[];
   language?: Schema.Types.ObjectId | string;
   contentElement?: Schema.Types.ObjectId | string;
   isActive?: boolean;
   metadata?: any;
+  // Content as sent by the client, before xss() escaping (only used for rich text)
+  rawContent?: string;
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { GraphQLLoaders } from '../graphql/loaders';
+import { ILanguageRequest } from '../utils/languageNegotiation';
+
+// Per-request state shared by the GraphQL resolvers
+export interface IGraphQLContext {
+  loaders: GraphQLLoaders;
+  // Used by text fields queried without a `language` argument
+  languageRequest: ILanguageRequest;
+  // Websites whose drafts are served (those the reader is a member of, when asking for drafts)
+  draftWebSiteIds: string[];
+}
+
+export interface IGraphQLRequest {
+  query: string;
+  variables?: Record<string, any> | null;
+  operationName?: string | null;
+}
+
+// Response in the GraphQL over HTTP format
+export interface IGraphQLResponse {
+  data?: Record<string, any> | null;
+  errors?: { message: string; locations?: { line: number; column: number }[]; path?: (string | number)[]; extensions?: Record<string, any> }[];
+}
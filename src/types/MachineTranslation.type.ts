@@ -0,0 +1,64 @@
+// How a text is marked up; providers must keep the markup intact
+export type MachineTranslationFormat = 'text' | 'html' | 'markdown';
+
+export interface IMachineTranslationRequest {
+  // Source language code (`languageID`), or null when translating element default content
+  source: string | null;
+  target: string;
+  format: MachineTranslationFormat;
+}
+
+export interface IMachineTranslationProvider {
+  name: string;
+  /**
+   * Translate texts of one format; resolves with one translation per text, in order
+   */
+  translate: (texts: string[], request: IMachineTranslationRequest) => Promise<string[]>;
+}
+
+export interface IMachineTranslationConfig {
+  provider: string;
+  endpoint?: string;
+  apiKey?: string;
+  timeoutMs: number;
+  batchSize: number;
+}
+
+export type MachineTranslationProviderFactory = (config: IMachineTranslationConfig) => IMachineTranslationProvider;
+
+export interface IMachineFillOptions {
+  // Target language code (`languageID`)
+  target: string;
+  // Source language code; defaults to the website default language, then to element default content
+  source?: string;
+  // Provider name; defaults to the configured one
+  provider?: string;
+}
+
+export interface IMachineFillEntry {
+  id: string;
+  key: string;
+  reason?: string;
+}
+
+export interface IMachineFillReport {
+  targetLanguage: string;
+  sourceLanguage: string | null;
+  provider: string;
+  // Translatable elements without content in the target language
+  missing: number;
+  created: IMachineFillEntry[];
+  skipped: IMachineFillEntry[];
+  failed: IMachineFillEntry[];
+}
+
+export interface IReviewTranslation {
+  id: string;
+  contentElement: string;
+  key: string;
+  name: string;
+  type: string;
+  content: string;
+  provider?: string;
+  translatedAt?: string;
+}
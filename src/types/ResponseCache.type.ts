@@ -0,0 +1,38 @@
+export interface IResponseCacheConfig {
+  driver: string;
+  redisUrl?: string;
+  // Prefix of every key, for sharing a Redis database
+  keyPrefix: string;
+  ttlSeconds: number;
+  // Entries the in-memory driver keeps before dropping the oldest
+  memoryMaxEntries: number;
+}
+
+/**
+ * Storage of cached responses. Entries are stored under tags (`<websiteId>:<kind>`); invalidating a tag
+ * deletes its entries and moves its generation on, so an entry computed while the tag was invalidated
+ * can be told apart from a fresh one
+ */
+export interface IResponseCacheDriver {
+  name: string;
+  /**
+   * The stored value (null when missing or expired) and the current generation of each tag
+   */
+  get: (key: string, tags: string[]) => Promise<{ value: string | null; generations: number[] }>;
+  set: (key: string, value: string, ttlSeconds: number, tags: string[]) => Promise<void>;
+  /**
+   * Delete the entries stored under the tags; resolves with the number of entries deleted
+   */
+  invalidate: (tags: string[]) => Promise<number>;
+  close: () => Promise<void>;
+}
+
+export type ResponseCacheDriverFactory = (config: IResponseCacheConfig) => IResponseCacheDriver;
+
+export interface ICachedResponse {
+  // Tag generations when the response was computed
+  generations: number[];
+  status: number;
+  body: any;
+  contentLanguage: string | null;
+}
@@ -0,0 +1,88 @@
+import { Document, Schema } from 'mongoose';
+import { LocalizedText } from '../utils/localizedText';
+
+export interface IBlueprintElement {
+  name: string;
+  type: string;
+  defaultContent?: string;
+  metadata?: Record<string, any>;
+  order: number;
+  isActive: boolean;
+  // Initial content per language code (`languageID`, e.g. "en"), used when materializing with translations
+  translations?: Record<string, string>;
+}
+
+export interface IBlueprintSubSection {
+  name: string;
+  description?: string;
+  slug: string;
+  isActive: boolean;
+  order: number;
+  isMain: boolean;
+  metadata?: Record<string, any>;
+  elements: IBlueprintElement[];
+}
+
+export interface IBlueprintSectionItem {
+  name: string;
+  description?: string;
+  isActive: boolean;
+  order: number;
+  isMain: boolean;
+  subsections: IBlueprintSubSection[];
+}
+
+export interface IBlueprintSection {
+  // Keyed by language code; only the languages of the target website are used when materializing
+  name: LocalizedText;
+  subName: string;
+  description?: LocalizedText;
+  isActive: boolean;
+}
+
+// Reusable structure of a section; media is never part of a blueprint, as files belong to one website
+export interface ISectionBlueprint extends Document {
+  name: string;
+  description?: string;
+  section: IBlueprintSection;
+  sectionItems: IBlueprintSectionItem[];
+  // Subsections attached to the section itself rather than to one of its items
+  subsections: IBlueprintSubSection[];
+  createdBy?: Schema.Types.ObjectId | string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ICreateSectionBlueprint {
+  name: string;
+  description?: string;
+  section: IBlueprintSection;
+  sectionItems?: IBlueprintSectionItem[];
+  subsections?: IBlueprintSubSection[];
+}
+
+export interface IUpdateSectionBlueprint {
+  name?: string;
+  description?: string;
+  section?: IBlueprintSection;
+  sectionItems?: IBlueprintSectionItem[];
+  subsections?: IBlueprintSubSection[];
+}
+
+export interface IMaterializeBlueprintOptions {
+  webSiteId: string;
+  // Overrides for the created section, e.g. when the website already has one with the blueprint's names
+  name?: LocalizedText;
+  subName?: string;
+  isActive?: boolean;
+  // Create translations for every language of the website
+  withTranslations?: boolean;
+}
+
+export interface IBlueprintCounts {
+  sections: number;
+  sectionItems: number;
+  subsections: number;
+  contentElements: number;
+  contentTranslations: number;
+}
@@ -0,0 +1,24 @@
+import { Document, Schema } from 'mongoose';
+
+// Website-level content (footers, CTAs, contact blurbs) embedded in subsections by `reference` elements
+export interface ISharedBlock extends Document {
+  webSite: Schema.Types.ObjectId | string;
+  name: string;
+  description?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ICreateSharedBlock {
+  webSite: Schema.Types.ObjectId | string;
+  name: string;
+  description?: string;
+  isActive?: boolean;
+}
+
+export interface IUpdateSharedBlock {
+  name?: string;
+  description?: string;
+  isActive?: boolean;
+}
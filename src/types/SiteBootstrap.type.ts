@@ -0,0 +1,85 @@
+import { ILanguageResolution, LanguageDirection } from './languages.types';
+
+// Element values keyed by element name; repeated names are numbered in order (`title#2`)
+export type SiteElementValues = Record<string, any>;
+
+export interface ISiteBootstrapOptions {
+  includeDrafts?: boolean;
+  // Render rich text sources to HTML (`?richText=html`)
+  renderRichText?: boolean;
+}
+
+export interface ISiteWebsite {
+  id: string;
+  name: string;
+  description: string | null;
+  logo: string | null;
+  email: string | null;
+  phoneNumber: string | null;
+  address: string | null;
+  sector: string | null;
+  defaultLanguage: string | null;
+}
+
+export interface ISiteLanguage {
+  code: string;
+  name: string;
+  nativeName: string | null;
+  locale: string | null;
+  direction: LanguageDirection;
+  isDefault: boolean;
+}
+
+// The language the content is served in
+export interface ISiteContentLanguage extends ISiteLanguage {
+  source: ILanguageResolution['source'];
+  // Languages missing values are read from, in order
+  fallbacks: string[];
+}
+
+export interface ISiteTheme {
+  id: string;
+  name: string;
+  colors: Record<string, any>;
+  fonts: Record<string, any>;
+}
+
+export interface ISiteSubsection {
+  id: string;
+  name: string;
+  // Slug in the content language
+  slug: string;
+  isMain: boolean;
+  elements: SiteElementValues;
+}
+
+export interface ISiteSectionItem {
+  id: string;
+  name: string;
+  description: string | null;
+  image: string | null;
+  isMain: boolean;
+  elements: SiteElementValues;
+  // Keyed by the subsection's base slug
+  subsections: Record<string, ISiteSubsection>;
+}
+
+export interface ISiteSection {
+  id: string;
+  name: string;
+  description: string | null;
+  image: string | null;
+  elements: SiteElementValues;
+  // Keyed by item name; repeated names are numbered in order
+  items: Record<string, ISiteSectionItem>;
+}
+
+export interface ISiteBootstrap {
+  website: ISiteWebsite;
+  language: ISiteContentLanguage;
+  languages: ISiteLanguage[];
+  theme: ISiteTheme | null;
+  navigation: ISiteSubsection[];
+  // Keyed by section subName
+  sections: Record<string, ISiteSection>;
+}
@@ -0,0 +1,53 @@
+// Where a content element sits in its website, for translator context
+export interface IElementContext {
+  element: Record<string, any>;
+  // Stable, readable key: section `subName` (or shared block name) / subsection slug / element name
+  key: string;
+  section?: Record<string, any>;
+  sectionItem?: Record<string, any>;
+  subsection?: Record<string, any>;
+  sharedBlock?: Record<string, any>;
+}
+
+// One translatable string: a content element's source and target language content
+export interface ITranslationUnit {
+  // Content element ID
+  id: string;
+  key: string;
+  name: string;
+  type: string;
+  source: string;
+  target: string;
+  notes: string[];
+}
+
+// Contents of an exchange file, whatever its format
+export interface ITranslationFile {
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  // `id` is a content element ID or key; `error` marks a unit the parser could not read
+  units: { id: string; source?: string; target: string; error?: string }[];
+}
+
+export type XliffVersion = '1.2' | '2.0';
+
+export interface ITranslationExportOptions {
+  source: string;
+  target: string;
+  format: string;
+  version?: string;
+}
+
+export interface ITranslationImportOptions {
+  format: string;
+  // Language code the file must target; taken from the file when omitted
+  target?: string;
+}
+
+export interface ITranslationImportReport {
+  targetLanguage: string;
+  total: number;
+  updated: string[];
+  untouched: string[];
+  rejected: { id: string; reason: string }[];
+}
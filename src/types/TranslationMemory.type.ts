@@ -0,0 +1,35 @@
+// Where suggestions are drawn from: the element's website, or every website the user is a member of
+export type TranslationMemoryScope = 'website' | 'all';
+
+export interface ITranslationSuggestionOptions {
+  // Target language code (`languageID`)
+  target: string;
+  // Source language code; defaults to the website default language
+  source?: string;
+  scope?: TranslationMemoryScope;
+  // Lowest similarity (0-100) of fuzzy matches
+  minScore?: number;
+  limit?: number;
+}
+
+export interface ITranslationSuggestion {
+  match: 'exact' | 'fuzzy';
+  // 0-100, 100 for exact matches
+  score: number;
+  // The source text the suggestion was translated from
+  source: string;
+  target: string;
+  // How many elements carry this same pair
+  occurrences: number;
+  webSiteIds: string[];
+  contentElements: string[];
+}
+
+export interface ITranslationSuggestions {
+  contentElement: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  sourceText: string;
+  scope: TranslationMemoryScope;
+  suggestions: ITranslationSuggestion[];
+}
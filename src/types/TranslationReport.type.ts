@@ -0,0 +1,80 @@
+export interface IMissingElement {
+  id: string;
+  key: string;
+  name: string;
+  type: string;
+}
+
+export interface IMissingSubSection {
+  id: string;
+  name: string;
+  slug: string;
+  elements: IMissingElement[];
+}
+
+export interface IMissingSectionItem {
+  id: string;
+  name: string;
+  elements: IMissingElement[];
+  subsections: IMissingSubSection[];
+}
+
+export interface IMissingSection {
+  id: string;
+  name: string;
+  subName: string;
+  elements: IMissingElement[];
+  sectionItems: IMissingSectionItem[];
+  // Subsections attached to the section itself rather than to one of its items
+  subsections: IMissingSubSection[];
+}
+
+export interface IMissingSharedBlock {
+  id: string;
+  name: string;
+  elements: IMissingElement[];
+}
+
+export interface ICompletenessCounts {
+  total: number;
+  translated: number;
+  missing: number;
+  // 0-100 with one decimal; 100 when there is nothing to translate
+  percentage: number;
+  // Only set when a threshold was requested
+  belowThreshold?: boolean;
+}
+
+export interface ISectionCompleteness extends ICompletenessCounts {
+  id: string;
+  name: string;
+  subName: string;
+}
+
+export interface ILanguageCompleteness extends ICompletenessCounts {
+  languageId: string;
+  languageID: string;
+  language: string;
+  isActive: boolean;
+  missingElements: {
+    sections: IMissingSection[];
+    sharedBlocks: IMissingSharedBlock[];
+  };
+  sections?: ISectionCompleteness[];
+}
+
+export interface ICompletenessReportOptions {
+  // Only report this language code (`languageID`)
+  language?: string;
+  // Add the per-section breakdown
+  bySection?: boolean;
+  // Percentage under which languages and sections are flagged
+  threshold?: number;
+}
+
+export interface ICompletenessReport {
+  webSiteId: string;
+  generatedAt: string;
+  threshold?: number;
+  languages: ILanguageCompleteness[];
+}
@@ -0,0 +1,27 @@
+import { Document, Schema } from 'mongoose';
+
+export type TrashEntityType = 'website' | 'section' | 'sharedBlock';
+
+// Number of documents per collection moved by one delete
+export interface ITrashCounts {
+  websites: number;
+  websiteUsers: number;
+  sections: number;
+  sectionItems: number;
+  subsections: number;
+  sharedBlocks: number;
+  contentElements: number;
+  contentTranslations: number;
+}
+
+// One delete operation; its `_id` is the `trashBatch` stamped on every trashed document
+export interface ITrashEntry extends Document {
+  webSite: Schema.Types.ObjectId | string;
+  entityType: TrashEntityType;
+  entityId: Schema.Types.ObjectId | string;
+  label: string;
+  counts: ITrashCounts;
+  deletedAt: Date;
+  deletedBy?: Schema.Types.ObjectId | string;
+  createdAt: Date;
+}
@@ -13,6 +13,8 @@ export interface WebSiteProps {
   description?: string;
   logo?: string;
   sector?: string;
+  defaultLanguage?: string;
+  contentVersion?: number;
   email?: string;
   phoneNumber?: string;
   address?: string;
@@ -25,6 +27,19 @@ export interface WebSiteProps {
   languages?: ILanguages[];
 }
 
+// Number of documents per collection of a website's content graph (clone, bundle import)
+export interface WebSiteGraphCounts {
+  websites: number;
+  languages: number;
+  themes: number;
+  sections: number;
+  sectionItems: number;
+  subsections: number;
+  sharedBlocks: number;
+  contentElements: number;
+  contentTranslations: number;
+}
+
 export interface WebSiteUserProps {
   userId: Schema.Types.ObjectId;
   webSiteId: Schema.Types.ObjectId;
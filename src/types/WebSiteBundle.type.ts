@@ -0,0 +1,56 @@
+import { WebSiteGraphCounts } from './WebSite.type';
+
+// Every document of one website, as plain objects
+export interface IWebSiteGraph {
+  website: Record<string, any>;
+  languages: Record<string, any>[];
+  themes: Record<string, any>[];
+  sections: Record<string, any>[];
+  sectionItems: Record<string, any>[];
+  subsections: Record<string, any>[];
+  sharedBlocks: Record<string, any>[];
+  contentElements: Record<string, any>[];
+  contentTranslations: Record<string, any>[];
+}
+
+// Portable copy of a website; document IDs only serve as references inside the bundle
+export interface IWebSiteBundle extends IWebSiteGraph {
+  format: 'website-bundle';
+  version: number;
+  exportedAt: string;
+  source: { webSiteId: string; name: string };
+  // URLs of the files the content points at; the files themselves are not part of the bundle
+  media: string[];
+}
+
+export type BundleConflictType = 'language' | 'section' | 'theme' | 'sharedBlock' | 'subsection';
+
+export interface IBundleConflict {
+  type: BundleConflictType;
+  field: string;
+  value: string;
+  // ID of the document in the bundle and of the one already in the target website
+  bundleId: string;
+  existingId: string;
+}
+
+export interface IBundleImportOptions {
+  // Import into this website instead of creating a new one
+  targetWebSiteId?: string;
+  // Name of the created website, defaults to the bundle's
+  name?: string;
+  dryRun?: boolean;
+  // Content of each bundle translation before request sanitization, by index
+  rawTranslationContents?: unknown[];
+}
+
+export interface IBundleImportReport {
+  dryRun: boolean;
+  valid: boolean;
+  webSiteId: string | null;
+  errors: string[];
+  conflicts: IBundleConflict[];
+  // Bundle languages matched to an existing language of the target website by `languageID`
+  mergedLanguages: string[];
+  counts: WebSiteGraphCounts;
+}
@@ -11,6 +11,10 @@ declare global {
       };
       requestId?: string;
       startTime?: number;
+      // Request body as parsed, before xss() escaping
+      unsanitizedBody?: any;
+      // Set by authorizeDrafts for members of the websites a read is built from
+      draftAccess?: boolean;
     }
   }
 }
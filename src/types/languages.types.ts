@@ -1,27 +1,66 @@
 import { Document, Types } from 'mongoose';
 
-export interface ILanguages extends Document {
+export type LanguageDirection = 'ltr' | 'rtl';
+
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+// Hints for formatting dates and numbers; patterns use Unicode (CLDR) symbols
+export interface ILanguageFormats {
+    date?: string; // e.g. "dd/MM/yyyy"
+    time?: string; // e.g. "HH:mm" or "hh:mm a"
+    decimalSeparator?: string;
+    groupSeparator?: string;
+    numberingSystem?: string; // e.g. "latn", "arab"
+}
+
+// Rendering metadata of a language; defaults are derived from the locale
+export interface ILanguageMetadata {
+    locale?: string; // BCP 47 tag, e.g. "ar-EG"
+    direction?: LanguageDirection;
+    nativeName?: string;
+    pluralCategories?: PluralCategory[];
+    formats?: ILanguageFormats;
+    order?: number; // Display order within the website
+}
+
+export interface ILanguages extends Document, ILanguageMetadata {
     language: string;
     languageID: string;
     isActive: boolean;
     websiteId: Types.ObjectId; // Reference to the website
     subSections: Types.ObjectId[];
+    fallbacks?: string[];
     createdAt: Date;
     updatedAt: Date;
 }
 
-export interface ICreateLanguage {
+export interface ICreateLanguage extends ILanguageMetadata {
     language: string;
     languageID: string;
     isActive?: boolean;
     websiteId: string;
     subSections?: Types.ObjectId[];
+    fallbacks?: string[];
 }
 
-export interface IUpdateLanguage {
+export interface IUpdateLanguage extends ILanguageMetadata {
     language?: string;
     languageID?: string;
     isActive?: boolean;
     websiteId?: string;
     subSections?: Types.ObjectId[];
-}
\ No newline at end of file
+    fallbacks?: string[];
+}
+export interface IResolvedLanguage {
+    _id: string;
+    languageID: string;
+    language: string;
+}
+
+// Language chosen for a delivery request, with the order in which content is looked up
+export interface ILanguageResolution {
+    language: IResolvedLanguage;
+    // How the language was chosen
+    source: 'languageId' | 'lang' | 'accept-language' | 'default';
+    chain: IResolvedLanguage[];
+}
@@ -13,6 +13,8 @@ export interface IService {
   updatedAt?: Date;
   section: Schema.Types.ObjectId | string;
   isMain?: boolean;
+  publishAt?: Date | null;
+  unpublishAt?: Date | null;
   WebSiteId : Schema.Types.ObjectId,
 }
 
@@ -31,5 +33,6 @@ export interface IUpdateSectionItem {
   subsections?: Schema.Types.ObjectId | string;
   section: Schema.Types.ObjectId | string;
   isMain?: boolean;
-
+  publishAt?: Date | string | null;
+  unpublishAt?: Date | string | null;
 }
\ No newline at end of file
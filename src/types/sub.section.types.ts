@@ -1,12 +1,26 @@
 import { Document, Schema, Types } from 'mongoose';
+import { LocalizedText } from '../utils/localizedText';
+
+// A slug the subsection no longer uses
+export interface ISubSectionSlugChange {
+  slug: string;
+  language: string | null;
+  changedAt: Date;
+}
 
 export interface ICreateSubSection extends Document {
   name: string;
   description?: string;
   slug: string;
+  // Slug per language code; see subSectionSlugKeys
+  slugs?: LocalizedText;
+  slugKeys?: string[];
+  slugHistory?: ISubSectionSlugChange[];
   isActive: boolean;
   order: number;
   isMain: boolean;
+  publishAt?: Date | null;
+  unpublishAt?: Date | null;
   sectionItem: Types.ObjectId;
   section?: Types.ObjectId; // New direct relation to section
   languages?: Types.ObjectId[];
@@ -22,11 +36,29 @@ export interface IUpdateSubSection {
   name?: string;
   description?: string;
   slug?: string;
+  slugs?: LocalizedText;
   isActive?: boolean;
   order?: number;
   isMain?: boolean;
+  publishAt?: Date | string | null;
+  unpublishAt?: Date | string | null;
   sectionItem?: Types.ObjectId;
   section?: Types.ObjectId; // New direct relation to section
   languages?: Types.ObjectId[];
   metadata?: Record<string, any>;
-}
\ No newline at end of file
+}
+
+// Another language's URL for a subsection resolved by slug
+export interface ISubSectionSlugAlternate {
+  language: string;
+  locale: string | null;
+  slug: string;
+}
+
+// Where an old slug moved to; frontends answer the old URL with a 301 to the new one
+export interface ISubSectionSlugRedirect {
+  from: string;
+  to: string;
+  language: string | null;
+  statusCode: 301;
+}
@@ -0,0 +1,45 @@
+import { Request } from 'express';
+import { applyDraft, draftProjection, readableContent, wantsDrafts } from './contentDraft';
+
+describe('content drafts', () => {
+  const translation = {
+    _id: 'translation',
+    content: 'Published',
+    isActive: true,
+    draft: { content: 'Pending', isActive: false },
+    hasDraft: true,
+  };
+
+  it('leaves the draft out of public projections only', () => {
+    expect(draftProjection()).toBe('-draft -hasDraft');
+    expect(draftProjection(true)).toBeUndefined();
+  });
+
+  it('serves public reads the live values without any draft fields', () => {
+    const readable = readableContent(translation);
+
+    expect(readable).toEqual({ _id: 'translation', content: 'Published', isActive: true });
+    expect(translation.draft).toBeDefined();
+  });
+
+  it('strips the draft from hydrated documents as well', () => {
+    const doc = { toObject: () => ({ ...translation }) };
+
+    expect(readableContent(doc)).not.toHaveProperty('draft');
+    expect(readableContent(doc)).not.toHaveProperty('hasDraft');
+  });
+
+  it('applies the draft for previews', () => {
+    expect(readableContent(translation, true)).toMatchObject({ content: 'Pending', isActive: false });
+    expect(applyDraft({ ...translation, hasDraft: false })).toMatchObject({ content: 'Published' });
+  });
+
+  it('only serves drafts to requests cleared by authorizeDrafts', () => {
+    const request = (fields: Record<string, any>) => ({ query: { draft: 'true' }, ...fields }) as unknown as Request;
+
+    expect(wantsDrafts({ query: {} } as unknown as Request)).toBe(false);
+    expect(() => wantsDrafts(request({}))).toThrow(/Authentication required/);
+    expect(() => wantsDrafts(request({ user: { id: 'user' } }))).toThrow(/do not have access/);
+    expect(wantsDrafts(request({ user: { id: 'user' }, draftAccess: true }))).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+import { Request } from 'express';
+import { AppError } from '../middleware/errorHandler.middleware';
+
+/**
+ * Query filter that hides documents which have never been published.
+ * Documents created before drafts existed have no `isPublished` flag and stay visible.
+ */
+export const publishedOnlyFilter = (includeDrafts: boolean = false): Record<string, any> =>
+  includeDrafts ? {} : { isPublished: { $ne: false } };
+
+/**
+ * Whether a document is live (edits must go to its draft instead of the live fields)
+ */
+export const isLive = (doc: { isPublished?: boolean } | null | undefined): boolean =>
+  !!doc && doc.isPublished !== false;
+
+/**
+ * Build the update for an editor write.
+ * Unpublished documents are changed in place; live documents get the changes in `draft`.
+ * @param doc The current document (lean or hydrated)
+ * @param changes The draftable fields to write (undefined values are ignored)
+ */
+export const buildDraftUpdate = (
+  doc: { isPublished?: boolean },
+  changes: Record<string, any>
+): Record<string, any> => {
+  const set: Record<string, any> = {};
+
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value === undefined) return;
+    set[isLive(doc) ? `draft.${key}` : key] = value;
+  });
+
+  if (isLive(doc) && Object.keys(set).length > 0) {
+    set.hasDraft = true;
+  }
+
+  return set;
+};
+
+/**
+ * Build the update that promotes a document's draft to its live fields
+ * @param doc The document with its pending draft
+ * @param publishedAt Publish timestamp shared by the whole publish operation
+ */
+export const buildPublishUpdate = (
+  doc: { draft?: Record<string, any>; hasDraft?: boolean },
+  publishedAt: Date
+): Record<string, any> => {
+  const set: Record<string, any> = {
+    isPublished: true,
+    hasDraft: false,
+    publishedAt,
+  };
+
+  if (doc.hasDraft && doc.draft) {
+    Object.entries(doc.draft).forEach(([key, value]) => {
+      if (value !== undefined) set[key] = value;
+    });
+  }
+
+  return { $set: set, $unset: { draft: '' } };
+};
+
+/**
+ * Return a plain copy of a document with its pending draft applied on top of the live values
+ */
+export const applyDraft = <T = any>(doc: any): T => {
+  const plain = typeof doc?.toObject === 'function' ? doc.toObject() : { ...doc };
+
+  if (plain.hasDraft && plain.draft) {
+    Object.entries(plain.draft).forEach(([key, value]) => {
+      if (value !== undefined) plain[key] = value;
+    });
+  }
+
+  return plain;
+};
+
+// Pending changes of a live document; public reads never see them
+const DRAFT_FIELDS = ['draft', 'hasDraft'];
+
+/**
+ * Projection for content reads: public reads leave the pending draft out
+ */
+export const draftProjection = (includeDrafts: boolean = false): string | undefined =>
+  includeDrafts ? undefined : DRAFT_FIELDS.map(field => `-${field}`).join(' ');
+
+/**
+ * Plain copy of a document as its reader may see it: with the pending draft applied for draft
+ * previews, and without any draft fields for public reads
+ */
+export const readableContent = <T = any>(doc: any, includeDrafts: boolean = false): T => {
+  if (includeDrafts) return applyDraft<T>(doc);
+
+  const plain = typeof doc?.toObject === 'function' ? doc.toObject() : { ...doc };
+  DRAFT_FIELDS.forEach(field => delete plain[field]);
+  return plain;
+};
+
+/**
+ * Read the `draft=true` query flag; drafts are only served to members of the website, as checked
+ * by the route's authorizeDrafts middleware
+ */
+export const wantsDrafts = (req: Request): boolean => {
+  if (req.query.draft !== 'true') return false;
+
+  if (!req.user) {
+    throw AppError.authentication('Authentication required to preview drafts');
+  }
+  if (!req.draftAccess) {
+    throw AppError.authorization('You do not have access to drafts of this website');
+  }
+
+  return true;
+};
@@ -0,0 +1,225 @@
+import mongoose, { ClientSession, MongooseQueryMiddleware, Query, Schema } from 'mongoose';
+import logger from '../config/logger';
+
+// Content whose writes change what a website serves
+export type ContentKind =
+  | 'section'
+  | 'sectionItem'
+  | 'subsection'
+  | 'element'
+  | 'translation'
+  | 'sharedBlock'
+  | 'language'
+  | 'theme';
+
+// Model of each kind and the fields leading to its website (models are looked up lazily to avoid import cycles)
+const KINDS: Record<ContentKind, { model: string; fields: string }> = {
+  section: { model: 'Sections', fields: 'WebSiteId' },
+  sectionItem: { model: 'SectionItems', fields: 'WebSiteId' },
+  subsection: { model: 'SubSections', fields: 'WebSiteId' },
+  element: { model: 'ContentElement', fields: 'parent sharedBlock' },
+  translation: { model: 'ContentTranslation', fields: 'contentElement' },
+  sharedBlock: { model: 'SharedBlock', fields: 'webSite' },
+  language: { model: 'Languages', fields: 'websiteId' },
+  theme: { model: 'WebSiteTheme', fields: 'websiteId' },
+};
+
+// Writes whose documents are found through the query filter
+const WRITE_QUERIES: MongooseQueryMiddleware[] = [
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'replaceOne',
+  'findOneAndReplace',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete',
+];
+
+const unique = (ids: any[]): string[] =>
+  Array.from(new Set(ids.filter(Boolean).map(id => id.toString())));
+
+const findWithTrashed = (
+  model: string,
+  filter: Record<string, any>,
+  fields: string,
+  session: ClientSession | null = null
+): Promise<any[]> =>
+  mongoose.model(model).find(filter).setOptions({ withTrashed: true }).select(fields).session(session).lean<any[]>().exec();
+
+/**
+ * IDs of the websites the given documents belong to; elements are traced through their parent
+ * (a section, item or subsection) or shared block, translations through their element
+ * @param kind The kind of the documents
+ * @param docs Documents with at least the fields leading to their website
+ * @param session Session of the write, so documents written in the same transaction are found
+ */
+export const websitesOf = async (kind: ContentKind, docs: any[], session: ClientSession | null = null): Promise<string[]> => {
+  if (docs.length === 0) return [];
+
+  if (kind === 'translation') {
+    const elementIds = unique(docs.map(doc => doc.contentElement));
+    if (elementIds.length === 0) return [];
+    return websitesOf(
+      'element',
+      await findWithTrashed('ContentElement', { _id: { $in: elementIds } }, KINDS.element.fields, session),
+      session
+    );
+  }
+  if (kind === 'element') {
+    const parentIds = unique(docs.map(doc => doc.parent));
+    const blockIds = unique(docs.map(doc => doc.sharedBlock));
+    const owners = await Promise.all([
+      ...['Sections', 'SectionItems', 'SubSections'].map(model =>
+        (parentIds.length ? findWithTrashed(model, { _id: { $in: parentIds } }, 'WebSiteId', session) : Promise.resolve([]))),
+      blockIds.length ? findWithTrashed('SharedBlock', { _id: { $in: blockIds } }, 'webSite', session) : Promise.resolve([]),
+    ]);
+    // Sections, items and subsections name their website `WebSiteId`, shared blocks `webSite`
+    return unique([].concat(...owners).map((owner: any) => owner.WebSiteId || owner.webSite));
+  }
+
+  const [field] = KINDS[kind].fields.split(' ');
+  return unique(docs.map(doc => doc[field]));
+};
+
+/**
+ * IDs of the websites the documents with the given IDs belong to
+ */
+export const websitesOfIds = async (kind: ContentKind, ids: string[]): Promise<string[]> => {
+  const validIds = ids.filter(id => mongoose.Types.ObjectId.isValid(id));
+  if (validIds.length === 0) return [];
+
+  const { model, fields } = KINDS[kind];
+  return websitesOf(kind, await findWithTrashed(model, { _id: { $in: validIds } }, fields));
+};
+
+export type ContentChangeListener = (webSiteIds: string[], kind: ContentKind) => Promise<void> | void;
+
+const listeners: ContentChangeListener[] = [];
+
+/**
+ * Be told which websites a content write touched, after the write (and the version bump) completed
+ */
+export const onContentChange = (listener: ContentChangeListener): void => {
+  listeners.push(listener);
+};
+
+const notify = async (webSiteIds: string[], kind: ContentKind): Promise<void> => {
+  await Promise.all(listeners.map(async (listener) => {
+    try {
+      await listener(webSiteIds, kind);
+    } catch (error) {
+      logger.error(`Content change listener failed for websites ${webSiteIds.join(', ')}`, { error });
+    }
+  }));
+};
+
+/**
+ * Move the content version of websites on, so validators (ETags) issued for their content stop matching
+ * @param session Session of the write; inside a transaction the bump commits or rolls back with it
+ */
+export const bumpContentVersion = async (webSiteIds: string[], session: ClientSession | null = null): Promise<void> => {
+  if (webSiteIds.length === 0) return;
+
+  try {
+    await mongoose.model('WebSite').updateMany(
+      { _id: { $in: webSiteIds } },
+      { $inc: { contentVersion: 1 } },
+      // The website's own `updatedAt` tracks edits of the website itself
+      { timestamps: false, session }
+    );
+  } catch (error) {
+    // A missed bump only delays revalidation until the next write; the write itself succeeded
+    logger.error(`Failed to bump the content version of websites ${webSiteIds.join(', ')}`, { error });
+  }
+};
+
+/**
+ * Schema plugin that bumps the content version of the websites a model's writes touch, and tells the
+ * content change listeners: saves, inserts, filtered updates and deletes (including trash moves, which
+ * are updates) and bulk writes.
+ * Filtered writes look their documents up first, so a write matching nothing bumps nothing.
+ */
+export const contentVersionPlugin = (schema: Schema, options: { kind: ContentKind }): void => {
+  const { kind } = options;
+  const { fields } = KINDS[kind];
+  const touched = new WeakMap<object, string[]>();
+
+  // Looking up what a write touches must not fail the write
+  const touchedBy = async (
+    docs: any[],
+    session: ClientSession | null,
+    find: () => Promise<any[]> = () => Promise.resolve([])
+  ): Promise<string[]> => {
+    try {
+      return await websitesOf(kind, [...docs, ...(await find())], session);
+    } catch (error) {
+      logger.error(`Failed to find the websites a ${kind} write touches`, { error });
+      return [];
+    }
+  };
+
+  // The bump joins the write's transaction; listeners hear of the change once the session ends,
+  // so nothing is re-read from before the commit
+  const changed = async (webSiteIds: string[], session: ClientSession | null) => {
+    await bumpContentVersion(webSiteIds, session);
+    if (webSiteIds.length === 0) return;
+
+    if (session?.inTransaction()) {
+      session.once('ended', () => notify(webSiteIds, kind));
+    } else {
+      await notify(webSiteIds, kind);
+    }
+  };
+
+  const bumpFor = async (docs: any[], session: ClientSession | null, known: string[] = []) =>
+    changed(unique([...known, ...(await touchedBy(docs, session))]), session);
+
+  schema.post('save', async function (doc: any) {
+    await bumpFor([doc], doc.$session());
+  });
+
+  // Inserted documents carry the session of the insert
+  schema.post('insertMany', async function (docs: any[]) {
+    await bumpFor(docs, docs[0]?.$session?.() ?? null);
+  });
+
+  schema.pre(WRITE_QUERIES, async function (this: Query<any, any>) {
+    const session = this.getOptions().session ?? null;
+    touched.set(this, await touchedBy([], session, () =>
+      this.model.find(this.getFilter()).setOptions({ withTrashed: true }).select(fields).session(session).lean<any[]>().exec()));
+  });
+
+  // findOneAnd* hooks get the document, which covers upserts
+  schema.post(WRITE_QUERIES, async function (this: Query<any, any>, result: any) {
+    await bumpFor(result?._id ? [result] : [], this.getOptions().session ?? null, touched.get(this) || []);
+  });
+
+  // Bulk writes share no state between their hooks: websites stay pending, with the session of the
+  // write that touched them, while any bulk write runs, and every one that completes bumps them all
+  const pending = new Map<string, ClientSession | null>();
+  let running = 0;
+
+  schema.pre('bulkWrite', async function (this: any, _next: () => void, ops: any[], options: { session?: ClientSession } = {}) {
+    running++;
+    const session = options?.session ?? null;
+    const inserted = ops.filter(op => op.insertOne).map(op => op.insertOne.document);
+    const filters = ops
+      .map(op => (op.updateOne || op.updateMany || op.replaceOne || op.deleteOne || op.deleteMany)?.filter)
+      .filter(Boolean);
+    const webSiteIds = await touchedBy(inserted, session, () => (filters.length
+      ? this.find({ $or: filters }).setOptions({ withTrashed: true }).select(fields).session(session).lean().exec()
+      : Promise.resolve([])));
+    webSiteIds.forEach(id => pending.set(id, session));
+  });
+
+  schema.post('bulkWrite', async function () {
+    running = Math.max(0, running - 1);
+    const bySession = new Map<ClientSession | null, string[]>();
+    pending.forEach((session, id) => bySession.set(session, [...(bySession.get(session) || []), id]));
+    if (running === 0) pending.clear();
+    for (const [session, webSiteIds] of Array.from(bySession)) {
+      await changed(webSiteIds, session);
+    }
+  });
+};
@@ -0,0 +1,77 @@
+// Byte order mark, so spreadsheet apps read the file as UTF-8
+const BOM = '\uFEFF';
+
+// Cells a spreadsheet app would run as a formula (after any apostrophes added to defuse them)
+const FORMULA = /^'*[=+\-@\t\r]/;
+
+// A leading apostrophe makes spreadsheet apps show the cell as text
+const defuseFormula = (value: string): string => (FORMULA.test(value) ? `'${value}` : value);
+
+const restoreFormula = (value: string): string =>
+  (value.startsWith('\'') && FORMULA.test(value.slice(1)) ? value.slice(1) : value);
+
+const escapeCell = (value: string): string => {
+  const cell = defuseFormula(value);
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+/**
+ * Serialize rows as RFC 4180 CSV. Cells starting like a formula (`=`, `+`, `-`, `@`) get a leading
+ * apostrophe, which parseCsv removes again
+ */
+export const buildCsv = (rows: string[][]): string =>
+  `${BOM}${rows.map(row => row.map(cell => escapeCell(cell ?? '')).join(',')).join('\r\n')}\r\n`;
+
+/**
+ * Parse RFC 4180 CSV (quoted cells may hold commas, quotes and line breaks); the apostrophe
+ * buildCsv puts before formula-like cells is removed
+ * @throws Error on an unterminated quoted cell
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.startsWith(BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted cell');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows
+    .filter(cells => cells.some(value => value !== ''))
+    .map(cells => cells.map(restoreFormula));
+};
@@ -0,0 +1,239 @@
+import { AppError } from '../middleware/errorHandler.middleware';
+import { IItemField, IItemSchema, ItemFieldType } from '../types/ContentElement.type';
+import { validateTranslationContent } from './translationValidators';
+
+export const ITEM_FIELD_TYPES: ItemFieldType[] = ['text', 'textarea', 'number', 'boolean', 'link', 'image', 'video', 'file'];
+
+// Element types whose translations can hold structured items
+const ITEM_ELEMENT_TYPES = ['array', 'list'];
+
+const FIELD_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Item schema of an array/list element (its pending draft wins, as that is what editors work on)
+ * @returns The schema, or null when the element stores plain JSON arrays
+ */
+export const getItemSchema = (
+  element: { type?: string; metadata?: any; draft?: { type?: string; metadata?: any } } | null | undefined
+): IItemSchema | null => {
+  if (!element) return null;
+
+  const type = element.draft?.type || element.type;
+  const metadata = element.draft?.metadata || element.metadata;
+
+  return ITEM_ELEMENT_TYPES.includes(type) && metadata?.itemSchema ? metadata.itemSchema : null;
+};
+
+/**
+ * Validate an item schema coming from element metadata and fill in the defaults
+ * @param schema The declared schema
+ * @param elementType Type of the element declaring it
+ * @returns The normalized schema
+ */
+export const normalizeItemSchema = (schema: any, elementType: string): IItemSchema => {
+  if (!ITEM_ELEMENT_TYPES.includes(elementType)) {
+    throw AppError.validation('Only array and list elements can declare an item schema');
+  }
+
+  if (!schema || typeof schema !== 'object' || !Array.isArray(schema.fields) || schema.fields.length === 0) {
+    throw AppError.validation('Item schema must declare at least one field');
+  }
+
+  const names = new Set<string>();
+  const fields: IItemField[] = schema.fields.map((field: any, index: number) => {
+    if (!field || typeof field.name !== 'string' || !FIELD_NAME.test(field.name)) {
+      throw AppError.validation(`Item schema field ${index + 1} needs a name made of letters, digits and underscores`);
+    }
+    if (names.has(field.name)) {
+      throw AppError.validation(`Item schema field "${field.name}" is declared twice`);
+    }
+    if (!ITEM_FIELD_TYPES.includes(field.type)) {
+      throw AppError.validation(
+        `Item schema field "${field.name}" has an invalid type (expected one of: ${ITEM_FIELD_TYPES.join(', ')})`
+      );
+    }
+    names.add(field.name);
+
+    return {
+      name: field.name,
+      type: field.type,
+      ...(typeof field.label === 'string' ? { label: field.label } : {}),
+      required: field.required === true,
+      translatable: field.translatable !== false,
+    };
+  });
+
+  const result: IItemSchema = { fields };
+
+  (['minItems', 'maxItems'] as const).forEach((key) => {
+    if (schema[key] === undefined || schema[key] === null) return;
+    if (!Number.isInteger(schema[key]) || schema[key] < 0) {
+      throw AppError.validation(`Item schema ${key} must be a non-negative integer`);
+    }
+    result[key] = schema[key];
+  });
+
+  if (result.minItems !== undefined && result.maxItems !== undefined && result.minItems > result.maxItems) {
+    throw AppError.validation('Item schema minItems cannot be greater than maxItems');
+  }
+
+  return result;
+};
+
+/**
+ * Parse items sent either as an array or as the JSON string in `content`
+ */
+export const parseItems = (input: unknown): any[] => {
+  let items = input;
+
+  if (typeof input === 'string') {
+    try {
+      items = JSON.parse(input);
+    } catch {
+      throw AppError.validation('Items must be a JSON array');
+    }
+  }
+
+  if (!Array.isArray(items)) {
+    throw AppError.validation('Items must be a JSON array');
+  }
+  return items;
+};
+
+/**
+ * Validate items against a schema, coercing values to their declared types
+ * @param schema The element's item schema
+ * @param items The incoming items
+ * @returns The items, with only the declared fields
+ */
+export const validateItems = (schema: IItemSchema, items: any[]): Record<string, any>[] => {
+  const errors: string[] = [];
+
+  if (schema.minItems !== undefined && items.length < schema.minItems) {
+    errors.push(`at least ${schema.minItems} items are required`);
+  }
+  if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+    errors.push(`at most ${schema.maxItems} items are allowed`);
+  }
+
+  const result = items.map((item, index) => {
+    const prefix = `item ${index + 1}`;
+
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push(`${prefix}: expected an object`);
+      return {};
+    }
+
+    Object.keys(item)
+      .filter(key => !schema.fields.some(field => field.name === key))
+      .forEach(key => errors.push(`${prefix}: unknown field "${key}"`));
+
+    const values: Record<string, any> = {};
+
+    schema.fields.forEach((field) => {
+      const value = item[field.name];
+
+      if (value === undefined || value === null || value === '') {
+        if (field.required) errors.push(`${prefix}: "${field.name}" is required`);
+        return;
+      }
+
+      try {
+        values[field.name] = validateFieldValue(field, value);
+      } catch (error) {
+        errors.push(`${prefix}: "${field.name}" ${error.message}`);
+      }
+    });
+
+    return values;
+  });
+
+  if (errors.length > 0) {
+    throw AppError.validation(`Invalid items: ${errors.join('; ')}`);
+  }
+
+  return result;
+};
+
+const validateFieldValue = (field: IItemField, value: any): any => {
+  if (field.type === 'number') {
+    const number = typeof value === 'string' ? Number(value.trim()) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+      throw new Error('must be a number');
+    }
+    return number;
+  }
+
+  if (field.type === 'boolean') {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    throw new Error('must be true or false');
+  }
+
+  if (typeof value !== 'string') {
+    throw new Error('must be a string');
+  }
+
+  // String fields follow the same rules as elements of that type
+  try {
+    return validateTranslationContent({ type: field.type }, value);
+  } catch (error) {
+    throw new Error(`is invalid (${error.message.replace(/^Invalid content for \w+ element: /, '')})`);
+  }
+};
+
+/**
+ * Fill non-translatable fields missing from items with the values of another language
+ * @param schema The element's item schema
+ * @param items The incoming items
+ * @param sourceItems Items of a sibling translation
+ */
+export const fillSharedFields = (schema: IItemSchema, items: any[], sourceItems: any[] | undefined): any[] => {
+  const sharedFields = schema.fields.filter(field => !field.translatable);
+  if (!sourceItems || sharedFields.length === 0) return items;
+
+  return items.map((item, index) => {
+    if (!item || typeof item !== 'object' || !sourceItems[index]) return item;
+
+    const filled = { ...item };
+    sharedFields.forEach(({ name }) => {
+      if (filled[name] === undefined && sourceItems[index][name] !== undefined) {
+        filled[name] = sourceItems[index][name];
+      }
+    });
+    return filled;
+  });
+};
+
+/**
+ * Copy the non-translatable values of the written items onto another language's items (by position)
+ * @returns The updated items, or null when nothing changed
+ */
+export const copySharedFields = (
+  schema: IItemSchema,
+  fromItems: Record<string, any>[],
+  toItems: Record<string, any>[] | undefined
+): Record<string, any>[] | null => {
+  const sharedFields = schema.fields.filter(field => !field.translatable);
+  if (!toItems || sharedFields.length === 0) return null;
+
+  let changed = false;
+  const updated = toItems.map((item, index) => {
+    if (!fromItems[index]) return item;
+
+    const copy = { ...item };
+    sharedFields.forEach(({ name }) => {
+      if (JSON.stringify(copy[name]) === JSON.stringify(fromItems[index][name])) return;
+
+      if (fromItems[index][name] === undefined) {
+        delete copy[name];
+      } else {
+        copy[name] = fromItems[index][name];
+      }
+      changed = true;
+    });
+    return copy;
+  });
+
+  return changed ? updated : null;
+};
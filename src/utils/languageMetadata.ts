@@ -0,0 +1,185 @@
+import { AppError } from '../middleware/errorHandler.middleware';
+import { ILanguageFormats, LanguageDirection, PluralCategory } from '../types/languages.types';
+
+export const LANGUAGE_DIRECTIONS: LanguageDirection[] = ['ltr', 'rtl'];
+
+// CLDR order
+export const PLURAL_CATEGORIES: PluralCategory[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+// Scripts written right to left (ISO 15924)
+const RTL_SCRIPTS = ['Arab', 'Hebr', 'Thaa', 'Syrc', 'Nkoo', 'Adlm', 'Rohg', 'Mand', 'Samr', 'Yezi'];
+
+const FORMAT_KEYS: (keyof ILanguageFormats)[] = ['date', 'time', 'decimalSeparator', 'groupSeparator', 'numberingSystem'];
+
+// Bidi marks ICU puts around date separators in RTL locales
+const BIDI_MARKS = /[\u200e\u200f\u061c]/g;
+
+/**
+ * Canonical form of a BCP 47 language tag (`EN-us` → `en-US`), or null when the tag is not valid
+ */
+export const canonicalLocale = (tag: unknown): string | null => {
+  if (typeof tag !== 'string' || !tag.trim()) return null;
+  try {
+    return Intl.getCanonicalLocales(tag.trim())[0] || null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Writing direction of a locale, from its (likely) script
+ */
+export const localeDirection = (locale: string): LanguageDirection => {
+  try {
+    const script = new (Intl as any).Locale(locale).maximize().script;
+    return RTL_SCRIPTS.includes(script) ? 'rtl' : 'ltr';
+  } catch {
+    return 'ltr';
+  }
+};
+
+/**
+ * Name of a locale in its own language (`ar-EG` → `العربية (مصر)`)
+ */
+export const localeNativeName = (locale: string): string | null => {
+  try {
+    return new (Intl as any).DisplayNames([locale], { type: 'language' }).of(locale) || null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * CLDR plural categories of a locale, in CLDR order
+ */
+export const localePluralCategories = (locale: string): PluralCategory[] => {
+  const categories: string[] = (new Intl.PluralRules(locale).resolvedOptions() as any).pluralCategories || ['other'];
+  return PLURAL_CATEGORIES.filter(category => categories.includes(category));
+};
+
+/**
+ * Date, time and number format hints of a locale (`dd/MM/yyyy`, `HH:mm`, separators and digits)
+ */
+export const localeFormats = (locale: string): ILanguageFormats => {
+  const pattern = (parts: Intl.DateTimeFormatPart[]) => parts
+    .map(({ type, value }) => ({
+      day: 'dd',
+      month: 'MM',
+      year: 'yyyy',
+      hour: 'HH',
+      minute: 'mm',
+      dayPeriod: 'a',
+      literal: value.replace(BIDI_MARKS, ''),
+    } as Record<string, string>)[type] ?? '')
+    .join('')
+    .trim();
+
+  const sample = new Date(Date.UTC(2024, 11, 31, 13, 5));
+  const date = new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit', timeZone: 'UTC' });
+  const time = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit', timeZone: 'UTC' });
+  const number = new Intl.NumberFormat(locale);
+  const numberParts = number.formatToParts(1234567.8);
+  const hour12 = time.resolvedOptions().hour12;
+
+  return {
+    date: pattern(date.formatToParts(sample)),
+    time: pattern(time.formatToParts(sample)).replace('HH', hour12 ? 'hh' : 'HH'),
+    decimalSeparator: numberParts.find(part => part.type === 'decimal')?.value || '.',
+    groupSeparator: numberParts.find(part => part.type === 'group')?.value || '',
+    numberingSystem: number.resolvedOptions().numberingSystem,
+  };
+};
+
+/**
+ * Validate the metadata fields of a language; only the fields present are checked
+ * @param metadata Incoming fields
+ * @returns The normalized fields (locale canonicalized, plural categories in CLDR order)
+ */
+export const normalizeLanguageMetadata = (metadata: {
+  locale?: unknown;
+  direction?: unknown;
+  nativeName?: unknown;
+  pluralCategories?: unknown;
+  formats?: unknown;
+  order?: unknown;
+}): Record<string, any> => {
+  const normalized: Record<string, any> = {};
+
+  if (metadata.locale !== undefined) {
+    const locale = canonicalLocale(metadata.locale);
+    if (!locale) {
+      throw AppError.validation(`"${metadata.locale}" is not a valid BCP 47 language tag (e.g. "en", "ar-EG", "zh-Hant-TW")`);
+    }
+    normalized.locale = locale;
+  }
+
+  if (metadata.direction !== undefined) {
+    if (!LANGUAGE_DIRECTIONS.includes(metadata.direction as LanguageDirection)) {
+      throw AppError.validation(`Direction must be one of: ${LANGUAGE_DIRECTIONS.join(', ')}`);
+    }
+    normalized.direction = metadata.direction;
+  }
+
+  if (metadata.nativeName !== undefined) {
+    if (typeof metadata.nativeName !== 'string' || !metadata.nativeName.trim()) {
+      throw AppError.validation('Native name must be a non-empty string');
+    }
+    normalized.nativeName = metadata.nativeName.trim();
+  }
+
+  if (metadata.pluralCategories !== undefined) {
+    const categories = metadata.pluralCategories;
+    if (!Array.isArray(categories) || categories.some(category => !PLURAL_CATEGORIES.includes(category))) {
+      throw AppError.validation(`Plural categories must be a list of: ${PLURAL_CATEGORIES.join(', ')}`);
+    }
+    if (!categories.includes('other')) {
+      throw AppError.validation('Plural categories must include "other"');
+    }
+    normalized.pluralCategories = PLURAL_CATEGORIES.filter(category => categories.includes(category));
+  }
+
+  if (metadata.formats !== undefined) {
+    const formats = metadata.formats as Record<string, unknown>;
+    if (!formats || typeof formats !== 'object' || Array.isArray(formats)) {
+      throw AppError.validation(`Formats must be an object with: ${FORMAT_KEYS.join(', ')}`);
+    }
+    Object.keys(formats).forEach((key) => {
+      if (!FORMAT_KEYS.includes(key as keyof ILanguageFormats)) {
+        throw AppError.validation(`Unknown format hint "${key}", expected one of: ${FORMAT_KEYS.join(', ')}`);
+      }
+      if (typeof formats[key] !== 'string') {
+        throw AppError.validation(`Format hint "${key}" must be a string`);
+      }
+    });
+    normalized.formats = formats;
+  }
+
+  if (metadata.order !== undefined) {
+    if (!Number.isInteger(metadata.order) || (metadata.order as number) < 0) {
+      throw AppError.validation('Order must be a non-negative whole number');
+    }
+    normalized.order = metadata.order;
+  }
+
+  return normalized;
+};
+
+/**
+ * Fill the metadata a language lacks with what its locale implies; languages stored before
+ * the metadata existed fall back to their `languageID` as locale when it is a valid tag
+ */
+export const withLanguageMetadata = <T extends Record<string, any>>(language: T): T & Record<string, any> => {
+  const locale = language.locale || canonicalLocale(language.languageID);
+  if (!locale) {
+    return { ...language, locale: null };
+  }
+
+  return {
+    ...language,
+    locale,
+    direction: language.direction || localeDirection(locale),
+    nativeName: language.nativeName || localeNativeName(locale),
+    pluralCategories: language.pluralCategories?.length ? language.pluralCategories : localePluralCategories(locale),
+    formats: { ...localeFormats(locale), ...(language.formats || {}) },
+  };
+};
@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+
+// What a delivery request asks for; resolved against the website's active languages
+export interface ILanguageRequest {
+  // Explicit language document ID (legacy `languageId` query parameter)
+  languageId?: string;
+  // Explicit language code (`lang` query parameter)
+  lang?: string;
+  acceptLanguage?: string;
+}
+
+/**
+ * Parse an Accept-Language header into tags ordered by preference (`*` and q=0 entries are dropped)
+ */
+export const parseAcceptLanguage = (header?: string): string[] => {
+  if (!header) return [];
+
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params
+        .map(param => param.trim().match(/^q=([0-9.]+)$/))
+        .find(Boolean);
+      return { tag: tag.trim(), q: q ? parseFloat(q[1]) : 1, index };
+    })
+    .filter(({ tag, q }) => tag && tag !== '*' && q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map(({ tag }) => tag);
+};
+
+/**
+ * Find the available code that best serves a requested tag: an exact match,
+ * then the requested tag's base language (ar-EG → ar), then a regional variant of it (ar → ar-EG)
+ */
+export const matchLanguage = (tag: string, available: string[]): string | null => {
+  const wanted = tag.toLowerCase();
+  const base = wanted.split('-')[0];
+
+  return available.find(code => code.toLowerCase() === wanted)
+    || available.find(code => code.toLowerCase() === base)
+    || available.find(code => code.toLowerCase().split('-')[0] === base)
+    || null;
+};
+
+/**
+ * Pick the first Accept-Language entry the website can serve
+ */
+export const negotiateLanguage = (header: string | undefined, available: string[]): string | null => {
+  for (const tag of parseAcceptLanguage(header)) {
+    const match = matchLanguage(tag, available);
+    if (match) return match;
+  }
+  return null;
+};
+
+/**
+ * Ordered codes to read content from: the language itself, its configured fallbacks,
+ * its base language (ar-EG → ar) and finally the website default. Codes the website lacks are skipped.
+ * @param code The resolved language code
+ * @param fallbacksByCode Configured fallbacks of every available language
+ * @param defaultLanguage The website's default language code
+ */
+export const buildFallbackChain = (
+  code: string,
+  fallbacksByCode: Map<string, string[]>,
+  defaultLanguage?: string | null
+): string[] => {
+  const base = code.split('-')[0];
+  const candidates = [code, ...(fallbacksByCode.get(code) || []), base, defaultLanguage];
+
+  return candidates.filter((candidate, index) =>
+    candidate && fallbacksByCode.has(candidate) && candidates.indexOf(candidate) === index);
+};
+
+/**
+ * Read the language a delivery request asks for
+ */
+export const languageRequestFrom = (req: Request): ILanguageRequest => ({
+  languageId: typeof req.query.languageId === 'string' ? req.query.languageId : undefined,
+  lang: typeof req.query.lang === 'string' ? req.query.lang : undefined,
+  acceptLanguage: req.get('Accept-Language'),
+});
+
+/**
+ * Announce the language of localized content; responses vary with Accept-Language either way
+ */
+export const setContentLanguage = (res: Response, contentLanguage?: string | null): void => {
+  res.vary('Accept-Language');
+  if (contentLanguage) {
+    res.setHeader('Content-Language', contentLanguage);
+  }
+};
@@ -0,0 +1,102 @@
+import { AppError } from '../middleware/errorHandler.middleware';
+
+// Text keyed by language code (`Languages.languageID`), e.g. `{ en: 'About', fr: 'À propos' }`
+export type LocalizedText = Record<string, string>;
+
+interface ILocalizedTextRules {
+  // Language that must have a value; without one, any single language will do
+  requiredLanguage?: string | null;
+  required?: boolean;
+  minLength?: number;
+  maxLength?: number;
+}
+
+/**
+ * Whether a value is a language-keyed text object
+ */
+export const isLocalizedText = (value: unknown): value is LocalizedText =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+  && Object.keys(value).every(key => typeof (value as any)[key] === 'string');
+
+/**
+ * A localized text in one language, else its first non-empty value
+ * @param values The language-keyed text (legacy plain strings are returned as they are)
+ * @param language The wanted language code
+ */
+export const getLocalizedText = (values: LocalizedText | string | null | undefined, language?: string): string => {
+  if (typeof values === 'string') return values;
+  if (!values || typeof values !== 'object') return '';
+
+  if (language && typeof values[language] === 'string' && values[language].trim()) {
+    return values[language];
+  }
+  return Object.keys(values)
+    .map(key => values[key])
+    .find(value => typeof value === 'string' && value.trim() !== '') || '';
+};
+
+/**
+ * A localized text in the first language of a fallback chain that has it, else its first non-empty value
+ * @param values The language-keyed text (legacy plain strings are returned as they are)
+ * @param chain Language codes in lookup order
+ */
+export const getLocalizedTextIn = (values: LocalizedText | string | null | undefined, chain: string[]): string => {
+  if (!values || typeof values === 'string') return getLocalizedText(values);
+
+  const code = chain.find(language => typeof values[language] === 'string' && values[language].trim() !== '');
+  return getLocalizedText(values, code);
+};
+
+/**
+ * Validate a localized text against the language codes of a website: values are trimmed,
+ * empty ones dropped, and unknown language codes rejected
+ * @param value The incoming text
+ * @param languages The website's language codes
+ * @param label What the text is, for error messages ("Section name")
+ * @param rules Required language and length limits
+ * @returns The normalized text
+ */
+export const normalizeLocalizedText = (
+  value: unknown,
+  languages: string[],
+  label: string,
+  rules: ILocalizedTextRules = {}
+): LocalizedText => {
+  if (value === undefined || value === null) {
+    value = {};
+  }
+  if (!isLocalizedText(value)) {
+    throw AppError.validation(`${label} must be an object of texts keyed by language code`);
+  }
+
+  const normalized: LocalizedText = {};
+
+  Object.keys(value).forEach((code) => {
+    const text = value[code].trim();
+    if (!text) return;
+
+    if (!languages.includes(code)) {
+      throw AppError.validation(
+        `${label} uses "${code}", which is not a language of this website (expected one of: ${languages.join(', ') || 'none'})`
+      );
+    }
+    if (rules.minLength && text.length < rules.minLength) {
+      throw AppError.validation(`${label} in ${code.toUpperCase()} must be at least ${rules.minLength} characters`);
+    }
+    if (rules.maxLength && text.length > rules.maxLength) {
+      throw AppError.validation(`${label} in ${code.toUpperCase()} must be less than ${rules.maxLength} characters`);
+    }
+    normalized[code] = text;
+  });
+
+  if (rules.required) {
+    if (rules.requiredLanguage && !normalized[rules.requiredLanguage]) {
+      throw AppError.validation(`${label} in ${rules.requiredLanguage.toUpperCase()} (the website default language) is required`);
+    }
+    if (Object.keys(normalized).length === 0) {
+      throw AppError.validation(`${label} is required in at least one language`);
+    }
+  }
+
+  return normalized;
+};
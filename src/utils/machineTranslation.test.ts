@@ -0,0 +1,35 @@
+import { AppError } from '../middleware/errorHandler.middleware';
+import { getMachineTranslationProvider, registerMachineTranslationProvider } from './machineTranslation';
+
+describe('machine translation providers', () => {
+  it('uses the stub provider by default', () => {
+    expect(getMachineTranslationProvider().name).toBe('stub');
+  });
+
+  it('tags every text with the target language, in order', async () => {
+    const provider = getMachineTranslationProvider('stub');
+
+    await expect(provider.translate(['Hello', '<p>World</p>'], { source: 'en', target: 'ar', format: 'html' }))
+      .resolves.toEqual(['[ar] Hello', '[ar] <p>World</p>']);
+  });
+
+  it('rejects an unknown provider', () => {
+    expect(() => getMachineTranslationProvider('nope')).toThrow(AppError);
+    expect(() => getMachineTranslationProvider('nope')).toThrow(/expected one of: .*stub/);
+  });
+
+  it('reports a provider that is not configured', () => {
+    expect(() => getMachineTranslationProvider('http')).toThrow(/"http" is not configured: MT_ENDPOINT is not set/);
+  });
+
+  it('builds registered providers from the configuration', async () => {
+    registerMachineTranslationProvider('upper', config => ({
+      name: `upper-${config.batchSize}`,
+      translate: async texts => texts.map(text => text.toUpperCase()),
+    }));
+
+    const provider = getMachineTranslationProvider('upper');
+    expect(provider.name).toMatch(/^upper-\d+$/);
+    await expect(provider.translate(['hi'], { source: null, target: 'en', format: 'text' })).resolves.toEqual(['HI']);
+  });
+});
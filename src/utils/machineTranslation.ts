@@ -0,0 +1,63 @@
+import axios from 'axios';
+import { env } from '../config/env';
+import { AppError } from '../middleware/errorHandler.middleware';
+import {
+  IMachineTranslationProvider,
+  MachineTranslationProviderFactory,
+} from '../types/MachineTranslation.type';
+
+const providers = new Map<string, MachineTranslationProviderFactory>();
+
+/**
+ * Register (or replace) a machine translation provider; it is built from `env.machineTranslation` when used
+ */
+export const registerMachineTranslationProvider = (name: string, factory: MachineTranslationProviderFactory): void => {
+  providers.set(name, factory);
+};
+
+/**
+ * Build a registered provider
+ * @param name The provider name, defaults to the configured `MT_PROVIDER`
+ */
+export const getMachineTranslationProvider = (name: string = env.machineTranslation.provider): IMachineTranslationProvider => {
+  const factory = providers.get(name);
+  if (!factory) {
+    throw AppError.validation(
+      `Unknown machine translation provider "${name}", expected one of: ${Array.from(providers.keys()).join(', ')}`
+    );
+  }
+
+  try {
+    return factory(env.machineTranslation);
+  } catch (error) {
+    throw AppError.badRequest(`Machine translation provider "${name}" is not configured: ${error.message}`);
+  }
+};
+
+// Deterministic and offline: tags each text with the target language so pre-filled content is easy to spot
+registerMachineTranslationProvider('stub', () => ({
+  name: 'stub',
+  translate: async (texts, { target }) => texts.map(text => `[${target}] ${text}`),
+}));
+
+// Generic HTTP service: POST { source, target, format, texts } to MT_ENDPOINT, expects { translations: string[] }
+registerMachineTranslationProvider('http', (config) => {
+  if (!config.endpoint) {
+    throw new Error('MT_ENDPOINT is not set');
+  }
+
+  return {
+    name: 'http',
+    translate: async (texts, request) => {
+      const { data } = await axios.post(
+        config.endpoint,
+        { ...request, texts },
+        {
+          timeout: config.timeoutMs,
+          headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+        }
+      );
+      return data?.translations;
+    },
+  };
+});
@@ -0,0 +1,15 @@
+/**
+ * Shallow copy of an object without the given keys
+ * @param source The object to copy (undefined copies to an empty object)
+ * @param keys The keys to leave out
+ */
+export const omit = <T extends Record<string, any>, K extends string>(
+  source: T | null | undefined,
+  keys: readonly K[]
+): Omit<T, K> => {
+  const copy: Record<string, any> = { ...(source || {}) };
+  keys.forEach((key) => {
+    delete copy[key];
+  });
+  return copy as Omit<T, K>;
+};
@@ -0,0 +1,107 @@
+import { ITranslationFile, ITranslationUnit } from '../types/TranslationExchange.type';
+
+const escapePo = (value: string): string => value
+  .replace(/\\/g, '\\\\')
+  .replace(/"/g, '\\"')
+  .replace(/\t/g, '\\t')
+  .replace(/\r/g, '\\r')
+  .replace(/\n/g, '\\n');
+
+const unescapePo = (value: string): string => value.replace(/\\(.)/g, (_, char) => {
+  switch (char) {
+    case 'n': return '\n';
+    case 't': return '\t';
+    case 'r': return '\r';
+    default: return char;
+  }
+});
+
+// Multi-line strings are written one line per continuation, as gettext does
+const poString = (keyword: string, value: string): string => {
+  if (!value.includes('\n')) return `${keyword} "${escapePo(value)}"`;
+
+  const lines = value.split('\n')
+    .map((line, index, all) => (index < all.length - 1 ? `${line}\n` : line))
+    .filter(line => line !== '');
+  return [`${keyword} ""`, ...lines.map(line => `"${escapePo(line)}"`)].join('\n');
+};
+
+/**
+ * Serialize translation units as a gettext PO file; each unit's key is its `msgctxt`
+ * @param units The units, one per content element
+ * @param languages Source and target language codes
+ */
+export const buildPo = (units: ITranslationUnit[], languages: { source: string; target: string }): string => {
+  const header = [
+    'msgid ""',
+    'msgstr ""',
+    '"MIME-Version: 1.0\\n"',
+    '"Content-Type: text/plain; charset=UTF-8\\n"',
+    '"Content-Transfer-Encoding: 8bit\\n"',
+    `"Language: ${escapePo(languages.target)}\\n"`,
+    `"X-Source-Language: ${escapePo(languages.source)}\\n"`,
+  ].join('\n');
+
+  const entries = units.map(unit => [
+    ...unit.notes.map(note => `#. ${note.replace(/\n/g, ' ')}`),
+    `#: ${unit.id}`,
+    poString('msgctxt', unit.key),
+    poString('msgid', unit.source),
+    poString('msgstr', unit.target),
+  ].join('\n'));
+
+  return `${[header, ...entries].join('\n\n')}\n`;
+};
+
+/**
+ * Read the entries of a PO file. Fuzzy entries count as untranslated; obsolete (`#~`) ones and plural
+ * ones (`msgid_plural`, which content elements have no counterpart for) are skipped.
+ */
+export const parsePo = (text: string): ITranslationFile => {
+  const file: ITranslationFile = { units: [] };
+  const entries = text.replace(/^\uFEFF/, '').split(/\r?\n\s*\r?\n/);
+
+  entries.forEach((entry) => {
+    const fields: Record<string, string> = {};
+    let current: string | null = null;
+    let fuzzy = false;
+
+    entry.split(/\r?\n/).forEach((rawLine) => {
+      const line = rawLine.trim();
+      if (line.startsWith('#,') && /\bfuzzy\b/.test(line)) fuzzy = true;
+      if (line === '' || line.startsWith('#')) return;
+
+      const keyword = line.match(/^(msgctxt|msgid|msgid_plural|msgstr(?:\[\d+\])?)\s+"(.*)"$/);
+      if (keyword) {
+        current = keyword[1];
+        fields[current] = unescapePo(keyword[2]);
+        return;
+      }
+
+      const continuation = line.match(/^"(.*)"$/);
+      if (continuation && current) {
+        fields[current] += unescapePo(continuation[1]);
+        return;
+      }
+
+      throw new Error(`Unexpected line "${line}"`);
+    });
+
+    if (fields.msgid === undefined || fields.msgid_plural !== undefined) return;
+
+    // The header entry carries the file's languages
+    if (fields.msgid === '' && fields.msgctxt === undefined) {
+      file.targetLanguage = fields.msgstr?.match(/^Language:\s*(.+)$/m)?.[1].trim();
+      file.sourceLanguage = fields.msgstr?.match(/^X-Source-Language:\s*(.+)$/m)?.[1].trim();
+      return;
+    }
+
+    file.units.push({
+      id: fields.msgctxt ?? fields.msgid,
+      source: fields.msgid,
+      target: fuzzy ? '' : fields.msgstr ?? '',
+    });
+  });
+
+  return file;
+};
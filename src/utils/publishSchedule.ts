@@ -0,0 +1,82 @@
+import { AppError } from '../middleware/errorHandler.middleware';
+
+/**
+ * Query filter for documents that are live right now.
+ * A passed `publishAt` counts as active even before the scheduler flips `isActive`,
+ * a future `publishAt` or a passed `unpublishAt` hides the document.
+ * @param now Reference time (defaults to the current time)
+ */
+export const scheduledActiveFilter = (now: Date = new Date()): Record<string, any> => ({
+  $and: [
+    { $or: [{ isActive: true }, { publishAt: { $lte: now } }] },
+    { $or: [{ publishAt: null }, { publishAt: { $lte: now } }] },
+    { $or: [{ unpublishAt: null }, { unpublishAt: { $gt: now } }] },
+  ],
+});
+
+/**
+ * Add the scheduled-active conditions to an existing query (keeps any `$and` it already has;
+ * a plain `isActive` condition is replaced, since a passed `publishAt` counts as active)
+ */
+export const withScheduledActive = (query: Record<string, any>, now: Date = new Date()): Record<string, any> => {
+  const rest = { ...query };
+  delete rest.isActive;
+  return {
+    ...rest,
+    $and: [...(rest.$and || []), ...scheduledActiveFilter(now).$and],
+  };
+};
+
+/**
+ * Whether a document is live right now (same rules as `scheduledActiveFilter`)
+ */
+export const isScheduledActive = (
+  doc: { isActive?: boolean; publishAt?: Date | null; unpublishAt?: Date | null },
+  now: Date = new Date()
+): boolean => {
+  const publishAt = doc.publishAt ? new Date(doc.publishAt) : null;
+  const unpublishAt = doc.unpublishAt ? new Date(doc.unpublishAt) : null;
+
+  if (publishAt && publishAt > now) return false;
+  if (unpublishAt && unpublishAt <= now) return false;
+
+  return !!doc.isActive || !!publishAt;
+};
+
+/**
+ * Validate and normalize a publish window coming from a request body.
+ * Empty values clear the schedule; invalid dates or an inverted window are rejected.
+ * @param data The incoming values
+ * @param existing The stored window, checked together with partial updates
+ * @returns Only the window fields that were present in the input
+ */
+export const normalizePublishWindow = (
+  data: { publishAt?: Date | string | null; unpublishAt?: Date | string | null },
+  existing: { publishAt?: Date | null; unpublishAt?: Date | null } = {}
+): { publishAt?: Date | null; unpublishAt?: Date | null } => {
+  const result: { publishAt?: Date | null; unpublishAt?: Date | null } = {};
+
+  (['publishAt', 'unpublishAt'] as const).forEach((field) => {
+    if (data[field] === undefined) return;
+
+    if (data[field] === null || data[field] === '') {
+      result[field] = null;
+      return;
+    }
+
+    const date = new Date(data[field] as string | Date);
+    if (isNaN(date.getTime())) {
+      throw AppError.validation(`Invalid ${field} date`);
+    }
+    result[field] = date;
+  });
+
+  const publishAt = result.publishAt !== undefined ? result.publishAt : existing.publishAt;
+  const unpublishAt = result.unpublishAt !== undefined ? result.unpublishAt : existing.unpublishAt;
+
+  if (publishAt && unpublishAt && publishAt >= unpublishAt) {
+    throw AppError.validation('unpublishAt must be later than publishAt');
+  }
+
+  return result;
+};
@@ -0,0 +1,42 @@
+import { env } from '../config/env';
+import { createResponseCacheDriver } from './responseCache';
+
+describe('memory response cache', () => {
+  const maxEntries = env.responseCache.memoryMaxEntries;
+
+  afterEach(() => {
+    env.responseCache.memoryMaxEntries = maxEntries;
+  });
+
+  it('drops only the entries stored under an invalidated tag and moves its generation on', async () => {
+    const driver = createResponseCacheDriver('memory');
+    await driver.set('home', 'a', 60, ['site:section', 'site:translation']);
+    await driver.set('about', 'b', 60, ['site:section']);
+    await driver.set('other', 'c', 60, ['other:translation']);
+
+    await expect(driver.invalidate(['site:translation'])).resolves.toBe(1);
+
+    await expect(driver.get('home', ['site:translation'])).resolves.toEqual({ value: null, generations: [1] });
+    await expect(driver.get('about', ['site:section'])).resolves.toEqual({ value: 'b', generations: [0] });
+    await expect(driver.get('other', ['other:translation'])).resolves.toEqual({ value: 'c', generations: [0] });
+  });
+
+  it('evicts the oldest entries past the limit, and they are no longer invalidated', async () => {
+    env.responseCache.memoryMaxEntries = 2;
+    const driver = createResponseCacheDriver('memory');
+    await driver.set('first', 'a', 60, ['site:section']);
+    await driver.set('second', 'b', 60, ['site:section']);
+    await driver.set('third', 'c', 60, ['site:section']);
+
+    expect((await driver.get('first', [])).value).toBeNull();
+    await expect(driver.invalidate(['site:section'])).resolves.toBe(2);
+  });
+
+  it('treats expired entries as missing', async () => {
+    const driver = createResponseCacheDriver('memory');
+    await driver.set('home', 'a', 0, ['site:section']);
+
+    expect((await driver.get('home', ['site:section'])).value).toBeNull();
+    await expect(driver.invalidate(['site:section'])).resolves.toBe(0);
+  });
+});
@@ -0,0 +1,137 @@
+import Redis from 'ioredis';
+import { env } from '../config/env';
+import logger from '../config/logger';
+import {
+  IResponseCacheDriver,
+  ResponseCacheDriverFactory,
+} from '../types/ResponseCache.type';
+
+const drivers = new Map<string, ResponseCacheDriverFactory>();
+
+/**
+ * Register (or replace) a response cache driver; it is built from `env.responseCache` when first used
+ */
+export const registerResponseCacheDriver = (name: string, factory: ResponseCacheDriverFactory): void => {
+  drivers.set(name, factory);
+};
+
+/**
+ * Build a registered driver
+ * @param name The driver name, defaults to the configured `RESPONSE_CACHE_DRIVER`
+ */
+export const createResponseCacheDriver = (name: string = env.responseCache.driver): IResponseCacheDriver => {
+  const factory = drivers.get(name);
+  if (!factory) {
+    throw new Error(`Unknown response cache driver "${name}", expected one of: ${Array.from(drivers.keys()).join(', ')}`);
+  }
+  return factory(env.responseCache);
+};
+
+// Per process, so writes served by another process are not seen; for local use and tests
+registerResponseCacheDriver('memory', (config) => {
+  const entries = new Map<string, { value: string; expiresAt: number; tags: string[] }>();
+  const tagged = new Map<string, Set<string>>();
+  const generations = new Map<string, number>();
+
+  // Drop an entry and its key from the tags it was stored under, so evicted keys do not pile up there
+  const remove = (key: string): boolean => {
+    const entry = entries.get(key);
+    if (!entry) return false;
+
+    entries.delete(key);
+    entry.tags.forEach((tag) => {
+      const keys = tagged.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) tagged.delete(tag);
+    });
+    return true;
+  };
+
+  return {
+    name: 'memory',
+    get: async (key, tags) => {
+      const entry = entries.get(key);
+      if (entry && entry.expiresAt <= Date.now()) remove(key);
+
+      return {
+        value: entries.get(key)?.value ?? null,
+        generations: tags.map(tag => generations.get(tag) || 0),
+      };
+    },
+    set: async (key, value, ttlSeconds, tags) => {
+      // Re-inserting keeps the map in write order, oldest first
+      remove(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000, tags });
+      tags.forEach((tag) => {
+        if (!tagged.has(tag)) tagged.set(tag, new Set());
+        tagged.get(tag).add(key);
+      });
+
+      while (entries.size > config.memoryMaxEntries) {
+        remove(entries.keys().next().value);
+      }
+    },
+    invalidate: async (tags) => {
+      let deleted = 0;
+      tags.forEach((tag) => {
+        generations.set(tag, (generations.get(tag) || 0) + 1);
+        Array.from(tagged.get(tag) || []).forEach((key) => {
+          if (remove(key)) deleted++;
+        });
+      });
+      return deleted;
+    },
+    close: async () => {
+      entries.clear();
+      tagged.clear();
+    },
+  };
+});
+
+// Shared by every process: `<prefix><key>` holds an entry, `<prefix>tag:<tag>` the keys stored
+// under a tag and `<prefix>generation:<tag>` its generation
+registerResponseCacheDriver('redis', (config) => {
+  if (!config.redisUrl) {
+    throw new Error('REDIS_URL is not set');
+  }
+
+  // Without a connection commands fail at once, and reads fall through to the database
+  const redis = new Redis(config.redisUrl, { enableOfflineQueue: false, maxRetriesPerRequest: 1 });
+  redis.on('error', (error) => {
+    logger.warn(`Response cache Redis error: ${error.message}`);
+  });
+
+  const tagKey = (tag: string) => `${config.keyPrefix}tag:${tag}`;
+  const generationKey = (tag: string) => `${config.keyPrefix}generation:${tag}`;
+
+  return {
+    name: 'redis',
+    get: async (key, tags) => {
+      const [value, current] = await Promise.all([
+        redis.get(`${config.keyPrefix}${key}`),
+        tags.length ? redis.mget(tags.map(generationKey)) : Promise.resolve([] as string[]),
+      ]);
+      return { value, generations: current.map(generation => parseInt(generation || '0', 10)) };
+    },
+    set: async (key, value, ttlSeconds, tags) => {
+      const pipeline = redis.multi().set(`${config.keyPrefix}${key}`, value, 'EX', ttlSeconds);
+      tags.forEach(tag => pipeline.sadd(tagKey(tag), key).expire(tagKey(tag), ttlSeconds));
+      await pipeline.exec();
+    },
+    invalidate: async (tags) => {
+      if (tags.length === 0) return 0;
+
+      const members = await redis.pipeline(tags.map(tag => ['smembers', tagKey(tag)])).exec();
+      const keys = Array.from(new Set([].concat(...members.map(([, result]) => (result as string[]) || []))));
+
+      const pipeline = redis.multi();
+      if (keys.length) pipeline.del(...keys.map(key => `${config.keyPrefix}${key}`));
+      tags.forEach(tag => pipeline.del(tagKey(tag)).incr(generationKey(tag)));
+      await pipeline.exec();
+      return keys.length;
+    },
+    close: async () => {
+      await redis.quit();
+    },
+  };
+});
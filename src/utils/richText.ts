@@ -0,0 +1,152 @@
+import { Request } from 'express';
+import sanitizeHtml from 'sanitize-html';
+import { marked, Token } from 'marked';
+
+export type RichTextFormat = 'html' | 'markdown';
+
+// The formatted-text subset editors may use; everything else is stripped
+const RICH_TEXT_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'strong', 'b', 'em', 'i', 'u', 's', 'del', 'sub', 'sup', 'mark', 'span',
+    'ul', 'ol', 'li', 'blockquote', 'code', 'pre', 'a',
+  ],
+  allowedAttributes: {
+    a: ['href', 'title', 'target', 'rel'],
+    ol: ['start'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto', 'tel'],
+  allowProtocolRelative: false,
+  transformTags: {
+    // Links opening a new tab must not get access to the opener
+    a: (tagName, attribs) => ({
+      tagName,
+      attribs: attribs.target === '_blank' ? { ...attribs, rel: 'noopener noreferrer' } : attribs,
+    }),
+  },
+};
+
+// A single opening or closing tag, as Markdown inline HTML comes one tag at a time
+const SINGLE_TAG = /^<(\/?)([a-z][a-z0-9]*)\b[^>]*>$/i;
+
+/**
+ * Format of a rich text element, taken from its `metadata.format` (HTML unless set to Markdown)
+ */
+export const getRichTextFormat = (element: { metadata?: any } | null | undefined): RichTextFormat =>
+  element?.metadata?.format === 'markdown' ? 'markdown' : 'html';
+
+/**
+ * Sanitize rich text before it is stored.
+ * HTML is reduced to the allowlist; Markdown keeps its syntax and only loses embedded HTML
+ * that is not on the allowlist.
+ * @param source The content as written by the editor
+ * @param format HTML or Markdown
+ * @returns The source to store
+ */
+export const sanitizeRichText = (source: string, format: RichTextFormat = 'html'): string => {
+  if (format === 'html') {
+    return sanitizeHtml(source, RICH_TEXT_OPTIONS).trim();
+  }
+
+  // Only raw HTML tokens are touched, so code spans, quotes and entities stay as written
+  const htmlTokens: Token[] = [];
+  marked.walkTokens(marked.lexer(source), (token) => {
+    if (token.type === 'html') htmlTokens.push(token);
+  });
+
+  let result = '';
+  let cursor = 0;
+
+  htmlTokens.forEach((token) => {
+    const index = source.indexOf(token.raw, cursor);
+    if (index === -1) return;
+
+    result += source.slice(cursor, index) + sanitizeMarkdownHtml(token);
+    cursor = index + token.raw.length;
+  });
+
+  return (result + source.slice(cursor)).trim();
+};
+
+const sanitizeMarkdownHtml = (token: Token): string => {
+  const raw = token.raw.trim();
+  const trailing = token.raw.slice(token.raw.trimEnd().length);
+  const singleTag = raw.match(SINGLE_TAG);
+
+  if (!singleTag) {
+    return sanitizeHtml(raw, RICH_TEXT_OPTIONS) + trailing;
+  }
+
+  const [, closing, tagName] = singleTag;
+  const tag = tagName.toLowerCase();
+  if (!(RICH_TEXT_OPTIONS.allowedTags as string[]).includes(tag)) return '';
+  if (closing) return `</${tag}>` + trailing;
+  if (sanitizeHtml.defaults.selfClosing.includes(tag)) return sanitizeHtml(raw, RICH_TEXT_OPTIONS) + trailing;
+
+  // Sanitized with a closing tag added, which is then removed again
+  return sanitizeHtml(`${raw}</${tag}>`, RICH_TEXT_OPTIONS).replace(new RegExp(`</${tag}>$`), '') + trailing;
+};
+
+/**
+ * Render stored rich text to safe HTML
+ * @param source The stored source
+ * @param format HTML or Markdown
+ */
+export const renderRichText = (source: string, format: RichTextFormat = 'html'): string => {
+  if (!source) return '';
+
+  const html = format === 'markdown' ? (marked.parse(source, { async: false }) as string) : source;
+  return sanitizeHtml(html, RICH_TEXT_OPTIONS).trim();
+};
+
+/**
+ * Whether the client asked for rendered rich text (`?richText=html`) instead of the stored source
+ */
+export const wantsRenderedRichText = (req: Request): boolean => req.query.richText === 'html';
+
+/**
+ * Render rich text in a response payload when the client asked for HTML
+ */
+export const withRichTextOutput = <T>(req: Request, data: T): T =>
+  wantsRenderedRichText(req) ? renderRichTextIn(data) : data;
+
+/**
+ * Replace the source of every rich text translation in a response with rendered HTML.
+ * Handles elements carrying `translations`, `translation` or `value`, and translations
+ * with a populated `contentElement`.
+ * @param data Any response payload (documents are converted to plain objects)
+ */
+export const renderRichTextIn = <T>(data: T): T => renderValue(data, null) as T;
+
+const renderValue = (value: any, richTextElement: { metadata?: any } | null): any => {
+  if (Array.isArray(value)) {
+    return value.map(item => renderValue(item, richTextElement));
+  }
+
+  if (!value || typeof value !== 'object' || value instanceof Date || value._bsontype) {
+    return value;
+  }
+
+  const plain = typeof value.toObject === 'function' ? value.toObject() : value;
+
+  // A translation of a rich text element (given by its parent or its populated element)
+  const element = plain.contentElement?.type === 'richtext' ? plain.contentElement : richTextElement;
+  if (element && typeof plain.content === 'string') {
+    return { ...plain, content: renderRichText(plain.content, getRichTextFormat(element)) };
+  }
+
+  const result: Record<string, any> = {};
+  const isRichTextElement = plain.type === 'richtext';
+
+  Object.entries(plain).forEach(([key, child]) => {
+    if (isRichTextElement && key === 'value' && typeof child === 'string') {
+      result[key] = renderRichText(child, getRichTextFormat(plain));
+    } else if (isRichTextElement && (key === 'translations' || key === 'translation')) {
+      result[key] = renderValue(child, plain);
+    } else {
+      result[key] = renderValue(child, null);
+    }
+  });
+
+  return result;
+};
@@ -143,5 +143,6 @@ export class SessionManager {
   }
 }
 
-export const withDatabaseTransaction = SessionManager.withTransaction;
-export const withDatabaseSession = SessionManager.withSession;
\ No newline at end of file
+// Bound, since the helpers reach the other statics through `this`
+export const withDatabaseTransaction = SessionManager.withTransaction.bind(SessionManager) as typeof SessionManager.withTransaction;
+export const withDatabaseSession = SessionManager.withSession.bind(SessionManager) as typeof SessionManager.withSession;
\ No newline at end of file
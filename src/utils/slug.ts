@@ -0,0 +1,57 @@
+// Latin spellings of letters NFKD does not decompose into ASCII (Turkish, Nordic, German, ...)
+const LATIN: Record<string, string> = {
+  ı: 'i', ß: 'ss', æ: 'ae', ø: 'o', œ: 'oe', ð: 'd', þ: 'th', ł: 'l', đ: 'd', ħ: 'h', ŋ: 'ng',
+};
+
+const CYRILLIC: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'yo', ж: 'zh', з: 'z', и: 'i', й: 'y', к: 'k',
+  л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f', х: 'kh', ц: 'ts',
+  ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya',
+  є: 'ye', і: 'i', ї: 'yi', ґ: 'g',
+};
+
+const GREEK: Record<string, string> = {
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i', κ: 'k', λ: 'l', μ: 'm',
+  ν: 'n', ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's', ς: 's', τ: 't', υ: 'y', φ: 'f', χ: 'ch', ψ: 'ps', ω: 'o',
+};
+
+// Arabic and Persian consonants; short vowels are not written, so none are added
+const ARABIC: Record<string, string> = {
+  ا: 'a', أ: 'a', إ: 'i', آ: 'a', ء: '', ؤ: 'u', ئ: 'i', ب: 'b', ت: 't', ث: 'th', ج: 'j', ح: 'h',
+  خ: 'kh', د: 'd', ذ: 'dh', ر: 'r', ز: 'z', س: 's', ش: 'sh', ص: 's', ض: 'd', ط: 't', ظ: 'z',
+  ع: 'a', غ: 'gh', ف: 'f', ق: 'q', ك: 'k', ل: 'l', م: 'm', ن: 'n', ه: 'h', ة: 'a', و: 'w', ي: 'y',
+  ى: 'a', پ: 'p', چ: 'ch', ژ: 'zh', گ: 'g', ک: 'k', ی: 'y',
+};
+
+const HEBREW: Record<string, string> = {
+  א: 'a', ב: 'b', ג: 'g', ד: 'd', ה: 'h', ו: 'v', ז: 'z', ח: 'ch', ט: 't', י: 'y', כ: 'k', ך: 'k',
+  ל: 'l', מ: 'm', ם: 'm', נ: 'n', ן: 'n', ס: 's', ע: 'a', פ: 'p', ף: 'f', צ: 'ts', ץ: 'ts', ק: 'k',
+  ר: 'r', ש: 'sh', ת: 't',
+};
+
+const TRANSLITERATION: Record<string, string> = { ...LATIN, ...CYRILLIC, ...GREEK, ...ARABIC, ...HEBREW };
+
+// Combining marks (left by NFKD, Arabic harakat, Hebrew points) and the Arabic tatweel
+const MARKS = /[\p{M}\u0640]/gu;
+
+/**
+ * Turn a text into a URL slug, transliterating Arabic, Cyrillic, Greek, Hebrew and accented Latin
+ * letters to ASCII (`Hakkımızda` → `hakkimizda`, `من نحن` → `mn-nhn`)
+ * @param text The text to slugify
+ * @returns The slug, or an empty string when nothing in the text can be spelled in ASCII
+ */
+export const slugify = (text: unknown): string => {
+  if (typeof text !== 'string') return '';
+
+  return text
+    // Before lowercasing: the Turkish dotted capital I would otherwise leave a stray dot
+    .replace(/İ/g, 'i')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(MARKS, '')
+    .split('')
+    .map(char => TRANSLITERATION[char] ?? char)
+    .join('')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
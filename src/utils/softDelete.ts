@@ -0,0 +1,64 @@
+import { Aggregate, MongooseQueryMiddleware, Query, Schema } from 'mongoose';
+
+// Query hooks that hide trashed documents
+const FILTERED_QUERIES: MongooseQueryMiddleware[] = [
+  'find',
+  'findOne',
+  'countDocuments',
+  'distinct',
+  'findOneAndUpdate',
+  'updateOne',
+  'updateMany',
+];
+
+/**
+ * Schema plugin for the trash bin.
+ * Adds `deletedAt` / `deletedBy` / `trashBatch` and hides trashed documents from every query,
+ * unless the filter names `deletedAt` itself or the query is run with `{ withTrashed: true }`.
+ * Deletes are never filtered, so purging works on trashed documents as usual.
+ */
+export const softDeletePlugin = (schema: Schema): void => {
+  schema.add({
+    deletedAt: {
+      type: Date,
+      default: null,
+      index: true,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    // Groups everything trashed by the same delete, so it is restored and purged together
+    trashBatch: {
+      type: Schema.Types.ObjectId,
+      ref: 'TrashEntry',
+      default: null,
+      index: true,
+    },
+  });
+
+  schema.pre(FILTERED_QUERIES, function (this: Query<any, any>) {
+    const options = this.getOptions();
+    if (options.withTrashed) {
+      delete options.withTrashed;
+      return;
+    }
+
+    if (!('deletedAt' in this.getFilter())) {
+      this.where({ deletedAt: null });
+    }
+  });
+
+  schema.pre('aggregate', function (this: Aggregate<any>) {
+    const [first] = this.pipeline() as any[];
+    if (first?.$match && 'deletedAt' in first.$match) return;
+
+    this.pipeline().unshift({ $match: { deletedAt: null } });
+  });
+};
+
+/**
+ * Filter for documents that are in the trash
+ */
+export const trashedFilter = (): Record<string, any> => ({ deletedAt: { $ne: null } });
@@ -0,0 +1,19 @@
+import { editDistance, normalizeText, similarity } from './textSimilarity';
+
+describe('textSimilarity', () => {
+  it('normalizes markup, entities, whitespace and case', () => {
+    expect(normalizeText('  <p>Hello&nbsp;<b>World</b> &amp; co</p> ')).toBe('hello world & co');
+  });
+
+  it('stops computing the distance past the bound', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('abcdefgh', 'zyxwvuts', 2)).toBeGreaterThan(2);
+  });
+
+  it('scores only texts at or above the minimum score', () => {
+    expect(similarity('save changes', 'save changes')).toBe(100);
+    expect(similarity('save changes', 'save change', 90)).toBe(91.7);
+    expect(similarity('save changes', 'discard all', 50)).toBe(0);
+    expect(similarity('a'.repeat(600), `${'a'.repeat(599)}b`)).toBe(0);
+  });
+});
@@ -0,0 +1,66 @@
+// Texts longer than this are only matched exactly; edit distance grows with the product of both lengths
+const MAX_FUZZY_LENGTH = 500;
+
+/**
+ * Normalize a text for matching: markup and entities dropped, whitespace collapsed, lower case
+ */
+export const normalizeText = (text: string): string => `${text ?? ''}`
+  .replace(/<[^>]*>/g, ' ')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&(lt|gt|amp|quot|#39);/g, (entity, name) => ({ lt: '<', gt: '>', amp: '&', quot: '"', '#39': "'" } as Record<string, string>)[name])
+  .replace(/\s+/g, ' ')
+  .trim()
+  .toLowerCase();
+
+/**
+ * Levenshtein distance, keeping a single row in memory
+ * @param maxDistance Stop once the distance is known to exceed this, returning a value above it
+ */
+export const editDistance = (a: string, b: string, maxDistance: number = Infinity): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMinimum = Math.min(rowMinimum, current[j]);
+    }
+    // No later row can get below the smallest value of this one
+    if (rowMinimum > maxDistance) return rowMinimum;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Similarity of two normalized texts as a 0-100 score; only identical texts score 100, however close
+ * the others are. Returns 0 when the texts score below `minScore`, without computing the distance when
+ * the lengths alone rule it out, and stopping the distance once it does.
+ */
+export const similarity = (a: string, b: string, minScore: number = 0): number => {
+  if (a === b) return 100;
+
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 100;
+  if (longest > MAX_FUZZY_LENGTH) return 0;
+
+  // The distance is at least the length difference
+  const bestPossible = (1 - Math.abs(a.length - b.length) / longest) * 100;
+  if (bestPossible < minScore) return 0;
+
+  const maxDistance = Math.floor((1 - minScore / 100) * longest);
+  const distance = editDistance(a, b, maxDistance);
+  if (distance > maxDistance) return 0;
+
+  return Math.min(99.9, Math.round((1 - distance / longest) * 1000) / 10);
+};
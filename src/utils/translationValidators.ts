@@ -0,0 +1,136 @@
+import { AppError } from '../middleware/errorHandler.middleware';
+import { getRichTextFormat, sanitizeRichText } from './richText';
+
+/**
+ * Checks translation content for one element type.
+ * Returns the content to store (normalized where needed) or throws with a readable reason.
+ */
+export type TranslationContentValidator = (content: string, element: { type: string; metadata?: any }) => string;
+
+interface ITranslationValidatorOptions {
+  // Validate the content as the client sent it, before the global xss() escaping
+  rawInput?: boolean;
+}
+
+const validators = new Map<string, { validator: TranslationContentValidator; options: ITranslationValidatorOptions }>();
+
+/**
+ * Register (or replace) the content validator for an element type
+ */
+export const registerTranslationValidator = (
+  type: string,
+  validator: TranslationContentValidator,
+  options: ITranslationValidatorOptions = {}
+): void => {
+  validators.set(type, { validator, options });
+};
+
+/**
+ * Validate translation content against the type of its content element.
+ * Element types without a registered validator accept any string.
+ * @param element The content element (its pending draft type wins, as that is what editors work on)
+ * @param content The incoming content
+ * @param rawContent The same content before request sanitization, used by `rawInput` validators
+ * @returns The content to store
+ */
+export const validateTranslationContent = (
+  element: { type: string; metadata?: any; draft?: { type?: string; metadata?: any } },
+  content: unknown,
+  rawContent?: unknown
+): string => {
+  const type = element.draft?.type || element.type;
+  const entry = validators.get(type);
+
+  if (entry?.options.rawInput && typeof rawContent === 'string') {
+    content = rawContent;
+  }
+
+  // Structured values sent as JSON are stored as their string form
+  const value = typeof content === 'string' ? content : toContentString(content, type);
+
+  // Emptiness is left to the schema (`content` is required)
+  if (value.trim() === '') return value;
+
+  if (!entry) return value;
+
+  try {
+    return entry.validator(value, { type, metadata: element.draft?.metadata || element.metadata });
+  } catch (error) {
+    throw AppError.validation(`Invalid content for ${type} element: ${error.message}`);
+  }
+};
+
+const toContentString = (content: unknown, type: string): string => {
+  if (content === undefined || content === null) return '';
+  if (typeof content === 'number' || typeof content === 'boolean') return String(content);
+  if (typeof content === 'object') return JSON.stringify(content);
+
+  throw AppError.validation(`Invalid content for ${type} element: expected a string`);
+};
+
+const isUrl = (value: string, protocols: string[]): boolean => {
+  // Site-relative paths and anchors are resolved by the frontend
+  if (value.startsWith('/') || value.startsWith('#')) return true;
+
+  try {
+    return protocols.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const parseJsonArray = (value: string): any[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error('expected a JSON array');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('expected a JSON array');
+  }
+  return parsed;
+};
+
+registerTranslationValidator('boolean', (content) => {
+  const value = content.trim().toLowerCase();
+  if (value !== 'true' && value !== 'false') {
+    throw new Error('expected "true" or "false"');
+  }
+  return value;
+});
+
+registerTranslationValidator('link', (content) => {
+  if (!isUrl(content.trim(), ['http:', 'https:', 'mailto:', 'tel:'])) {
+    throw new Error('expected an http(s), mailto: or tel: URL, or a site-relative path');
+  }
+  return content.trim();
+});
+
+(['image', 'video', 'file'] as const).forEach((type) => {
+  registerTranslationValidator(type, (content) => {
+    if (!isUrl(content.trim(), ['http:', 'https:'])) {
+      throw new Error('expected an http(s) URL or a site-relative path');
+    }
+    return content.trim();
+  });
+});
+
+(['array', 'list'] as const).forEach((type) => {
+  registerTranslationValidator(type, (content) => {
+    // Re-serialized so the frontend always receives compact, valid JSON
+    return JSON.stringify(parseJsonArray(content));
+  });
+});
+
+// Sanitized here instead of by xss(), which would escape the allowed markup
+registerTranslationValidator(
+  'richtext',
+  (content, element) => sanitizeRichText(content, getRichTextFormat(element)),
+  { rawInput: true }
+);
+
+registerTranslationValidator('reference', () => {
+  throw new Error('reference elements show a shared block; translate the block\'s own elements instead');
+});
@@ -0,0 +1,71 @@
+import { Types } from 'mongoose';
+import { AppError } from '../middleware/errorHandler.middleware';
+import WebSiteModel from '../models/WebSite.model';
+import WebSiteUserModel from '../models/webSiteUser.model';
+import LanguagesModel from '../models/languages.model';
+
+/**
+ * Make sure the website exists and the user is one of its members
+ * @throws AppError validation for a malformed ID, not found for an unknown website, authorization for non-members
+ */
+export const assertWebSiteMember = async (webSiteId: string, userId?: string): Promise<void> => {
+  if (!Types.ObjectId.isValid(webSiteId)) {
+    throw AppError.validation('Invalid website ID format');
+  }
+
+  const [website, member] = await Promise.all([
+    WebSiteModel.exists({ _id: webSiteId }),
+    WebSiteUserModel.exists({ webSiteId, userId }),
+  ]);
+  if (!website) {
+    throw AppError.notFound(`Website with ID ${webSiteId} not found`);
+  }
+  if (!member) {
+    throw AppError.authorization('You do not have access to this website');
+  }
+};
+
+/**
+ * A language of the website, by its code (`languageID`)
+ * @throws AppError validation without a code, not found when the website has no such language
+ */
+export const getWebSiteLanguage = async (
+  webSiteId: string,
+  languageID: string
+): Promise<{ _id: Types.ObjectId; languageID: string }> => {
+  if (!languageID) {
+    throw AppError.validation('Language code is required');
+  }
+
+  const language = await LanguagesModel.findOne({ websiteId: webSiteId, languageID })
+    .select('_id languageID')
+    .lean<{ _id: Types.ObjectId; languageID: string }>();
+  if (!language) {
+    throw AppError.notFound(`Language "${languageID}" not found in website ${webSiteId}`);
+  }
+
+  return language;
+};
+
+/**
+ * Whether the user is a member of every one of the given websites
+ * @param userId The user ID
+ * @param webSiteIds The website IDs (duplicates are ignored)
+ */
+export const isMemberOfAll = async (userId: string | undefined, webSiteIds: string[]): Promise<boolean> => {
+  const ids = Array.from(new Set(webSiteIds.map(id => id.toString())));
+  if (!userId || ids.length === 0 || !ids.every(id => Types.ObjectId.isValid(id))) return false;
+
+  const members = await WebSiteUserModel.countDocuments({ userId, webSiteId: { $in: ids } });
+  return members === ids.length;
+};
+
+/**
+ * IDs of the websites the user is a member of
+ */
+export const memberWebSiteIds = async (userId: string | undefined): Promise<string[]> => {
+  if (!userId) return [];
+
+  const webSiteIds = await WebSiteUserModel.distinct('webSiteId', { userId });
+  return webSiteIds.map(id => id.toString());
+};
@@ -0,0 +1,54 @@
+import { buildXliff, parseXliff } from './xliff';
+
+const document = (units: string) => [
+  '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+  '  <file original="site" source-language="en" target-language="ar" datatype="plaintext"><body>',
+  units,
+  '  </body></file>',
+  '</xliff>',
+].join('\n');
+
+describe('XLIFF', () => {
+  it('reads back the units it writes', () => {
+    const xml = buildXliff(
+      [{ id: 'e1', key: 'home.title', name: 'title', type: 'text', source: 'Fish & <Chips>', target: 'سمك', notes: ['Title'] }],
+      { source: 'en', target: 'ar' },
+      '2.0',
+      'site'
+    );
+
+    expect(parseXliff(xml)).toEqual({
+      sourceLanguage: 'en',
+      targetLanguage: 'ar',
+      units: [{ id: 'e1', source: 'Fish & <Chips>', target: 'سمك' }],
+    });
+  });
+
+  it('decodes character references', () => {
+    const file = parseXliff(document('<trans-unit id="e1"><source>&#x263A; &#65;</source><target>&#x1F600;</target></trans-unit>'));
+
+    expect(file.units).toEqual([{ id: 'e1', source: '☺ A', target: '😀' }]);
+  });
+
+  it('reports units with references to characters XML does not allow, and keeps reading the others', () => {
+    const file = parseXliff(document([
+      '<trans-unit id="e1"><source>a</source><target>&#x110000;</target></trans-unit>',
+      '<trans-unit id="e2"><source>b</source><target>&#99999999999;</target></trans-unit>',
+      '<trans-unit id="e3"><source>c</source><target>&#0;</target></trans-unit>',
+      '<trans-unit id="e4"><source>d</source><target>&#xD800;</target></trans-unit>',
+      '<trans-unit id="e5"><source>e</source><target>ok</target></trans-unit>',
+    ].join('\n')));
+
+    expect(file.units).toEqual([
+      { id: 'e1', target: '', error: 'invalid character reference &#x110000;' },
+      { id: 'e2', target: '', error: 'invalid character reference &#99999999999;' },
+      { id: 'e3', target: '', error: 'invalid character reference &#0;' },
+      { id: 'e4', target: '', error: 'invalid character reference &#xD800;' },
+      { id: 'e5', source: 'e', target: 'ok' },
+    ]);
+  });
+
+  it('refuses a document whose attributes hold invalid character references', () => {
+    expect(() => parseXliff('<xliff version="&#x110000;"></xliff>')).toThrow('invalid character reference &#x110000;');
+  });
+});
@@ -0,0 +1,173 @@
+import { ITranslationFile, ITranslationUnit, XliffVersion } from '../types/TranslationExchange.type';
+
+export const XLIFF_VERSIONS: XliffVersion[] = ['1.2', '2.0'];
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// Characters XML allows: tab, line breaks, and everything else past the controls but surrogates and U+FFFE/U+FFFF
+const isXmlChar = (code: number): boolean =>
+  code === 0x9 || code === 0xA || code === 0xD
+  || (code >= 0x20 && code <= 0xD7FF)
+  || (code >= 0xE000 && code <= 0xFFFD)
+  || (code >= 0x10000 && code <= 0x10FFFF);
+
+const decodeCharReference = (reference: string, digits: string, radix: number): string => {
+  const code = parseInt(digits, radix);
+  if (!isXmlChar(code)) {
+    throw new Error(`invalid character reference ${reference}`);
+  }
+  return String.fromCodePoint(code);
+};
+
+/**
+ * Text content of an element: CDATA kept as is, entities decoded.
+ * Inline codes (`<g>`, `<ph>`, ...) and references to characters XML does not allow are refused,
+ * as content elements hold plain strings.
+ */
+const readText = (inner: string): string => inner
+  .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+  .map((part) => {
+    if (part.startsWith('<![CDATA[')) return part.slice(9, -3);
+    if (/<[a-zA-Z/]/.test(part)) {
+      throw new Error('inline markup is not supported');
+    }
+    return part
+      .replace(/&#x([0-9a-f]+);/gi, (reference, hex) => decodeCharReference(reference, hex, 16))
+      .replace(/&#(\d+);/g, (reference, dec) => decodeCharReference(reference, dec, 10))
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, '\'')
+      .replace(/&amp;/g, '&');
+  })
+  .join('');
+
+const readAttribute = (attributes: string, name: string): string | undefined => {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  return match ? readText(match[2] ?? match[3]) : undefined;
+};
+
+// Contents of every `<tag>` in the fragment; self-closing ones count as empty
+const readElements = (fragment: string, tag: string): string[] => {
+  const pattern = new RegExp(`<${tag}\\b[^>]*?(?:/>|>([\\s\\S]*?)</${tag}>)`, 'g');
+  const contents: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(fragment)) !== null) {
+    contents.push(match[1] || '');
+  }
+  return contents;
+};
+
+/**
+ * Serialize translation units as an XLIFF 1.2 or 2.0 document
+ * @param units The units, one per content element
+ * @param languages Source and target language codes
+ * @param version XLIFF version
+ * @param original Name of the original resource (the website)
+ */
+export const buildXliff = (
+  units: ITranslationUnit[],
+  languages: { source: string; target: string },
+  version: XliffVersion,
+  original: string
+): string => {
+  const source = escapeXml(languages.source);
+  const target = escapeXml(languages.target);
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+
+  if (version === '2.0') {
+    lines.push(
+      `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${source}" trgLang="${target}">`,
+      `  <file id="f1" original="${escapeXml(original)}">`
+    );
+    units.forEach((unit) => {
+      lines.push(`    <unit id="${escapeXml(unit.id)}" name="${escapeXml(unit.key)}">`);
+      if (unit.notes.length > 0) {
+        lines.push('      <notes>');
+        unit.notes.forEach(note => lines.push(`        <note category="context">${escapeXml(note)}</note>`));
+        lines.push('      </notes>');
+      }
+      lines.push(
+        '      <segment>',
+        `        <source>${escapeXml(unit.source)}</source>`,
+        `        <target>${escapeXml(unit.target)}</target>`,
+        '      </segment>',
+        '    </unit>'
+      );
+    });
+    lines.push('  </file>', '</xliff>');
+  } else {
+    lines.push(
+      '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+      `  <file original="${escapeXml(original)}" source-language="${source}" target-language="${target}" datatype="plaintext">`,
+      '    <body>'
+    );
+    units.forEach((unit) => {
+      lines.push(
+        `      <trans-unit id="${escapeXml(unit.id)}" resname="${escapeXml(unit.key)}">`,
+        `        <source>${escapeXml(unit.source)}</source>`,
+        `        <target${unit.target ? '' : ' state="needs-translation"'}>${escapeXml(unit.target)}</target>`
+      );
+      unit.notes.forEach(note => lines.push(`        <note from="context">${escapeXml(note)}</note>`));
+      lines.push('      </trans-unit>');
+    });
+    lines.push('    </body>', '  </file>', '</xliff>');
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Read the units of an XLIFF 1.2 or 2.0 document. Segmented 2.0 units are joined back into one string.
+ * @throws Error when the document is not XLIFF or uses an unsupported version
+ */
+export const parseXliff = (xml: string): ITranslationFile => {
+  const root = xml.match(/<xliff\b([^>]*)>/);
+  if (!root) {
+    throw new Error('Not an XLIFF document');
+  }
+
+  const version = readAttribute(root[1], 'version');
+  if (!XLIFF_VERSIONS.includes(version as XliffVersion)) {
+    throw new Error(`Unsupported XLIFF version ${version}, expected ${XLIFF_VERSIONS.join(' or ')}`);
+  }
+
+  const file: ITranslationFile = { units: [] };
+  const unitTag = version === '2.0' ? 'unit' : 'trans-unit';
+
+  if (version === '2.0') {
+    file.sourceLanguage = readAttribute(root[1], 'srcLang');
+    file.targetLanguage = readAttribute(root[1], 'trgLang');
+  } else {
+    const fileAttributes = xml.match(/<file\b([^>]*)>/)?.[1] || '';
+    file.sourceLanguage = readAttribute(fileAttributes, 'source-language');
+    file.targetLanguage = readAttribute(fileAttributes, 'target-language');
+  }
+
+  const pattern = new RegExp(`<${unitTag}\\b([^>]*)>([\\s\\S]*?)</${unitTag}>`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    const id = readAttribute(match[1], 'id') || '';
+    // Notes are not content; dropping them keeps their markup out of the segments
+    const body = match[2]
+      .replace(/<notes\b[\s\S]*?<\/notes>/g, '')
+      .replace(/<note\b[\s\S]*?<\/note>/g, '');
+
+    try {
+      file.units.push({
+        id,
+        source: readElements(body, 'source').map(readText).join(''),
+        target: readElements(body, 'target').map(readText).join(''),
+      });
+    } catch (error) {
+      file.units.push({ id, target: '', error: error.message });
+    }
+  }
+
+  return file;
+};